@@ -3,7 +3,7 @@
  * Uses NansenData for MCP-first architecture with API fallback
  */
 
-import { NansenData, createData, type MarketOverviewOptions } from './data.js';
+import { NansenData, createData, type DataConfig, type MarketOverviewOptions } from './data.js';
 import type { NansenClient } from './api.js';
 import type { NansenMcp } from './mcp.js';
 import type {
@@ -37,8 +37,8 @@ export class NansenAgent {
   public get api(): NansenClient { return this.data.api; }
   public get mcp(): NansenMcp { return this.data.mcp; }
 
-  constructor(apiKey?: string) {
-    this.data = createData({ apiKey });
+  constructor(config?: string | DataConfig) {
+    this.data = createData(typeof config === 'string' ? { apiKey: config } : config);
   }
 
   /**
@@ -189,8 +189,8 @@ export class NansenAgent {
   async getPolymarketOverview(analyzeContracts?: boolean) { return this.data.getPolymarketOverview(analyzeContracts); }
 }
 
-export function createAgent(apiKey?: string): NansenAgent {
-  return new NansenAgent(apiKey);
+export function createAgent(config?: string | DataConfig): NansenAgent {
+  return new NansenAgent(config);
 }
 
 export default NansenAgent;
@@ -24,8 +24,38 @@ import type {
   OpportunityScanRequest,
   ApiError,
 } from './types.js';
+import {
+  withRetry,
+  resolveRetryPolicy,
+  parseRetryAfter,
+  type RetryPolicy,
+  type RetryHook,
+} from './retry.js';
+import { HttpTransport, type TransportOptions } from './transport.js';
+import { paginate, type PageIterationOptions } from './paginate.js';
+import type { CreditLedger } from './credits.js';
+import { callNode, groupNode, type CallPlanNode } from './estimate.js';
+import { recordCall } from './provenance.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import type { BreakerSettings } from './routing.js';
+import {
+  netflowAcceleration,
+  isAccelerating,
+  countFreshWallets,
+  FRESH_WALLET_CANDIDATES,
+  type NetflowAcceleration,
+  type FreshWalletActivity,
+} from './scan.js';
+import { scoreNetflow } from './scoring.js';
+import {
+  validateRows,
+  type RowSchema,
+  type SchemaIssue,
+  type ValidationOptions,
+} from './schema.js';
 
 const DEFAULT_BASE_URL = 'https://api.nansen.ai/api/v1';
+const DEFAULT_PAGE_SIZE = 100;
 
 // =============================================================================
 // Raw API Response Types
@@ -144,6 +174,141 @@ interface RawApiResponse<T> {
   data: T;
 }
 
+// Runtime schemas for the raw rows above - only fields the normalizers
+// can't do without are required, the rest are type-checked when present
+const RAW_SCHEMAS = {
+  netflow: {
+    name: '/smart-money/netflow',
+    fields: {
+      token_address: 'string',
+      token_symbol: 'string',
+      chain: 'string',
+      net_flow_1h_usd: 'number?',
+      net_flow_24h_usd: 'number',
+      net_flow_7d_usd: 'number?',
+      net_flow_30d_usd: 'number?',
+      token_sectors: 'string[]?',
+      trader_count: 'number',
+      token_age_days: 'number?',
+      market_cap_usd: 'number?',
+    },
+  },
+  holdings: {
+    name: '/smart-money/holdings',
+    fields: {
+      token_address: 'string',
+      token_symbol: 'string',
+      chain: 'string',
+      holder_count: 'number',
+      total_balance_usd: 'number',
+      balance_change_24h_usd: 'number?',
+      balance_change_7d_usd: 'number?',
+      market_cap_usd: 'number?',
+    },
+  },
+  smartMoneyDexTrades: {
+    name: '/smart-money/dex-trades',
+    fields: {
+      token_address: 'string',
+      token_symbol: 'string',
+      chain: 'string',
+      buy_volume_usd: 'number',
+      sell_volume_usd: 'number',
+      net_volume_usd: 'number',
+      buy_count: 'number?',
+      sell_count: 'number?',
+      unique_traders: 'number?',
+    },
+  },
+  holders: {
+    name: '/tgm/holders',
+    fields: {
+      address: 'string',
+      address_label: 'string?',
+      token_amount: 'number?',
+      total_inflow: 'number?',
+      total_outflow: 'number?',
+      balance_change_24h: 'number?',
+      balance_change_7d: 'number?',
+      balance_change_30d: 'number?',
+      ownership_percentage: 'number',
+      value_usd: 'number',
+    },
+  },
+  flows: {
+    name: '/tgm/flows',
+    fields: {
+      entity: 'string',
+      entity_label: 'string?',
+      inflow_usd: 'number',
+      outflow_usd: 'number',
+      net_flow_usd: 'number',
+      transaction_count: 'number?',
+    },
+  },
+  dexTrades: {
+    name: '/tgm/dex-trades',
+    fields: {
+      tx_hash: 'string',
+      timestamp: 'string',
+      trader_address: 'string',
+      trader_label: 'string?',
+      side: 'string',
+      token_amount: 'number?',
+      value_usd: 'number',
+      price_usd: 'number?',
+    },
+    enums: { side: ['buy', 'sell'] },
+  },
+  whoBoughtSold: {
+    name: '/tgm/who-bought-sold',
+    fields: {
+      entity: 'string',
+      entity_label: 'string?',
+      buy_volume_usd: 'number',
+      sell_volume_usd: 'number',
+      net_volume_usd: 'number',
+      trade_count: 'number?',
+    },
+  },
+  transfers: {
+    name: '/tgm/transfers',
+    fields: {
+      tx_hash: 'string',
+      timestamp: 'string',
+      from_address: 'string',
+      from_label: 'string?',
+      to_address: 'string',
+      to_label: 'string?',
+      token_amount: 'number?',
+      value_usd: 'number',
+    },
+  },
+  balances: {
+    name: '/profiler/address/current-balance',
+    fields: {
+      chain: 'string',
+      address: 'string?',
+      token_address: 'string',
+      token_symbol: 'string',
+      token_name: 'string?',
+      token_amount: 'number',
+      price_usd: 'number?',
+      value_usd: 'number',
+    },
+  },
+  relatedWallets: {
+    name: '/profiler/address/related-wallets',
+    fields: {
+      address: 'string',
+      label: 'string?',
+      relationship: 'string',
+      transaction_count: 'number?',
+      total_value_usd: 'number?',
+    },
+  },
+} satisfies Record<string, RowSchema>;
+
 // =============================================================================
 // Normalized Types (for consumers)
 // =============================================================================
@@ -245,6 +410,8 @@ export interface TokenRequest {
   tokenAddress: string;
   date?: DateRange;
   limit?: number;
+  page?: number;     // 1-based, sent as pagination.page
+  perPage?: number;  // Sent as pagination.per_page (default 100)
 }
 
 export interface AddressRequest {
@@ -261,17 +428,52 @@ export class NansenApiError extends Error {
   constructor(
     public code: string,
     message: string,
-    public details?: Record<string, unknown>
+    public details?: Record<string, unknown>,
+    public status?: number,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'NansenApiError';
   }
 }
 
+export interface ClientOptions {
+  retry?: Partial<RetryPolicy>;
+  onRetry?: RetryHook;
+  transport?: TransportOptions;
+  validation?: ValidationOptions;
+  ledger?: CreditLedger;  // Meters calls and enforces credit budgets
+  breaker?: BreakerSettings | false;  // Per-endpoint and API-wide circuit breakers (default on)
+}
+
+// Lenient-mode issues kept for inspection via getSchemaErrors()
+const MAX_SCHEMA_ERRORS = 100;
+
+// Credits charged per endpoint call (unlisted endpoints cost 1)
+export const API_CREDITS: Record<string, number> = {
+  '/smart-money/netflow': 1,
+  '/smart-money/holdings': 1,
+  '/smart-money/dex-trades': 1,
+  '/tgm/holders': 1,
+  '/tgm/flows': 1,
+  '/tgm/dex-trades': 1,
+  '/tgm/who-bought-sold': 1,
+  '/tgm/transfers': 1,
+  '/profiler/address/current-balance': 1,
+  '/profiler/address/related-wallets': 1,
+};
+
 export class NansenClient {
   private config: NansenConfig;
-
-  constructor(apiKey?: string, baseUrl?: string) {
+  private transport: HttpTransport;
+  private retryPolicy: RetryPolicy;
+  private onRetry?: RetryHook;
+  private validation: ValidationOptions;
+  private schemaErrors: SchemaIssue[] = [];
+  private ledger?: CreditLedger;
+  public readonly breaker?: CircuitBreaker;
+
+  constructor(apiKey?: string, baseUrl?: string, options: ClientOptions = {}) {
     const key = apiKey || process.env.NANSEN_API_KEY;
     if (!key) {
       throw new Error('NANSEN_API_KEY is required');
@@ -281,6 +483,46 @@ export class NansenClient {
       apiKey: key,
       baseUrl: baseUrl || DEFAULT_BASE_URL,
     };
+    this.transport = new HttpTransport(options.transport);
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.onRetry = options.onRetry;
+    this.validation = options.validation ?? {};
+    this.ledger = options.ledger;
+    if (options.breaker !== false) {
+      this.breaker = new CircuitBreaker(options.breaker);
+    }
+  }
+
+  /**
+   * POST to a list endpoint and validate the returned rows against their schema
+   * strict mode throws NansenSchemaError, lenient mode drops and records bad rows
+   */
+  private async requestRows<T>(
+    endpoint: string,
+    body: Record<string, unknown>,
+    schema: RowSchema
+  ): Promise<T[]> {
+    const response = await this.request<RawApiResponse<unknown>>(endpoint, 'POST', body);
+    const { data, errors } = validateRows<T>(response?.data, schema, this.validation.mode);
+
+    if (errors.length > 0) {
+      this.schemaErrors.push(...errors);
+      this.schemaErrors.splice(0, Math.max(0, this.schemaErrors.length - MAX_SCHEMA_ERRORS));
+      this.validation.onErrors?.(errors);
+    }
+
+    return data;
+  }
+
+  /**
+   * Schema issues from rows dropped in lenient mode (most recent last)
+   */
+  getSchemaErrors(): SchemaIssue[] {
+    return [...this.schemaErrors];
+  }
+
+  clearSchemaErrors(): void {
+    this.schemaErrors = [];
   }
 
   private async request<T>(
@@ -302,8 +544,59 @@ export class NansenClient {
       options.body = JSON.stringify(body);
     }
 
-    const response = await fetch(url, options);
+    const credits = API_CREDITS[endpoint] ?? 1;
+    const release = this.ledger?.reserve(credits, endpoint);
+
+    try {
+      // Fail fast while the API (or this endpoint) is unhealthy
+      const breakerKeys = ['all', endpoint];
+      if (this.breaker && !this.breaker.allow(breakerKeys)) {
+        const retryAfterMs = this.breaker.retryAfter(breakerKeys);
+        throw new NansenApiError('CIRCUIT_OPEN', `Circuit open for ${endpoint} (retry in ${Math.ceil(retryAfterMs / 1000)}s)`, undefined, undefined, retryAfterMs);
+      }
+
+      let result: T;
+      try {
+        result = await withRetry(() => this.send<T>(url, options), {
+          policy: this.retryPolicy,
+          source: 'api',
+          target: endpoint,
+          onRetry: this.onRetry,
+        });
+        this.breaker?.record(breakerKeys);
+      } catch (error) {
+        this.breaker?.record(breakerKeys, error);
+        throw error;
+      }
+
+      this.ledger?.record({ source: 'api', target: endpoint, credits, cacheHit: false });
+      recordCall('api', endpoint, credits);
+      return result;
+    } finally {
+      release?.();
+    }
+  }
+
+  /**
+   * Single HTTP attempt - throws NansenApiError with status for retry classification
+   */
+  private async send<T>(url: string, options: RequestInit): Promise<T> {
+    try {
+      // Read the body inside the transport so the timeout covers it
+      return await this.transport.send(url, options, response => this.readResponse<T>(response));
+    } catch (error) {
+      if (error instanceof NansenApiError || error instanceof SyntaxError) throw error;
+      if ((error as Error).name === 'AbortError') {
+        throw new NansenApiError('TIMEOUT', 'API request timed out');
+      }
+      throw new NansenApiError(
+        'FETCH_ERROR',
+        `API request failed: ${(error as Error).message}`
+      );
+    }
+  }
 
+  private async readResponse<T>(response: Response): Promise<T> {
     if (!response.ok) {
       let errorData: ApiError;
       try {
@@ -317,7 +610,9 @@ export class NansenClient {
       throw new NansenApiError(
         errorData.code || `HTTP_${response.status}`,
         errorData.message || 'API request failed',
-        errorData.details
+        errorData.details,
+        response.status,
+        parseRetryAfter(response.headers?.get('retry-after'))
       );
     }
 
@@ -335,13 +630,13 @@ export class NansenClient {
   async getSmartMoneyNetflow(params: SmartMoneyRequest): Promise<SmartMoneyNetflow[]> {
     const chains = params.chains || [params.chain];
 
-    const response = await this.request<RawApiResponse<RawSmartMoneyNetflow[]>>(
+    const rows = await this.requestRows<RawSmartMoneyNetflow>(
       '/smart-money/netflow',
-      'POST',
-      { chains }
+      { chains },
+      RAW_SCHEMAS.netflow
     );
 
-    let data: SmartMoneyNetflow[] = (response.data || []).map(item => ({
+    let data: SmartMoneyNetflow[] = rows.map(item => ({
       token: item.token_address,
       symbol: item.token_symbol,
       name: item.token_symbol,
@@ -395,13 +690,13 @@ export class NansenClient {
   async getSmartMoneyHoldings(params: SmartMoneyRequest): Promise<SmartMoneyHolding[]> {
     const chains = params.chains || [params.chain];
 
-    const response = await this.request<RawApiResponse<RawSmartMoneyHolding[]>>(
+    const rows = await this.requestRows<RawSmartMoneyHolding>(
       '/smart-money/holdings',
-      'POST',
-      { chains }
+      { chains },
+      RAW_SCHEMAS.holdings
     );
 
-    let data: SmartMoneyHolding[] = (response.data || []).map(item => ({
+    let data: SmartMoneyHolding[] = rows.map(item => ({
       token: item.token_address,
       symbol: item.token_symbol,
       chain: item.chain as Chain,
@@ -430,13 +725,13 @@ export class NansenClient {
   async getSmartMoneyDexTrades(params: SmartMoneyRequest): Promise<SmartMoneyDexTrade[]> {
     const chains = params.chains || [params.chain];
 
-    const response = await this.request<RawApiResponse<RawSmartMoneyDexTrade[]>>(
+    const rows = await this.requestRows<RawSmartMoneyDexTrade>(
       '/smart-money/dex-trades',
-      'POST',
-      { chains }
+      { chains },
+      RAW_SCHEMAS.smartMoneyDexTrades
     );
 
-    let data: SmartMoneyDexTrade[] = (response.data || []).map(item => ({
+    let data: SmartMoneyDexTrade[] = rows.map(item => ({
       token: item.token_address,
       symbol: item.token_symbol,
       chain: item.chain as Chain,
@@ -468,13 +763,13 @@ export class NansenClient {
    * POST /tgm/holders { chain, token_address }
    */
   async getTokenHolders(params: TokenRequest): Promise<TokenHolder[]> {
-    const response = await this.request<RawApiResponse<RawTokenHolder[]>>(
+    const rows = await this.requestRows<RawTokenHolder>(
       '/tgm/holders',
-      'POST',
-      { chain: params.chain, token_address: params.tokenAddress }
+      { chain: params.chain, token_address: params.tokenAddress },
+      RAW_SCHEMAS.holders
     );
 
-    let data: TokenHolder[] = (response.data || []).map(item => ({
+    let data: TokenHolder[] = rows.map(item => ({
       address: item.address,
       label: item.address_label,
       tokenAmount: item.token_amount,
@@ -499,13 +794,13 @@ export class NansenClient {
   async getTokenFlows(params: TokenRequest): Promise<TokenFlow[]> {
     const date = params.date || getDefaultDateRange();
 
-    const response = await this.request<RawApiResponse<RawTokenFlow[]>>(
+    const rows = await this.requestRows<RawTokenFlow>(
       '/tgm/flows',
-      'POST',
-      { chain: params.chain, token_address: params.tokenAddress, date }
+      withPagination({ chain: params.chain, token_address: params.tokenAddress, date }, params),
+      RAW_SCHEMAS.flows
     );
 
-    let data: TokenFlow[] = (response.data || []).map(item => ({
+    let data: TokenFlow[] = rows.map(item => ({
       entity: item.entity,
       label: item.entity_label,
       inflowUsd: item.inflow_usd,
@@ -528,13 +823,13 @@ export class NansenClient {
   async getTokenDexTrades(params: TokenRequest): Promise<DexTrade[]> {
     const date = params.date || getDefaultDateRange();
 
-    const response = await this.request<RawApiResponse<RawDexTrade[]>>(
+    const rows = await this.requestRows<RawDexTrade>(
       '/tgm/dex-trades',
-      'POST',
-      { chain: params.chain, token_address: params.tokenAddress, date }
+      withPagination({ chain: params.chain, token_address: params.tokenAddress, date }, params),
+      RAW_SCHEMAS.dexTrades
     );
 
-    let data: DexTrade[] = (response.data || []).map(item => ({
+    let data: DexTrade[] = rows.map(item => ({
       txHash: item.tx_hash,
       timestamp: item.timestamp,
       trader: item.trader_address,
@@ -559,13 +854,13 @@ export class NansenClient {
   async getWhoBoughtSold(params: TokenRequest): Promise<{ entity: string; label?: string; buyVolumeUsd: number; sellVolumeUsd: number; netVolumeUsd: number; tradeCount: number }[]> {
     const date = params.date || getDefaultDateRange();
 
-    const response = await this.request<RawApiResponse<RawWhoBoughtSold[]>>(
+    const rows = await this.requestRows<RawWhoBoughtSold>(
       '/tgm/who-bought-sold',
-      'POST',
-      { chain: params.chain, token_address: params.tokenAddress, date }
+      withPagination({ chain: params.chain, token_address: params.tokenAddress, date }, params),
+      RAW_SCHEMAS.whoBoughtSold
     );
 
-    let data = (response.data || []).map(item => ({
+    let data = rows.map(item => ({
       entity: item.entity,
       label: item.entity_label,
       buyVolumeUsd: item.buy_volume_usd,
@@ -588,13 +883,13 @@ export class NansenClient {
   async getTokenTransfers(params: TokenRequest): Promise<TokenTransfer[]> {
     const date = params.date || getDefaultDateRange();
 
-    const response = await this.request<RawApiResponse<RawTransfer[]>>(
+    const rows = await this.requestRows<RawTransfer>(
       '/tgm/transfers',
-      'POST',
-      { chain: params.chain, token_address: params.tokenAddress, date }
+      withPagination({ chain: params.chain, token_address: params.tokenAddress, date }, params),
+      RAW_SCHEMAS.transfers
     );
 
-    let data: TokenTransfer[] = (response.data || []).map(item => ({
+    let data: TokenTransfer[] = rows.map(item => ({
       txHash: item.tx_hash,
       timestamp: item.timestamp,
       from: item.from_address,
@@ -612,6 +907,37 @@ export class NansenClient {
     return data;
   }
 
+  /**
+   * Lazily walk /tgm/transfers pages across the request's date range
+   * Respects maxItems/maxCredits budgets and an optional rate limiter
+   */
+  iterateTokenTransfers(
+    params: Omit<TokenRequest, 'page' | 'limit'>,
+    options: PageIterationOptions = {}
+  ): AsyncGenerator<TokenTransfer> {
+    const perPage = params.perPage ?? options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const date = params.date || getDefaultDateRange();
+    return paginate(
+      page => this.getTokenTransfers({ ...params, date, page, perPage }),
+      { ...options, pageSize: perPage }
+    );
+  }
+
+  /**
+   * Lazily walk /tgm/dex-trades pages across the request's date range
+   */
+  iterateTokenDexTrades(
+    params: Omit<TokenRequest, 'page' | 'limit'>,
+    options: PageIterationOptions = {}
+  ): AsyncGenerator<DexTrade> {
+    const perPage = params.perPage ?? options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const date = params.date || getDefaultDateRange();
+    return paginate(
+      page => this.getTokenDexTrades({ ...params, date, page, perPage }),
+      { ...options, pageSize: perPage }
+    );
+  }
+
   // ===========================================================================
   // Profiler Endpoints
   // ===========================================================================
@@ -621,13 +947,13 @@ export class NansenClient {
    * POST /profiler/address/current-balance { address, chain }
    */
   async getWalletBalances(params: AddressRequest): Promise<WalletBalance[]> {
-    const response = await this.request<RawApiResponse<RawWalletBalance[]>>(
+    const rows = await this.requestRows<RawWalletBalance>(
       '/profiler/address/current-balance',
-      'POST',
-      { address: params.address, chain: params.chain }
+      { address: params.address, chain: params.chain },
+      RAW_SCHEMAS.balances
     );
 
-    let data: WalletBalance[] = (response.data || []).map(item => ({
+    let data: WalletBalance[] = rows.map(item => ({
       chain: item.chain as Chain,
       token: item.token_address,
       symbol: item.token_symbol,
@@ -652,13 +978,13 @@ export class NansenClient {
    * POST /profiler/address/related-wallets { address, chain }
    */
   async getRelatedWallets(params: AddressRequest): Promise<RelatedWallet[]> {
-    const response = await this.request<RawApiResponse<RawRelatedWallet[]>>(
+    const rows = await this.requestRows<RawRelatedWallet>(
       '/profiler/address/related-wallets',
-      'POST',
-      { address: params.address, chain: params.chain }
+      { address: params.address, chain: params.chain },
+      RAW_SCHEMAS.relatedWallets
     );
 
-    let data: RelatedWallet[] = (response.data || []).map(item => ({
+    let data: RelatedWallet[] = rows.map(item => ({
       address: item.address,
       label: item.label,
       relationship: item.relationship,
@@ -679,6 +1005,9 @@ export class NansenClient {
 
   /**
    * Scan for trading opportunities
+   * - accumulation / distribution: smart money net inflows / outflows (24h)
+   * - breakout: inflows accelerating from 7d to 24h to 1h (price is confirmed by NansenData via OHLCV)
+   * - fresh-wallets: inflow tokens with fresh-labelled holders or buyers (2 extra calls per candidate)
    */
   async scanOpportunities(params: OpportunityScanRequest): Promise<OpportunitySignal[]> {
     const signals: OpportunitySignal[] = [];
@@ -698,14 +1027,17 @@ export class NansenClient {
             token: item.token,
             symbol: item.symbol,
             chain: item.chain,
-            score: this.calculateScore(item),
+            score: scoreNetflow(item).score,
             reason: `${item.traderCount} smart traders, $${formatNumber(item.netflowUsd)} net inflow (24h)`,
             metrics: {
               netflow24h: item.netflowUsd,
               netflow7d: item.netflow7d || 0,
               traderCount: item.traderCount,
+              buyers: item.buyersCount,
+              sellers: item.sellersCount,
               marketCap: item.marketCap || 0,
             },
+            ...(item.sectors?.length && { sectors: item.sectors }),
             timestamp: new Date().toISOString(),
           });
         }
@@ -725,44 +1057,104 @@ export class NansenClient {
             token: item.token,
             symbol: item.symbol,
             chain: item.chain,
-            score: Math.abs(this.calculateScore(item)),
+            score: scoreNetflow(item).score,
             reason: `${item.traderCount} smart traders exiting, $${formatNumber(Math.abs(item.netflowUsd))} outflow (24h)`,
             metrics: {
               netflow24h: item.netflowUsd,
               netflow7d: item.netflow7d || 0,
               traderCount: item.traderCount,
+              buyers: item.buyersCount,
+              sellers: item.sellersCount,
               marketCap: item.marketCap || 0,
             },
+            ...(item.sectors?.length && { sectors: item.sectors }),
             timestamp: new Date().toISOString(),
           });
         }
         break;
       }
 
-      default: {
+      case 'breakout': {
         const netflow = await this.getSmartMoneyNetflow({
           chain: params.chain,
+          direction: 'inflow',
           limit: params.limit || 20,
         });
 
         for (const item of netflow) {
-          const isAccumulation = item.netflow > 0;
+          const acceleration = netflowAcceleration(item);
+          if (!acceleration || !isAccelerating(acceleration)) continue;
+
           signals.push({
-            type: isAccumulation ? 'accumulation' : 'distribution',
+            type: 'breakout',
             token: item.token,
             symbol: item.symbol,
             chain: item.chain,
-            score: Math.abs(this.calculateScore(item)),
-            reason: `${item.traderCount} smart traders, $${formatNumber(Math.abs(item.netflowUsd))} ${isAccumulation ? 'inflow' : 'outflow'}`,
+            score: this.calculateBreakoutScore(item, acceleration),
+            reason: `Smart money inflow accelerating: $${formatNumber(item.netflow1h!)} last hour, ${acceleration.acceleration1h.toFixed(1)}x the 24h pace`,
             metrics: {
+              netflow1h: item.netflow1h!,
               netflow24h: item.netflowUsd,
               netflow7d: item.netflow7d || 0,
+              acceleration1h: acceleration.acceleration1h,
+              ...(acceleration.acceleration24h !== undefined && { acceleration24h: acceleration.acceleration24h }),
               traderCount: item.traderCount,
+              buyers: item.buyersCount,
+              sellers: item.sellersCount,
               marketCap: item.marketCap || 0,
             },
+            ...(item.sectors?.length && { sectors: item.sectors }),
             timestamp: new Date().toISOString(),
           });
         }
+        break;
+      }
+
+      case 'fresh-wallets': {
+        const netflow = await this.getSmartMoneyNetflow({
+          chain: params.chain,
+          direction: 'inflow',
+          limit: Math.min(params.limit || 20, FRESH_WALLET_CANDIDATES),
+        });
+
+        // Candidates whose holder or buyer lookups fail are skipped
+        const activity = await Promise.allSettled(netflow.map(async item => {
+          const request = { chain: item.chain, tokenAddress: item.token };
+          const [holders, buyers] = await Promise.all([
+            this.getTokenHolders(request),
+            this.getWhoBoughtSold(request),
+          ]);
+          return countFreshWallets(holders, buyers);
+        }));
+
+        netflow.forEach((item, i) => {
+          const result = activity[i];
+          if (result.status !== 'fulfilled' || result.value.freshWallets === 0) return;
+          const fresh = result.value;
+
+          signals.push({
+            type: 'fresh-wallets',
+            token: item.token,
+            symbol: item.symbol,
+            chain: item.chain,
+            score: this.calculateFreshWalletScore(item, fresh),
+            reason: `${fresh.freshWallets} fresh wallets (${fresh.freshBuyers} buying, $${formatNumber(fresh.freshBuyVolumeUsd)}), $${formatNumber(item.netflowUsd)} smart money inflow`,
+            metrics: {
+              freshWallets: fresh.freshWallets,
+              freshBuyers: fresh.freshBuyers,
+              freshHolders: fresh.freshHolders,
+              freshBuyVolumeUsd: fresh.freshBuyVolumeUsd,
+              netflow24h: item.netflowUsd,
+              traderCount: item.traderCount,
+              buyers: item.buyersCount,
+              sellers: item.sellersCount,
+              marketCap: item.marketCap || 0,
+            },
+            ...(item.sectors?.length && { sectors: item.sectors }),
+            timestamp: new Date().toISOString(),
+          });
+        });
+        break;
       }
     }
 
@@ -788,18 +1180,55 @@ export class NansenClient {
     return { holders, flows, recentTrades, whoBoughtSold };
   }
 
-  private calculateScore(item: SmartMoneyNetflow): number {
-    const netflowScore = Math.min(Math.abs(item.netflowUsd) / 50000, 5);
-    const traderScore = Math.min(item.traderCount / 5, 3);
+  // ===========================================================================
+  // Cost Estimation (no calls made)
+  // ===========================================================================
+
+  planRequest(endpoint: string, options?: { label?: string; count?: number; conditional?: boolean }): CallPlanNode {
+    return callNode('api', endpoint, API_CREDITS[endpoint] ?? 1, options);
+  }
 
-    let trendBonus = 0;
-    if (item.netflow7d) {
-      const sameDirection = (item.netflow > 0 && item.netflow7d > 0) ||
-                           (item.netflow < 0 && item.netflow7d < 0);
-      trendBonus = sameDirection ? 2 : 0;
+  /**
+   * Endpoint calls made by scanOpportunities (one netflow query, plus per-candidate lookups for fresh-wallets)
+   */
+  planScanOpportunities(params: OpportunityScanRequest): CallPlanNode {
+    const calls = [this.planRequest('/smart-money/netflow')];
+    if (params.mode === 'fresh-wallets') {
+      const count = Math.min(params.limit || 20, FRESH_WALLET_CANDIDATES);
+      calls.push(
+        this.planRequest('/tgm/holders', { label: 'freshHolders', count, conditional: true }),
+        this.planRequest('/tgm/who-bought-sold', { label: 'freshBuyers', count, conditional: true }),
+      );
     }
+    return groupNode(`api.scanOpportunities(${params.chain}, ${params.mode})`, calls);
+  }
 
-    return netflowScore + traderScore + trendBonus;
+  /**
+   * Endpoint calls made by getTokenAnalysis
+   */
+  planTokenAnalysis(): CallPlanNode {
+    return groupNode('api.getTokenAnalysis', [
+      this.planRequest('/tgm/holders', { label: 'holders' }),
+      this.planRequest('/tgm/flows', { label: 'flows' }),
+      this.planRequest('/tgm/dex-trades', { label: 'recentTrades' }),
+      this.planRequest('/tgm/who-bought-sold', { label: 'whoBoughtSold' }),
+    ]);
+  }
+
+  private calculateBreakoutScore(item: SmartMoneyNetflow, acceleration: NetflowAcceleration): number {
+    const paceScore = Math.min(acceleration.acceleration1h, 5);
+    const trendScore = acceleration.acceleration24h === undefined ? 1 : Math.min(acceleration.acceleration24h, 3);
+    const netflowScore = Math.min(item.netflowUsd / 50000, 2);
+
+    return paceScore + trendScore + netflowScore;
+  }
+
+  private calculateFreshWalletScore(item: SmartMoneyNetflow, fresh: FreshWalletActivity): number {
+    const walletScore = Math.min(fresh.freshWallets / 2, 5);
+    const volumeScore = Math.min(fresh.freshBuyVolumeUsd / 25000, 3);
+    const netflowScore = Math.min(item.netflowUsd / 50000, 2);
+
+    return walletScore + volumeScore + netflowScore;
   }
 
   /**
@@ -824,6 +1253,14 @@ function getDefaultDateRange(): DateRange {
   };
 }
 
+function withPagination(
+  body: Record<string, unknown>,
+  params: { page?: number; perPage?: number }
+): Record<string, unknown> {
+  if (params.page === undefined) return body;
+  return { ...body, pagination: { page: params.page, per_page: params.perPage ?? DEFAULT_PAGE_SIZE } };
+}
+
 function formatNumber(num: number): string {
   if (num >= 1e9) return (num / 1e9).toFixed(2) + 'B';
   if (num >= 1e6) return (num / 1e6).toFixed(2) + 'M';
@@ -831,6 +1268,6 @@ function formatNumber(num: number): string {
   return num.toFixed(2);
 }
 
-export function createClient(apiKey?: string): NansenClient {
-  return new NansenClient(apiKey);
+export function createClient(apiKey?: string, options?: ClientOptions): NansenClient {
+  return new NansenClient(apiKey, undefined, options);
 }
@@ -0,0 +1,364 @@
+/**
+ * Backtesting for scan signals
+ * Replays logged signals (or signals regenerated from stored netflow snapshots)
+ * against OHLCV candles, simulating entry, stop-loss/take-profit, hold horizon and fees.
+ * Distribution signals are simulated as shorts.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { normalizeCandles } from './normalize.js';
+import { DEFAULT_STRATEGY, type ScoringStrategy } from './scoring.js';
+import type { Candle } from './scan.js';
+import type { Chain, OpportunitySignal, ScanMode, SmartMoneyNetflow } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BacktestConfig {
+  holdHours?: number[];     // Hold horizons to simulate (default 4, 24, 72)
+  stopLossPct?: number;     // Exit once the position is down this much (e.g. 10)
+  takeProfitPct?: number;   // Exit once the position is up this much
+  feeBps?: number;          // Fee per side in basis points (default 30)
+  scoreBuckets?: number[];  // Score bucket edges (default 2, 4, 6, 8)
+}
+
+/**
+ * Candles for a token, oldest first or with times (sorted on use)
+ */
+export type CandleSource = (token: string, chain: Chain) => Promise<Candle[]>;
+
+export type ExitReason = 'horizon' | 'stop_loss' | 'take_profit' | 'end_of_data';
+
+export interface BacktestTrade {
+  signalId: string;
+  token: string;
+  symbol: string;
+  chain: Chain;
+  mode: ScanMode;
+  score: number;
+  side: 'long' | 'short';
+  holdHours: number;
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string;
+  exitPrice: number;
+  exitReason: ExitReason;
+  returnPct: number;        // Net of fees on both sides
+}
+
+export interface BacktestStats {
+  trades: number;
+  wins: number;
+  hitRate: number;          // Share of trades with a positive net return
+  avgReturnPct: number;
+  totalReturnPct: number;   // Equal-size trades compounded in exit order
+  maxDrawdownPct: number;   // Largest peak-to-trough drop of that equity curve
+  sharpe: number;           // Per-trade mean/stdev, annualized by the hold horizon
+}
+
+export interface HorizonReport {
+  holdHours: number;
+  overall: BacktestStats;
+  byChain: Record<string, BacktestStats>;
+  byMode: Record<string, BacktestStats>;
+  byScoreBucket: Record<string, BacktestStats>;
+  trades: BacktestTrade[];
+}
+
+export interface BacktestReport {
+  signals: number;
+  skipped: Array<{ signalId: string; reason: string }>;
+  config: Required<BacktestConfig>;
+  horizons: HorizonReport[];
+}
+
+export interface NetflowSnapshot {
+  timestamp: string;
+  chain: Chain;
+  rows: SmartMoneyNetflow[];
+}
+
+export const DEFAULT_BACKTEST_CONFIG: Required<Omit<BacktestConfig, 'stopLossPct' | 'takeProfitPct'>> = {
+  holdHours: [4, 24, 72],
+  feeBps: 30,
+  scoreBuckets: [2, 4, 6, 8],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOURS_PER_YEAR = 24 * 365;
+
+// =============================================================================
+// Simulation
+// =============================================================================
+
+/**
+ * Candle time in ms (ISO strings, or unix seconds/ms as strings)
+ */
+export function candleTime(candle: Candle): number {
+  if (!candle.time) return NaN;
+  if (/^\d+$/.test(candle.time)) {
+    const n = Number(candle.time);
+    return n < 1e12 ? n * 1000 : n;
+  }
+  return Date.parse(candle.time);
+}
+
+/**
+ * Simulate one signal over one horizon
+ * Enters at the open of the first candle at or after the signal; when a candle
+ * touches both the stop and the target, the stop is assumed to fill first.
+ * Returns undefined when no candle follows the signal.
+ */
+export function simulateTrade(
+  signal: OpportunitySignal & { id?: string },
+  candles: Candle[],
+  holdHours: number,
+  config: BacktestConfig = {}
+): BacktestTrade | undefined {
+  const signalTime = Date.parse(signal.timestamp);
+  const timed = candles
+    .map(c => ({ candle: c, time: candleTime(c) }))
+    .filter(c => !Number.isNaN(c.time))
+    .sort((a, b) => a.time - b.time);
+
+  const start = timed.findIndex(c => c.time >= signalTime);
+  if (start === -1) return undefined;
+
+  const side = signal.type === 'distribution' ? 'short' : 'long';
+  const entry = timed[start];
+  const entryPrice = entry.candle.open;
+  const deadline = entry.time + holdHours * HOUR_MS;
+  const stop = config.stopLossPct !== undefined
+    ? entryPrice * (side === 'long' ? 1 - config.stopLossPct / 100 : 1 + config.stopLossPct / 100)
+    : undefined;
+  const target = config.takeProfitPct !== undefined
+    ? entryPrice * (side === 'long' ? 1 + config.takeProfitPct / 100 : 1 - config.takeProfitPct / 100)
+    : undefined;
+
+  let exit = { time: entry.time, price: entry.candle.close, reason: 'end_of_data' as ExitReason };
+  for (const { candle, time } of timed.slice(start)) {
+    if (time >= deadline) {
+      exit = { ...exit, reason: 'horizon' };
+      break;
+    }
+
+    const adverse = side === 'long' ? candle.low : candle.high;
+    const favorable = side === 'long' ? candle.high : candle.low;
+    if (stop !== undefined && (side === 'long' ? adverse <= stop : adverse >= stop)) {
+      exit = { time, price: stop, reason: 'stop_loss' };
+      break;
+    }
+    if (target !== undefined && (side === 'long' ? favorable >= target : favorable <= target)) {
+      exit = { time, price: target, reason: 'take_profit' };
+      break;
+    }
+    exit = { time, price: candle.close, reason: 'end_of_data' };
+  }
+
+  const gross = side === 'long'
+    ? (exit.price - entryPrice) / entryPrice
+    : (entryPrice - exit.price) / entryPrice;
+  const fees = 2 * (config.feeBps ?? DEFAULT_BACKTEST_CONFIG.feeBps) / 10000;
+
+  return {
+    signalId: signal.id ?? `${signal.chain}:${signal.token}:${signal.type}:${signal.timestamp}`,
+    token: signal.token,
+    symbol: signal.symbol,
+    chain: signal.chain,
+    mode: signal.type,
+    score: signal.score,
+    side,
+    holdHours,
+    entryTime: new Date(entry.time).toISOString(),
+    entryPrice,
+    exitTime: new Date(exit.time).toISOString(),
+    exitPrice: exit.price,
+    exitReason: exit.reason,
+    returnPct: (gross - fees) * 100,
+  };
+}
+
+/**
+ * Hit rate, returns, drawdown and Sharpe for a set of trades
+ */
+export function summarizeTrades(trades: BacktestTrade[], holdHours: number): BacktestStats {
+  const returns = trades.map(t => t.returnPct);
+  const wins = returns.filter(r => r > 0).length;
+  const mean = returns.length ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  for (const trade of [...trades].sort((a, b) => Date.parse(a.exitTime) - Date.parse(b.exitTime))) {
+    equity *= 1 + trade.returnPct / 100;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  }
+
+  let sharpe = 0;
+  if (returns.length >= 2) {
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    const stdev = Math.sqrt(variance);
+    if (stdev > 0) sharpe = (mean / stdev) * Math.sqrt(HOURS_PER_YEAR / holdHours);
+  }
+
+  return {
+    trades: trades.length,
+    wins,
+    hitRate: trades.length ? wins / trades.length : 0,
+    avgReturnPct: mean,
+    totalReturnPct: (equity - 1) * 100,
+    maxDrawdownPct: maxDrawdown * 100,
+    sharpe,
+  };
+}
+
+/**
+ * Bucket label for a score: "<2", "2-4", ..., "8+"
+ */
+export function scoreBucket(score: number, edges = DEFAULT_BACKTEST_CONFIG.scoreBuckets): string {
+  const sorted = [...edges].sort((a, b) => a - b);
+  if (sorted.length === 0 || score < sorted[0]) return `<${sorted[0] ?? 0}`;
+  for (let i = 1; i < sorted.length; i++) {
+    if (score < sorted[i]) return `${sorted[i - 1]}-${sorted[i]}`;
+  }
+  return `${sorted[sorted.length - 1]}+`;
+}
+
+/**
+ * Replay signals against candles for every hold horizon
+ * Candles are fetched once per token; tokens whose candles can't be fetched are skipped.
+ */
+export async function runBacktest(
+  signals: Array<OpportunitySignal & { id?: string }>,
+  candles: CandleSource,
+  config: BacktestConfig = {}
+): Promise<BacktestReport> {
+  const resolved = {
+    ...DEFAULT_BACKTEST_CONFIG,
+    stopLossPct: undefined,
+    takeProfitPct: undefined,
+    ...config,
+  } as Required<BacktestConfig>;
+
+  const idOf = (s: OpportunitySignal & { id?: string }) => s.id ?? `${s.chain}:${s.token}:${s.type}:${s.timestamp}`;
+  const keyOf = (s: OpportunitySignal) => `${s.chain}:${s.token.toLowerCase()}`;
+
+  const series = new Map<string, Candle[] | Error>();
+  for (const signal of signals) {
+    const key = keyOf(signal);
+    if (series.has(key)) continue;
+    try {
+      series.set(key, await candles(signal.token, signal.chain));
+    } catch (error) {
+      series.set(key, error as Error);
+    }
+  }
+
+  const skipped: BacktestReport['skipped'] = [];
+  const tradable: Array<{ signal: OpportunitySignal & { id?: string }; candles: Candle[] }> = [];
+  for (const signal of signals) {
+    const data = series.get(keyOf(signal))!;
+    if (data instanceof Error) {
+      skipped.push({ signalId: idOf(signal), reason: `Candles unavailable: ${data.message}` });
+    } else if (!data.some(c => candleTime(c) >= Date.parse(signal.timestamp))) {
+      skipped.push({ signalId: idOf(signal), reason: 'No candles after the signal' });
+    } else {
+      tradable.push({ signal, candles: data });
+    }
+  }
+
+  const horizons = resolved.holdHours.map(holdHours => {
+    const trades = tradable.map(({ signal, candles }) => simulateTrade(signal, candles, holdHours, resolved)!);
+    const group = (by: (t: BacktestTrade) => string) => {
+      const groups: Record<string, BacktestTrade[]> = {};
+      for (const trade of trades) (groups[by(trade)] ??= []).push(trade);
+      return Object.fromEntries(Object.entries(groups).map(([k, v]) => [k, summarizeTrades(v, holdHours)]));
+    };
+
+    return {
+      holdHours,
+      overall: summarizeTrades(trades, holdHours),
+      byChain: group(t => t.chain),
+      byMode: group(t => t.mode),
+      byScoreBucket: group(t => scoreBucket(t.score, resolved.scoreBuckets)),
+      trades,
+    };
+  });
+
+  return { signals: signals.length, skipped, config: resolved, horizons };
+}
+
+// =============================================================================
+// Candle Sources
+// =============================================================================
+
+/**
+ * Candles from a JSON file keyed "chain:token", each value a token_ohlcv result
+ * (any shape normalizeCandles understands): { "base:0xabc": [{ "t": ..., "o": ..., "c": ... }] }
+ */
+export function loadCandleFile(path: string): CandleSource {
+  const raw = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+  const byKey = new Map(Object.entries(raw).map(([key, value]) => [key.toLowerCase(), normalizeCandles(value)]));
+
+  return async (token, chain) => {
+    const candles = byKey.get(`${chain}:${token}`.toLowerCase());
+    if (!candles) throw new Error(`No candles for ${chain}:${token} in ${path}`);
+    return candles;
+  };
+}
+
+// =============================================================================
+// Netflow Snapshots
+// =============================================================================
+
+/**
+ * Rebuild accumulation/distribution signals from netflow snapshots, scored by the strategy
+ */
+export function signalsFromSnapshots(
+  snapshots: NetflowSnapshot[],
+  strategy: ScoringStrategy = DEFAULT_STRATEGY
+): OpportunitySignal[] {
+  return snapshots.flatMap(snapshot => snapshot.rows
+    .filter(row => row.netflowUsd !== 0)
+    .map(row => {
+      const signal: OpportunitySignal = {
+        type: row.netflowUsd > 0 ? 'accumulation' : 'distribution',
+        token: row.token,
+        symbol: row.symbol,
+        chain: row.chain ?? snapshot.chain,
+        score: 0,
+        reason: `Replayed from ${snapshot.timestamp} netflow snapshot`,
+        metrics: {
+          netflow24h: row.netflowUsd,
+          netflow7d: row.netflow7d || 0,
+          traderCount: row.traderCount,
+          buyers: row.buyersCount,
+          sellers: row.sellersCount,
+          marketCap: row.marketCap || 0,
+        },
+        ...(row.sectors?.length && { sectors: row.sectors }),
+        timestamp: snapshot.timestamp,
+      };
+      return { ...signal, score: strategy.scoreOpportunity(signal).score };
+    }));
+}
+
+export function loadNetflowSnapshots(path: string): NetflowSnapshot[] {
+  if (!existsSync(path)) return [];
+  const data = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(data)) throw new Error(`${path} should hold an array of netflow snapshots`);
+  return data;
+}
+
+/**
+ * Append a snapshot to a snapshot file (created if missing)
+ */
+export function appendNetflowSnapshot(path: string, snapshot: NetflowSnapshot): void {
+  const snapshots = loadNetflowSnapshots(path);
+  snapshots.push(snapshot);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(snapshots, null, 2));
+}
@@ -3,10 +3,15 @@
  * Prevents redundant API calls and saves credits
  */
 
+import type { CreditLedger } from './credits.js';
+import { trace, recordCacheHit, type CachedProvenance } from './provenance.js';
+
 export interface CacheEntry<T> {
   data: T;
   expiry: number;
   hits: number;
+  credits: number;  // Credits the cached fetch cost
+  provenance?: CachedProvenance;  // Set by getOrFetch
 }
 
 export interface CacheStats {
@@ -20,9 +25,11 @@ export class Cache<T = unknown> {
   private store: Map<string, CacheEntry<T>> = new Map();
   private stats = { hits: 0, misses: 0, creditsSaved: 0 };
   private defaultTtl: number;
+  private ledger?: CreditLedger;
 
-  constructor(defaultTtlMs: number = 60000) {
+  constructor(defaultTtlMs: number = 60000, ledger?: CreditLedger) {
     this.defaultTtl = defaultTtlMs;
+    this.ledger = ledger;
   }
 
   /**
@@ -47,16 +54,26 @@ export class Cache<T = unknown> {
     return entry.data;
   }
 
+  /**
+   * Whether a fresh entry exists (doesn't count as a hit or miss)
+   */
+  has(key: string): boolean {
+    const entry = this.store.get(key);
+    return entry !== undefined && Date.now() <= entry.expiry;
+  }
+
   /**
    * Set cached value with optional TTL
    */
   set(key: string, data: T, ttlMs?: number, credits: number = 1): void {
     const expiry = Date.now() + (ttlMs || this.defaultTtl);
-    this.store.set(key, { data, expiry, hits: 0 });
+    this.store.set(key, { data, expiry, hits: 0, credits });
   }
 
   /**
    * Get or fetch - returns cached value or calls fetcher
+   * Hits are recorded in the credit ledger with the credits they saved,
+   * and report the original fetch time and source to provenance traces
    */
   async getOrFetch(
     key: string,
@@ -66,12 +83,21 @@ export class Cache<T = unknown> {
   ): Promise<T> {
     const cached = this.get(key);
     if (cached !== undefined) {
-      this.stats.creditsSaved += credits;
+      // Saved what the cached fetch cost, not what this caller would have paid
+      const entry = this.store.get(key)!;
+      this.stats.creditsSaved += entry.credits;
+      this.ledger?.record({ source: 'cache', target: key, credits: 0, cacheHit: true, saved: entry.credits });
+      if (entry.provenance) recordCacheHit(entry.provenance);
       return cached;
     }
 
-    const data = await fetcher();
+    const { data, source, origin, fallbackReason } = await trace(fetcher);
     this.set(key, data, ttlMs, credits);
+    this.store.get(key)!.provenance = {
+      fetchedAt: Date.now(),
+      origin: source === 'cache' ? origin : source,
+      ...(fallbackReason && { fallbackReason }),
+    };
     return data;
   }
 
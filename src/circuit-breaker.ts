@@ -0,0 +1,223 @@
+/**
+ * Circuit breaker
+ * Stops calling a degraded source so callers fall back immediately instead of
+ * waiting out timeouts and retries on every request
+ *
+ * closed -> open when the failure rate in the window crosses the threshold
+ * open -> half-open after the cooldown (one probe call allowed)
+ * half-open -> closed on a successful probe, back to open on a failed one
+ */
+
+import type { BreakerSettings } from './routing.js';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerSnapshot {
+  key: string;
+  state: BreakerState;
+  calls: number;          // In the current window
+  failures: number;
+  failureRate: number;
+  openedAt?: string;
+  retryAfterMs?: number;  // Until the next half-open probe
+}
+
+interface BreakerEntry {
+  state: BreakerState;
+  outcomes: Array<{ at: number; ok: boolean }>;
+  openedAt?: number;
+  probing: boolean;
+  settings: Required<BreakerSettings>;
+}
+
+export const DEFAULT_BREAKER_SETTINGS: Required<BreakerSettings> = {
+  failureThreshold: 0.5,
+  minCalls: 5,
+  windowMs: 60 * 1000,
+  cooldownMs: 30 * 1000,
+};
+
+// Statuses and error codes that mean the source itself is unhealthy
+// (4xx like 401/422 mean the request was wrong - the source answered fine)
+const FAILURE_STATUSES = [408, 429];
+const FAILURE_CODES = ['FETCH_ERROR', 'TIMEOUT'];
+
+/**
+ * Whether an error counts against the source's health
+ */
+export function isSourceFailure(error: unknown): boolean {
+  const { status, code } = (error ?? {}) as { status?: number; code?: string };
+  if (typeof status === 'number') {
+    return status >= 500 || FAILURE_STATUSES.includes(status);
+  }
+  return code !== undefined && FAILURE_CODES.includes(code);
+}
+
+export class CircuitBreaker {
+  private entries: Map<string, BreakerEntry> = new Map();
+  private defaults: Required<BreakerSettings>;
+
+  constructor(settings: BreakerSettings = {}) {
+    this.defaults = { ...DEFAULT_BREAKER_SETTINGS, ...settings };
+  }
+
+  /**
+   * Whether a call guarded by these keys may proceed
+   * e.g. ['all', '/tgm/holders'] - source-wide and per-endpoint breakers must both allow it
+   * Claims the half-open probe slot when a cooldown has elapsed
+   */
+  allow(keys: string[], settings?: BreakerSettings): boolean {
+    const now = Date.now();
+    const entries = keys.map(key => this.entry(key, settings));
+
+    for (const entry of entries) {
+      if (entry.state === 'open' && now - entry.openedAt! >= entry.settings.cooldownMs) {
+        entry.state = 'half-open';
+        entry.probing = false;
+      }
+    }
+
+    if (entries.some(e => e.state === 'open' || (e.state === 'half-open' && e.probing))) {
+      return false;
+    }
+
+    for (const entry of entries) {
+      if (entry.state === 'half-open') entry.probing = true;
+    }
+    return true;
+  }
+
+  recordSuccess(keys: string[], settings?: BreakerSettings): void {
+    for (const key of keys) {
+      const entry = this.entry(key, settings);
+      if (entry.state === 'half-open') {
+        this.close(entry);
+      } else {
+        this.push(entry, true);
+      }
+    }
+  }
+
+  recordFailure(keys: string[], settings?: BreakerSettings): void {
+    const now = Date.now();
+    for (const key of keys) {
+      const entry = this.entry(key, settings);
+      if (entry.state === 'half-open') {
+        this.open(entry, now);
+        continue;
+      }
+
+      this.push(entry, false);
+      const { calls, failures } = this.counts(entry);
+      if (entry.state === 'closed' && calls >= entry.settings.minCalls && failures / calls >= entry.settings.failureThreshold) {
+        this.open(entry, now);
+      }
+    }
+  }
+
+  /**
+   * Record a call outcome - errors that aren't source failures count as successes
+   */
+  record(keys: string[], error?: unknown, settings?: BreakerSettings): void {
+    if (error !== undefined && isSourceFailure(error)) {
+      this.recordFailure(keys, settings);
+    } else {
+      this.recordSuccess(keys, settings);
+    }
+  }
+
+  /**
+   * Give back a probe slot claimed by allow() for a call that never reached the source
+   */
+  release(keys: string[]): void {
+    for (const key of keys) {
+      const entry = this.entries.get(key);
+      if (entry) entry.probing = false;
+    }
+  }
+
+  /**
+   * Longest wait until every open key allows a probe
+   */
+  retryAfter(keys: string[]): number {
+    const now = Date.now();
+    return Math.max(0, ...keys.map(key => {
+      const entry = this.entries.get(key);
+      if (entry?.state !== 'open') return 0;
+      return entry.openedAt! + entry.settings.cooldownMs - now;
+    }));
+  }
+
+  getState(key: string): BreakerState {
+    return this.entries.get(key)?.state ?? 'closed';
+  }
+
+  getSnapshots(): BreakerSnapshot[] {
+    const now = Date.now();
+    return [...this.entries].map(([key, entry]) => {
+      const { calls, failures } = this.counts(entry);
+      return {
+        key,
+        state: entry.state,
+        calls,
+        failures,
+        failureRate: calls > 0 ? failures / calls : 0,
+        ...(entry.openedAt !== undefined && entry.state !== 'closed' && {
+          openedAt: new Date(entry.openedAt).toISOString(),
+          retryAfterMs: Math.max(0, entry.openedAt + entry.settings.cooldownMs - now),
+        }),
+      };
+    });
+  }
+
+  /**
+   * Close every breaker (or one key) and forget its history
+   */
+  reset(key?: string): void {
+    if (key) {
+      this.entries.delete(key);
+    } else {
+      this.entries.clear();
+    }
+  }
+
+  private entry(key: string, settings?: BreakerSettings): BreakerEntry {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { state: 'closed', outcomes: [], probing: false, settings: this.defaults };
+      this.entries.set(key, entry);
+    }
+    if (settings) {
+      entry.settings = { ...this.defaults, ...settings };
+    }
+    return entry;
+  }
+
+  private push(entry: BreakerEntry, ok: boolean): void {
+    const now = Date.now();
+    entry.outcomes.push({ at: now, ok });
+    const cutoff = now - entry.settings.windowMs;
+    while (entry.outcomes.length > 0 && entry.outcomes[0].at < cutoff) {
+      entry.outcomes.shift();
+    }
+  }
+
+  private counts(entry: BreakerEntry): { calls: number; failures: number } {
+    const cutoff = Date.now() - entry.settings.windowMs;
+    const recent = entry.outcomes.filter(o => o.at >= cutoff);
+    return { calls: recent.length, failures: recent.filter(o => !o.ok).length };
+  }
+
+  private open(entry: BreakerEntry, now: number): void {
+    entry.state = 'open';
+    entry.openedAt = now;
+    entry.probing = false;
+  }
+
+  private close(entry: BreakerEntry): void {
+    entry.state = 'closed';
+    entry.outcomes = [];
+    entry.openedAt = undefined;
+    entry.probing = false;
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Credit Ledger
+ * Meters every API/MCP call (and cache hit) and enforces hourly/daily budgets
+ */
+
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+export type CreditSource = 'api' | 'mcp' | 'cache';
+
+export interface CreditEntry {
+  source: CreditSource;
+  target: string;       // API endpoint, MCP tool, or cache key for cache hits
+  credits: number;      // Credits charged (0 for cache hits)
+  cacheHit: boolean;
+  saved?: number;       // Credits a cache hit avoided
+  timestamp: string;
+}
+
+export interface BudgetLimit {
+  soft?: number;  // Warn once spending crosses this
+  hard?: number;  // Refuse calls that would exceed this
+}
+
+export interface CreditBudget {
+  hourly?: BudgetLimit;
+  daily?: BudgetLimit;
+}
+
+export type BudgetWindow = 'hourly' | 'daily';
+
+export interface BudgetWarning {
+  window: BudgetWindow;
+  spent: number;
+  limit: number;
+}
+
+export interface CreditLedgerOptions {
+  budget?: CreditBudget;
+  onWarning?: (warning: BudgetWarning) => void;  // Default: console.warn
+  path?: string;                                  // Persist to this JSON file when set
+}
+
+export interface CreditStats {
+  total: number;          // Lifetime credits spent
+  calls: number;          // Lifetime paid calls
+  cacheHits: number;
+  creditsSaved: number;
+  lastHour: number;
+  lastDay: number;
+  bySource: { api: number; mcp: number };  // Last 24h
+  byTarget: Record<string, number>;       // Last 24h
+  budget: CreditBudget;
+}
+
+export class NansenBudgetError extends Error {
+  constructor(
+    message: string,
+    public window: BudgetWindow,
+    public spent: number,
+    public limit: number,
+    public requested: number
+  ) {
+    super(message);
+    this.name = 'NansenBudgetError';
+  }
+}
+
+const WINDOW_MS: Record<BudgetWindow, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+// record() batches writes to disk within this window
+const SAVE_DELAY_MS = 1000;
+
+interface LedgerTotals {
+  total: number;
+  calls: number;
+  cacheHits: number;
+  creditsSaved: number;
+}
+
+export class CreditLedger {
+  private entries: CreditEntry[] = [];
+  private totals: LedgerTotals = { total: 0, calls: 0, cacheHits: 0, creditsSaved: 0 };
+  private budget: CreditBudget;
+  private onWarning: (warning: BudgetWarning) => void;
+  private path?: string;
+  private reserved = 0;  // Held by calls in flight
+  private saveTimer?: ReturnType<typeof setTimeout>;
+  private readonly flush = () => this.save();
+
+  constructor(options: CreditLedgerOptions = {}) {
+    this.budget = options.budget ?? {};
+    this.onWarning = options.onWarning ?? (w =>
+      console.warn(`Credit budget warning: ${w.spent} credits spent (${w.window} soft limit ${w.limit})`));
+    this.path = options.path;
+    this.load();
+  }
+
+  /**
+   * Throw NansenBudgetError if spending `credits` now would exceed a hard limit
+   * Credits reserved by calls in flight count as spent
+   */
+  assertAvailable(credits: number, target: string): void {
+    if (credits <= 0) return;
+
+    for (const window of Object.keys(WINDOW_MS) as BudgetWindow[]) {
+      const hard = this.budget[window]?.hard;
+      if (hard === undefined) continue;
+
+      const spent = this.getSpent(window) + this.reserved;
+      if (spent + credits > hard) {
+        const held = this.reserved > 0 ? ` (${this.reserved} reserved)` : '';
+        throw new NansenBudgetError(
+          `${window} credit budget exceeded: ${target} needs ${credits}, ${spent}/${hard} spent${held}`,
+          window,
+          spent,
+          hard,
+          credits
+        );
+      }
+    }
+  }
+
+  /**
+   * Check the budget and hold `credits` until the returned release is called
+   * Record the call before releasing, so parallel calls can't all pass the check and overspend together
+   */
+  reserve(credits: number, target: string): () => void {
+    this.assertAvailable(credits, target);
+    if (credits <= 0) return () => {};
+
+    this.reserved += credits;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.reserved -= credits;
+    };
+  }
+
+  /**
+   * Record a call (or cache hit) and warn when a soft limit is crossed
+   */
+  record(entry: Omit<CreditEntry, 'timestamp'> & { timestamp?: string }): CreditEntry {
+    const before = this.spentByWindow();
+    const recorded: CreditEntry = { ...entry, timestamp: entry.timestamp ?? new Date().toISOString() };
+
+    this.entries.push(recorded);
+    if (recorded.cacheHit) {
+      this.totals.cacheHits++;
+      this.totals.creditsSaved += recorded.saved ?? 0;
+    } else {
+      this.totals.calls++;
+      this.totals.total += recorded.credits;
+    }
+    this.prune();
+
+    for (const window of Object.keys(WINDOW_MS) as BudgetWindow[]) {
+      const soft = this.budget[window]?.soft;
+      const spent = before[window] + (recorded.cacheHit ? 0 : recorded.credits);
+      if (soft !== undefined && before[window] < soft && spent >= soft) {
+        this.onWarning({ window, spent, limit: soft });
+      }
+    }
+
+    this.scheduleSave();
+    return recorded;
+  }
+
+  /**
+   * Credits spent in the trailing hour or day
+   */
+  getSpent(window: BudgetWindow): number {
+    return this.spentByWindow()[window];
+  }
+
+  /**
+   * Recorded entries from the last 24h (most recent last)
+   */
+  getEntries(limit?: number): CreditEntry[] {
+    return limit ? this.entries.slice(-limit) : [...this.entries];
+  }
+
+  setBudget(budget: CreditBudget): void {
+    this.budget = budget;
+  }
+
+  getStats(): CreditStats {
+    const bySource = { api: 0, mcp: 0 };
+    const byTarget: Record<string, number> = {};
+    const dayStart = Date.now() - WINDOW_MS.daily;
+
+    for (const entry of this.entries) {
+      if (entry.cacheHit || Date.parse(entry.timestamp) < dayStart) continue;
+      if (entry.source !== 'cache') bySource[entry.source] += entry.credits;
+      byTarget[entry.target] = (byTarget[entry.target] || 0) + entry.credits;
+    }
+
+    const spent = this.spentByWindow();
+    return {
+      ...this.totals,
+      lastHour: spent.hourly,
+      lastDay: spent.daily,
+      bySource,
+      byTarget,
+      budget: this.budget,
+    };
+  }
+
+  /**
+   * Forget all entries and totals
+   */
+  reset(): void {
+    this.entries = [];
+    this.totals = { total: 0, calls: 0, cacheHits: 0, creditsSaved: 0 };
+    this.save();
+  }
+
+  /**
+   * Save to disk (no-op without a path), including any batched records
+   */
+  save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      process.off('exit', this.flush);
+    }
+    if (!this.path) return;
+
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(this.path, JSON.stringify({ totals: this.totals, entries: this.entries }, null, 2));
+  }
+
+  /**
+   * Load from disk (no-op without a path)
+   */
+  load(): void {
+    if (!this.path || !existsSync(this.path)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.path, 'utf-8'));
+      this.totals = { ...this.totals, ...data.totals };
+      this.entries = Array.isArray(data.entries) ? data.entries : [];
+      this.prune();
+    } catch (error) {
+      console.error('Failed to load credit ledger:', (error as Error).message);
+    }
+  }
+
+  // One write per SAVE_DELAY_MS instead of one per record; anything pending is written on exit
+  private scheduleSave(): void {
+    if (!this.path || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(this.flush, SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+    process.once('exit', this.flush);
+  }
+
+    private spentByWindow(): Record<BudgetWindow, number> {
+    const now = Date.now();
+    const spent: Record<BudgetWindow, number> = { hourly: 0, daily: 0 };
+
+    for (const entry of this.entries) {
+      if (entry.cacheHit) continue;
+      const age = now - Date.parse(entry.timestamp);
+      if (age <= WINDOW_MS.hourly) spent.hourly += entry.credits;
+      if (age <= WINDOW_MS.daily) spent.daily += entry.credits;
+    }
+
+    return spent;
+  }
+
+  // Only the trailing day is needed for budgets; lifetime totals live in `totals`
+  private prune(): void {
+    const dayStart = Date.now() - WINDOW_MS.daily;
+    const firstKept = this.entries.findIndex(e => Date.parse(e.timestamp) >= dayStart);
+    if (firstKept === -1) {
+      this.entries = [];
+    } else if (firstKept > 0) {
+      this.entries.splice(0, firstKept);
+    }
+  }
+}
+
+/**
+ * Budget from NANSEN_CREDITS_{HOURLY,DAILY}_{SOFT,HARD} environment variables
+ */
+export function budgetFromEnv(env: NodeJS.ProcessEnv = process.env): CreditBudget {
+  const read = (name: string): number | undefined => {
+    const value = Number(env[name]);
+    return env[name] && !isNaN(value) ? value : undefined;
+  };
+
+  const budget: CreditBudget = {};
+  for (const window of ['hourly', 'daily'] as const) {
+    const prefix = `NANSEN_CREDITS_${window === 'hourly' ? 'HOURLY' : 'DAILY'}`;
+    const soft = read(`${prefix}_SOFT`);
+    const hard = read(`${prefix}_HARD`);
+    if (soft !== undefined || hard !== undefined) {
+      budget[window] = { soft, hard };
+    }
+  }
+  return budget;
+}
@@ -30,15 +30,55 @@ import {
   type WalletBalance,
   type RelatedWallet,
 } from './api.js';
-import { NansenMcp, createMcp, NansenMcpError } from './mcp.js';
+import { NansenMcp, createMcp, NansenMcpError, type McpOptions } from './mcp.js';
+import type { RetryPolicy, RetryHook } from './retry.js';
+import type { TransportOptions } from './transport.js';
+import type { ValidationOptions } from './schema.js';
+import type { CreditLedger } from './credits.js';
+import { buildPlan, groupNode, asFallback, type CallPlan, type CallPlanNode } from './estimate.js';
+import { trace, recordFallback, type Provenance } from './provenance.js';
+import { CircuitBreaker, type BreakerSnapshot } from './circuit-breaker.js';
+import {
+  resolveRouting,
+  loadRoutingConfig,
+  NansenRoutingError,
+  type RoutingConfig,
+  type RoutingTable,
+  type RoutedMethod,
+  type RoutedSource,
+  type BreakerSettings,
+} from './routing.js';
+import {
+  normalizeScreenerTokens,
+  normalizeNetflows,
+  normalizeHoldings,
+  normalizeTokenHolders,
+  normalizeDexTrades,
+  normalizeTokenFlows,
+  normalizeRelatedWallets,
+  normalizeWalletBalances,
+  normalizeCandles,
+} from './normalize.js';
+import { priceVolumeExpansion, isExpansion, type PriceVolumeExpansion } from './scan.js';
 import type { Chain, SmartMoneyRequest, SmartMoneyNetflow, OpportunityScanRequest, OpportunitySignal } from './types.js';
 
 export interface DataConfig {
   apiKey?: string;
-  preferMcp?: boolean;  // Default true - use MCP as primary
-  fallbackToApi?: boolean;  // Default true - fall back to API on MCP failure
+  preferMcp?: boolean;  // Default true - use MCP as primary (false drops MCP where the API can answer)
+  fallbackToApi?: boolean;  // Default true - false keeps only the first source of each route
+  retry?: Partial<RetryPolicy>;  // Applied to both API and MCP calls
+  onRetry?: RetryHook;  // Called before every retry (API and MCP)
+  transport?: TransportOptions;  // Custom fetch, timeout, headers for both API and MCP
+  validation?: ValidationOptions;  // Raw payload schema checks (default: lenient)
+  ledger?: CreditLedger;  // Shared credit meter/budget for API and MCP calls
+  mcp?: Pick<McpOptions, 'session' | 'discoverTools'>;  // MCP handshake and tools/list (both default true)
+  routing?: RoutingConfig | string;  // Per-method sources/timeout/credit cap, or a JSON file path (NANSEN_ROUTING_CONFIG)
+  breaker?: BreakerSettings | false;  // Circuit breakers on API endpoints and MCP tools (default on)
 }
 
+// Snapshots per source; routes are keyed method:source and only exist for routes with a breaker policy
+export type BreakerStats = Record<'api' | 'mcp' | 'routes', BreakerSnapshot[]>;
+
 export interface ScreenerToken {
   address: string;
   symbol: string;
@@ -49,6 +89,7 @@ export interface ScreenerToken {
   volume24h?: number;
   marketCap?: number;
   holders?: number;
+  liquidity?: number;
   netflowUsd?: number;
   smartMoneyFlow?: number;
 }
@@ -141,8 +182,8 @@ export interface PolymarketOverview {
 export class NansenData {
   public readonly mcp: NansenMcp;
   public readonly api: NansenClient;
-  private preferMcp: boolean;
-  private fallbackToApi: boolean;
+  public readonly routing: RoutingTable;
+  private routeBreaker = new CircuitBreaker();
 
   constructor(config: DataConfig = {}) {
     const apiKey = config.apiKey || process.env.NANSEN_API_KEY;
@@ -150,10 +191,22 @@ export class NansenData {
       throw new Error('NANSEN_API_KEY is required');
     }
 
-    this.mcp = createMcp(apiKey);
-    this.api = createClient(apiKey);
-    this.preferMcp = config.preferMcp ?? true;
-    this.fallbackToApi = config.fallbackToApi ?? true;
+    const clientOptions = {
+      retry: config.retry,
+      onRetry: config.onRetry,
+      transport: config.transport,
+      validation: config.validation,
+      ledger: config.ledger,
+      breaker: config.breaker,
+    };
+    this.mcp = createMcp(apiKey, { ...clientOptions, ...config.mcp });
+    this.api = createClient(apiKey, clientOptions);
+
+    const routing = config.routing ?? process.env.NANSEN_ROUTING_CONFIG;
+    this.routing = resolveRouting(
+      typeof routing === 'string' ? loadRoutingConfig(routing) : routing,
+      { preferMcp: config.preferMcp, fallbackToApi: config.fallbackToApi }
+    );
   }
 
   // ===========================================================================
@@ -165,13 +218,12 @@ export class NansenData {
    * MCP: token_discovery_screener (no API equivalent)
    */
   async screenTokens(chains: Chain[] = ['base']): Promise<ScreenerToken[]> {
-    try {
-      const result = await this.mcp.screenTokens(chains);
-      return this.normalizeScreenerResult(result, chains[0]);
-    } catch (error) {
-      // No API fallback - screener is MCP-only
-      throw error;
-    }
+    return this.route('screenTokens', {
+      mcp: {
+        credits: this.mcp.getToolCredits('token_discovery_screener'),
+        fetch: async () => normalizeScreenerTokens(await this.mcp.screenTokens(chains), chains[0]),
+      },
+    });
   }
 
   /**
@@ -184,14 +236,7 @@ export class NansenData {
    * @param options.ohlcvInterval - OHLCV interval (default: '1h')
    */
   async getMarketOverview(options: MarketOverviewOptions | Chain[] = {}): Promise<MarketOverview> {
-    // Support legacy array signature
-    const opts: MarketOverviewOptions = Array.isArray(options)
-      ? { chains: options }
-      : options;
-
-    const chains = opts.chains ?? ['base', 'ethereum', 'arbitrum', 'polygon'];
-    const topOhlcvCount = Math.min(opts.topOhlcvCount ?? 0, 10); // Cap at 10 to limit credit burn
-    const ohlcvInterval = opts.ohlcvInterval ?? '1h';
+    const { chains, topOhlcvCount, ohlcvInterval } = resolveOverviewOptions(options);
     const errors: string[] = [];
 
     // Parallel fetch: MCP screener + API smart money + MCP chain rankings
@@ -212,7 +257,7 @@ export class NansenData {
     // Process screener results
     let hotTokens: ScreenerToken[] = [];
     if (screenerResult.status === 'fulfilled') {
-      hotTokens = this.normalizeScreenerResult(screenerResult.value, chains[0]);
+      hotTokens = normalizeScreenerTokens(screenerResult.value, chains[0]);
     } else {
       errors.push(`screener: ${screenerResult.reason?.message || 'failed'}`);
     }
@@ -273,11 +318,38 @@ export class NansenData {
     };
   }
 
+  private async confirmBreakout(signal: OpportunitySignal): Promise<OpportunitySignal | null> {
+    let expansion: PriceVolumeExpansion | undefined;
+    try {
+      expansion = priceVolumeExpansion(normalizeCandles(await this.mcp.getTokenOhlcv(signal.token, signal.chain, '1h')));
+    } catch {
+      expansion = undefined;
+    }
+
+    if (!expansion) {
+      return { ...signal, metrics: { ...signal.metrics, priceConfirmed: 0 } };
+    }
+    if (!isExpansion(expansion)) return null;
+
+    return {
+      ...signal,
+      score: signal.score + Math.min(expansion.volumeRatio, 3) + Math.min(expansion.rangeBreakPct / 5, 2),
+      reason: `${signal.reason}; price +${expansion.priceChangePct.toFixed(1)}% above range on ${expansion.volumeRatio.toFixed(1)}x volume`,
+      metrics: {
+        ...signal.metrics,
+        priceConfirmed: 1,
+        priceChangePct: expansion.priceChangePct,
+        rangeBreakPct: expansion.rangeBreakPct,
+        volumeRatio: expansion.volumeRatio,
+      },
+    };
+  }
+
   /**
    * Calculate simple volatility from OHLCV data
    * Returns standard deviation of returns as a percentage
    */
-  private calculateVolatility(ohlcvData: unknown): number | undefined {
+  calculateVolatility(ohlcvData: unknown): number | undefined {
     try {
       // Handle various OHLCV response formats
       let candles: Array<{ close?: number; c?: number }> = [];
@@ -353,7 +425,7 @@ export class NansenData {
 
     let hotTokens: ScreenerToken[] = [];
     if (screenerResult.status === 'fulfilled' && screenerResult.value) {
-      hotTokens = this.normalizeScreenerResult(screenerResult.value, 'polygon');
+      hotTokens = normalizeScreenerTokens(screenerResult.value, 'polygon');
     }
 
     let netflows: SmartMoneyNetflow[] = [];
@@ -403,22 +475,20 @@ export class NansenData {
    * API fallback: getTokenAnalysis (limited)
    */
   async getTokenInfo(token: string, chain: Chain): Promise<TokenSummary> {
-    if (this.preferMcp) {
-      try {
-        const mcpResult = await this.mcp.analyzeToken(token, chain);
-        return this.normalizeMcpTokenAnalysis(token, chain, mcpResult);
-      } catch (error) {
-        if (!this.fallbackToApi) throw error;
-        // Fall through to API
-      }
-    }
-
-    // API fallback
-    const apiResult = await this.api.getTokenAnalysis({
-      chain,
-      tokenAddress: token,
+    return this.route('getTokenInfo', {
+      mcp: {
+        credits: this.mcp.planAnalyzeToken().credits,
+        fetch: async () => this.normalizeMcpTokenAnalysis(
+          token,
+          chain,
+          requireMcpResults('getTokenInfo', await this.mcp.analyzeToken(token, chain))
+        ),
+      },
+      api: {
+        credits: this.api.planTokenAnalysis().credits,
+        fetch: async () => this.normalizeApiTokenAnalysis(token, chain, await this.api.getTokenAnalysis({ chain, tokenAddress: token })),
+      },
     });
-    return this.normalizeApiTokenAnalysis(token, chain, apiResult);
   }
 
   /**
@@ -427,41 +497,45 @@ export class NansenData {
    * API fallback: current-balance + related-wallets (limited)
    */
   async getWalletProfile(address: string, chain?: Chain): Promise<WalletSummary> {
-    if (this.preferMcp) {
-      try {
-        const mcpResult = await this.mcp.analyzeWallet(address);
-        return this.normalizeMcpWalletAnalysis(address, mcpResult);
-      } catch (error) {
-        if (!this.fallbackToApi || !chain) throw error;
-        // Fall through to API (requires chain)
-      }
-    }
-
-    if (!chain) {
+    if (!chain && !this.routing.getWalletProfile.sources.includes('mcp')) {
       throw new Error('Chain required for API fallback. Provide chain parameter or enable MCP.');
     }
 
-    // API fallback
-    const [balances, related] = await Promise.all([
-      this.api.getWalletBalances({ address, chain }),
-      this.api.getRelatedWallets({ address, chain }),
-    ]);
-
-    return {
-      address,
-      totalValueUsd: balances.reduce((sum, b) => sum + b.valueUsd, 0),
-      topHoldings: balances.slice(0, 10).map(b => ({
-        symbol: b.symbol,
-        chain: b.chain,
-        valueUsd: b.valueUsd,
-        amount: b.amount,
-      })),
-      relatedWallets: related.slice(0, 5).map(r => ({
-        address: r.address,
-        label: r.label,
-        relationship: r.relationship,
-      })),
-    };
+    return this.route('getWalletProfile', {
+      mcp: {
+        credits: this.mcp.planAnalyzeWallet().credits,
+        fetch: async () => this.normalizeMcpWalletAnalysis(
+          address,
+          requireMcpResults('getWalletProfile', await this.mcp.analyzeWallet(address))
+        ),
+      },
+      // API needs a chain
+      api: chain && {
+        credits: this.planWalletProfileApi().credits,
+        fetch: async (): Promise<WalletSummary> => {
+          const [balances, related] = await Promise.all([
+            this.api.getWalletBalances({ address, chain }),
+            this.api.getRelatedWallets({ address, chain }),
+          ]);
+
+          return {
+            address,
+            totalValueUsd: balances.reduce((sum, b) => sum + b.valueUsd, 0),
+            topHoldings: balances.slice(0, 10).map(b => ({
+              symbol: b.symbol,
+              chain: b.chain,
+              valueUsd: b.valueUsd,
+              amount: b.amount,
+            })),
+            relatedWallets: related.slice(0, 5).map(r => ({
+              address: r.address,
+              label: r.label,
+              relationship: r.relationship,
+            })),
+          };
+        },
+      },
+    });
   }
 
   /**
@@ -514,16 +588,19 @@ export class NansenData {
    * MCP fallback: smart_traders_and_funds_netflows
    */
   async getSmartMoneyNetflow(params: SmartMoneyRequest): Promise<SmartMoneyNetflow[]> {
-    try {
-      return await this.api.getSmartMoneyNetflow(params);
-    } catch (error) {
-      if (!this.fallbackToApi) throw error;
-
-      // MCP fallback - returns raw data, cast to match API type
-      const chain = params.chain || (params.chains?.[0] as Chain);
-      if (!chain) throw error;
-      return this.mcp.getSmartTraderNetflows(chain) as Promise<SmartMoneyNetflow[]>;
-    }
+    const chain = params.chain || (params.chains?.[0] as Chain);
+
+    return this.route('getSmartMoneyNetflow', {
+      api: {
+        credits: this.api.planRequest('/smart-money/netflow').credits,
+        fetch: () => this.api.getSmartMoneyNetflow(params),
+      },
+      // MCP takes a single chain - normalized and filtered like the API result
+      mcp: chain && {
+        credits: this.mcp.getToolCredits('smart_traders_and_funds_netflows'),
+        fetch: async () => filterNetflows(normalizeNetflows(await this.mcp.getSmartTraderNetflows(chain), chain), params),
+      },
+    });
   }
 
   /**
@@ -532,15 +609,21 @@ export class NansenData {
    * MCP fallback: smart_traders_and_funds_token_balances
    */
   async getSmartMoneyHoldings(params: SmartMoneyRequest): Promise<SmartMoneyHolding[]> {
-    try {
-      return await this.api.getSmartMoneyHoldings(params);
-    } catch (error) {
-      if (!this.fallbackToApi) throw error;
+    const chain = params.chain || (params.chains?.[0] as Chain);
 
-      const chain = params.chain || (params.chains?.[0] as Chain);
-      if (!chain) throw error;
-      return this.mcp.getSmartTraderBalances(chain) as Promise<SmartMoneyHolding[]>;
-    }
+    return this.route('getSmartMoneyHoldings', {
+      api: {
+        credits: this.api.planRequest('/smart-money/holdings').credits,
+        fetch: () => this.api.getSmartMoneyHoldings(params),
+      },
+      mcp: chain && {
+        credits: this.mcp.getToolCredits('smart_traders_and_funds_token_balances'),
+        fetch: async () => {
+          const holdings = normalizeHoldings(await this.mcp.getSmartTraderBalances(chain), chain);
+          return params.limit ? holdings.slice(0, params.limit) : holdings;
+        },
+      },
+    });
   }
 
   /**
@@ -554,9 +637,17 @@ export class NansenData {
   /**
    * Scan for opportunities
    * API: scanOpportunities (fast composite method)
+   * Breakouts are confirmed with MCP token_ohlcv: candidates without a price/volume
+   * expansion are dropped; if OHLCV can't be fetched the signal is kept with priceConfirmed 0
    */
   async scanOpportunities(params: OpportunityScanRequest): Promise<OpportunitySignal[]> {
-    return this.api.scanOpportunities(params);
+    const signals = await this.api.scanOpportunities(params);
+    if (params.mode !== 'breakout') return signals;
+
+    const confirmed = await Promise.all(signals.map(s => this.confirmBreakout(s)));
+    return confirmed
+      .filter((s): s is OpportunitySignal => s !== null)
+      .sort((a, b) => b.score - a.score);
   }
 
   // ===========================================================================
@@ -568,18 +659,15 @@ export class NansenData {
    * Try MCP first for richer data, fall back to API
    */
   async getTokenHolders(token: string, chain: Chain, limit = 25): Promise<TokenHolder[]> {
-    if (this.preferMcp) {
-      try {
-        return await this.mcp.getTokenHolders(token, chain, limit) as TokenHolder[];
-      } catch (error) {
-        if (!this.fallbackToApi) throw error;
-      }
-    }
-
-    return this.api.getTokenHolders({
-      chain,
-      tokenAddress: token,
-      limit,
+    return this.route('getTokenHolders', {
+      mcp: {
+        credits: this.mcp.getToolCredits('token_current_top_holders'),
+        fetch: async () => normalizeTokenHolders(await this.mcp.getTokenHolders(token, chain, limit)).slice(0, limit),
+      },
+      api: {
+        credits: this.api.planRequest('/tgm/holders').credits,
+        fetch: () => this.api.getTokenHolders({ chain, tokenAddress: token, limit }),
+      },
     });
   }
 
@@ -588,18 +676,15 @@ export class NansenData {
    * Try MCP first, fall back to API
    */
   async getTokenDexTrades(token: string, chain: Chain, options?: { onlySmartMoney?: boolean; date?: DateRange }): Promise<DexTrade[]> {
-    if (this.preferMcp) {
-      try {
-        return await this.mcp.getTokenDexTrades(token, chain, options?.onlySmartMoney ?? false) as DexTrade[];
-      } catch (error) {
-        if (!this.fallbackToApi) throw error;
-      }
-    }
-
-    return this.api.getTokenDexTrades({
-      chain,
-      tokenAddress: token,
-      date: options?.date,
+    return this.route('getTokenDexTrades', {
+      mcp: {
+        credits: this.mcp.getToolCredits('token_dex_trades'),
+        fetch: async () => normalizeDexTrades(await this.mcp.getTokenDexTrades(token, chain, options?.onlySmartMoney ?? false)),
+      },
+      api: {
+        credits: this.api.planRequest('/tgm/dex-trades').credits,
+        fetch: () => this.api.getTokenDexTrades({ chain, tokenAddress: token, date: options?.date }),
+      },
     });
   }
 
@@ -608,27 +693,34 @@ export class NansenData {
    * Try MCP first, fall back to API
    */
   async getTokenFlows(token: string, chain: Chain, date?: DateRange): Promise<TokenFlow[]> {
-    if (this.preferMcp) {
-      try {
-        return await this.mcp.getRecentFlowsSummary(token, chain) as TokenFlow[];
-      } catch (error) {
-        if (!this.fallbackToApi) throw error;
-      }
-    }
-
-    return this.api.getTokenFlows({
-      chain,
-      tokenAddress: token,
-      date,
+    return this.route('getTokenFlows', {
+      mcp: {
+        credits: this.mcp.getToolCredits('token_recent_flows_summary'),
+        fetch: async () => normalizeTokenFlows(await this.mcp.getRecentFlowsSummary(token, chain)),
+      },
+      api: {
+        credits: this.api.planRequest('/tgm/flows').credits,
+        fetch: () => this.api.getTokenFlows({ chain, tokenAddress: token, date }),
+      },
     });
   }
 
   /**
    * Get wallet balances
-   * API is more structured, but MCP has more context
+   * API is more structured; MCP address_portfolio can be routed in via config
    */
   async getWalletBalances(address: string, chain: Chain): Promise<WalletBalance[]> {
-    return this.api.getWalletBalances({ address, chain });
+    return this.route('getWalletBalances', {
+      api: {
+        credits: this.api.planRequest('/profiler/address/current-balance').credits,
+        fetch: () => this.api.getWalletBalances({ address, chain }),
+      },
+      mcp: {
+        credits: this.mcp.getToolCredits('address_portfolio'),
+        fetch: async () => normalizeWalletBalances(await this.mcp.getWalletPortfolio(address), chain)
+          .filter(b => b.chain === chain),
+      },
+    });
   }
 
   /**
@@ -636,94 +728,203 @@ export class NansenData {
    * Try MCP first for more relationships
    */
   async getRelatedWallets(address: string, chain?: Chain): Promise<RelatedWallet[]> {
-    if (this.preferMcp) {
-      try {
-        return await this.mcp.getRelatedAddresses(address) as RelatedWallet[];
-      } catch (error) {
-        if (!this.fallbackToApi || !chain) throw error;
-      }
-    }
-
-    if (!chain) {
+    if (!chain && !this.routing.getRelatedWallets.sources.includes('mcp')) {
       throw new Error('Chain required for API fallback');
     }
 
-    return this.api.getRelatedWallets({ address, chain });
+    return this.route('getRelatedWallets', {
+      mcp: {
+        credits: this.mcp.getToolCredits('address_related_addresses'),
+        fetch: async () => normalizeRelatedWallets(await this.mcp.getRelatedAddresses(address)),
+      },
+      api: chain && {
+        credits: this.api.planRequest('/profiler/address/related-wallets').credits,
+        fetch: () => this.api.getRelatedWallets({ address, chain }),
+      },
+    });
   }
 
   // ===========================================================================
-  // Normalization Helpers
+  // Provenance
   // ===========================================================================
 
-  private normalizeScreenerResult(result: unknown, defaultChain: Chain): ScreenerToken[] {
-    // MCP returns text/markdown - parse it
-    if (typeof result === 'string') {
-      // Try to extract structured data from markdown
-      return this.parseMarkdownTable(result, defaultChain);
+  /**
+   * Run a call and wrap its result with source, freshness, credits and fallback reason
+   * e.g. `await data.withProvenance(d => d.getTokenInfo(token, 'base'))`
+   */
+  async withProvenance<T>(call: (data: this) => Promise<T>): Promise<Provenance<T>> {
+    return trace(() => call(this));
+  }
+
+  // ===========================================================================
+  // Dry Run (cost estimation, no calls made)
+  // ===========================================================================
+
+  /**
+   * Planned calls and credits for getMarketOverview
+   * OHLCV calls depend on screener results and are counted at topOhlcvCount
+   */
+  planMarketOverview(options: MarketOverviewOptions | Chain[] = {}): CallPlan {
+    const { chains, topOhlcvCount } = resolveOverviewOptions(options);
+
+    const calls: CallPlanNode[] = [
+      this.mcp.planTool('token_discovery_screener', { label: 'screener' }),
+      groupNode('netflows', chains.map(chain =>
+        this.api.planRequest('/smart-money/netflow', { label: `netflow/${chain}` })
+      )),
+      this.mcp.planTool('growth_chain_rank', { label: 'chainRankings' }),
+    ];
+    if (topOhlcvCount > 0) {
+      calls.push(this.mcp.planTool('token_ohlcv', { label: 'topTokensOhlcv', count: topOhlcvCount, conditional: true }));
     }
 
-    // If it's already structured
-    if (Array.isArray(result)) {
-      return result.map((item: any) => ({
-        address: item.token_address || item.address || '',
-        symbol: item.token_symbol || item.symbol || '',
-        name: item.token_name || item.name,
-        chain: (item.chain || defaultChain) as Chain,
-        price: item.price,
-        priceChange24h: item.price_change_24h,
-        volume24h: item.volume_24h,
-        marketCap: item.market_cap,
-        holders: item.holders,
-        netflowUsd: item.net_flow_usd || item.netflow_usd,
-        smartMoneyFlow: item.smart_money_netflow,
-      }));
+    return buildPlan('getMarketOverview', calls);
+  }
+
+  /**
+   * Planned calls and credits for getPolymarketOverview
+   */
+  planPolymarketOverview(analyzeContracts = false): CallPlan {
+    const calls: CallPlanNode[] = [
+      this.mcp.planTool('general_search', { label: 'search' }),
+      this.mcp.planTool('token_discovery_screener', { label: 'screener' }),
+      this.api.planRequest('/smart-money/netflow', { label: 'netflow/polygon' }),
+    ];
+    if (analyzeContracts) {
+      calls.push(groupNode('contractAnalysis', [
+        this.mcp.planTool('token_current_top_holders', { label: 'ctfHolders' }),
+        this.mcp.planTool('token_recent_flows_summary', { label: 'ctfFlows' }),
+      ]));
     }
 
-    return [];
+    return buildPlan('getPolymarketOverview', calls);
   }
 
-  private parseMarkdownTable(markdown: string, defaultChain: Chain): ScreenerToken[] {
-    // Simple markdown table parser for MCP responses
-    const lines = markdown.split('\n').filter(l => l.trim() && !l.startsWith('|--'));
-    const tokens: ScreenerToken[] = [];
+  /**
+   * Planned calls and credits for getTokenInfo (API fallback listed separately)
+   */
+  planTokenInfo(): CallPlan {
+    return buildPlan('getTokenInfo', this.planRoute('getTokenInfo', {
+      mcp: this.mcp.planAnalyzeToken(),
+      api: this.api.planTokenAnalysis(),
+    }));
+  }
 
-    for (const line of lines) {
-      if (!line.includes('|')) continue;
+  /**
+   * Planned calls and credits for getWalletProfile (API fallback requires chain)
+   */
+  planWalletProfile(chain?: Chain): CallPlan {
+    return buildPlan('getWalletProfile', this.planRoute('getWalletProfile', {
+      mcp: this.mcp.planAnalyzeWallet(),
+      api: chain && this.planWalletProfileApi(),
+    }));
+  }
 
-      const cells = line.split('|').map(c => c.trim()).filter(Boolean);
-      if (cells.length < 2) continue;
+  /**
+   * Planned calls and credits for scanOpportunities
+   */
+  planScanOpportunities(params: OpportunityScanRequest): CallPlan {
+    const calls = [this.api.planScanOpportunities(params)];
+    if (params.mode === 'breakout') {
+      calls.push(this.mcp.planTool('token_ohlcv', { label: 'breakoutOhlcv', count: params.limit || 20, conditional: true }));
+    }
+    return buildPlan('scanOpportunities', calls);
+  }
 
-      // Skip header row
-      if (cells[0].toLowerCase() === 'token' || cells[0].toLowerCase() === 'symbol') continue;
+  private planWalletProfileApi(): CallPlanNode {
+    return groupNode('api.walletProfile', [
+      this.api.planRequest('/profiler/address/current-balance', { label: 'balances' }),
+      this.api.planRequest('/profiler/address/related-wallets', { label: 'related' }),
+    ]);
+  }
 
-      // Try to extract token info from cells
-      const token: ScreenerToken = {
-        address: '',
-        symbol: cells[0] || '',
-        chain: defaultChain,
-      };
+  /**
+   * Routed sources in order: the first is primary, the rest are fallbacks
+   * Sources over the route's maxCredits are left out, as route() skips them
+   */
+  private planRoute(method: RoutedMethod, nodes: Partial<Record<RoutedSource, CallPlanNode | undefined>>): CallPlanNode[] {
+    const { sources, maxCredits } = this.routing[method];
+    return sources
+      .flatMap(source => nodes[source] ?? [])
+      .filter(node => maxCredits === undefined || node.credits <= maxCredits)
+      .map((node, i) => (i === 0 ? node : asFallback(node)));
+  }
+
+  // ===========================================================================
+  // Routing
+  // ===========================================================================
+
+  /**
+   * Try each source of a method's route in order
+   * Sources without a fetcher (e.g. API without a chain), over maxCredits or with an open
+   * route breaker are skipped; a failure or timeout moves on to the next source, the last error is rethrown
+   */
+  private async route<T>(method: RoutedMethod, fetchers: Partial<Record<RoutedSource, SourceFetch<T> | undefined>>): Promise<T> {
+    const policy = this.routing[method];
+    const candidates = policy.sources.filter(source => fetchers[source]);
+    if (candidates.length === 0) {
+      throw new NansenRoutingError(`No usable source for ${method} (route: ${policy.sources.join(', ')})`, method, 'NO_SOURCE');
+    }
+
+    let lastError: unknown;
+    for (const [i, source] of candidates.entries()) {
+      const { fetch, credits } = fetchers[source]!;
 
-      // Look for address pattern (0x...)
-      for (const cell of cells) {
-        if (cell.match(/^0x[a-fA-F0-9]{40}$/)) {
-          token.address = cell;
+      try {
+        if (policy.maxCredits !== undefined && credits > policy.maxCredits) {
+          throw new NansenRoutingError(
+            `${method} via ${source} costs ${credits} credits (max ${policy.maxCredits})`,
+            method,
+            'OVER_BUDGET'
+          );
         }
-        // Look for numbers that might be prices/volumes
-        const num = parseFloat(cell.replace(/[$,]/g, ''));
-        if (!isNaN(num)) {
-          if (!token.price) token.price = num;
-          else if (!token.volume24h) token.volume24h = num;
+        if (policy.breaker && !this.routeBreaker.allow([`${method}:${source}`], policy.breaker)) {
+          throw new NansenRoutingError(`${method} via ${source} is tripped (circuit open)`, method, 'CIRCUIT_OPEN');
         }
+      } catch (error) {
+        lastError = error;
+        if (i < candidates.length - 1) recordFallback(error);
+        continue;
       }
 
-      if (token.symbol) {
-        tokens.push(token);
+      try {
+        const result = await withTimeout(fetch(), policy.timeoutMs, method, source);
+        if (policy.breaker) this.routeBreaker.record([`${method}:${source}`], undefined, policy.breaker);
+        return result;
+      } catch (error) {
+        if (policy.breaker) this.routeBreaker.record([`${method}:${source}`], error, policy.breaker);
+        lastError = error;
+        if (i < candidates.length - 1) recordFallback(error);
       }
     }
 
-    return tokens;
+    throw lastError;
+  }
+
+  /**
+   * Breaker state for API endpoints, MCP tools and breaker-enabled routes
+   */
+  getBreakerStats(): BreakerStats {
+    return {
+      api: this.api.breaker?.getSnapshots() ?? [],
+      mcp: this.mcp.breaker?.getSnapshots() ?? [],
+      routes: this.routeBreaker.getSnapshots(),
+    };
+  }
+
+  /**
+   * Close all breakers (e.g. after an upstream incident is resolved)
+   */
+  resetBreakers(): void {
+    this.api.breaker?.reset();
+    this.mcp.breaker?.reset();
+    this.routeBreaker.reset();
   }
 
+  // ===========================================================================
+  // Normalization Helpers
+  // ===========================================================================
+
   private normalizeMcpTokenAnalysis(token: string, chain: Chain, result: any): TokenSummary {
     return {
       address: token,
@@ -783,6 +984,77 @@ export class NansenData {
   }
 }
 
+interface SourceFetch<T> {
+  fetch: () => Promise<T>;
+  credits: number;  // Planned cost, checked against the route's maxCredits
+}
+
+/**
+ * Reject when a source takes longer than the route allows
+ * The underlying request is not aborted - its late result is dropped
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, method: string, source: RoutedSource): Promise<T> {
+  if (timeoutMs === undefined) return promise;
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new NansenRoutingError(`${method} via ${source} timed out after ${timeoutMs}ms`, method, 'TIMEOUT')),
+      timeoutMs
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * MCP analyses settle every sub-call and never reject, so fail the route when none returned
+ * data - route() then falls back, and the 502 counts as a source failure for the route breaker
+ */
+function requireMcpResults<T extends { errors: string[] }>(method: string, result: T): T {
+  const fetched = Object.entries(result).some(([key, value]) => key !== 'errors' && value !== undefined);
+  if (!fetched) {
+    throw new NansenMcpError(`${method}: every MCP call failed (${result.errors.join('; ')})`, 'TOOL_ERROR', result.errors, 502);
+  }
+  return result;
+}
+
+/**
+ * Same direction/minValue/sort/limit handling the API client applies to netflows
+ */
+function filterNetflows(data: SmartMoneyNetflow[], params: SmartMoneyRequest): SmartMoneyNetflow[] {
+  let filtered = data;
+
+  if (params.direction === 'inflow') {
+    filtered = filtered.filter(d => d.netflow > 0);
+  } else if (params.direction === 'outflow') {
+    filtered = filtered.filter(d => d.netflow < 0);
+  }
+
+  if (params.minValue) {
+    filtered = filtered.filter(d => Math.abs(d.netflowUsd) >= params.minValue!);
+  }
+
+  filtered = [...filtered].sort((a, b) => Math.abs(b.netflowUsd) - Math.abs(a.netflowUsd));
+  return params.limit ? filtered.slice(0, params.limit) : filtered;
+}
+
+const DEFAULT_OVERVIEW_CHAINS: Chain[] = ['base', 'ethereum', 'arbitrum', 'polygon'];
+const MAX_TOP_OHLCV = 10; // Cap to limit credit burn
+
+function resolveOverviewOptions(options: MarketOverviewOptions | Chain[]) {
+  // Support legacy array signature
+  const opts: MarketOverviewOptions = Array.isArray(options)
+    ? { chains: options }
+    : options;
+
+  return {
+    chains: opts.chains ?? DEFAULT_OVERVIEW_CHAINS,
+    topOhlcvCount: Math.min(opts.topOhlcvCount ?? 0, MAX_TOP_OHLCV),
+    ohlcvInterval: opts.ohlcvInterval ?? '1h',
+  };
+}
+
 export function createData(config?: DataConfig): NansenData {
   return new NansenData(config);
 }
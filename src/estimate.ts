@@ -0,0 +1,81 @@
+/**
+ * Credit cost estimation
+ * Describes the calls a composite method would make, with credits per node,
+ * so agents can decide before spending
+ */
+
+export interface CallPlanNode {
+  label: string;
+  source?: 'api' | 'mcp';  // Set on leaf calls
+  target?: string;         // API endpoint or MCP tool
+  credits: number;         // Leaf cost, or the sum of non-fallback children
+  count?: number;          // Leaf repeated this many times (credits already multiplied)
+  fallback?: boolean;      // Only runs if the primary path fails - excluded from parent credits
+  conditional?: boolean;   // Depends on earlier results - counted at its upper bound
+  children?: CallPlanNode[];
+}
+
+export interface CallPlan {
+  method: string;
+  estimatedCredits: number;  // Primary path
+  maxCredits: number;        // Primary path plus every fallback
+  calls: CallPlanNode[];
+}
+
+/**
+ * Leaf node for a single paid call (or `count` identical calls)
+ */
+export function callNode(
+  source: 'api' | 'mcp',
+  target: string,
+  credits: number,
+  options: { label?: string; count?: number; conditional?: boolean } = {}
+): CallPlanNode {
+  const { label = target, count, conditional } = options;
+  return {
+    label,
+    source,
+    target,
+    credits: credits * (count ?? 1),
+    ...(count !== undefined && { count }),
+    ...(conditional && { conditional }),
+  };
+}
+
+/**
+ * Group node whose credits are the sum of its non-fallback children
+ */
+export function groupNode(
+  label: string,
+  children: CallPlanNode[],
+  options: { fallback?: boolean; conditional?: boolean } = {}
+): CallPlanNode {
+  return {
+    label,
+    credits: children.filter(c => !c.fallback).reduce((sum, c) => sum + c.credits, 0),
+    ...(options.fallback && { fallback: true }),
+    ...(options.conditional && { conditional: true }),
+    children,
+  };
+}
+
+/**
+ * Mark a node as a fallback path
+ */
+export function asFallback(node: CallPlanNode): CallPlanNode {
+  return { ...node, fallback: true };
+}
+
+export function buildPlan(method: string, calls: CallPlanNode[]): CallPlan {
+  return {
+    method,
+    estimatedCredits: calls.filter(c => !c.fallback).reduce((sum, c) => sum + c.credits, 0),
+    maxCredits: calls.reduce((sum, c) => sum + maxCredits(c), 0),
+    calls,
+  };
+}
+
+function maxCredits(node: CallPlanNode): number {
+  if (!node.children) return node.credits;
+  return node.children.reduce((sum, c) => sum + maxCredits(c), 0);
+}
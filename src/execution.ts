@@ -0,0 +1,366 @@
+/**
+ * Execution Adapters
+ * Contract between NansenTrader and downstream trading skills (Bankr, polyclaw, etc.):
+ * quote, submit, cancel and status for orders built from TradingSignal.suggestedAction.
+ * Ships a dry-run adapter that logs and fills at the latest price, and an HTTP adapter
+ * that POSTs orders to a configurable URL.
+ */
+
+import { HttpTransport, type TransportOptions } from './transport.js';
+import type { PriceSource } from './paper.js';
+import type { Chain } from './types.js';
+
+export type OrderSide = 'buy' | 'sell';
+
+export type OrderStatus =
+  | 'pending'
+  | 'submitted'
+  | 'partially_filled'
+  | 'filled'
+  | 'cancelled'
+  | 'rejected'
+  | 'failed';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending', 'submitted', 'partially_filled', 'filled', 'cancelled', 'rejected', 'failed',
+];
+
+// No further status changes expected
+export const TERMINAL_STATUSES: OrderStatus[] = ['filled', 'cancelled', 'rejected', 'failed'];
+
+export interface OrderRequest {
+  clientOrderId: string;     // Idempotency key, unique per order
+  token: string;
+  chain: Chain;
+  side: OrderSide;
+  symbol?: string;
+  amountUsd?: number;        // Notional in USD
+  quantity?: number;         // Token amount (takes precedence over amountUsd)
+  maxSlippageBps?: number;
+  signalId?: string;         // Logged signal the order acts on
+  closesSignalId?: string;   // Logged entry a sell closes (exit price is written there)
+}
+
+export interface Quote {
+  adapter: string;
+  token: string;
+  chain: Chain;
+  side: OrderSide;
+  price: number;
+  amountUsd?: number;
+  quantity?: number;
+  feeUsd?: number;
+  expiresAt?: string;
+}
+
+export interface OrderState {
+  orderId: string;
+  clientOrderId: string;
+  adapter: string;
+  status: OrderStatus;
+  request: OrderRequest;
+  filledQuantity?: number;
+  avgPrice?: number;
+  feeUsd?: number;
+  submittedAt: string;
+  updatedAt: string;
+  error?: string;
+}
+
+/**
+ * Anything that can take orders - implement this to plug in an execution skill
+ */
+export interface ExecutionAdapter {
+  name: string;
+  quote(request: OrderRequest): Promise<Quote>;
+  submit(request: OrderRequest): Promise<OrderState>;
+  cancel(orderId: string): Promise<OrderState>;
+  status(orderId: string): Promise<OrderState>;
+}
+
+export type ExecutionErrorCode =
+  | 'UNKNOWN_ADAPTER'
+  | 'UNKNOWN_ORDER'
+  | 'INVALID_ORDER'
+  | 'NO_PRICE'
+  | 'HTTP_ERROR'
+  | 'BAD_RESPONSE';
+
+export class NansenExecutionError extends Error {
+  constructor(
+    message: string,
+    public code: ExecutionErrorCode,
+    public adapter?: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'NansenExecutionError';
+  }
+}
+
+export function isTerminal(status: OrderStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Reject requests no adapter could act on
+ */
+export function validateOrder(request: OrderRequest, adapter?: string): void {
+  const invalid = (message: string) => new NansenExecutionError(message, 'INVALID_ORDER', adapter);
+
+  if (!request.clientOrderId) throw invalid('clientOrderId is required');
+  if (!request.token || !request.chain) throw invalid('token and chain are required');
+  if (request.side !== 'buy' && request.side !== 'sell') throw invalid(`Invalid side: ${request.side}`);
+  if (request.amountUsd !== undefined && !(request.amountUsd > 0)) throw invalid('amountUsd must be positive');
+  if (request.quantity !== undefined && !(request.quantity > 0)) throw invalid('quantity must be positive');
+  if (request.amountUsd === undefined && request.quantity === undefined) {
+    throw invalid('Orders need amountUsd or quantity');
+  }
+}
+
+// =============================================================================
+// Dry-run Adapter
+// =============================================================================
+
+export interface ExecutionLogEntry {
+  adapter: string;
+  call: 'quote' | 'submit' | 'cancel' | 'status';
+  timestamp: string;
+  request?: OrderRequest;
+  quote?: Quote;
+  order?: OrderState;
+}
+
+export interface DryRunAdapterOptions {
+  name?: string;                          // Default 'dry-run'
+  prices?: PriceSource;                   // Fill price source (orders fail with NO_PRICE without one)
+  log?: (entry: ExecutionLogEntry) => void;  // Default: one JSON line per call on stderr
+}
+
+/**
+ * Logs every call and fills orders immediately at the quoted price - nothing leaves the process
+ */
+export function createDryRunAdapter(options: DryRunAdapterOptions = {}): ExecutionAdapter {
+  const name = options.name ?? 'dry-run';
+  const log = options.log ?? ((entry: ExecutionLogEntry) => console.error(JSON.stringify(entry)));
+  const orders = new Map<string, OrderState>();
+  let sequence = 0;
+
+  const record = (call: ExecutionLogEntry['call'], details: Omit<ExecutionLogEntry, 'adapter' | 'call' | 'timestamp'>) => {
+    log({ adapter: name, call, timestamp: new Date().toISOString(), ...details });
+  };
+
+  const find = (orderId: string): OrderState => {
+    const order = orders.get(orderId);
+    if (!order) throw new NansenExecutionError(`Unknown order: ${orderId}`, 'UNKNOWN_ORDER', name);
+    return order;
+  };
+
+  const quote = async (request: OrderRequest): Promise<Quote> => {
+    validateOrder(request, name);
+    if (!options.prices) {
+      throw new NansenExecutionError('Dry-run adapter has no price source', 'NO_PRICE', name);
+    }
+
+    let price: number;
+    try {
+      price = await options.prices(request.token, request.chain);
+    } catch (error) {
+      throw new NansenExecutionError(`No price for ${request.chain}:${request.token}: ${(error as Error).message}`, 'NO_PRICE', name);
+    }
+
+    const quantity = request.quantity ?? request.amountUsd! / price;
+    return {
+      adapter: name,
+      token: request.token,
+      chain: request.chain,
+      side: request.side,
+      price,
+      quantity,
+      amountUsd: quantity * price,
+      feeUsd: 0,
+    };
+  };
+
+  return {
+    name,
+
+    async quote(request) {
+      const result = await quote(request);
+      record('quote', { request, quote: result });
+      return result;
+    },
+
+    async submit(request) {
+      const now = new Date().toISOString();
+      let order: OrderState;
+      try {
+        const q = await quote(request);
+        order = {
+          orderId: `${name}-${++sequence}`,
+          clientOrderId: request.clientOrderId,
+          adapter: name,
+          status: 'filled',
+          request,
+          filledQuantity: q.quantity,
+          avgPrice: q.price,
+          feeUsd: 0,
+          submittedAt: now,
+          updatedAt: now,
+        };
+      } catch (error) {
+        if ((error as NansenExecutionError).code === 'INVALID_ORDER') throw error;
+        order = {
+          orderId: `${name}-${++sequence}`,
+          clientOrderId: request.clientOrderId,
+          adapter: name,
+          status: 'rejected',
+          request,
+          submittedAt: now,
+          updatedAt: now,
+          error: (error as Error).message,
+        };
+      }
+
+      orders.set(order.orderId, order);
+      record('submit', { request, order });
+      return { ...order };
+    },
+
+    async cancel(orderId) {
+      const order = find(orderId);
+      if (!isTerminal(order.status)) {
+        order.status = 'cancelled';
+        order.updatedAt = new Date().toISOString();
+      }
+      record('cancel', { order });
+      return { ...order };
+    },
+
+    async status(orderId) {
+      const order = find(orderId);
+      record('status', { order });
+      return { ...order };
+    },
+  };
+}
+
+// =============================================================================
+// HTTP Adapter
+// =============================================================================
+
+export interface HttpAdapterOptions {
+  url: string;                       // Base URL: POST /quote, POST /orders, POST /orders/:id/cancel, GET /orders/:id
+  name?: string;                     // Default 'http'
+  token?: string;                    // Sent as a bearer token
+  headers?: Record<string, string>;
+  transport?: TransportOptions;
+}
+
+/**
+ * POSTs orders as JSON to an execution service
+ * Order responses need at least { orderId, status }; quote responses at least { price }.
+ */
+export function createHttpAdapter(options: HttpAdapterOptions): ExecutionAdapter {
+  const name = options.name ?? 'http';
+  const base = options.url.replace(/\/+$/, '');
+  const transport = new HttpTransport(options.transport);
+  const requests = new Map<string, OrderRequest>();
+
+  const call = async (method: 'GET' | 'POST', path: string, body?: unknown): Promise<Record<string, unknown>> => {
+    const init: RequestInit = {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(options.token && { Authorization: `Bearer ${options.token}` }),
+        ...options.headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    };
+
+    return transport.send(`${base}${path}`, init, async response => {
+      let data: Record<string, unknown> | undefined;
+      try {
+        data = await response.json();
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') throw error;
+        data = undefined;
+      }
+
+      if (!response.ok) {
+        const message = (data?.error ?? data?.message ?? response.statusText) as string;
+        throw new NansenExecutionError(`${method} ${path} failed: ${message}`, 'HTTP_ERROR', name, response.status);
+      }
+      if (!data || typeof data !== 'object') {
+        throw new NansenExecutionError(`${method} ${path} returned no JSON body`, 'BAD_RESPONSE', name, response.status);
+      }
+      return data;
+    });
+  };
+
+  const toOrder = (data: Record<string, unknown>, request?: OrderRequest): OrderState => {
+    const orderId = data.orderId ?? data.id;
+    const status = data.status as OrderStatus;
+    if (typeof orderId !== 'string' || !ORDER_STATUSES.includes(status)) {
+      throw new NansenExecutionError('Order response needs orderId and a known status', 'BAD_RESPONSE', name);
+    }
+
+    const known = request ?? requests.get(orderId) ?? (data.request as OrderRequest | undefined);
+    if (!known) {
+      throw new NansenExecutionError(`Unknown order: ${orderId}`, 'UNKNOWN_ORDER', name);
+    }
+    requests.set(orderId, known);
+
+    const now = new Date().toISOString();
+    return {
+      orderId,
+      clientOrderId: known.clientOrderId,
+      adapter: name,
+      status,
+      request: known,
+      filledQuantity: data.filledQuantity as number | undefined,
+      avgPrice: data.avgPrice as number | undefined,
+      feeUsd: data.feeUsd as number | undefined,
+      submittedAt: (data.submittedAt as string | undefined) ?? now,
+      updatedAt: (data.updatedAt as string | undefined) ?? now,
+      error: data.error as string | undefined,
+    };
+  };
+
+  return {
+    name,
+
+    async quote(request) {
+      validateOrder(request, name);
+      const data = await call('POST', '/quote', request);
+      if (typeof data.price !== 'number') {
+        throw new NansenExecutionError('Quote response needs a numeric price', 'BAD_RESPONSE', name);
+      }
+      return {
+        adapter: name,
+        token: request.token,
+        chain: request.chain,
+        side: request.side,
+        price: data.price,
+        amountUsd: data.amountUsd as number | undefined,
+        quantity: data.quantity as number | undefined,
+        feeUsd: data.feeUsd as number | undefined,
+        expiresAt: data.expiresAt as string | undefined,
+      };
+    },
+
+    async submit(request) {
+      validateOrder(request, name);
+      return toOrder(await call('POST', '/orders', request), request);
+    },
+
+    async cancel(orderId) {
+      return toOrder(await call('POST', `/orders/${encodeURIComponent(orderId)}/cancel`));
+    },
+
+    async status(orderId) {
+      return toOrder(await call('GET', `/orders/${encodeURIComponent(orderId)}`));
+    },
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Exit Monitor
+ * Watches positions we hold (acted-on buys without an exit) for reasons to sell:
+ * smart money netflow reversing, the token showing up in distribution scans,
+ * top holders cutting their balances, and price stops. A position that trips any
+ * rule becomes a sell SuggestedAction, urgent as its strongest trigger.
+ */
+
+import { candleTime } from './backtest.js';
+import type { Candle } from './scan.js';
+import type { LoggedSignal } from './signal-log.js';
+import type { TokenHolder } from './api.js';
+import type { SuggestedAction, TradingSignal } from './trader.js';
+import type { Chain, OpportunitySignal, SmartMoneyNetflow } from './types.js';
+
+export type ExitTrigger =
+  | 'stopLoss'
+  | 'trailingStop'
+  | 'takeProfit'
+  | 'netflowReversal'
+  | 'distribution'
+  | 'holderDrop';
+
+export type Urgency = SuggestedAction['urgency'];
+
+export interface ExitConfig {
+  stopLossPct?: number;       // Below entry (default 15)
+  trailingStopPct?: number;   // Below the highest close since entry (default off)
+  takeProfitPct?: number;     // Above entry (default off)
+  minReversalUsd?: number;    // 24h smart money net outflow that counts as a reversal (default 10,000)
+  holderDropPct?: number;     // Combined 24h balance cut by the top holders (default 10)
+  topHolders?: number;        // Holders to check (default 10)
+  checkHolders?: boolean;     // One holders lookup per position (default true)
+}
+
+export interface ExitReason {
+  trigger: ExitTrigger;
+  urgency: Urgency;
+  reason: string;
+}
+
+/**
+ * What the monitor found for one held token (missing data skips its rules)
+ */
+export interface PositionMarket {
+  candles?: Candle[];
+  netflows?: SmartMoneyNetflow[];          // The chain's netflow list
+  distribution?: OpportunitySignal[];      // The chain's distribution scan
+  holders?: TokenHolder[];
+}
+
+export interface ExitSignal {
+  id: string;                // exit:<position id>
+  positionId: string;        // Logged entry signal
+  token: string;
+  symbol: string;
+  chain: Chain;
+  entryPrice?: number;
+  price?: number;
+  pnlPercent?: number;
+  notionalUsd?: number;      // USD committed at entry, when known
+  reasons: ExitReason[];
+  suggestedAction: SuggestedAction;
+  timestamp: string;
+}
+
+export const DEFAULT_EXIT_CONFIG = {
+  stopLossPct: 15,
+  minReversalUsd: 10_000,
+  holderDropPct: 10,
+  topHolders: 10,
+  checkHolders: true,
+};
+
+const URGENCY_RANK: Record<Urgency, number> = { low: 0, medium: 1, high: 2 };
+
+const sameToken = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Stop-loss, trailing stop and take-profit from candles since the entry
+ * Entry price is the recorded fill, else the open of the first candle after entry.
+ */
+export function priceExits(
+  position: LoggedSignal,
+  candles: Candle[],
+  config: ExitConfig = {}
+): { entryPrice?: number; price?: number; pnlPercent?: number; reasons: ExitReason[] } {
+  const { stopLossPct, trailingStopPct, takeProfitPct } = { ...DEFAULT_EXIT_CONFIG, ...config };
+  const enteredAt = Date.parse(position.outcome?.executedAt ?? position.timestamp);
+  const sorted = candles
+    .filter(c => !Number.isNaN(candleTime(c)))
+    .sort((a, b) => candleTime(a) - candleTime(b));
+  const since = sorted.filter(c => candleTime(c) >= enteredAt);
+
+  const entryPrice = position.outcome?.entryPrice ?? since[0]?.open;
+  const price = sorted[sorted.length - 1]?.close;
+  if (!entryPrice || price === undefined) return { entryPrice, price, reasons: [] };
+
+  const pnlPercent = ((price - entryPrice) / entryPrice) * 100;
+  const reasons: ExitReason[] = [];
+
+  if (stopLossPct !== undefined && pnlPercent <= -stopLossPct) {
+    reasons.push({
+      trigger: 'stopLoss',
+      urgency: 'high',
+      reason: `Price ${pnlPercent.toFixed(1)}% from entry, past the ${stopLossPct}% stop`,
+    });
+  }
+
+  if (trailingStopPct !== undefined) {
+    const peak = Math.max(entryPrice, ...since.map(c => c.close));
+    const fromPeak = ((price - peak) / peak) * 100;
+    if (peak > entryPrice && fromPeak <= -trailingStopPct) {
+      reasons.push({
+        trigger: 'trailingStop',
+        urgency: 'high',
+        reason: `Price ${fromPeak.toFixed(1)}% off the $${peak.toPrecision(4)} high, past the ${trailingStopPct}% trailing stop`,
+      });
+    }
+  }
+
+  if (takeProfitPct !== undefined && pnlPercent >= takeProfitPct) {
+    reasons.push({
+      trigger: 'takeProfit',
+      urgency: 'medium',
+      reason: `Price +${pnlPercent.toFixed(1)}% from entry, past the ${takeProfitPct}% target`,
+    });
+  }
+
+  return { entryPrice, price, pnlPercent, reasons };
+}
+
+/**
+ * Smart money selling the token on net over 24h (urgent when 7d flow is negative too)
+ */
+export function netflowExit(flow: SmartMoneyNetflow | undefined, config: ExitConfig = {}): ExitReason | undefined {
+  const { minReversalUsd } = { ...DEFAULT_EXIT_CONFIG, ...config };
+  if (!flow || flow.netflowUsd > -minReversalUsd) return undefined;
+
+  const weekly = flow.netflow7d !== undefined && flow.netflow7d < 0;
+  return {
+    trigger: 'netflowReversal',
+    urgency: weekly ? 'high' : 'medium',
+    reason: `Smart money net outflow $${Math.round(-flow.netflowUsd).toLocaleString('en-US')} (24h)` +
+      (weekly ? ', negative over 7d' : ''),
+  };
+}
+
+/**
+ * Top holders' combined 24h balance cut, as a share of what they held a day ago
+ */
+export function holderExit(holders: TokenHolder[] | undefined, config: ExitConfig = {}): ExitReason | undefined {
+  const { holderDropPct, topHolders } = { ...DEFAULT_EXIT_CONFIG, ...config };
+  const top = (holders ?? []).slice(0, topHolders);
+  const before = top.reduce((sum, h) => sum + Math.max(h.tokenAmount - h.balanceChange24h, 0), 0);
+  if (before <= 0) return undefined;
+
+  const dropPct = (-top.reduce((sum, h) => sum + h.balanceChange24h, 0) / before) * 100;
+  if (dropPct < holderDropPct) return undefined;
+
+  return {
+    trigger: 'holderDrop',
+    urgency: dropPct >= holderDropPct * 2 ? 'high' : 'medium',
+    reason: `Top ${top.length} holders cut balances ${dropPct.toFixed(1)}% (24h)`,
+  };
+}
+
+/**
+ * Sell signal for a held position, or undefined when no rule trips
+ * Two or more triggers make it urgent regardless of their own urgency.
+ */
+export function evaluateExit(
+  position: LoggedSignal,
+  market: PositionMarket,
+  config: ExitConfig = {},
+  now = Date.now()
+): ExitSignal | undefined {
+  const prices = market.candles ? priceExits(position, market.candles, config) : { reasons: [] as ExitReason[] };
+  const reasons = [...prices.reasons];
+
+  const flow = netflowExit(market.netflows?.find(f => sameToken(f.token, position.token)), config);
+  if (flow) reasons.push(flow);
+
+  const distribution = market.distribution?.find(s => sameToken(s.token, position.token));
+  if (distribution) {
+    reasons.push({ trigger: 'distribution', urgency: 'medium', reason: `Distribution scan: ${distribution.reason}` });
+  }
+
+  const holders = holderExit(market.holders, config);
+  if (holders) reasons.push(holders);
+
+  if (reasons.length === 0) return undefined;
+
+  const strongest = reasons.reduce((max, r) => URGENCY_RANK[r.urgency] > URGENCY_RANK[max] ? r.urgency : max, 'low' as Urgency);
+  const urgency: Urgency = reasons.length >= 2 ? 'high' : strongest;
+  const held = position as Partial<TradingSignal>;
+
+  return {
+    id: `exit:${position.id}`,
+    positionId: position.id,
+    token: position.token,
+    symbol: position.symbol,
+    chain: position.chain,
+    entryPrice: 'entryPrice' in prices ? prices.entryPrice : position.outcome?.entryPrice,
+    price: 'price' in prices ? prices.price : undefined,
+    pnlPercent: 'pnlPercent' in prices ? prices.pnlPercent : undefined,
+    notionalUsd: position.outcome?.notionalUsd ?? held.positionSize?.usd,
+    reasons,
+    suggestedAction: {
+      action: 'sell',
+      urgency,
+      reasoning: reasons.map(r => r.reason).join('; '),
+      targetChain: position.chain,
+      targetToken: position.token,
+      positionSizeHint: held.suggestedAction?.positionSizeHint ?? 'small',
+    },
+    timestamp: new Date(now).toISOString(),
+  };
+}
@@ -0,0 +1,449 @@
+/**
+ * Nansen Skill HTTP Server
+ * Serves the trading layer as a small REST API for services that can't use the CLI,
+ * backed by one long-lived NansenTrader so cache, rate limiter and credit budget are shared
+ *
+ * Routes are declared once and drive dispatch, validation and the OpenAPI document
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import type { NansenTrader, ScanOptions } from './trader.js';
+import { NansenApiError } from './api.js';
+import { NansenMcpError } from './mcp.js';
+import { NansenBudgetError } from './credits.js';
+import { NansenSchemaError, checkJsonSchema, type JsonSchema, type SchemaIssue } from './schema.js';
+import { SKILL_TOOLS, recordSignalOutcome } from './mcp-server.js';
+import { NansenSignalStateError, type SignalFilter, type SignalOutcome } from './signal-log.js';
+import type { MarketOverviewOptions } from './data.js';
+import type { Chain } from './types.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type HttpMethod = 'GET' | 'POST';
+
+export interface HttpRequest {
+  method: string;
+  url: string;                                      // Path plus query string
+  headers?: Record<string, string | string[] | undefined>;
+  body?: unknown;                                   // Parsed JSON
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface RouteContext {
+  params: Record<string, string>;   // Path parameters
+  query: Record<string, unknown>;   // Coerced and validated - safe to cast to the route's schema type
+  body: Record<string, unknown>;    // Validated
+}
+
+export interface Route {
+  method: HttpMethod;
+  path: string;                     // Express-style, e.g. /signals/:id/outcome
+  summary: string;
+  query?: JsonSchema;
+  body?: JsonSchema;
+  handler: (trader: NansenTrader, ctx: RouteContext) => Promise<unknown> | unknown;
+}
+
+export interface HttpServerOptions {
+  token?: string;                   // Require `Authorization: Bearer <token>` when set
+  routes?: Route[];
+}
+
+/**
+ * Error with an HTTP status, thrown by route handlers
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+function toolSchema(name: string): JsonSchema {
+  const tool = SKILL_TOOLS.find(t => t.name === name);
+  if (!tool) throw new Error(`Unknown skill tool: ${name}`);
+  return tool.inputSchema;
+}
+
+const outcomeSchema = toolSchema('record_outcome');
+const { signalId: _signalId, ...outcomeProperties } = outcomeSchema.properties!;
+
+export const ROUTES: Route[] = [
+  {
+    method: 'GET',
+    path: '/market',
+    summary: 'Market overview: hot tokens, smart money netflows, chain rankings',
+    query: toolSchema('market_overview'),
+    handler: (trader, { query }) => trader.getMarketOverview(query as MarketOverviewOptions),
+  },
+  {
+    method: 'GET',
+    path: '/hot/:chain',
+    summary: 'Top tokens on a chain by smart money flow',
+    query: {
+      type: 'object',
+      properties: { limit: { type: 'integer' } },
+      additionalProperties: false,
+    },
+    handler: async (trader, { params, query }) => {
+      const chain = params.chain as Chain;
+      assertChain(chain);
+      const tokens = await trader.getHotTokens(chain);
+      const limit = (query.limit as number | undefined) ?? 10;
+      return { chain, count: Math.min(tokens.length, limit), hotTokens: tokens.slice(0, limit) };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/scan',
+    summary: 'Scan for opportunities with risk filters and scoring; signals are logged',
+    body: toolSchema('trader_scan'),
+    handler: (trader, { body }) => trader.scan(body as ScanOptions),
+  },
+  {
+    method: 'GET',
+    path: '/signals',
+    summary: 'Logged signals (newest first) with performance stats',
+    query: toolSchema('signal_log_query'),
+    handler: (trader, { query }) => {
+      const { limit, ...filter } = query as SignalFilter;
+      return { signals: trader.findSignals(query as SignalFilter), stats: trader.getPerformanceStats(filter) };
+    },
+  },
+  {
+    method: 'POST',
+    path: '/signals/:id/outcome',
+    summary: 'Record the action taken on a signal and its trade outcome',
+    body: { type: 'object', properties: outcomeProperties, additionalProperties: false },
+    handler: (trader, { params, body }) => {
+      const signal = recordSignalOutcome(trader, params.id, body as Partial<SignalOutcome>);
+      if (!signal) {
+        throw new HttpError(404, 'NOT_FOUND', `Signal not found: ${params.id}`);
+      }
+      return signal;
+    },
+  },
+  {
+    method: 'GET',
+    path: '/stats',
+    summary: 'Cache, rate limiter, retry, credit and signal statistics',
+    handler: trader => trader.getStats(),
+  },
+];
+
+const CHAINS = (toolSchema('token_summary').properties!.chain.enum ?? []) as Chain[];
+
+function assertChain(chain: string): asserts chain is Chain {
+  if (!CHAINS.includes(chain as Chain)) {
+    throw new HttpError(400, 'INVALID_PARAMS', `Unsupported chain: ${chain}`, { expected: CHAINS });
+  }
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+export class NansenHttpServer {
+  private routes: Route[];
+  private token?: string;
+
+  constructor(private trader: NansenTrader, options: HttpServerOptions = {}) {
+    this.routes = options.routes ?? ROUTES;
+    this.token = options.token;
+  }
+
+  /**
+   * Handle one request - transport-independent so it can be tested without sockets
+   */
+  async handle(request: HttpRequest): Promise<HttpResponse> {
+    const url = new URL(request.url, 'http://localhost');
+
+    // Discovery endpoints stay public so clients can find out how to authenticate
+    if (request.method === 'GET' && url.pathname === '/health') {
+      return json(200, { status: 'ok' });
+    }
+    if (request.method === 'GET' && url.pathname === '/openapi.json') {
+      return json(200, this.getOpenApiDocument());
+    }
+
+    if (this.token && !this.isAuthorized(request.headers?.authorization)) {
+      return {
+        ...errorResponse(401, 'UNAUTHORIZED', 'Missing or invalid bearer token'),
+        headers: { 'content-type': 'application/json', 'www-authenticate': 'Bearer' },
+      };
+    }
+
+    let matches: Array<{ route: Route; params: Record<string, string> }>;
+    try {
+      matches = this.routes
+        .map(route => ({ route, params: matchPath(route.path, url.pathname) }))
+        .filter((m): m is { route: Route; params: Record<string, string> } => m.params !== null);
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+
+    if (matches.length === 0) {
+      return errorResponse(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+    }
+
+    const match = matches.find(m => m.route.method === request.method);
+    if (!match) {
+      return {
+        ...errorResponse(405, 'METHOD_NOT_ALLOWED', `${request.method} not allowed on ${url.pathname}`),
+        headers: { 'content-type': 'application/json', allow: matches.map(m => m.route.method).join(', ') },
+      };
+    }
+
+    const { route, params } = match;
+    const query = route.query ? coerceQuery(url.searchParams, route.query) : {};
+    const body = (request.body ?? {}) as Record<string, unknown>;
+
+    const issues: SchemaIssue[] = [
+      ...(route.query ? checkJsonSchema(query, route.query, route.path, 'query') : []),
+      ...(route.body ? checkJsonSchema(body, route.body, route.path, 'body') : []),
+    ];
+    if (issues.length > 0) {
+      return errorResponse(400, 'INVALID_PARAMS', `${issues[0].path} expected ${issues[0].expected}, got ${issues[0].received}`, issues);
+    }
+
+    try {
+      return json(200, await route.handler(this.trader, { params, query, body }));
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  }
+
+  /**
+   * OpenAPI 3.0 document generated from the route table
+   */
+  getOpenApiDocument(): Record<string, unknown> {
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const route of this.routes) {
+      const openApiPath = route.path.replace(/:(\w+)/g, '{$1}');
+      const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      }));
+      const queryParams = Object.entries(route.query?.properties ?? {}).map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: route.query?.required?.includes(name) ?? false,
+        schema,
+        ...(schema.type === 'array' && { style: 'form', explode: false }),
+      }));
+
+      paths[openApiPath] = {
+        ...paths[openApiPath],
+        [route.method.toLowerCase()]: {
+          summary: route.summary,
+          parameters: [...pathParams, ...queryParams],
+          ...(route.body && {
+            requestBody: { required: true, content: { 'application/json': { schema: route.body } } },
+          }),
+          responses: {
+            200: { description: 'Success', content: { 'application/json': { schema: {} } } },
+            400: { description: 'Invalid parameters' },
+            ...(this.token && { 401: { description: 'Missing or invalid bearer token' } }),
+            429: { description: 'Credit budget exhausted or rate limited upstream' },
+            502: { description: 'Nansen API or MCP error' },
+          },
+        },
+      };
+    }
+
+    return {
+      openapi: '3.0.3',
+      info: { title: 'Nansen Trading Skill', version: '1.0.0' },
+      paths,
+      ...(this.token && {
+        components: { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } },
+        security: [{ bearerAuth: [] }],
+      }),
+    };
+  }
+
+  /**
+   * Start listening; resolves once the port is bound
+   */
+  listen(port = 8787, host = '127.0.0.1'): Promise<Server> {
+    const server = createServer((req, res) => {
+      this.dispatch(req, res).catch(error => {
+        console.error('HTTP server error:', (error as Error).message);
+        if (!res.headersSent) {
+          send(res, errorResponse(500, 'INTERNAL', 'Internal server error'));
+        }
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve(server);
+      });
+    });
+  }
+
+  private async dispatch(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        send(res, toErrorResponse(error));
+        return;
+      }
+    }
+
+    send(res, await this.handle({ method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers, body }));
+  }
+
+  private isAuthorized(header: string | string[] | undefined): boolean {
+    const value = Array.isArray(header) ? header[0] : header;
+    const match = value?.match(/^Bearer\s+(.+)$/i);
+    if (!match) return false;
+
+    const given = Buffer.from(match[1]);
+    const expected = Buffer.from(this.token!);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodePathParam(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function decodePathParam(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    throw new HttpError(400, 'INVALID_PARAMS', `Malformed path parameter: ${raw}`);
+  }
+}
+
+/**
+ * Convert query strings to the types the schema declares (arrays are comma-separated)
+ * Values that don't convert are left as strings so validation reports them
+ */
+function coerceQuery(searchParams: URLSearchParams, schema: JsonSchema): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+
+  for (const [name, raw] of searchParams) {
+    const type = schema.properties?.[name]?.type;
+    if (type === 'array') {
+      query[name] = raw.split(',').map(v => v.trim()).filter(Boolean);
+    } else if ((type === 'integer' || type === 'number') && raw.trim() !== '' && !isNaN(Number(raw))) {
+      query[name] = Number(raw);
+    } else if (type === 'boolean' && (raw === 'true' || raw === 'false')) {
+      query[name] = raw === 'true';
+    } else {
+      query[name] = raw;
+    }
+  }
+
+  return query;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text.trim()) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'INVALID_JSON', 'Request body is not valid JSON');
+  }
+}
+
+function toErrorResponse(error: unknown): HttpResponse {
+  if (error instanceof HttpError) {
+    return errorResponse(error.status, error.code, error.message, error.details);
+  }
+  if (error instanceof NansenBudgetError) {
+    return errorResponse(429, 'BUDGET_EXCEEDED', error.message, {
+      window: error.window,
+      spent: error.spent,
+      limit: error.limit,
+      requested: error.requested,
+    });
+  }
+  if ((error instanceof NansenApiError || error instanceof NansenMcpError) && error.code === 'CIRCUIT_OPEN') {
+    return errorResponse(503, 'CIRCUIT_OPEN', error.message, { retryAfterMs: error.retryAfterMs });
+  }
+  if (error instanceof NansenApiError || error instanceof NansenMcpError) {
+    return errorResponse(error.status === 429 ? 429 : 502, error.code ?? 'UPSTREAM_ERROR', error.message, error.details);
+  }
+  if (error instanceof NansenSchemaError) {
+    return errorResponse(502, 'SCHEMA_MISMATCH', error.message, { schema: error.schema, issues: error.issues });
+  }
+  if (error instanceof NansenSignalStateError) {
+    return errorResponse(409, 'INVALID_TRANSITION', error.message, { from: error.from, to: error.to });
+  }
+  return errorResponse(500, 'INTERNAL', (error as Error).message);
+}
+
+function json(status: number, body: unknown): HttpResponse {
+  return { status, headers: { 'content-type': 'application/json' }, body };
+}
+
+function errorResponse(status: number, code: string, message: string, details?: unknown): HttpResponse {
+  return json(status, { error: { code, message, ...(details !== undefined && { details }) } });
+}
+
+function send(res: ServerResponse, response: HttpResponse): void {
+  res.writeHead(response.status, response.headers);
+  res.end(JSON.stringify(response.body));
+}
+
+export function createHttpServer(trader: NansenTrader, options?: HttpServerOptions): NansenHttpServer {
+  return new NansenHttpServer(trader, options);
+}
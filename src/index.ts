@@ -10,7 +10,18 @@ import os from 'node:os';
 import { NansenData, createData } from './data.js';
 import { NansenApiError } from './api.js';
 import { NansenMcpError, MCP_TOOLS, type McpTool } from './mcp.js';
+import { NansenSchemaError } from './schema.js';
+import { CreditLedger, NansenBudgetError, budgetFromEnv } from './credits.js';
 import { NansenTrader, type TradingSignal } from './trader.js';
+import { createMcpServer } from './mcp-server.js';
+import { createHttpServer } from './http-server.js';
+import type { BreakerState } from './circuit-breaker.js';
+import { appendNetflowSnapshot } from './backtest.js';
+import type { TrackingSummary } from './outcomes.js';
+import { NansenPaperError, type PaperFill } from './paper.js';
+import { NansenExecutionError, type OrderState } from './execution.js';
+import type { ExitConfig, ExitSignal } from './exits.js';
+import { NansenSignalStateError, SIGNAL_STATES, type SignalState } from './signal-log.js';
 import type {
   Chain,
   ScanMode,
@@ -20,11 +31,23 @@ import type {
 const program = new Command();
 
 let dataClient: NansenData;
+let ledger: CreditLedger;
+
+// One persisted ledger per process, shared by the data layer and trader
+function getLedger(): CreditLedger {
+  if (!ledger) {
+    ledger = new CreditLedger({
+      budget: budgetFromEnv(),
+      path: path.join(process.cwd(), '.nansen', 'credits.json'),
+    });
+  }
+  return ledger;
+}
 
 function getData(): NansenData {
   if (!dataClient) {
     try {
-      dataClient = createData();
+      dataClient = createData({ ledger: getLedger() });
     } catch (error: any) {
       console.error(chalk.red(error.message));
       console.log('\nSet your API key:');
@@ -46,12 +69,34 @@ function formatAddress(addr: string): string {
   return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
 }
 
+function formatBreakerState(state: BreakerState): string {
+  if (state === 'open') return chalk.red('OPEN');
+  if (state === 'half-open') return chalk.yellow('HALF-OPEN');
+  return chalk.green('closed');
+}
+
+function formatSignalState(state: SignalState): string {
+  if (state === 'new') return chalk.green(state);
+  if (state === 'watching' || state === 'entered') return chalk.yellow(state);
+  return chalk.dim(state);
+}
+
 function handleError(error: any): never {
   if (error instanceof NansenApiError) {
     console.error(chalk.red(`API Error [${error.code}]: ${error.message}`));
     if (error.details) {
       console.error(chalk.dim(JSON.stringify(error.details, null, 2)));
     }
+  } else if (error instanceof NansenSchemaError) {
+    console.error(chalk.red(`Schema Error [${error.schema}]: ${error.message}`));
+  } else if (error instanceof NansenBudgetError) {
+    console.error(chalk.red(`Budget Error [${error.window}]: ${error.message}`));
+  } else if (error instanceof NansenPaperError) {
+    console.error(chalk.red(`Paper Error [${error.code}]: ${error.message}`));
+  } else if (error instanceof NansenExecutionError) {
+    console.error(chalk.red(`Execution Error [${error.code}]: ${error.message}`));
+  } else if (error instanceof NansenSignalStateError) {
+    console.error(chalk.red(`Signal State Error [${error.from} -> ${error.to}]: ${error.message}`));
   } else {
     console.error(chalk.red(`Error: ${error.message}`));
   }
@@ -90,14 +135,22 @@ program
   .option('--json', 'Machine JSON output (no whitespace). Overrides --pretty.')
   .option('--out <path>', 'Write output JSON to a file (atomic). Also prints to stdout unless --quiet.')
   .option('--quiet', 'If used with --out, suppress stdout')
+  .option('--dry-run', 'Print the planned calls and estimated credits without calling')
   .action(async (options) => {
     try {
       const chains = options.chains.split(',').map((c: string) => c.trim()) as Chain[];
-      const overview = await getData().getMarketOverview({
+      const request = {
         chains,
         topOhlcvCount: options.topOhlcv,
         ohlcvInterval: options.interval,
-      });
+      };
+
+      if (options.dryRun) {
+        console.log(JSON.stringify(getData().planMarketOverview(request), null, options.pretty ? 2 : 0));
+        return;
+      }
+
+      const overview = await getData().getMarketOverview(request);
 
       const machine = Boolean(options.json);
       const indent = machine ? 0 : (options.pretty ? 2 : 0);
@@ -128,8 +181,14 @@ program
   .description('Polymarket-focused overview (Polygon activity + prediction markets)')
   .option('--analyze-contracts', 'Also analyze known Polymarket contracts (extra API calls)')
   .option('--pretty', 'Pretty print output')
+  .option('--dry-run', 'Print the planned calls and estimated credits without calling')
   .action(async (options) => {
     try {
+      if (options.dryRun) {
+        console.log(JSON.stringify(getData().planPolymarketOverview(options.analyzeContracts), null, options.pretty ? 2 : 0));
+        return;
+      }
+
       const overview = await getData().getPolymarketOverview(options.analyzeContracts);
       console.log(JSON.stringify(overview, null, options.pretty ? 2 : 0));
     } catch (error: any) {
@@ -179,16 +238,26 @@ program
   .description('Token summary: holders, flows, trades (MCP-first with API fallback)')
   .requiredOption('-c, --chain <chain>', 'Chain (ethereum, base, arbitrum, etc.)')
   .option('--pretty', 'Pretty print output')
+  .option('--dry-run', 'Print the planned calls and estimated credits without calling')
   .action(async (address: string, options) => {
     try {
+      if (options.dryRun) {
+        console.log(JSON.stringify(getData().planTokenInfo(), null, options.pretty ? 2 : 0));
+        return;
+      }
+
       // MCP-first: uses multiple MCP tools for comprehensive analysis
-      const analysis = await getData().getTokenInfo(address, options.chain as Chain);
+      const { data: analysis, source, creditsSpent, fallbackReason } = await getData().withProvenance(
+        d => d.getTokenInfo(address, options.chain as Chain)
+      );
 
       const result = {
         token: address,
         chain: options.chain,
         timestamp: new Date().toISOString(),
-        source: 'mcp-first',
+        source,
+        creditsSpent,
+        fallbackReason,
         symbol: analysis.symbol,
         name: analysis.name,
         topHolders: analysis.holders.slice(0, 5).map(h => ({
@@ -215,15 +284,25 @@ program
   .description('Wallet summary: balances, PnL, related wallets (MCP-first)')
   .option('-c, --chain <chain>', 'Chain (for API fallback)')
   .option('--pretty', 'Pretty print output')
+  .option('--dry-run', 'Print the planned calls and estimated credits without calling')
   .action(async (addr: string, options) => {
     try {
+      if (options.dryRun) {
+        console.log(JSON.stringify(getData().planWalletProfile(options.chain as Chain | undefined), null, options.pretty ? 2 : 0));
+        return;
+      }
+
       // MCP-first: uses wallet_pnl_summary + address_portfolio (comprehensive)
-      const profile = await getData().getWalletProfile(addr, options.chain as Chain | undefined);
+      const { data: profile, source, creditsSpent, fallbackReason } = await getData().withProvenance(
+        d => d.getWalletProfile(addr, options.chain as Chain | undefined)
+      );
 
       const result = {
         address: addr,
         timestamp: new Date().toISOString(),
-        source: 'mcp-first',
+        source,
+        creditsSpent,
+        fallbackReason,
         totalValueUsd: profile.totalValueUsd,
         realizedPnl: profile.realizedPnl,
         unrealizedPnl: profile.unrealizedPnl,
@@ -717,19 +796,27 @@ program
   .command('scan')
   .description('Scan for trading opportunities (API: fast composite method)')
   .requiredOption('--chain <chain>', 'Blockchain')
-  .option('--mode <mode>', 'Scan mode: accumulation, distribution', 'accumulation')
+  .option('--mode <mode>', 'Scan mode: accumulation, distribution, breakout, fresh-wallets', 'accumulation')
   .option('--limit <n>', 'Number of results', parseInt, 10)
   .option('--json', 'Output as JSON')
+  .option('--dry-run', 'Print the planned calls and estimated credits without calling')
   .action(async (options) => {
+    const request = {
+      chain: options.chain as Chain,
+      mode: options.mode as ScanMode,
+      limit: options.limit,
+    };
+
+    if (options.dryRun) {
+      console.log(JSON.stringify(getData().planScanOpportunities(request), null, 2));
+      return;
+    }
+
     const spinner = ora(`Scanning for ${options.mode} signals...`).start();
 
     try {
       // API: fast composite method for opportunity scanning
-      const signals = await getData().scanOpportunities({
-        chain: options.chain as Chain,
-        mode: options.mode as ScanMode,
-        limit: options.limit,
-      });
+      const signals = await getData().scanOpportunities(request);
 
       spinner.stop();
 
@@ -786,6 +873,94 @@ program
     }
   });
 
+// =============================================================================
+// Credits
+// =============================================================================
+
+program
+  .command('credits')
+  .description('Credit usage and budgets (set NANSEN_CREDITS_{HOURLY,DAILY}_{SOFT,HARD})')
+  .option('--entries <n>', 'Include the N most recent ledger entries', parseInt)
+  .option('--reset', 'Clear the ledger')
+  .option('--json', 'Output JSON')
+  .action((options) => {
+    const credits = getLedger();
+
+    if (options.reset) {
+      credits.reset();
+    }
+
+    const stats = credits.getStats();
+    const entries = options.entries ? credits.getEntries(options.entries) : undefined;
+
+    if (options.json) {
+      console.log(JSON.stringify({ ...stats, entries }, null, 2));
+      return;
+    }
+
+    console.log(`\n${chalk.cyan('Credit Usage')}\n`);
+    console.log(`  Last hour: ${stats.lastHour}${formatLimit(stats.budget.hourly)}`);
+    console.log(`  Last 24h:  ${stats.lastDay}${formatLimit(stats.budget.daily)}`);
+    console.log(`  Lifetime:  ${stats.total} (${stats.calls} calls, ${stats.cacheHits} cache hits, ${stats.creditsSaved} saved)`);
+    console.log(`  API: ${stats.bySource.api} | MCP: ${stats.bySource.mcp}`);
+
+    const targets = Object.entries(stats.byTarget).sort((a, b) => b[1] - a[1]);
+    if (targets.length > 0) {
+      const table = new Table({ head: ['Endpoint / Tool', 'Credits (24h)'], style: { head: ['cyan'] } });
+      for (const [target, spent] of targets) {
+        table.push([target, spent]);
+      }
+      console.log(`\n${table.toString()}`);
+    }
+
+    if (entries?.length) {
+      console.log(chalk.yellow('\nRecent:'));
+      for (const e of entries) {
+        const cost = e.cacheHit ? chalk.dim(`cache hit (saved ${e.saved ?? 0})`) : `${e.credits} credits`;
+        console.log(`  ${e.timestamp} ${e.source.padEnd(5)} ${e.target} ${cost}`);
+      }
+    }
+  });
+
+function formatLimit(limit?: { soft?: number; hard?: number }): string {
+  if (!limit) return '';
+  const parts = [
+    limit.soft !== undefined ? `soft ${limit.soft}` : '',
+    limit.hard !== undefined ? `hard ${limit.hard}` : '',
+  ].filter(Boolean);
+  return chalk.dim(` (${parts.join(', ')})`);
+}
+
+program
+  .command('routing')
+  .description('Show per-method source routing (set NANSEN_ROUTING_CONFIG to a JSON file to override)')
+  .action(() => {
+    console.log(JSON.stringify(getData().routing, null, 2));
+  });
+
+program
+  .command('breakers')
+  .description('Show circuit breaker state for API endpoints, MCP tools and routes')
+  .option('--json', 'Output JSON')
+  .action((options) => {
+    const stats = getData().getBreakerStats();
+
+    if (options.json) {
+      console.log(JSON.stringify(stats, null, 2));
+      return;
+    }
+
+    for (const [source, snapshots] of Object.entries(stats)) {
+      console.log(chalk.yellow(`\n${source.toUpperCase()}:`));
+      if (snapshots.length === 0) {
+        console.log(chalk.dim('  No calls yet'));
+      }
+      for (const b of snapshots) {
+        console.log(`  ${b.key}: ${formatBreakerState(b.state)} ${chalk.dim(`${b.failures}/${b.calls} failed`)}${b.retryAfterMs !== undefined ? chalk.dim(` (probe in ${Math.ceil(b.retryAfterMs / 1000)}s)`) : ''}`);
+      }
+    }
+  });
+
 // =============================================================================
 // MCP Commands
 // =============================================================================
@@ -801,7 +976,7 @@ mcpCmd
     const spinner = ora(`Calling MCP tool: ${options.name}...`).start();
     try {
       const params = JSON.parse(options.params);
-      const result = await getData().mcp.callTool(options.name as McpTool, params);
+      const result = await getData().mcp.callTool(options.name, params);
       spinner.stop();
       console.log(JSON.stringify(result, null, 2));
     } catch (error: any) {
@@ -904,7 +1079,33 @@ mcpCmd
 mcpCmd
   .command('tools')
   .description('List all available MCP tools')
-  .action(() => {
+  .option('--discover', 'List the tools the server advertises (tools/list) with their input schemas')
+  .option('--json', 'Output JSON (with --discover)')
+  .action(async (options) => {
+    if (options.discover) {
+      try {
+        const tools = await getData().mcp.discoverTools();
+
+        if (options.json) {
+          console.log(JSON.stringify(tools, null, 2));
+          return;
+        }
+
+        console.log(`\n${chalk.cyan(`Server MCP Tools (${tools.length} total)`)}\n`);
+        for (const tool of tools) {
+          const known = tool.name in MCP_TOOLS ? '' : chalk.yellow(' [new]');
+          const args = Object.keys(tool.inputSchema?.properties ?? {}).join(', ');
+          console.log(`  ${chalk.cyan(tool.name)}${known}${args ? chalk.dim(` (${args})`) : ''}`);
+          if (tool.description) {
+            console.log(`    ${chalk.dim(tool.description.split('\n')[0])}`);
+          }
+        }
+      } catch (error: any) {
+        handleError(error);
+      }
+      return;
+    }
+
     console.log(`\n${chalk.cyan('Available MCP Tools (21 total)')}\n`);
 
     const categories: Record<string, McpTool[]> = {
@@ -933,7 +1134,7 @@ let trader: NansenTrader;
 function getTrader(): NansenTrader {
   if (!trader) {
     try {
-      trader = new NansenTrader();
+      trader = new NansenTrader({ ledger: getLedger() });
     } catch (error: any) {
       console.error(chalk.red(error.message));
       console.log('\nSet your API key:');
@@ -944,7 +1145,7 @@ function getTrader(): NansenTrader {
   return trader;
 }
 
-function formatSignal(signal: TradingSignal): void {
+function formatSignal(signal: TradingSignal, explain = false): void {
   const recColors: Record<string, any> = {
     strong_buy: chalk.green.bold,
     buy: chalk.green,
@@ -960,6 +1161,22 @@ function formatSignal(signal: TradingSignal): void {
   if (signal.riskFactors.length > 0) {
     console.log(`  Factors: ${signal.riskFactors.join(', ')}`);
   }
+
+  if (signal.positionSize) {
+    console.log(`  Size: $${signal.positionSize.usd.toFixed(2)} (${signal.positionSize.method}, ${(signal.positionSize.fraction * 100).toFixed(2)}% of bankroll)`);
+  }
+
+  if (explain) {
+    const format = (factors: TradingSignal['scoreBreakdown']) => factors
+      .filter(f => f.contribution !== 0)
+      .map(f => `${f.name} ${f.contribution >= 0 ? '+' : ''}${f.contribution.toFixed(2)}`)
+      .join(', ') || 'none';
+    console.log(chalk.dim(`  Score (${signal.strategy}): ${format(signal.scoreBreakdown)}`));
+    console.log(chalk.dim(`  Risk: ${format(signal.riskBreakdown)}`));
+    if (signal.positionSize) {
+      console.log(chalk.dim(`  Sizing: ${signal.positionSize.rationale.join('; ')}`));
+    }
+  }
 }
 
 const traderCmd = program.command('trader').description('Trading intelligence layer');
@@ -968,26 +1185,59 @@ traderCmd
   .command('quick')
   .description('Quick scan on a single chain')
   .requiredOption('--chain <chain>', 'Blockchain to scan')
-  .option('--mode <mode>', 'Scan mode', 'accumulation')
+  .option('--mode <mode>', 'Scan mode: accumulation, distribution, breakout, fresh-wallets', 'accumulation')
+  .option('--show-rejected', 'Also list signals the risk filters dropped, with reasons')
+  .option('--explain', 'Show the score breakdown and sizing rationale (NANSEN_SCORING_CONFIG, NANSEN_SIZING_METHOD)')
+  .option('--paper', 'Paper-trade the suggested actions')
+  .option('--execute <adapter>', 'Submit the suggested actions through an execution adapter')
   .option('--json', 'Output JSON')
   .action(async (options) => {
     const spinner = ora(`Quick scan: ${options.chain}...`).start();
     try {
-      const signals = await getTrader().quickScan(options.chain as Chain, options.mode as ScanMode);
+      const trader = getTrader();
+      const signals = await trader.quickScan(options.chain as Chain, options.mode as ScanMode);
+      const rejected = options.showRejected ? trader.getRejectedSignals() : [];
+      const fills = options.paper ? await trader.paperTrade(signals) : [];
+      const orders = options.execute ? await trader.executeSignals(signals, { adapter: options.execute }) : [];
       spinner.stop();
 
       if (options.json) {
-        console.log(JSON.stringify(signals, null, 2));
+        const extras = {
+          ...(options.showRejected && { rejected }),
+          ...(options.paper && { fills }),
+          ...(options.execute && { orders }),
+        };
+        console.log(JSON.stringify(Object.keys(extras).length > 0 ? { signals, ...extras } : signals, null, 2));
         return;
       }
 
       if (signals.length === 0) {
         console.log(chalk.yellow('\nNo signals found.'));
-        return;
       }
 
       for (const signal of signals) {
-        formatSignal(signal);
+        formatSignal(signal, options.explain);
+      }
+
+      if (rejected.length > 0) {
+        console.log(chalk.yellow(`\nRejected (${rejected.length}):`));
+        for (const { signal, rejections } of rejected) {
+          console.log(`  ${signal.symbol} ${chalk.dim(signal.chain)}: ${rejections.map(r => r.reason).join('; ')}`);
+        }
+      }
+
+      if (options.paper) {
+        console.log(chalk.yellow(`\nPaper fills (${fills.length}):`));
+        for (const fill of fills) {
+          console.log(`  ${formatFill(fill)}`);
+        }
+      }
+
+      if (options.execute) {
+        console.log(chalk.yellow(`\nOrders via ${options.execute} (${orders.length}):`));
+        for (const order of orders) {
+          console.log(`  ${formatOrder(order)}`);
+        }
       }
     } catch (error: any) {
       spinner.stop();
@@ -1000,14 +1250,21 @@ traderCmd
   .description('View logged signals')
   .option('--limit <n>', 'Number of signals', parseInt, 20)
   .option('--chain <chain>', 'Filter by chain')
+  .option('--state <states>', `Filter by lifecycle state, comma-separated (${SIGNAL_STATES.join(', ')})`)
   .option('--json', 'Output JSON')
   .action(async (options) => {
-    let signals = getTrader().getRecentSignals(options.limit);
-
-    if (options.chain) {
-      signals = signals.filter(s => s.chain === options.chain);
+    const states = options.state?.split(',').map((s: string) => s.trim()) as SignalState[] | undefined;
+    const unknown = states?.filter(s => !SIGNAL_STATES.includes(s));
+    if (unknown?.length) {
+      handleError(new Error(`Unknown state: ${unknown.join(', ')} (expected ${SIGNAL_STATES.join(', ')})`));
     }
 
+    const signals = getTrader().findSignals({
+      limit: options.limit,
+      chains: options.chain ? [options.chain as Chain] : undefined,
+      states,
+    });
+
     if (options.json) {
       console.log(JSON.stringify(signals, null, 2));
       return;
@@ -1021,7 +1278,7 @@ traderCmd
     console.log(`\n${chalk.cyan('Logged Signals')} (${signals.length})\n`);
 
     const table = new Table({
-      head: ['Token', 'Chain', 'Score', 'Acted', 'Time'],
+      head: ['Token', 'Chain', 'Mode', 'Score', 'State', 'Time'],
       style: { head: ['cyan'] },
     });
 
@@ -1029,8 +1286,9 @@ traderCmd
       table.push([
         s.symbol,
         s.chain,
+        s.type,
         s.score.toFixed(1),
-        s.acted ? chalk.green('Yes') : chalk.dim('No'),
+        formatSignalState(s.state),
         new Date(s.loggedAt).toLocaleString(),
       ]);
     }
@@ -1061,10 +1319,510 @@ traderCmd
     console.log(`  Total Requests: ${stats.rateLimit.totalRequests}`);
     console.log(`  Throttled: ${stats.rateLimit.throttledRequests}`);
 
+    console.log(chalk.yellow('\nRetries:'));
+    console.log(`  Total: ${stats.retries.total}`);
+
+    console.log(chalk.yellow('\nCredits:'));
+    console.log(`  Last Hour: ${stats.credits.lastHour}`);
+    console.log(`  Last 24h: ${stats.credits.lastDay}`);
+    console.log(`  Lifetime: ${stats.credits.total}`);
+
+    const tripped = Object.entries(stats.breakers)
+      .flatMap(([source, snapshots]) => snapshots.filter(b => b.state !== 'closed').map(b => ({ ...b, source })));
+    console.log(chalk.yellow('\nCircuit Breakers:'));
+    if (tripped.length === 0) {
+      console.log(`  All closed`);
+    }
+    for (const b of tripped) {
+      console.log(`  ${b.source} ${b.key}: ${formatBreakerState(b.state)}`);
+    }
+
+    console.log(chalk.yellow('\nRisk Rejections:'));
+    console.log(`  Total: ${stats.rejections.total}`);
+    for (const [filter, count] of Object.entries(stats.rejections.byFilter)) {
+      console.log(`  ${filter}: ${count}`);
+    }
+
     console.log(chalk.yellow('\nSignals:'));
     console.log(`  Total: ${stats.signals.totalSignals}`);
     console.log(`  Acted On: ${stats.signals.actedOn}`);
     console.log(`  Win Rate: ${(stats.signals.winRate * 100).toFixed(1)}%`);
   });
 
+traderCmd
+  .command('track-outcomes')
+  .description('Fill logged signal outcomes (1h/4h/24h/7d returns, MFE/MAE) from OHLCV')
+  .option('--chain <chain>', 'Only signals on this chain')
+  .option('--watch', 'Keep running in the background')
+  .option('--interval <minutes>', 'Minutes between runs with --watch', parseFloat, 15)
+  .option('--json', 'Output JSON')
+  .action(async (options) => {
+    const trader = getTrader();
+    const print = (summary: TrackingSummary) => {
+      if (options.json) {
+        console.log(JSON.stringify(summary, null, 2));
+        return;
+      }
+      console.log(`${chalk.cyan('Outcomes')} checked ${summary.checked}, updated ${summary.updated} ` +
+        `(${summary.completed} complete, ${summary.pending} pending), ${summary.failed.length} failed`);
+      for (const { id, reason } of summary.failed) {
+        console.log(chalk.dim(`  ${id}: ${reason}`));
+      }
+    };
+
+    if (options.watch) {
+      console.error(chalk.dim(`Tracking outcomes every ${options.interval} min (Ctrl+C to stop)`));
+      trader.startOutcomeTracking(options.interval * 60 * 1000, print);
+      return;
+    }
+
+    const spinner = ora('Tracking outcomes...').start();
+    try {
+      const summary = await trader.trackOutcomes({ chains: options.chain ? [options.chain as Chain] : undefined });
+      spinner.stop();
+      print(summary);
+    } catch (error: any) {
+      spinner.stop();
+      handleError(error);
+    }
+  });
+
+function formatExit(exit: ExitSignal): void {
+  const urgency = exit.suggestedAction.urgency;
+  const urgencyColor = urgency === 'high' ? chalk.red : urgency === 'medium' ? chalk.yellow : chalk.dim;
+  const pnl = exit.pnlPercent !== undefined
+    ? (exit.pnlPercent >= 0 ? chalk.green : chalk.red)(`${exit.pnlPercent >= 0 ? '+' : ''}${exit.pnlPercent.toFixed(1)}%`)
+    : chalk.dim('pnl n/a');
+  console.log(`\n${chalk.red('SELL')} ${chalk.bold(exit.symbol)} ${chalk.dim(exit.chain)} ${urgencyColor(urgency)} ${pnl} ` +
+    chalk.dim(`(position ${exit.positionId})`));
+  for (const reason of exit.reasons) {
+    console.log(`  ${chalk.dim(reason.trigger)} ${reason.reason}`);
+  }
+}
+
+traderCmd
+  .command('exits')
+  .description('Check held positions (acted-on buys without an exit) for sell signals')
+  .option('--stop-loss <pct>', 'Stop-loss percent below entry', parseFloat)
+  .option('--trailing <pct>', 'Trailing stop percent below the high since entry', parseFloat)
+  .option('--take-profit <pct>', 'Take-profit percent above entry', parseFloat)
+  .option('--no-holders', 'Skip the top-holder balance check')
+  .option('--execute <adapter>', 'Submit the sells through an execution adapter')
+  .option('--watch', 'Keep running in the background')
+  .option('--interval <minutes>', 'Minutes between checks with --watch', parseFloat, 5)
+  .option('--json', 'Output JSON')
+  .action(async (options) => {
+    const trader = getTrader();
+    const exits: ExitConfig = {
+      ...(options.stopLoss !== undefined && { stopLossPct: options.stopLoss }),
+      ...(options.trailing !== undefined && { trailingStopPct: options.trailing }),
+      ...(options.takeProfit !== undefined && { takeProfitPct: options.takeProfit }),
+      ...(!options.holders && { checkHolders: false }),
+    };
+    const execute = async (exit: ExitSignal) => ({
+      exit,
+      order: options.execute ? await trader.executeExit(exit, { adapter: options.execute }) : undefined,
+    });
+    const print = ({ exit, order }: { exit: ExitSignal; order?: OrderState }) => {
+      formatExit(exit);
+      if (order) console.log(`  ${formatOrder(order)}`);
+    };
+
+    if (options.watch) {
+      console.error(chalk.dim(`Checking ${trader.getOpenPositions().length} open positions every ${options.interval} min (Ctrl+C to stop)`));
+      trader.monitorExits({ intervalMs: options.interval * 60 * 1000, exits }, async (exit) => {
+        const result = await execute(exit);
+        if (options.json) {
+          console.log(JSON.stringify(result));
+        } else {
+          print(result);
+        }
+      });
+      return;
+    }
+
+    const spinner = ora('Checking open positions...').start();
+    try {
+      const open = trader.getOpenPositions().length;
+      const results = [];
+      for (const exit of await trader.checkExits(exits)) {
+        results.push(await execute(exit));
+      }
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+
+      console.log(chalk.cyan(`${open} open positions, ${results.length} exit signals`));
+      results.forEach(print);
+    } catch (error: any) {
+      spinner.stop();
+      handleError(error);
+    }
+  });
+
+const SNAPSHOT_PATH = path.join(process.cwd(), '.nansen', 'netflow-snapshots.json');
+
+traderCmd
+  .command('snapshot')
+  .description('Store a smart money netflow snapshot for later backtests')
+  .requiredOption('--chain <chain>', 'Blockchain')
+  .option('--file <path>', 'Snapshot file', SNAPSHOT_PATH)
+  .action(async (options) => {
+    const spinner = ora(`Snapshotting ${options.chain} netflow...`).start();
+    try {
+      const rows = await getTrader().getSmartMoney(options.chain as Chain);
+      appendNetflowSnapshot(options.file, { timestamp: new Date().toISOString(), chain: options.chain as Chain, rows });
+      spinner.succeed(`Stored ${rows.length} rows in ${options.file}`);
+    } catch (error: any) {
+      spinner.stop();
+      handleError(error);
+    }
+  });
+
+traderCmd
+  .command('backtest')
+  .description('Replay logged signals (or netflow snapshots) against OHLCV')
+  .option('--chain <chain>', 'Only signals on this chain')
+  .option('--mode <mode>', 'Only signals of this scan mode')
+  .option('--since <date>', 'Only signals logged after this date')
+  .option('--snapshots [path]', 'Replay netflow snapshots instead of logged signals', false)
+  .option('--candles <path>', 'Candle JSON keyed "chain:token" (default: MCP token_ohlcv)')
+  .option('--hold <hours>', 'Hold horizons in hours, comma-separated', '4,24,72')
+  .option('--stop-loss <pct>', 'Stop-loss percent', parseFloat)
+  .option('--take-profit <pct>', 'Take-profit percent', parseFloat)
+  .option('--fee-bps <bps>', 'Fee per side in basis points', parseFloat, 30)
+  .option('--json', 'Output JSON')
+  .action(async (options) => {
+    const spinner = ora('Backtesting...').start();
+    try {
+      const report = await getTrader().backtest({
+        filter: {
+          chains: options.chain ? [options.chain as Chain] : undefined,
+          modes: options.mode ? [options.mode as ScanMode] : undefined,
+          startDate: options.since,
+        },
+        snapshots: options.snapshots === true ? SNAPSHOT_PATH : options.snapshots || undefined,
+        candles: options.candles,
+        holdHours: String(options.hold).split(',').map(Number),
+        stopLossPct: options.stopLoss,
+        takeProfitPct: options.takeProfit,
+        feeBps: options.feeBps,
+      });
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      console.log(`\n${chalk.cyan('Backtest')} (${report.signals} signals, ${report.skipped.length} skipped)`);
+
+      for (const horizon of report.horizons) {
+        console.log(chalk.yellow(`\nHold ${horizon.holdHours}h:`));
+
+        const table = new Table({
+          head: ['Group', 'Trades', 'Hit Rate', 'Avg Return', 'Max DD', 'Sharpe'],
+          style: { head: ['cyan'] },
+        });
+        const rows = [
+          ['all', horizon.overall] as const,
+          ...Object.entries(horizon.byChain).map(([k, v]) => [`chain ${k}`, v] as const),
+          ...Object.entries(horizon.byMode).map(([k, v]) => [`mode ${k}`, v] as const),
+          ...Object.entries(horizon.byScoreBucket).map(([k, v]) => [`score ${k}`, v] as const),
+        ];
+        for (const [group, stats] of rows) {
+          table.push([
+            group,
+            stats.trades,
+            `${(stats.hitRate * 100).toFixed(1)}%`,
+            `${stats.avgReturnPct.toFixed(2)}%`,
+            `${stats.maxDrawdownPct.toFixed(2)}%`,
+            stats.sharpe.toFixed(2),
+          ]);
+        }
+        console.log(table.toString());
+      }
+    } catch (error: any) {
+      spinner.stop();
+      handleError(error);
+    }
+  });
+
+// =============================================================================
+// Paper Trading
+// =============================================================================
+
+const paperCmd = program.command('paper').description('Paper trading portfolio (fills at OHLCV prices)');
+
+function formatFill(fill: PaperFill): string {
+  const side = fill.side === 'buy' ? chalk.green('BUY') : chalk.red('SELL');
+  return `${side} ${fill.quantity.toPrecision(6)} ${fill.positionId} @ $${fill.price.toPrecision(6)} ` +
+    chalk.dim(`($${fill.notional.toFixed(2)}, fee $${fill.fee.toFixed(2)})`);
+}
+
+paperCmd
+  .command('open')
+  .description('Open or add to a paper position')
+  .requiredOption('--token <address>', 'Token address')
+  .requiredOption('--chain <chain>', 'Blockchain')
+  .option('--usd <amount>', 'Notional in USD', parseFloat)
+  .option('--size <hint>', 'Size from equity: small, medium, large', 'small')
+  .option('--symbol <symbol>', 'Token symbol for display')
+  .action(async (options) => {
+    try {
+      const fill = await getTrader().paper.open(options.token, options.chain as Chain, {
+        usd: options.usd,
+        sizeHint: options.size,
+        symbol: options.symbol,
+      });
+      console.log(formatFill(fill));
+    } catch (error: any) {
+      handleError(error);
+    }
+  });
+
+paperCmd
+  .command('close <position>')
+  .description('Close a paper position (chain:token, or token address)')
+  .option('--fraction <n>', 'Share of the position to sell (0-1]', parseFloat, 1)
+  .option('--reason <text>', 'Note stored with the trade')
+  .action(async (position, options) => {
+    try {
+      const fill = await getTrader().paper.close(position, { fraction: options.fraction, reason: options.reason });
+      console.log(formatFill(fill));
+    } catch (error: any) {
+      handleError(error);
+    }
+  });
+
+paperCmd
+  .command('positions')
+  .description('Open paper positions, marked to market')
+  .option('--json', 'Output JSON')
+  .action(async (options) => {
+    const spinner = ora('Marking to market...').start();
+    let positions;
+    try {
+      positions = await getTrader().paper.markToMarket();
+      spinner.stop();
+    } catch (error: any) {
+      spinner.fail();
+      handleError(error);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(positions, null, 2));
+      return;
+    }
+
+    if (positions.length === 0) {
+      console.log(chalk.yellow('\nNo open positions.'));
+      return;
+    }
+
+    const table = new Table({
+      head: ['Position', 'Symbol', 'Qty', 'Avg Price', 'Last', 'Value', 'Unrealized'],
+      style: { head: ['cyan'] },
+    });
+    for (const p of positions) {
+      const value = p.lastPrice !== undefined ? p.quantity * p.lastPrice : p.costBasis;
+      const pnl = value - p.costBasis;
+      table.push([
+        p.id,
+        p.symbol,
+        p.quantity.toPrecision(6),
+        `$${p.avgPrice.toPrecision(6)}`,
+        p.lastPrice !== undefined ? `$${p.lastPrice.toPrecision(6)}` : chalk.dim('-'),
+        `$${value.toFixed(2)}`,
+        (pnl >= 0 ? chalk.green : chalk.red)(`$${pnl.toFixed(2)}`),
+      ]);
+    }
+    console.log(table.toString());
+  });
+
+paperCmd
+  .command('report')
+  .description('Cash, equity and realized/unrealized PnL')
+  .option('--no-mark', 'Use the last marks instead of fetching prices')
+  .option('--json', 'Output JSON')
+  .action(async (options) => {
+    const paper = getTrader().paper;
+    if (options.mark) {
+      const spinner = ora('Marking to market...').start();
+      try {
+        await paper.markToMarket();
+        spinner.stop();
+      } catch (error: any) {
+        spinner.fail();
+        handleError(error);
+      }
+    }
+    const report = paper.getReport();
+
+    if (options.json) {
+      console.log(JSON.stringify({ ...report, closed: paper.getClosedTrades(20) }, null, 2));
+      return;
+    }
+
+    const pnl = (n: number) => (n >= 0 ? chalk.green : chalk.red)(`$${n.toFixed(2)}`);
+    console.log(`\n${chalk.cyan('Paper Portfolio')}\n`);
+    console.log(`  Equity: $${report.equity.toFixed(2)} (${report.totalReturnPct >= 0 ? '+' : ''}${report.totalReturnPct.toFixed(2)}%)`);
+    console.log(`  Cash: $${report.cash.toFixed(2)} | Positions: $${report.positionsValue.toFixed(2)} (${report.openPositions} open)`);
+    console.log(`  Realized: ${pnl(report.realizedPnl)} | Unrealized: ${pnl(report.unrealizedPnl)} | Fees: $${report.fees.toFixed(2)}`);
+    console.log(`  Closed Trades: ${report.closedTrades} | Win Rate: ${(report.winRate * 100).toFixed(1)}%`);
+  });
+
+paperCmd
+  .command('reset')
+  .description('Clear positions and history and start over')
+  .option('--cash <usd>', 'Starting cash', parseFloat)
+  .action((options) => {
+    getTrader().paper.reset(options.cash);
+    console.log(chalk.green('Paper portfolio reset.'));
+  });
+
+// =============================================================================
+// Execution
+// =============================================================================
+
+const execCmd = program.command('exec').description('Send suggested actions to execution adapters (NANSEN_EXECUTION_URL adds "http")');
+
+function formatOrder(order: OrderState): string {
+  const side = order.request.side === 'buy' ? chalk.green('BUY') : chalk.red('SELL');
+  const statusColor = order.status === 'filled' ? chalk.green
+    : order.status === 'rejected' || order.status === 'failed' ? chalk.red
+      : chalk.yellow;
+  const fill = order.avgPrice !== undefined
+    ? ` ${(order.filledQuantity ?? 0).toPrecision(6)} @ $${order.avgPrice.toPrecision(6)}`
+    : '';
+  return `${side} ${order.request.symbol ?? order.request.token} ${chalk.dim(order.request.chain)} ` +
+    `${statusColor(order.status)}${fill} ${chalk.dim(`${order.adapter}:${order.orderId}`)}` +
+    (order.error ? chalk.red(` ${order.error}`) : '');
+}
+
+function loggedTradingSignal(signalId: string): TradingSignal {
+  const signal = getTrader().getSignal(signalId) as TradingSignal | undefined;
+  if (!signal) {
+    throw new Error(`Unknown signal: ${signalId}`);
+  }
+  return signal;
+}
+
+execCmd
+  .command('adapters')
+  .description('List registered execution adapters')
+  .action(() => {
+    const trader = getTrader();
+    const active = trader.getExecutionAdapter().name;
+    for (const name of trader.listExecutionAdapters()) {
+      console.log(name === active ? `${chalk.green('*')} ${name}` : `  ${name}`);
+    }
+  });
+
+execCmd
+  .command('quote <signalId>')
+  .description("Quote a logged signal's suggested action")
+  .option('--adapter <name>', 'Execution adapter (default: dry-run)')
+  .option('--usd <amount>', 'Notional in USD (default: from the size hint)', parseFloat)
+  .option('--json', 'Output JSON')
+  .action(async (signalId, options) => {
+    try {
+      const quote = await getTrader().quoteSignal(loggedTradingSignal(signalId), {
+        adapter: options.adapter,
+        amountUsd: options.usd,
+      });
+      if (options.json) {
+        console.log(JSON.stringify(quote ?? null, null, 2));
+      } else if (!quote) {
+        console.log(chalk.yellow('Signal suggests waiting - nothing to quote.'));
+      } else {
+        console.log(`${quote.side.toUpperCase()} ${quote.quantity?.toPrecision(6) ?? '?'} @ $${quote.price.toPrecision(6)} ` +
+          chalk.dim(`($${quote.amountUsd?.toFixed(2) ?? '?'}, fee $${(quote.feeUsd ?? 0).toFixed(2)}, ${quote.adapter})`));
+      }
+    } catch (error: any) {
+      handleError(error);
+    }
+  });
+
+execCmd
+  .command('submit <signalId>')
+  .description("Submit a logged signal's suggested action; fills are written back to the signal log")
+  .option('--adapter <name>', 'Execution adapter (default: dry-run)')
+  .option('--usd <amount>', 'Notional in USD (default: from the size hint)', parseFloat)
+  .option('--json', 'Output JSON')
+  .action(async (signalId, options) => {
+    try {
+      const order = await getTrader().executeSignal(loggedTradingSignal(signalId), {
+        adapter: options.adapter,
+        amountUsd: options.usd,
+      });
+      if (options.json) {
+        console.log(JSON.stringify(order ?? null, null, 2));
+      } else {
+        console.log(order ? formatOrder(order) : chalk.yellow('Signal suggests waiting - no order sent.'));
+      }
+    } catch (error: any) {
+      handleError(error);
+    }
+  });
+
+execCmd
+  .command('status <orderId>')
+  .description('Fetch an order from its adapter and record any fill')
+  .requiredOption('--adapter <name>', 'Execution adapter that holds the order')
+  .option('--json', 'Output JSON')
+  .action(async (orderId, options) => {
+    try {
+      const order = await getTrader().getOrderStatus(orderId, options.adapter);
+      console.log(options.json ? JSON.stringify(order, null, 2) : formatOrder(order));
+    } catch (error: any) {
+      handleError(error);
+    }
+  });
+
+execCmd
+  .command('cancel <orderId>')
+  .description('Cancel an open order')
+  .requiredOption('--adapter <name>', 'Execution adapter that holds the order')
+  .action(async (orderId, options) => {
+    try {
+      console.log(formatOrder(await getTrader().cancelOrder(orderId, options.adapter)));
+    } catch (error: any) {
+      handleError(error);
+    }
+  });
+
+// =============================================================================
+// Servers
+// =============================================================================
+
+program
+  .command('serve-mcp')
+  .description('Serve the trader tools over MCP stdio (for Claude Desktop, Cursor, etc.)')
+  .action(async () => {
+    // stdout carries the protocol - diagnostics go to stderr
+    console.error(chalk.dim('nansen MCP server listening on stdio'));
+    await createMcpServer(getTrader()).listen();
+  });
+
+program
+  .command('serve')
+  .description('Serve the trader as a local REST API (OpenAPI at /openapi.json)')
+  .option('-p, --port <port>', 'Port', parseInt, 8787)
+  .option('--host <host>', 'Bind address', '127.0.0.1')
+  .option('--token <token>', 'Require a bearer token (default: NANSEN_SERVE_TOKEN)')
+  .action(async (options) => {
+    const token = options.token ?? process.env.NANSEN_SERVE_TOKEN;
+    try {
+      await createHttpServer(getTrader(), { token }).listen(options.port, options.host);
+      console.error(chalk.green(`nansen REST server listening on http://${options.host}:${options.port}`));
+      console.error(chalk.dim(`  OpenAPI: http://${options.host}:${options.port}/openapi.json${token ? ' | bearer auth on' : ''}`));
+    } catch (error: any) {
+      handleError(error);
+    }
+  });
+
 program.parse();
@@ -0,0 +1,149 @@
+/**
+ * Markdown table parsing for MCP text responses
+ * Tables are keyed by header name, and cells hold the formats MCP tools print:
+ * "$1.2M", "-3.4%", "1,234", EVM (0x...) and Solana (base58) addresses
+ */
+
+export interface MarkdownTable {
+  headers: string[];               // As printed ("Net Flow 24h (USD)")
+  keys: string[];                  // snake_case ("net_flow_24h_usd")
+  rows: Record<string, string>[];  // Keyed by `keys`; empty cells are omitted
+}
+
+const EVM_ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+const NUMBER = /^([+-]?)\$?([+-]?)(\d+(?:\.\d+)?|\.\d+)\s*([kmbt])?\s*%?$/i;
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, t: 1e12 };
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+/**
+ * Every table in a markdown document, in order
+ * A table is a header row followed by a divider row (|---|:--:|)
+ */
+export function parseMarkdownTables(markdown: string): MarkdownTable[] {
+  const lines = markdown.split('\n').map(l => l.trim());
+  const tables: MarkdownTable[] = [];
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (!isRow(lines[i]) || !isDivider(lines[i + 1])) continue;
+
+    const headers = splitCells(lines[i]);
+    const keys = headers.map(headerKey);
+    const rows: Record<string, string>[] = [];
+
+    let j = i + 2;
+    for (; j < lines.length && isRow(lines[j]); j++) {
+      if (isDivider(lines[j])) continue;
+      const cells = splitCells(lines[j]);
+      const row: Record<string, string> = {};
+      keys.forEach((key, k) => {
+        if (key && cells[k]) row[key] = cells[k];
+      });
+      rows.push(row);
+    }
+
+    tables.push({ headers, keys, rows });
+    i = j - 1;
+  }
+
+  return tables;
+}
+
+/**
+ * The first table in a markdown document, if any
+ */
+export function parseMarkdownTable(markdown: string): MarkdownTable | undefined {
+  return parseMarkdownTables(markdown)[0];
+}
+
+/**
+ * Header -> row key: "Net Flow 24h (USD)" -> "net_flow_24h_usd", "Ownership %" -> "ownership"
+ */
+export function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function isRow(line: string): boolean {
+  return line.startsWith('|');
+}
+
+function isDivider(line: string): boolean {
+  return /^\|[\s:|-]+\|?$/.test(line) && line.includes('-');
+}
+
+/**
+ * Cells of a row, with escaped pipes kept and inline formatting stripped
+ */
+function splitCells(line: string): string[] {
+  return line
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cleanCell(cell.replace(/\\\|/g, '|')));
+}
+
+/**
+ * Plain text of a cell: [PEPE](https://...) -> PEPE, `0xabc` -> 0xabc, **bold** -> bold
+ */
+export function cleanCell(cell: string): string {
+  return cell
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .trim();
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Parse a formatted number: "$1.2M" -> 1200000, "-3.4%" -> -3.4, "1,234" -> 1234, "(500)" -> -500
+ * Returns undefined for anything that isn't a whole number cell ("N/A", "12 holders")
+ */
+export function parseNumber(value: string): number | undefined {
+  let text = value.trim().replace(/[−–]/g, '-').replace(/,/g, '');
+
+  // Accounting negatives
+  let negative = false;
+  const parens = text.match(/^\((.*)\)$/);
+  if (parens) {
+    negative = true;
+    text = parens[1].trim();
+  }
+
+  const match = text.match(NUMBER);
+  if (!match) return undefined;
+
+  const [, outerSign, innerSign, digits, suffix] = match;
+  let parsed = parseFloat(digits) * (suffix ? MULTIPLIERS[suffix.toLowerCase()] : 1);
+  if (outerSign === '-' || innerSign === '-') parsed = -parsed;
+  return negative ? -parsed : parsed;
+}
+
+export function isEvmAddress(value: string): boolean {
+  return EVM_ADDRESS.test(value);
+}
+
+/**
+ * Base58, 32-44 characters (Solana mints and wallets)
+ */
+export function isSolanaAddress(value: string): boolean {
+  return BASE58_ADDRESS.test(value);
+}
+
+export function isAddress(value: string): boolean {
+  return isEvmAddress(value) || isSolanaAddress(value);
+}
+
+/**
+ * First EVM or Solana address in a piece of text (e.g. "PEPE (0x6982...)")
+ */
+export function findAddress(text: string): string | undefined {
+  return text.match(/0x[a-fA-F0-9]{40}(?![a-fA-F0-9])/)?.[0]
+    ?? text.split(/[^1-9A-HJ-NP-Za-km-z]+/).find(isSolanaAddress);
+}
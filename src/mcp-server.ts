@@ -0,0 +1,309 @@
+/**
+ * Nansen Skill MCP Server
+ * Serves the curated trading layer (NansenTrader/NansenData) over MCP stdio,
+ * so MCP hosts get cached, rate-limited, budgeted tools instead of the raw Nansen tools
+ *
+ * Transport: newline-delimited JSON-RPC 2.0 on stdin/stdout (logs go to stderr)
+ */
+
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import type { NansenTrader } from './trader.js';
+import { MCP_PROTOCOL_VERSION } from './mcp.js';
+import { checkJsonSchema, type JsonSchema } from './schema.js';
+import { SIGNAL_STATES, type LoggedSignal, type SignalOutcome } from './signal-log.js';
+import type { Chain, ScanMode } from './types.js';
+
+const SERVER_INFO = { name: 'nansen-api-skill', version: '1.0.0' };
+
+const CHAINS: Chain[] = ['ethereum', 'base', 'arbitrum', 'optimism', 'polygon', 'bsc', 'avalanche', 'solana'];
+const SCAN_MODES: ScanMode[] = ['accumulation', 'distribution', 'breakout', 'fresh-wallets'];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SkillTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  handler: (trader: NansenTrader, args: Record<string, any>) => Promise<unknown> | unknown;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+const chainSchema: JsonSchema = { type: 'string', enum: CHAINS };
+const chainsSchema: JsonSchema = { type: 'array', items: chainSchema };
+
+export const SKILL_TOOLS: SkillTool[] = [
+  {
+    name: 'market_overview',
+    description: 'Hot tokens, smart money netflows and chain rankings across chains, optionally with OHLCV volatility for the top tokens',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chains: chainsSchema,
+        topOhlcvCount: { type: 'integer', description: 'Fetch OHLCV for the top N tokens (1 credit each, max 10)' },
+        ohlcvInterval: { type: 'string', enum: ['1h', '4h', '1d'] },
+      },
+      additionalProperties: false,
+    },
+    handler: (trader, args) => trader.getMarketOverview(args),
+  },
+  {
+    name: 'trader_scan',
+    description: 'Scan for smart money opportunities with risk filters, dedupe and recommendations; signals are logged',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chains: chainsSchema,
+        modes: { type: 'array', items: { type: 'string', enum: SCAN_MODES } },
+        limit: { type: 'integer' },
+        analyze: { type: 'boolean', description: 'Enrich the top signals with MCP token analysis (extra credits)' },
+      },
+      additionalProperties: false,
+    },
+    handler: (trader, args) => trader.scan(args),
+  },
+  {
+    name: 'token_summary',
+    description: 'Token holders, flows, trades, PnL leaderboard and who bought/sold (MCP-first with API fallback)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        token: { type: 'string', description: 'Token contract address' },
+        chain: chainSchema,
+      },
+      required: ['token', 'chain'],
+      additionalProperties: false,
+    },
+    handler: (trader, args) => trader.getTokenSummary(args.token, args.chain),
+  },
+  {
+    name: 'wallet_summary',
+    description: 'Wallet value, PnL, top holdings and related wallets (chain enables the API fallback)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        address: { type: 'string' },
+        chain: chainSchema,
+      },
+      required: ['address'],
+      additionalProperties: false,
+    },
+    handler: (trader, args) => trader.getWalletSummary(args.address, args.chain),
+  },
+  {
+    name: 'signal_log_query',
+    description: 'Query logged signals (newest first) with performance stats for the same filter',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        chains: chainsSchema,
+        modes: { type: 'array', items: { type: 'string', enum: SCAN_MODES } },
+        states: { type: 'array', items: { type: 'string', enum: SIGNAL_STATES }, description: 'Lifecycle states (new, watching, entered, exited, expired, rejected)' },
+        minScore: { type: 'number' },
+        maxScore: { type: 'number' },
+        acted: { type: 'boolean' },
+        hasOutcome: { type: 'boolean' },
+        startDate: { type: 'string', description: 'ISO date' },
+        endDate: { type: 'string', description: 'ISO date' },
+        limit: { type: 'integer' },
+      },
+      additionalProperties: false,
+    },
+    handler: (trader, args) => {
+      const { limit, ...filter } = args;
+      return {
+        signals: trader.findSignals(args),
+        stats: trader.getPerformanceStats(filter),
+      };
+    },
+  },
+  {
+    name: 'record_outcome',
+    description: 'Record the action taken on a signal and its trade outcome (PnL is derived from entry/exit prices)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        signalId: { type: 'string' },
+        action: { type: 'string', enum: ['buy', 'sell', 'skip'] },
+        entryPrice: { type: 'number' },
+        exitPrice: { type: 'number' },
+        notes: { type: 'string' },
+      },
+      required: ['signalId'],
+      additionalProperties: false,
+    },
+    handler: (trader, args) => {
+      const { signalId, ...outcome } = args;
+      const signal = recordSignalOutcome(trader, signalId, outcome as Partial<SignalOutcome>);
+      if (!signal) {
+        throw new Error(`Signal not found: ${signalId}`);
+      }
+      return signal;
+    },
+  },
+];
+
+// =============================================================================
+// Server
+// =============================================================================
+
+export class NansenMcpServer {
+  private tools: Map<string, SkillTool>;
+
+  constructor(private trader: NansenTrader, tools: SkillTool[] = SKILL_TOOLS) {
+    this.tools = new Map(tools.map(t => [t.name, t]));
+  }
+
+  /**
+   * Handle one JSON-RPC message; notifications get no response
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | undefined> {
+    const request = message as JsonRpcRequest;
+    if (!request || typeof request !== 'object' || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+      return rpcError(null, INVALID_REQUEST, 'Invalid JSON-RPC request');
+    }
+
+    const isNotification = request.id === undefined;
+    const id = request.id ?? null;
+
+    switch (request.method) {
+      case 'initialize':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            protocolVersion: request.params?.protocolVersion ?? MCP_PROTOCOL_VERSION,
+            capabilities: { tools: {} },
+            serverInfo: SERVER_INFO,
+          },
+        };
+
+      case 'ping':
+        return { jsonrpc: '2.0', id, result: {} };
+
+      case 'tools/list':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            tools: [...this.tools.values()].map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+          },
+        };
+
+      case 'tools/call':
+        return this.callTool(id, request.params);
+
+      default:
+        if (isNotification) return undefined;
+        return rpcError(id, METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  }
+
+  /**
+   * Serve newline-delimited JSON-RPC until the input closes
+   */
+  async listen(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    const inFlight = new Set<Promise<void>>();
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        output.write(JSON.stringify(rpcError(null, PARSE_ERROR, 'Parse error')) + '\n');
+        continue;
+      }
+
+      // Handle requests concurrently - a slow scan must not block ping or tools/list
+      const request = this.handleMessage(message).then(response => {
+        if (response) output.write(JSON.stringify(response) + '\n');
+      }).finally(() => inFlight.delete(request));
+      inFlight.add(request);
+    }
+
+    await Promise.all(inFlight);
+  }
+
+  private async callTool(id: string | number | null, params?: Record<string, any>): Promise<JsonRpcResponse> {
+    const tool = this.tools.get(params?.name);
+    if (!tool) {
+      return rpcError(id, INVALID_PARAMS, `Unknown tool: ${params?.name}`);
+    }
+
+    const args = params?.arguments ?? {};
+    const issues = checkJsonSchema(args, tool.inputSchema, tool.name);
+    if (issues.length > 0) {
+      return rpcError(id, INVALID_PARAMS, `Invalid arguments for ${tool.name}: ${issues[0].path} expected ${issues[0].expected}, got ${issues[0].received}`, issues);
+    }
+
+    // Tool failures (API errors, budget refusals) are results with isError, per MCP
+    try {
+      const result = await tool.handler(this.trader, args);
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: { content: [{ type: 'text', text: JSON.stringify(result) }] },
+      };
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [{ type: 'text', text: (error as Error).message }],
+          isError: true,
+        },
+      };
+    }
+  }
+}
+
+function rpcError(id: string | number | null, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined && { data }) } };
+}
+
+/**
+ * Record an outcome the way the CLI does: an action marks the signal acted (and moves its
+ * lifecycle state) before prices are merged in
+ */
+export function recordSignalOutcome(
+  trader: NansenTrader,
+  signalId: string,
+  outcome: Partial<SignalOutcome>
+): LoggedSignal | undefined {
+  const { action, notes, ...rest } = outcome;
+  if (action && !trader.markActed(signalId, action, notes)) return undefined;
+
+  return trader.recordOutcome(signalId, action ? rest : { ...rest, ...(notes !== undefined && { notes }) });
+}
+
+export function createMcpServer(trader: NansenTrader, tools?: SkillTool[]): NansenMcpServer {
+  return new NansenMcpServer(trader, tools);
+}
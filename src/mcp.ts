@@ -7,12 +7,46 @@
  */
 
 import type { Chain } from './types.js';
+import {
+  withRetry,
+  resolveRetryPolicy,
+  parseRetryAfter,
+  type RetryPolicy,
+  type RetryHook,
+} from './retry.js';
+import { HttpTransport, type TransportOptions } from './transport.js';
+import { paginate, type PageIterationOptions } from './paginate.js';
+import type { CreditLedger } from './credits.js';
+import { callNode, groupNode, type CallPlanNode } from './estimate.js';
+import { recordCall } from './provenance.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import type { BreakerSettings } from './routing.js';
+import {
+  validatePayload,
+  extractRows,
+  assertJsonSchema,
+  type JsonSchema,
+  type RowSchema,
+  type SchemaIssue,
+  type ValidationOptions,
+} from './schema.js';
 
 const MCP_ENDPOINT = 'https://mcp.nansen.ai/ra/mcp';
 const MCP_TIMEOUT_MS = 30000;
+const MAX_SCHEMA_ERRORS = 100;
+
+// Fixed page sizes of the paged MCP tools
+const TOKEN_TRANSFERS_PAGE_SIZE = 25;
+const ADDRESS_TRANSACTIONS_PAGE_SIZE = 20;
 
 export class NansenMcpError extends Error {
-  constructor(message: string, public code?: string, public details?: unknown) {
+  constructor(
+    message: string,
+    public code?: string,
+    public details?: unknown,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
     super(message);
     this.name = 'NansenMcpError';
   }
@@ -75,67 +109,396 @@ export const MCP_TOOLS: Record<McpTool, { description: string; credits: number }
   transaction_lookup: { description: 'Transaction details (EVM)', credits: 1 },
 };
 
+// Row schemas for tools that return structured JSON
+// MCP field names vary between snake_case and short aliases, hence the oneOf groups
+export const MCP_SCHEMAS: Partial<Record<McpTool, RowSchema>> = {
+  smart_traders_and_funds_netflows: {
+    name: 'smart_traders_and_funds_netflows',
+    fields: { token_symbol: 'string?', chain: 'string?', net_flow_24h_usd: 'number?', net_flow_7d_usd: 'number?', trader_count: 'number?' },
+    oneOf: [['token_address', 'address']],
+  },
+  smart_traders_and_funds_token_balances: {
+    name: 'smart_traders_and_funds_token_balances',
+    fields: { token_symbol: 'string?', chain: 'string?', holder_count: 'number?', total_balance_usd: 'number?' },
+    oneOf: [['token_address', 'address']],
+  },
+  token_current_top_holders: {
+    name: 'token_current_top_holders',
+    fields: { address: 'string', address_label: 'string?', ownership_percentage: 'number?', value_usd: 'number?' },
+  },
+  token_dex_trades: {
+    name: 'token_dex_trades',
+    fields: { tx_hash: 'string?', timestamp: 'string?', value_usd: 'number?', price_usd: 'number?' },
+  },
+  token_transfers: {
+    name: 'token_transfers',
+    fields: { tx_hash: 'string?', timestamp: 'string?', from_address: 'string?', to_address: 'string?', value_usd: 'number?' },
+  },
+  token_who_bought_sold: {
+    name: 'token_who_bought_sold',
+    fields: { buy_volume_usd: 'number?', sell_volume_usd: 'number?', net_volume_usd: 'number?' },
+    oneOf: [['entity', 'address']],
+  },
+  token_discovery_screener: {
+    name: 'token_discovery_screener',
+    fields: { chain: 'string?', price: 'number?', price_change_24h: 'number?', volume_24h: 'number?', market_cap: 'number?', holders: 'number?' },
+    oneOf: [['token_address', 'address'], ['token_symbol', 'symbol']],
+  },
+  token_ohlcv: {
+    name: 'token_ohlcv',
+    fields: { open: 'number?', high: 'number?', low: 'number?', close: 'number?', volume: 'number?' },
+    oneOf: [['close', 'c']],
+  },
+  address_related_addresses: {
+    name: 'address_related_addresses',
+    fields: { address: 'string', label: 'string?', relationship: 'string?' },
+  },
+  address_transactions: {
+    name: 'address_transactions',
+    fields: { tx_hash: 'string?', timestamp: 'string?', value_usd: 'number?' },
+  },
+};
+
 interface McpToolResult {
   content?: Array<{ type: string; text?: string }>;
   isError?: boolean;
 }
 
-interface McpJsonRpcResponse {
+interface McpJsonRpcResponse<R = McpToolResult> {
   jsonrpc: string;
   id: number;
-  result?: McpToolResult;
+  result?: R;
   error?: { code: number; message: string; data?: unknown };
 }
 
+// Tool as advertised by tools/list
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: JsonSchema;
+}
+
+export interface McpSessionInfo {
+  sessionId?: string;        // Absent when the server runs stateless
+  protocolVersion?: string;
+  serverInfo?: { name: string; version?: string };
+  initializedAt: string;
+}
+
+export interface McpOptions {
+  retry?: Partial<RetryPolicy>;
+  onRetry?: RetryHook;
+  transport?: TransportOptions;
+  validation?: ValidationOptions;
+  ledger?: CreditLedger;  // Meters calls and enforces credit budgets
+  session?: boolean;        // initialize handshake + Mcp-Session-Id (default true)
+  discoverTools?: boolean;  // tools/list once per session, validate arguments (default true)
+  breaker?: BreakerSettings | false;  // Per-tool and MCP-wide circuit breakers (default on)
+}
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+const CLIENT_INFO = { name: 'nansen-api-skill', version: '1.0.0' };
+
+// Upper bound on tools/list pages, in case a server keeps returning a cursor
+const MAX_TOOL_LIST_PAGES = 10;
+
+// Backoff before retrying a failed tools/list (doubles per failure up to the max)
+const DISCOVERY_RETRY_MS = 30_000;
+const MAX_DISCOVERY_RETRY_MS = 10 * 60 * 1000;
+
 export class NansenMcp {
   private apiKey: string;
   private mcpEndpoint: string;
-
-  constructor(apiKey: string, mcpEndpoint?: string) {
+  private transport: HttpTransport;
+  private retryPolicy: RetryPolicy;
+  private onRetry?: RetryHook;
+  private validation: ValidationOptions;
+  private schemaErrors: SchemaIssue[] = [];
+  private ledger?: CreditLedger;
+  private useSession: boolean;
+  private useDiscovery: boolean;
+  public readonly breaker?: CircuitBreaker;
+  private session?: McpSessionInfo;
+  private initializing?: Promise<McpSessionInfo>;
+  private discovered?: Map<string, McpToolInfo>;
+  private discovering?: Promise<McpToolInfo[]>;
+  private discoveryFailures = 0;
+  private discoveryRetryAt = 0;
+  private nextId = 1;
+
+  constructor(apiKey: string, mcpEndpoint?: string, options: McpOptions = {}) {
     this.apiKey = apiKey;
     this.mcpEndpoint = mcpEndpoint || MCP_ENDPOINT;
+    this.transport = new HttpTransport({ timeoutMs: MCP_TIMEOUT_MS, ...options.transport });
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.onRetry = options.onRetry;
+    this.validation = options.validation ?? {};
+    this.ledger = options.ledger;
+    this.useSession = options.session ?? true;
+    this.useDiscovery = options.discoverTools ?? true;
+    if (options.breaker !== false) {
+      this.breaker = new CircuitBreaker(options.breaker);
+    }
   }
 
   /**
    * Call an MCP tool via HTTP JSON-RPC
    * Handles both JSON and SSE (text/event-stream) responses
+   * Transient HTTP and network failures are retried per the retry policy
+   * Arguments are checked against the tool's advertised input schema (when discovered)
+   * Structured results are validated against MCP_SCHEMAS
+   * Credits are reserved against the ledger budget while the call runs and recorded after it
+   * Fails fast with CIRCUIT_OPEN while MCP (or this tool) is tripped - before discovery,
+   * so a blocked call sends nothing
+   */
+  async callTool<T = unknown>(tool: McpTool | (string & {}), params: Record<string, unknown>): Promise<T> {
+    const credits = this.getToolCredits(tool);
+    const release = this.ledger?.reserve(credits, tool);
+
+    let result: T;
+    try {
+      const breakerKeys = ['all', tool];
+      if (this.breaker && !this.breaker.allow(breakerKeys)) {
+        const retryAfterMs = this.breaker.retryAfter(breakerKeys);
+        throw new NansenMcpError(`Circuit open for ${tool} (retry in ${Math.ceil(retryAfterMs / 1000)}s)`, 'CIRCUIT_OPEN', undefined, undefined, retryAfterMs);
+      }
+
+      try {
+        await this.validateArguments(tool, params);
+      } catch (error) {
+        // Rejected before reaching the server - says nothing about its health
+        this.breaker?.release(breakerKeys);
+        throw error;
+      }
+
+      try {
+        result = await withRetry(
+          () => this.request<McpToolResult>('tools/call', { name: tool, arguments: params }),
+          {
+            policy: this.retryPolicy,
+            source: 'mcp',
+            target: tool,
+            onRetry: this.onRetry,
+          }
+        ).then(r => this.parseToolResult<T>(r));
+        this.breaker?.record(breakerKeys);
+      } catch (error) {
+        this.breaker?.record(breakerKeys, error);
+        throw error;
+      }
+      this.ledger?.record({ source: 'mcp', target: tool, credits, cacheHit: false });
+      recordCall('mcp', tool, credits);
+    } finally {
+      release?.();
+    }
+
+    const schema = MCP_SCHEMAS[tool as McpTool];
+    if (!schema) return result;
+
+    const { payload, errors } = validatePayload(result, schema, this.validation.mode);
+    if (errors.length > 0) {
+      this.schemaErrors.push(...errors);
+      this.schemaErrors.splice(0, Math.max(0, this.schemaErrors.length - MAX_SCHEMA_ERRORS));
+      this.validation.onErrors?.(errors);
+    }
+    return payload;
+  }
+
+  // ===========================================================================
+  // Session Lifecycle
+  // ===========================================================================
+
+  /**
+   * Run the initialize handshake and start a session
+   * Concurrent callers share one in-flight handshake
+   */
+  async initialize(): Promise<McpSessionInfo> {
+    // Not retried here - callTool retries the whole request, handshake included
+    this.initializing ??= this.handshake().finally(() => {
+      this.initializing = undefined;
+    });
+    return this.initializing;
+  }
+
+  getSession(): McpSessionInfo | undefined {
+    return this.session ? { ...this.session } : undefined;
+  }
+
+  /**
+   * Forget the session (and discovered tools); the next call re-initializes
+   */
+  resetSession(): void {
+    this.session = undefined;
+    this.discovered = undefined;
+    this.discoveryFailures = 0;
+    this.discoveryRetryAt = 0;
+  }
+
+  /**
+   * Fetch every tool advertised by tools/list (follows nextCursor)
+   */
+  async discoverTools(refresh = false): Promise<McpToolInfo[]> {
+    if (this.discovered && !refresh) {
+      return [...this.discovered.values()];
+    }
+
+    this.discovering ??= (async () => {
+      const tools: McpToolInfo[] = [];
+      let cursor: string | undefined;
+
+      for (let page = 0; page < MAX_TOOL_LIST_PAGES; page++) {
+        const result = await this.request<{ tools?: McpToolInfo[]; nextCursor?: string }>(
+          'tools/list',
+          cursor ? { cursor } : {}
+        );
+        tools.push(...(Array.isArray(result?.tools) ? result.tools : []));
+        cursor = result?.nextCursor;
+        if (!cursor) break;
+      }
+
+      this.discovered = new Map(tools.map(t => [t.name, t]));
+      return tools;
+    })().finally(() => {
+      this.discovering = undefined;
+    });
+
+    return this.discovering;
+  }
+
+  /**
+   * Tools from the last tools/list (empty until discovered)
+   */
+  getDiscoveredTools(): McpToolInfo[] {
+    return this.discovered ? [...this.discovered.values()] : [];
+  }
+
+  private async handshake(): Promise<McpSessionInfo> {
+    const { result, sessionId } = await this.send<{
+      protocolVersion?: string;
+      serverInfo?: McpSessionInfo['serverInfo'];
+    }>('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+
+    this.session = {
+      sessionId,
+      protocolVersion: result?.protocolVersion,
+      serverInfo: result?.serverInfo,
+      initializedAt: new Date().toISOString(),
+    };
+
+    await this.send('notifications/initialized', undefined, true);
+    return this.session;
+  }
+
+  /**
+   * Reject unknown tools and invalid arguments using tools/list
+   * Discovery is best-effort: if tools/list fails, calls go through unchecked and
+   * discovery is retried after a backoff
+   */
+  private async validateArguments(tool: string, params: Record<string, unknown>): Promise<void> {
+    if (!this.useDiscovery) return;
+
+    if (!this.discovered) {
+      if (Date.now() < this.discoveryRetryAt) return;
+      try {
+        await this.discoverTools();
+        this.discoveryFailures = 0;
+      } catch {
+        const backoff = DISCOVERY_RETRY_MS * 2 ** this.discoveryFailures++;
+        this.discoveryRetryAt = Date.now() + Math.min(backoff, MAX_DISCOVERY_RETRY_MS);
+        return;
+      }
+    }
+
+    if (!this.discovered || this.discovered.size === 0) return;
+
+    const info = this.discovered.get(tool);
+    if (!info) {
+      throw new NansenMcpError(`Unknown MCP tool: ${tool}`, 'UNKNOWN_TOOL', {
+        available: [...this.discovered.keys()],
+      });
+    }
+    if (info.inputSchema) {
+      assertJsonSchema(params, info.inputSchema, tool);
+    }
+  }
+
+  /**
+   * JSON-RPC request within the session
+   * An expired session (HTTP 404) is re-initialized and the request sent once more
    */
-  async callTool<T = unknown>(tool: McpTool, params: Record<string, unknown>): Promise<T> {
+  private async request<R>(method: string, params: Record<string, unknown>): Promise<R | undefined> {
+    if (this.useSession && !this.session) {
+      await this.initialize();
+    }
+
+    try {
+      return (await this.send<R>(method, params)).result;
+    } catch (error) {
+      if (!(error instanceof NansenMcpError) || error.code !== 'SESSION_EXPIRED') throw error;
+      this.resetSession();
+      await this.initialize();
+      return (await this.send<R>(method, params)).result;
+    }
+  }
+
+  /**
+   * Single JSON-RPC attempt (notifications have no id and no result)
+   */
+  private async send<R>(
+    method: string,
+    params?: Record<string, unknown>,
+    notification = false
+  ): Promise<{ result?: R; sessionId?: string }> {
+    // Own the abort signal so the timeout also covers reading the (SSE) body
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), MCP_TIMEOUT_MS);
+    const timeout = setTimeout(() => controller.abort(), this.transport.timeoutMs);
+    const sessionId = method === 'initialize' ? undefined : this.session?.sessionId;
 
     try {
-      const response = await fetch(this.mcpEndpoint, {
+      const response = await this.transport.request(this.mcpEndpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'application/json, text/event-stream',
           'NANSEN-API-KEY': this.apiKey,
+          ...(sessionId && { 'Mcp-Session-Id': sessionId }),
         },
         body: JSON.stringify({
           jsonrpc: '2.0',
-          id: Date.now(),
-          method: 'tools/call',
-          params: { name: tool, arguments: params },
+          ...(!notification && { id: this.nextId++ }),
+          method,
+          ...(params && { params }),
         }),
         signal: controller.signal,
       });
 
       if (!response.ok) {
         const text = await response.text().catch(() => '');
+        const expired = response.status === 404 && sessionId !== undefined;
         throw new NansenMcpError(
-          `MCP HTTP error: ${response.status} ${response.statusText}`,
-          `HTTP_${response.status}`,
-          { body: text }
+          expired ? 'MCP session expired' : `MCP HTTP error: ${response.status} ${response.statusText}`,
+          expired ? 'SESSION_EXPIRED' : `HTTP_${response.status}`,
+          { body: text },
+          response.status,
+          parseRetryAfter(response.headers?.get('retry-after'))
         );
       }
 
+      const newSessionId = response.headers?.get('mcp-session-id') ?? undefined;
+      if (notification) {
+        return { sessionId: newSessionId };
+      }
+
       // Handle SSE vs JSON response based on Content-Type
       const contentType = response.headers.get('content-type') || '';
-      let data: McpJsonRpcResponse;
+      let data: McpJsonRpcResponse<R>;
 
       if (contentType.includes('text/event-stream')) {
-        data = await this.parseSseResponse(response);
+        data = await this.parseSseResponse(response) as McpJsonRpcResponse<R>;
       } else {
         data = await response.json();
       }
@@ -148,7 +511,7 @@ export class NansenMcp {
         );
       }
 
-      return this.parseToolResult<T>(data.result);
+      return { result: data.result, sessionId: newSessionId };
     } catch (error: unknown) {
       if (error instanceof NansenMcpError) throw error;
       if ((error as Error).name === 'AbortError') {
@@ -349,6 +712,39 @@ export class NansenMcp {
     return this.callTool('transaction_lookup', { tx_hash: txHash, chain });
   }
 
+  // ===========================================================================
+  // Paged Iteration
+  // ===========================================================================
+
+  /**
+   * Lazily walk token_transfers pages (25 per page, 1 credit each)
+   * Stops at the first short page or when maxItems/maxCredits is reached
+   */
+  iterateTokenTransfers(token: string, chain: Chain, options: PageIterationOptions = {}): AsyncGenerator<unknown> {
+    return paginate(
+      async page => extractRows(await this.getTokenTransfers(token, chain, page)) ?? [],
+      {
+        pageSize: TOKEN_TRANSFERS_PAGE_SIZE,
+        creditsPerPage: this.getToolCredits('token_transfers'),
+        ...options,
+      }
+    );
+  }
+
+  /**
+   * Lazily walk address_transactions pages (20 per page, 1 credit each)
+   */
+  iterateAddressTransactions(address: string, options: PageIterationOptions = {}): AsyncGenerator<unknown> {
+    return paginate(
+      async page => extractRows(await this.getAddressTransactions(address, page)) ?? [],
+      {
+        pageSize: ADDRESS_TRANSACTIONS_PAGE_SIZE,
+        creditsPerPage: this.getToolCredits('address_transactions'),
+        ...options,
+      }
+    );
+  }
+
   // ===========================================================================
   // Comprehensive Analysis (multiple tool calls)
   // ===========================================================================
@@ -441,12 +837,57 @@ export class NansenMcp {
     return result;
   }
 
+  // ===========================================================================
+  // Cost Estimation (no calls made)
+  // ===========================================================================
+
+  planTool(tool: McpTool, options?: { label?: string; count?: number; conditional?: boolean }): CallPlanNode {
+    return callNode('mcp', tool, this.getToolCredits(tool), options);
+  }
+
+  /**
+   * Tool calls made by analyzeToken
+   */
+  planAnalyzeToken(): CallPlanNode {
+    return groupNode('mcp.analyzeToken', [
+      this.planTool('token_current_top_holders', { label: 'holders' }),
+      this.planTool('token_dex_trades', { label: 'trades' }),
+      this.planTool('token_recent_flows_summary', { label: 'flows' }),
+      this.planTool('token_pnl_leaderboard', { label: 'pnl' }),
+      this.planTool('token_who_bought_sold', { label: 'whoBoughtSold' }),
+    ]);
+  }
+
+  /**
+   * Tool calls made by analyzeWallet
+   */
+  planAnalyzeWallet(): CallPlanNode {
+    return groupNode('mcp.analyzeWallet', [
+      this.planTool('address_portfolio', { label: 'portfolio' }),
+      this.planTool('wallet_pnl_summary', { label: 'pnl' }),
+      this.planTool('address_transactions', { label: 'transactions' }),
+      this.planTool('address_related_addresses', { label: 'related' }),
+      this.planTool('address_counterparties', { label: 'counterparties' }),
+    ]);
+  }
+
   // ===========================================================================
   // Utility Methods
   // ===========================================================================
 
-  getToolCredits(tool: McpTool): number {
-    return MCP_TOOLS[tool]?.credits ?? 1;
+  /**
+   * Schema issues from rows dropped in lenient mode (most recent last)
+   */
+  getSchemaErrors(): SchemaIssue[] {
+    return [...this.schemaErrors];
+  }
+
+  clearSchemaErrors(): void {
+    this.schemaErrors = [];
+  }
+
+  getToolCredits(tool: McpTool | (string & {})): number {
+    return MCP_TOOLS[tool as McpTool]?.credits ?? 1;
   }
 
   listTools() {
@@ -454,8 +895,8 @@ export class NansenMcp {
   }
 }
 
-export function createMcp(apiKey?: string): NansenMcp {
+export function createMcp(apiKey?: string, options?: McpOptions): NansenMcp {
   const key = apiKey || process.env.NANSEN_API_KEY;
   if (!key) throw new Error('NANSEN_API_KEY is required');
-  return new NansenMcp(key);
+  return new NansenMcp(key, undefined, options);
 }
@@ -0,0 +1,312 @@
+/**
+ * MCP result normalizers
+ * Map MCP tool output (JSON rows or markdown tables) onto the same normalized
+ * types the API client produces, so callers get one shape whichever source answered
+ */
+
+import { extractRows } from './schema.js';
+import { parseMarkdownTable, parseNumber, findAddress, isAddress } from './markdown.js';
+import type {
+  SmartMoneyHolding,
+  TokenHolder,
+  TokenFlow,
+  DexTrade,
+  RelatedWallet,
+  WalletBalance,
+} from './api.js';
+import type { ScreenerToken } from './data.js';
+import type { Candle } from './scan.js';
+import type { Chain, SmartMoneyNetflow } from './types.js';
+
+type Row = Record<string, unknown>;
+
+// =============================================================================
+// Row Extraction
+// =============================================================================
+
+/**
+ * Rows of an MCP result: JSON rows (bare or wrapped) or the first markdown table
+ * Markdown headers become snake_case keys ("Net Flow 24h (USD)" -> net_flow_24h_usd)
+ */
+export function toRows(result: unknown): Row[] {
+  if (typeof result === 'string') {
+    return parseMarkdownTable(result)?.rows ?? [];
+  }
+
+  const rows = extractRows(result);
+  return (rows ?? []).filter((r): r is Row => r !== null && typeof r === 'object' && !Array.isArray(r));
+}
+
+// =============================================================================
+// Field Helpers
+// =============================================================================
+
+function pick(row: Row, keys: string[]): unknown {
+  for (const key of keys) {
+    if (row[key] !== undefined && row[key] !== null && row[key] !== '') return row[key];
+  }
+  return undefined;
+}
+
+function str(row: Row, ...keys: string[]): string | undefined {
+  const value = pick(row, keys);
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Numeric field; markdown cells like "$1.2M", "1,234" and "-3.4%" are accepted
+ */
+function num(row: Row, ...keys: string[]): number | undefined {
+  const value = pick(row, keys);
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return undefined;
+  return parseNumber(value);
+}
+
+/**
+ * Address field; falls back to the first EVM/Solana address in any cell
+ * (screener tables often print it in a "Token" or "Contract" column, or not labelled at all)
+ */
+function address(row: Row, ...keys: string[]): string | undefined {
+  const named = str(row, ...keys);
+  if (named) return isAddress(named) ? named : findAddress(named) ?? named;
+
+  for (const value of Object.values(row)) {
+    const found = typeof value === 'string' ? findAddress(value) : undefined;
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function side(row: Row): 'buy' | 'sell' | undefined {
+  const value = str(row, 'side', 'type', 'action', 'direction')?.toLowerCase();
+  if (value === 'buy' || value === 'sell') return value;
+  return undefined;
+}
+
+// =============================================================================
+// Normalizers
+// =============================================================================
+
+/**
+ * token_discovery_screener -> ScreenerToken
+ * Columns are matched by header name, so their order doesn't matter
+ */
+export function normalizeScreenerTokens(result: unknown, defaultChain: Chain): ScreenerToken[] {
+  return toRows(result).flatMap(row => {
+    const token = address(row, 'token_address', 'address', 'contract_address', 'contract', 'mint', 'tokenAddress');
+    // "PEPE (0x6982...)" -> "PEPE"
+    const symbol = str(row, 'token_symbol', 'symbol', 'ticker', 'token')
+      ?.replace(token ?? '', '').replace(/\(\s*\)/, '').trim();
+    if (!token && !symbol) return [];
+
+    return [{
+      address: token ?? '',
+      symbol: symbol ?? '',
+      name: str(row, 'token_name', 'name'),
+      chain: (str(row, 'chain')?.toLowerCase() ?? defaultChain) as Chain,
+      price: num(row, 'price', 'price_usd', 'priceUsd'),
+      priceChange24h: num(row, 'price_change_24h', 'price_change_24h_pct', 'change_24h', '24h_change', 'price_change', 'priceChange24h'),
+      volume24h: num(row, 'volume_24h', 'volume_24h_usd', '24h_volume', 'volume', 'volume_usd', 'volume24h'),
+      marketCap: num(row, 'market_cap', 'market_cap_usd', 'mcap', 'marketCap'),
+      holders: num(row, 'holders', 'holder_count', 'holders_count'),
+      liquidity: num(row, 'liquidity', 'liquidity_usd', 'total_liquidity', 'liquidity_usd_total'),
+      netflowUsd: num(row, 'net_flow_usd', 'netflow_usd', 'net_flow', 'netflow', 'net_flow_24h_usd', 'netflowUsd'),
+      smartMoneyFlow: num(row, 'smart_money_netflow', 'smart_money_flow', 'smart_money_net_flow', 'sm_netflow', 'sm_net_flow'),
+    }];
+  });
+}
+
+/**
+ * smart_traders_and_funds_netflows -> SmartMoneyNetflow (same derivations as the API client)
+ */
+export function normalizeNetflows(result: unknown, defaultChain: Chain): SmartMoneyNetflow[] {
+  const timestamp = new Date().toISOString();
+
+  return toRows(result).flatMap(row => {
+    const token = str(row, 'token_address', 'address', 'tokenAddress');
+    if (!token) return [];
+
+    const symbol = str(row, 'token_symbol', 'symbol', 'token') ?? '';
+    const netflowUsd = num(row, 'net_flow_24h_usd', 'netflow_24h_usd', 'net_flow_usd', 'netflow_usd', 'netflowUsd', 'net_flow_24h', 'net_flow') ?? 0;
+    const traderCount = num(row, 'trader_count', 'traders', 'traderCount') ?? 0;
+    const sectors = pick(row, ['token_sectors', 'sectors']);
+
+    return [{
+      token,
+      symbol,
+      name: str(row, 'token_name', 'name') ?? symbol,
+      chain: (str(row, 'chain') ?? defaultChain) as Chain,
+      netflow: netflowUsd,
+      netflowUsd,
+      netflow1h: num(row, 'net_flow_1h_usd', 'netflow_1h_usd'),
+      netflow7d: num(row, 'net_flow_7d_usd', 'netflow_7d_usd'),
+      netflow30d: num(row, 'net_flow_30d_usd', 'netflow_30d_usd'),
+      inflow: netflowUsd > 0 ? netflowUsd : 0,
+      inflowUsd: netflowUsd > 0 ? netflowUsd : 0,
+      outflow: netflowUsd < 0 ? Math.abs(netflowUsd) : 0,
+      outflowUsd: netflowUsd < 0 ? Math.abs(netflowUsd) : 0,
+      buyersCount: netflowUsd > 0 ? traderCount : 0,
+      sellersCount: netflowUsd < 0 ? traderCount : 0,
+      traderCount,
+      marketCap: num(row, 'market_cap_usd', 'market_cap', 'marketCap'),
+      tokenAge: num(row, 'token_age_days', 'token_age', 'age_days'),
+      sectors: Array.isArray(sectors) ? sectors.map(String) : typeof sectors === 'string' ? sectors.split(',').map(s => s.trim()) : [],
+      timestamp,
+    }];
+  });
+}
+
+/**
+ * smart_traders_and_funds_token_balances -> SmartMoneyHolding
+ */
+export function normalizeHoldings(result: unknown, defaultChain: Chain): SmartMoneyHolding[] {
+  return toRows(result).flatMap(row => {
+    const token = str(row, 'token_address', 'address', 'tokenAddress');
+    if (!token) return [];
+
+    return [{
+      token,
+      symbol: str(row, 'token_symbol', 'symbol', 'token') ?? '',
+      chain: (str(row, 'chain') ?? defaultChain) as Chain,
+      holderCount: num(row, 'holder_count', 'holders', 'holderCount') ?? 0,
+      totalBalanceUsd: num(row, 'total_balance_usd', 'balance_usd', 'value_usd', 'totalBalanceUsd') ?? 0,
+      balanceChange24hUsd: num(row, 'balance_change_24h_usd', 'balance_change_24h', 'change_24h_usd') ?? 0,
+      balanceChange7dUsd: num(row, 'balance_change_7d_usd', 'balance_change_7d', 'change_7d_usd') ?? 0,
+      marketCap: num(row, 'market_cap_usd', 'market_cap', 'marketCap') ?? 0,
+    }];
+  });
+}
+
+/**
+ * token_current_top_holders -> TokenHolder
+ * JSON ownership_percentage is a fraction (as on the API); markdown "Ownership %" is already a percent
+ */
+export function normalizeTokenHolders(result: unknown): TokenHolder[] {
+  return toRows(result).flatMap(row => {
+    const address = str(row, 'address', 'holder_address', 'wallet', 'holder');
+    if (!address) return [];
+
+    const fraction = typeof row.ownership_percentage === 'number' ? row.ownership_percentage : undefined;
+
+    return [{
+      address,
+      label: str(row, 'address_label', 'label', 'entity'),
+      tokenAmount: num(row, 'token_amount', 'amount', 'balance', 'tokenAmount') ?? 0,
+      valueUsd: num(row, 'value_usd', 'value', 'valueUsd') ?? 0,
+      ownershipPercent: fraction !== undefined
+        ? fraction * 100
+        : num(row, 'ownership_percent', 'ownershipPercent', 'ownership', 'ownership_percentage', 'ownership_pct') ?? 0,
+      balanceChange24h: num(row, 'balance_change_24h', 'change_24h') ?? 0,
+      balanceChange7d: num(row, 'balance_change_7d', 'change_7d') ?? 0,
+      balanceChange30d: num(row, 'balance_change_30d', 'change_30d') ?? 0,
+    }];
+  });
+}
+
+/**
+ * token_dex_trades -> DexTrade
+ */
+export function normalizeDexTrades(result: unknown): DexTrade[] {
+  return toRows(result).flatMap(row => {
+    const tradeSide = side(row);
+    if (!tradeSide) return [];
+
+    return [{
+      txHash: str(row, 'tx_hash', 'transaction_hash', 'hash', 'txHash') ?? '',
+      timestamp: str(row, 'timestamp', 'block_timestamp', 'time', 'date') ?? '',
+      trader: str(row, 'trader_address', 'trader', 'address', 'wallet') ?? '',
+      traderLabel: str(row, 'trader_label', 'label', 'address_label'),
+      side: tradeSide,
+      tokenAmount: num(row, 'token_amount', 'amount', 'tokenAmount') ?? 0,
+      valueUsd: num(row, 'value_usd', 'value', 'amount_usd', 'valueUsd') ?? 0,
+      priceUsd: num(row, 'price_usd', 'price', 'priceUsd') ?? 0,
+    }];
+  });
+}
+
+/**
+ * token_recent_flows_summary -> TokenFlow (one row per entity or holder segment)
+ */
+export function normalizeTokenFlows(result: unknown): TokenFlow[] {
+  return toRows(result).flatMap(row => {
+    const entity = str(row, 'entity', 'segment', 'label', 'holder_segment', 'category', 'name');
+    if (!entity) return [];
+
+    const inflowUsd = num(row, 'inflow_usd', 'inflow', 'inflowUsd') ?? 0;
+    const outflowUsd = num(row, 'outflow_usd', 'outflow', 'outflowUsd') ?? 0;
+
+    return [{
+      entity,
+      label: str(row, 'entity_label', 'label'),
+      inflowUsd,
+      outflowUsd,
+      netFlowUsd: num(row, 'net_flow_usd', 'netflow_usd', 'net_flow', 'netFlowUsd') ?? inflowUsd - outflowUsd,
+      txCount: num(row, 'transaction_count', 'tx_count', 'transactions', 'txCount') ?? 0,
+    }];
+  });
+}
+
+/**
+ * address_related_addresses -> RelatedWallet
+ */
+export function normalizeRelatedWallets(result: unknown): RelatedWallet[] {
+  return toRows(result).flatMap(row => {
+    const address = str(row, 'address', 'related_address', 'wallet');
+    if (!address) return [];
+
+    return [{
+      address,
+      label: str(row, 'label', 'address_label'),
+      relationship: str(row, 'relationship', 'relation', 'type') ?? '',
+      txCount: num(row, 'transaction_count', 'tx_count', 'transactions', 'txCount') ?? 0,
+      totalValueUsd: num(row, 'total_value_usd', 'value_usd', 'totalValueUsd') ?? 0,
+    }];
+  });
+}
+
+/**
+ * address_portfolio -> WalletBalance (rows without a chain get the default chain)
+ */
+export function normalizeWalletBalances(result: unknown, defaultChain: Chain): WalletBalance[] {
+  const rows = toRows(result);
+  // Portfolio payloads may nest token rows under `holdings`
+  const holdings = rows.length === 0 && result && typeof result === 'object'
+    ? toRows((result as Row).holdings)
+    : rows;
+
+  return holdings.flatMap(row => {
+    const token = str(row, 'token_address', 'address', 'tokenAddress');
+    const symbol = str(row, 'token_symbol', 'symbol', 'token');
+    if (!token && !symbol) return [];
+
+    return [{
+      chain: (str(row, 'chain') ?? defaultChain) as Chain,
+      token: token ?? '',
+      symbol: symbol ?? '',
+      name: str(row, 'token_name', 'name') ?? symbol ?? '',
+      amount: num(row, 'token_amount', 'amount', 'balance') ?? 0,
+      priceUsd: num(row, 'price_usd', 'price', 'priceUsd') ?? 0,
+      valueUsd: num(row, 'value_usd', 'value', 'valueUsd') ?? 0,
+    }];
+  });
+}
+
+/**
+ * token_ohlcv -> Candle (rows without a close are dropped)
+ */
+export function normalizeCandles(result: unknown): Candle[] {
+  return toRows(result).flatMap(row => {
+    const close = num(row, 'close', 'c', 'close_price', 'close_usd');
+    if (close === undefined) return [];
+
+    return [{
+      time: str(row, 'time', 'timestamp', 'date', 't', 'open_time'),
+      open: num(row, 'open', 'o', 'open_price', 'open_usd') ?? close,
+      high: num(row, 'high', 'h', 'high_price', 'high_usd') ?? close,
+      low: num(row, 'low', 'l', 'low_price', 'low_usd') ?? close,
+      close,
+      volume: num(row, 'volume', 'v', 'volume_usd'),
+    }];
+  });
+}
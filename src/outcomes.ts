@@ -0,0 +1,198 @@
+/**
+ * Outcome tracking for logged signals
+ * Prices each signal at emission from OHLCV, then fills returns at fixed horizons
+ * and the max favorable/adverse excursion, writing them through SignalLog.recordOutcome
+ * so winRate and pnl stats reflect what signals actually did.
+ */
+
+import { candleTime, type CandleSource } from './backtest.js';
+import type { Candle } from './scan.js';
+import type { LoggedSignal, SignalFilter, SignalLog, SignalOutcome } from './signal-log.js';
+import type { OpportunitySignal } from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const OUTCOME_HORIZONS: Record<string, number> = {
+  '1h': HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '24h': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+};
+
+export interface OutcomeMeasurement {
+  side: 'long' | 'short';
+  emissionPrice: number;
+  returns: Record<string, number>;  // Completed horizons only, signed for the side
+  exitPrice: number;                // Price at the longest completed horizon (emission price if none)
+  maxFavorablePct: number;
+  maxAdversePct: number;
+  complete: boolean;                // Every horizon filled
+}
+
+export interface OutcomeTrackerOptions {
+  horizons?: Record<string, number>;  // Label -> ms after emission (default OUTCOME_HORIZONS)
+  maxAgeMs?: number;                  // Stop retrying incomplete signals older than this (default 14 days)
+}
+
+export interface TrackingSummary {
+  checked: number;
+  updated: number;
+  completed: number;
+  pending: number;
+  failed: Array<{ id: string; reason: string }>;
+}
+
+/**
+ * Returns and excursions for a signal from candles covering its emission
+ * Emission price is the open of the first candle at or after the signal. Each candle is
+ * assumed to span the gap to the next, so a horizon is filled once a candle has closed at it.
+ * Returns undefined when the candles don't reach back to the emission.
+ */
+export function measureOutcome(
+  signal: OpportunitySignal,
+  candles: Candle[],
+  horizons: Record<string, number> = OUTCOME_HORIZONS,
+  now = Date.now()
+): OutcomeMeasurement | undefined {
+  const emittedAt = Date.parse(signal.timestamp);
+  const timed = candles
+    .map(c => ({ candle: c, time: candleTime(c) }))
+    .filter(c => !Number.isNaN(c.time))
+    .sort((a, b) => a.time - b.time);
+  if (timed.length < 2) return undefined;
+
+  const spacing = Math.min(...timed.slice(1).map((c, i) => c.time - timed[i].time).filter(d => d > 0));
+  const start = timed.findIndex(c => c.time >= emittedAt);
+  if (start === -1 || timed[start].time - emittedAt > spacing) return undefined;
+
+  const side = signal.type === 'distribution' ? 'short' : 'long';
+  const entry = timed[start];
+  const emissionPrice = entry.candle.open;
+  const signed = (price: number) => ((side === 'long' ? price - emissionPrice : emissionPrice - price) / emissionPrice) * 100;
+  const closed = timed.slice(start).filter(c => c.time + spacing <= now);
+
+  const returns: Record<string, number> = {};
+  let exitPrice = emissionPrice;
+  let coveredUntil = Infinity;
+  for (const [label, ms] of Object.entries(horizons).sort((a, b) => a[1] - b[1])) {
+    const target = entry.time + ms;
+    const upTo = closed.filter(c => c.time + spacing <= target);
+    const last = upTo[upTo.length - 1];
+    if (!last || last.time + spacing < target) break;
+
+    returns[label] = signed(last.candle.close);
+    exitPrice = last.candle.close;
+    coveredUntil = last.time;
+  }
+
+  const complete = Object.keys(returns).length === Object.keys(horizons).length;
+  let maxFavorablePct = 0;
+  let maxAdversePct = 0;
+  for (const { candle, time } of closed) {
+    if (complete && time > coveredUntil) break;
+    maxFavorablePct = Math.max(maxFavorablePct, signed(side === 'long' ? candle.high : candle.low));
+    maxAdversePct = Math.min(maxAdversePct, signed(side === 'long' ? candle.low : candle.high));
+  }
+
+  return { side, emissionPrice, returns, exitPrice, maxFavorablePct, maxAdversePct, complete };
+}
+
+export class OutcomeTracker {
+  private horizons: Record<string, number>;
+  private maxAgeMs: number;
+
+  constructor(
+    private log: SignalLog,
+    private candles: CandleSource,
+    options: OutcomeTrackerOptions = {}
+  ) {
+    this.horizons = options.horizons ?? OUTCOME_HORIZONS;
+    this.maxAgeMs = options.maxAgeMs ?? 14 * 24 * HOUR_MS;
+  }
+
+  /**
+   * Signals with horizons still to fill, newest first
+   */
+  pending(filter: SignalFilter = {}): LoggedSignal[] {
+    const cutoff = Date.now() - this.maxAgeMs;
+    const labels = Object.keys(this.horizons);
+
+    return this.log.find(filter).filter(s =>
+      Date.parse(s.timestamp) >= cutoff &&
+      !labels.every(label => s.outcome?.returns?.[label] !== undefined)
+    );
+  }
+
+  /**
+   * Fill outcomes for every pending signal (candles fetched once per token)
+   * Manually recorded entry/exit prices are kept; the tracker only adds returns and excursions.
+   */
+  async run(filter: SignalFilter = {}): Promise<TrackingSummary> {
+    const summary: TrackingSummary = { checked: 0, updated: 0, completed: 0, pending: 0, failed: [] };
+    const series = new Map<string, Promise<Candle[]>>();
+
+    for (const signal of this.pending(filter)) {
+      summary.checked++;
+      const key = `${signal.chain}:${signal.token.toLowerCase()}`;
+      if (!series.has(key)) series.set(key, this.candles(signal.token, signal.chain));
+
+      let candles: Candle[];
+      try {
+        candles = await series.get(key)!;
+      } catch (error) {
+        summary.failed.push({ id: signal.id, reason: (error as Error).message });
+        continue;
+      }
+
+      const measurement = measureOutcome(signal, candles, this.horizons);
+      if (!measurement) {
+        // Candles that end before the emission just haven't caught up yet
+        const latest = Math.max(...candles.map(candleTime).filter(t => !Number.isNaN(t)));
+        if (latest < Date.parse(signal.timestamp)) summary.pending++;
+        else summary.failed.push({ id: signal.id, reason: 'No candles cover the emission time' });
+        continue;
+      }
+
+      this.log.recordOutcome(signal.id, this.toOutcome(signal, measurement));
+      summary.updated++;
+      if (measurement.complete) summary.completed++;
+      else summary.pending++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Run on an interval until the returned stop function is called
+   */
+  start(intervalMs = 15 * 60 * 1000, onRun?: (summary: TrackingSummary) => void): () => void {
+    const tick = async () => {
+      try {
+        const summary = await this.run();
+        onRun?.(summary);
+      } catch (error) {
+        console.error('Outcome tracking error:', (error as Error).message);
+      }
+    };
+
+    tick();
+    const intervalId = setInterval(tick, intervalMs);
+
+    return () => clearInterval(intervalId);
+  }
+
+  private toOutcome(signal: LoggedSignal, m: OutcomeMeasurement): Partial<SignalOutcome> {
+    const tracked: Partial<SignalOutcome> = {
+      returns: m.returns,
+      maxFavorablePct: m.maxFavorablePct,
+      maxAdversePct: m.maxAdversePct,
+      trackedAt: new Date().toISOString(),
+    };
+
+    // Prices from a real fill win over the tracker's
+    const manual = signal.outcome?.entryPrice !== undefined && !signal.outcome.trackedAt;
+    if (manual || Object.keys(m.returns).length === 0) return tracked;
+
+    return { ...tracked, side: m.side, entryPrice: m.emissionPrice, exitPrice: m.exitPrice };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Lazy page iteration for list endpoints and paged MCP tools
+ * Pages are only fetched as the consumer pulls items, and iteration stops
+ * at the first empty/short page or when an item, page or credit budget runs out
+ */
+
+import type { RateLimiter } from './rate-limiter.js';
+
+export interface PageIterationOptions {
+  startPage?: number;        // Default 1
+  pageSize?: number;         // Expected rows per page - a shorter page ends iteration
+  maxPages?: number;
+  maxItems?: number;
+  maxCredits?: number;       // Stop before a page would exceed this budget
+  rateLimiter?: RateLimiter; // Acquired (at the page's credit cost) before each fetch
+}
+
+export interface PaginateOptions extends PageIterationOptions {
+  creditsPerPage?: number;   // Default 1
+}
+
+/**
+ * Walk pages from fetchPage(page) and yield their items one by one
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const {
+    startPage = 1,
+    pageSize,
+    maxPages = Infinity,
+    maxItems = Infinity,
+    maxCredits = Infinity,
+    rateLimiter,
+    creditsPerPage = 1,
+  } = options;
+
+  let yielded = 0;
+  let creditsSpent = 0;
+
+  for (let page = startPage, fetched = 0; fetched < maxPages; page++, fetched++) {
+    if (creditsSpent + creditsPerPage > maxCredits) return;
+
+    if (rateLimiter) {
+      await rateLimiter.acquire(Math.max(1, creditsPerPage));
+    }
+
+    const items = await fetchPage(page);
+    creditsSpent += creditsPerPage;
+
+    for (const item of items) {
+      if (yielded >= maxItems) return;
+      yield item;
+      yielded++;
+    }
+
+    if (items.length === 0 || yielded >= maxItems) return;
+    if (pageSize !== undefined && items.length < pageSize) return;
+  }
+}
+
+/**
+ * Drain an async iterator into an array
+ */
+export async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
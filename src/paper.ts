@@ -0,0 +1,440 @@
+/**
+ * Paper Trading
+ * Simulated portfolio that executes TradingSignal.suggestedAction at OHLCV prices
+ * with slippage and fees, so strategies can run live without capital
+ */
+
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { Chain } from './types.js';
+import type { SuggestedAction } from './trader.js';
+
+export type PositionSizeHint = SuggestedAction['positionSizeHint'];
+
+/**
+ * Latest price for a token (USD)
+ */
+export type PriceSource = (token: string, chain: Chain) => Promise<number>;
+
+export interface PaperConfig {
+  startingCash?: number;                          // Default 10,000 USD
+  slippageBps?: number;                           // Against us on every fill (default 50)
+  feeBps?: number;                                // Per fill (default 30)
+  sizing?: Partial<Record<PositionSizeHint, number>>;  // Share of equity per size hint
+  path?: string;                                  // Persist to this JSON file when set
+  onTrade?: (trade: PaperTrade, fullyClosed: boolean) => void;  // Called after every close
+}
+
+export interface PaperPosition {
+  id: string;              // chain:token
+  token: string;
+  symbol: string;
+  chain: Chain;
+  quantity: number;
+  avgPrice: number;        // Average fill price
+  costBasis: number;       // USD spent including fees
+  openedAt: string;
+  updatedAt: string;
+  signalIds: string[];
+  lastPrice?: number;      // Last mark-to-market price
+  markedAt?: string;
+}
+
+export interface PaperFill {
+  side: 'buy' | 'sell';
+  positionId: string;
+  token: string;
+  chain: Chain;
+  quantity: number;
+  marketPrice: number;
+  price: number;           // After slippage
+  notional: number;        // quantity * price
+  fee: number;
+  timestamp: string;
+  signalId?: string;
+}
+
+export interface PaperTrade {
+  positionId: string;
+  token: string;
+  symbol: string;
+  chain: Chain;
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number;
+  costBasis: number;
+  proceeds: number;        // After fees
+  realizedPnl: number;
+  realizedPnlPct: number;
+  openedAt: string;
+  closedAt: string;
+  signalIds: string[];
+  reason?: string;
+}
+
+export interface PaperReport {
+  startingCash: number;
+  cash: number;
+  positionsValue: number;
+  equity: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalReturnPct: number;
+  fees: number;
+  openPositions: number;
+  closedTrades: number;
+  winRate: number;
+}
+
+export interface OpenOptions {
+  usd?: number;                // Notional to spend (default: from sizeHint)
+  sizeHint?: PositionSizeHint; // Default small
+  symbol?: string;
+  signalId?: string;
+}
+
+export interface CloseOptions {
+  fraction?: number;           // Share of the position to sell (default 1)
+  reason?: string;
+  signalId?: string;
+}
+
+export type PaperErrorCode = 'INSUFFICIENT_CASH' | 'NO_POSITION' | 'NO_PRICE' | 'INVALID_ORDER';
+
+export class NansenPaperError extends Error {
+  constructor(message: string, public code: PaperErrorCode) {
+    super(message);
+    this.name = 'NansenPaperError';
+  }
+}
+
+interface PaperState {
+  startingCash: number;
+  cash: number;
+  fees: number;
+  positions: PaperPosition[];
+  closed: PaperTrade[];
+  fills: PaperFill[];
+}
+
+export const DEFAULT_PAPER_CONFIG = {
+  startingCash: 10_000,
+  slippageBps: 50,
+  feeBps: 30,
+  sizing: { small: 0.02, medium: 0.05, large: 0.1 } as Record<PositionSizeHint, number>,
+};
+
+// Smallest order worth filling (USD)
+const MIN_NOTIONAL = 1;
+
+export class PaperPortfolio {
+  private state: PaperState;
+  private config: typeof DEFAULT_PAPER_CONFIG;
+  private path?: string;
+  private onTrade?: PaperConfig['onTrade'];
+
+  constructor(private prices: PriceSource, config: PaperConfig = {}) {
+    this.config = {
+      ...DEFAULT_PAPER_CONFIG,
+      ...config,
+      sizing: { ...DEFAULT_PAPER_CONFIG.sizing, ...config.sizing },
+    };
+    this.path = config.path;
+    this.onTrade = config.onTrade;
+    this.state = this.emptyState(this.config.startingCash);
+    this.load();
+  }
+
+  // ===========================================================================
+  // Orders
+  // ===========================================================================
+
+  /**
+   * Execute a suggested action: buy opens or adds, sell closes, wait does nothing
+   * Buys spend the action's sizeUsd when the sizing engine set one, else size from the hint
+   */
+  async execute(action: SuggestedAction, options: { symbol?: string; signalId?: string } = {}): Promise<PaperFill | undefined> {
+    switch (action.action) {
+      case 'buy':
+        return this.open(action.targetToken, action.targetChain, {
+          ...options,
+          sizeHint: action.positionSizeHint,
+          ...(action.sizeUsd !== undefined && { usd: action.sizeUsd }),
+        });
+      case 'sell':
+        return this.find(action.targetToken, action.targetChain)
+          ? this.close(positionId(action.targetChain, action.targetToken), { reason: action.reasoning, signalId: options.signalId })
+          : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Buy at the current price plus slippage, adding to any open position
+   */
+  async open(token: string, chain: Chain, options: OpenOptions = {}): Promise<PaperFill> {
+    if (options.usd !== undefined && !(options.usd > 0)) {
+      throw new NansenPaperError(`Order size must be positive (got ${options.usd})`, 'INVALID_ORDER');
+    }
+    const budget = Math.min(
+      options.usd ?? this.equity() * this.config.sizing[options.sizeHint ?? 'small'],
+      this.state.cash
+    );
+    if (budget < MIN_NOTIONAL) {
+      throw new NansenPaperError(`Insufficient cash: $${this.state.cash.toFixed(2)} available`, 'INSUFFICIENT_CASH');
+    }
+
+    const marketPrice = await this.price(token, chain);
+    const price = marketPrice * (1 + this.config.slippageBps / 10000);
+    const fee = budget * this.config.feeBps / 10000;
+    const quantity = (budget - fee) / price;
+    const now = new Date().toISOString();
+    const id = positionId(chain, token);
+
+    const existing = this.state.positions.find(p => p.id === id);
+    if (existing) {
+      existing.avgPrice = (existing.avgPrice * existing.quantity + price * quantity) / (existing.quantity + quantity);
+      existing.quantity += quantity;
+      existing.costBasis += budget;
+      existing.updatedAt = now;
+      existing.lastPrice = marketPrice;
+      existing.markedAt = now;
+      if (options.signalId) existing.signalIds.push(options.signalId);
+    } else {
+      this.state.positions.push({
+        id,
+        token,
+        symbol: options.symbol ?? token,
+        chain,
+        quantity,
+        avgPrice: price,
+        costBasis: budget,
+        openedAt: now,
+        updatedAt: now,
+        signalIds: options.signalId ? [options.signalId] : [],
+        lastPrice: marketPrice,
+        markedAt: now,
+      });
+    }
+
+    this.state.cash -= budget;
+    return this.recordFill({
+      side: 'buy', positionId: id, token, chain, quantity, marketPrice, price,
+      notional: quantity * price, fee, timestamp: now, signalId: options.signalId,
+    });
+  }
+
+  /**
+   * Sell all (or a fraction) of a position at the current price minus slippage
+   * Accepts a position id (chain:token) or a token address held on one chain
+   */
+  async close(idOrToken: string, options: CloseOptions = {}): Promise<PaperFill> {
+    const position = this.resolve(idOrToken);
+    const fraction = options.fraction ?? 1;
+    if (!(fraction > 0 && fraction <= 1)) {
+      throw new NansenPaperError(`Close fraction must be in (0, 1] (got ${fraction})`, 'INVALID_ORDER');
+    }
+
+    const marketPrice = await this.price(position.token, position.chain);
+    const price = marketPrice * (1 - this.config.slippageBps / 10000);
+    const quantity = position.quantity * fraction;
+    const gross = quantity * price;
+    const fee = gross * this.config.feeBps / 10000;
+    const costBasis = position.costBasis * fraction;
+    const proceeds = gross - fee;
+    const now = new Date().toISOString();
+
+    const trade: PaperTrade = {
+      positionId: position.id,
+      token: position.token,
+      symbol: position.symbol,
+      chain: position.chain,
+      quantity,
+      entryPrice: position.avgPrice,
+      exitPrice: price,
+      costBasis,
+      proceeds,
+      realizedPnl: proceeds - costBasis,
+      realizedPnlPct: ((proceeds - costBasis) / costBasis) * 100,
+      openedAt: position.openedAt,
+      closedAt: now,
+      signalIds: options.signalId ? [...position.signalIds, options.signalId] : [...position.signalIds],
+      reason: options.reason,
+    };
+    this.state.cash += proceeds;
+    this.state.closed.push(trade);
+
+    if (fraction === 1) {
+      this.state.positions = this.state.positions.filter(p => p.id !== position.id);
+    } else {
+      position.quantity -= quantity;
+      position.costBasis -= costBasis;
+      position.updatedAt = now;
+      position.lastPrice = marketPrice;
+      position.markedAt = now;
+    }
+
+    const fill = this.recordFill({
+      side: 'sell', positionId: position.id, token: position.token, chain: position.chain, quantity,
+      marketPrice, price, notional: gross, fee, timestamp: now, signalId: options.signalId,
+    });
+    this.onTrade?.({ ...trade, signalIds: [...trade.signalIds] }, fraction === 1);
+    return fill;
+  }
+
+  // ===========================================================================
+  // Portfolio
+  // ===========================================================================
+
+  /**
+   * Refresh lastPrice on every open position (failed lookups keep the previous mark)
+   */
+  async markToMarket(): Promise<PaperPosition[]> {
+    for (const position of this.state.positions) {
+      try {
+        position.lastPrice = await this.prices(position.token, position.chain);
+        position.markedAt = new Date().toISOString();
+      } catch {
+        // Keep the previous mark
+      }
+    }
+    this.save();
+    return this.getPositions();
+  }
+
+  getPositions(): PaperPosition[] {
+    return this.state.positions.map(p => ({ ...p, signalIds: [...p.signalIds] }));
+  }
+
+  getClosedTrades(limit?: number): PaperTrade[] {
+    return limit ? this.state.closed.slice(-limit) : [...this.state.closed];
+  }
+
+  getFills(limit?: number): PaperFill[] {
+    return limit ? this.state.fills.slice(-limit) : [...this.state.fills];
+  }
+
+  /**
+   * Cash, equity and PnL at the last marks (call markToMarket first for fresh prices)
+   */
+  getReport(): PaperReport {
+    const positionsValue = this.state.positions.reduce((sum, p) => sum + this.value(p), 0);
+    const unrealizedPnl = this.state.positions.reduce((sum, p) => sum + this.value(p) - p.costBasis, 0);
+    const realizedPnl = this.state.closed.reduce((sum, t) => sum + t.realizedPnl, 0);
+    const equity = this.state.cash + positionsValue;
+    const wins = this.state.closed.filter(t => t.realizedPnl > 0).length;
+
+    return {
+      startingCash: this.state.startingCash,
+      cash: this.state.cash,
+      positionsValue,
+      equity,
+      realizedPnl,
+      unrealizedPnl,
+      totalReturnPct: ((equity - this.state.startingCash) / this.state.startingCash) * 100,
+      fees: this.state.fees,
+      openPositions: this.state.positions.length,
+      closedTrades: this.state.closed.length,
+      winRate: this.state.closed.length > 0 ? wins / this.state.closed.length : 0,
+    };
+  }
+
+  /**
+   * Start over with a fresh cash balance
+   */
+  reset(startingCash = this.config.startingCash): void {
+    this.state = this.emptyState(startingCash);
+    this.save();
+  }
+
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  /**
+   * Save to disk (no-op without a path)
+   */
+  save(): void {
+    if (!this.path) return;
+
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(this.path, JSON.stringify(this.state, null, 2));
+  }
+
+  /**
+   * Load from disk (no-op without a path)
+   */
+  load(): void {
+    if (!this.path || !existsSync(this.path)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.path, 'utf-8'));
+      this.state = { ...this.emptyState(this.config.startingCash), ...data };
+    } catch (error) {
+      console.error('Failed to load paper portfolio:', (error as Error).message);
+    }
+  }
+
+  // ===========================================================================
+  // Internal
+  // ===========================================================================
+
+  private emptyState(startingCash: number): PaperState {
+    return { startingCash, cash: startingCash, fees: 0, positions: [], closed: [], fills: [] };
+  }
+
+  private async price(token: string, chain: Chain): Promise<number> {
+    let price: number;
+    try {
+      price = await this.prices(token, chain);
+    } catch (error) {
+      throw new NansenPaperError(`No price for ${chain}:${token}: ${(error as Error).message}`, 'NO_PRICE');
+    }
+    if (!(price > 0)) {
+      throw new NansenPaperError(`No price for ${chain}:${token}`, 'NO_PRICE');
+    }
+    return price;
+  }
+
+  private equity(): number {
+    return this.state.cash + this.state.positions.reduce((sum, p) => sum + this.value(p), 0);
+  }
+
+  private value(position: PaperPosition): number {
+    return position.lastPrice !== undefined ? position.quantity * position.lastPrice : position.costBasis;
+  }
+
+  private find(token: string, chain: Chain): PaperPosition | undefined {
+    return this.state.positions.find(p => p.id === positionId(chain, token));
+  }
+
+  private resolve(idOrToken: string): PaperPosition {
+    const key = idOrToken.toLowerCase();
+    const matches = this.state.positions.filter(p => p.id === key || p.token.toLowerCase() === key);
+    if (matches.length === 1) return matches[0];
+
+    throw new NansenPaperError(
+      matches.length === 0
+        ? `No open position for ${idOrToken}`
+        : `${idOrToken} is held on several chains - use chain:token`,
+      'NO_POSITION'
+    );
+  }
+
+  private recordFill(fill: PaperFill): PaperFill {
+    this.state.fees += fill.fee;
+    this.state.fills.push(fill);
+    this.save();
+    return fill;
+  }
+}
+
+function positionId(chain: Chain, token: string): string {
+  return `${chain}:${token.toLowerCase()}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Data provenance
+ * Tracks which source answered a call, what it cost and how stale it is.
+ * Clients and the cache report into every active trace (async-context scoped),
+ * so composite methods need no extra plumbing
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type DataSource = 'mcp' | 'api' | 'cache';
+
+export interface Provenance<T> {
+  data: T;
+  source: DataSource;         // 'cache' only when nothing was fetched
+  fetchedAt: string;          // When the data left Nansen (earlier than now for cache hits)
+  ageMs: number;
+  creditsSpent: number;       // Charged by this call (0 for cache hits)
+  fallbackReason?: string;    // Why the primary source was abandoned
+  origin?: 'mcp' | 'api';     // Source that produced cached data
+}
+
+/**
+ * What a cache entry remembers about the fetch that filled it
+ */
+export interface CachedProvenance {
+  fetchedAt: number;
+  origin?: 'mcp' | 'api';
+  fallbackReason?: string;
+}
+
+interface TracedCall {
+  source: 'mcp' | 'api';
+  target: string;
+  credits: number;
+}
+
+interface Trace {
+  calls: TracedCall[];
+  fallbackReasons: string[];
+  cacheHits: CachedProvenance[];
+}
+
+const storage = new AsyncLocalStorage<Trace[]>();
+
+/**
+ * Record a completed API or MCP call (no-op outside a trace)
+ */
+export function recordCall(source: 'mcp' | 'api', target: string, credits: number): void {
+  for (const trace of storage.getStore() ?? []) {
+    trace.calls.push({ source, target, credits });
+  }
+}
+
+/**
+ * Record that the primary source failed and a fallback is being tried
+ */
+export function recordFallback(error: unknown): void {
+  const reason = error instanceof Error ? error.message : String(error);
+  for (const trace of storage.getStore() ?? []) {
+    trace.fallbackReasons.push(reason);
+  }
+}
+
+/**
+ * Record a cache hit with the provenance of the original fetch
+ */
+export function recordCacheHit(cached: CachedProvenance): void {
+  for (const trace of storage.getStore() ?? []) {
+    trace.cacheHits.push(cached);
+  }
+}
+
+/**
+ * Run `fn` and describe where its result came from
+ * Nested traces see the calls of their children
+ */
+export async function trace<T>(fn: () => Promise<T>): Promise<Provenance<T>> {
+  const current: Trace = { calls: [], fallbackReasons: [], cacheHits: [] };
+  const data = await storage.run([...(storage.getStore() ?? []), current], fn);
+  return describe(data, current);
+}
+
+function describe<T>(data: T, { calls, fallbackReasons, cacheHits }: Trace): Provenance<T> {
+  const now = Date.now();
+  const fallbackReason = fallbackReasons.length > 0 ? fallbackReasons.join('; ') : undefined;
+
+  if (calls.length === 0 && cacheHits.length > 0) {
+    // Oldest hit decides staleness
+    const oldest = cacheHits.reduce((a, b) => (b.fetchedAt < a.fetchedAt ? b : a));
+    return {
+      data,
+      source: 'cache',
+      fetchedAt: new Date(oldest.fetchedAt).toISOString(),
+      ageMs: now - oldest.fetchedAt,
+      creditsSpent: 0,
+      ...(oldest.fallbackReason && { fallbackReason: oldest.fallbackReason }),
+      ...(oldest.origin && { origin: oldest.origin }),
+    };
+  }
+
+  // After a fallback the last call belongs to the fallback path; otherwise the first call is the primary
+  const answering = fallbackReason ? calls[calls.length - 1] : calls[0];
+
+  return {
+    data,
+    source: answering?.source ?? 'api',
+    fetchedAt: new Date(now).toISOString(),
+    ageMs: 0,
+    creditsSpent: calls.reduce((sum, c) => sum + c.credits, 0),
+    ...(fallbackReason && { fallbackReason }),
+  };
+}
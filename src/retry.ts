@@ -0,0 +1,136 @@
+/**
+ * Retry policy with exponential backoff
+ * Shared by NansenClient and NansenMcp so transient failures (429, 502, timeouts)
+ * don't break a whole scan
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number;          // Total attempts, including the first one
+  baseDelayMs: number;          // Delay before the first retry, doubled each attempt
+  maxDelayMs: number;           // Upper bound for any single delay (including Retry-After)
+  jitter: number;               // 0-1, fraction of each delay that is randomized
+  retryableStatuses: number[];  // HTTP statuses worth retrying
+  retryOnNetworkError: boolean; // Retry fetch failures and timeouts
+}
+
+export interface RetryEvent {
+  source: 'api' | 'mcp';
+  target: string;     // Endpoint or tool name
+  attempt: number;    // Attempt that just failed (1-based)
+  delayMs: number;    // Wait before the next attempt
+  status?: number;
+  error: Error;
+}
+
+export type RetryHook = (event: RetryEvent) => void;
+
+export interface RetryOptions {
+  policy: RetryPolicy;
+  source: RetryEvent['source'];
+  target: string;
+  onRetry?: RetryHook;
+}
+
+// Errors thrown by NansenClient/NansenMcp carry these optional fields
+interface RetryableErrorShape {
+  code?: string;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+const NETWORK_ERROR_CODES = ['FETCH_ERROR', 'TIMEOUT'];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: 0.2,
+  // 401/403/422 etc. are never retried - the request itself is wrong
+  retryableStatuses: [408, 429, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+/**
+ * Merge a partial policy over the defaults
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Whether an error should be retried under the given policy
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  const { status, code } = (error ?? {}) as RetryableErrorShape;
+
+  if (typeof status === 'number') {
+    return policy.retryableStatuses.includes(status);
+  }
+
+  return policy.retryOnNetworkError && code !== undefined && NETWORK_ERROR_CODES.includes(code);
+}
+
+/**
+ * Delay before the next attempt
+ * Honors a server-provided Retry-After, otherwise exponential backoff with jitter
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined && retryAfterMs >= 0) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const exponential = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(exponential * (1 - jitter * Math.random()));
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Run an operation, retrying retryable failures according to the policy
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const { policy, source, target, onRetry } = options;
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryableError(error, policy)) {
+        throw error;
+      }
+
+      const { status, retryAfterMs } = error as RetryableErrorShape;
+      const delayMs = getRetryDelay(policy, attempt, retryAfterMs);
+
+      onRetry?.({ source, target, attempt, delayMs, status, error: error as Error });
+
+      await sleep(delayMs);
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,229 @@
+/**
+ * Risk filters for scan signals
+ * Token-level filters (liquidity, holders, market cap) need data a scan doesn't carry,
+ * so signals are enriched from screener/search rows before those filters run.
+ * A filter whose metric is still unknown is skipped rather than failed.
+ * Portfolio limits judge new entries against the acted-on signals in the log.
+ */
+
+import type { Chain, OpportunitySignal } from './types.js';
+import type { ScreenerToken } from './data.js';
+import type { LoggedSignal } from './signal-log.js';
+import type { RiskConfig, TradingSignal } from './trader.js';
+
+export type RiskFilter =
+  | 'minScore'
+  | 'minSmartMoneyBuyers'
+  | 'minNetflowUsd'
+  | 'minFreshWallets'
+  | 'minLiquidity'
+  | 'minHolders'
+  | 'minMcap'
+  | 'maxMcap'
+  | 'maxOpenPositions'
+  | 'maxOpenPerChain'
+  | 'maxOpenPerSector'
+  | 'maxExposureUsd'
+  | 'lossCooldown';
+
+export interface RiskRejection {
+  filter: RiskFilter;
+  reason: string;
+}
+
+export interface RejectedSignal {
+  signal: OpportunitySignal;
+  rejections: RiskRejection[];
+  rejectedAt: string;
+}
+
+/**
+ * Whether the token filters in use need metrics this signal doesn't have yet
+ */
+export function needsTokenData(signal: OpportunitySignal, risk: RiskConfig): boolean {
+  const m = signal.metrics;
+  return (risk.minLiquidity !== undefined && m.liquidity === undefined) ||
+    (risk.minHolders !== undefined && m.holders === undefined) ||
+    ((risk.minMcap !== undefined || risk.maxMcap !== undefined) && !m.marketCap);
+}
+
+/**
+ * Fill missing token metrics from a screener or search row (existing metrics win)
+ */
+export function applyTokenData(signal: OpportunitySignal, token: ScreenerToken): OpportunitySignal {
+  const m = { ...signal.metrics };
+
+  if (!m.marketCap && token.marketCap) m.marketCap = token.marketCap;
+  if (m.holders === undefined && token.holders !== undefined) m.holders = token.holders;
+  if (m.liquidity === undefined && token.liquidity !== undefined) m.liquidity = token.liquidity;
+  if (m.volume24h === undefined && token.volume24h !== undefined) m.volume24h = token.volume24h;
+
+  return { ...signal, metrics: m };
+}
+
+/**
+ * Every risk filter the signal fails (empty = passes)
+ */
+export function evaluateRisk(signal: OpportunitySignal, risk: RiskConfig): RiskRejection[] {
+  const m = signal.metrics;
+  const rejections: RiskRejection[] = [];
+  const reject = (filter: RiskFilter, reason: string) => rejections.push({ filter, reason });
+
+  if (signal.score < risk.minScore) {
+    reject('minScore', `Score ${signal.score.toFixed(2)} below ${risk.minScore}`);
+  }
+
+  // Buyer counts only mean something for buy-side signals
+  if (risk.minSmartMoneyBuyers !== undefined && signal.type !== 'distribution' &&
+      m.buyers !== undefined && m.buyers < risk.minSmartMoneyBuyers) {
+    reject('minSmartMoneyBuyers', `${m.buyers} smart money buyers, need ${risk.minSmartMoneyBuyers}`);
+  }
+
+  if (risk.minNetflowUsd !== undefined && m.netflow24h !== undefined && Math.abs(m.netflow24h) < risk.minNetflowUsd) {
+    reject('minNetflowUsd', `Netflow $${formatUsd(Math.abs(m.netflow24h))} below $${formatUsd(risk.minNetflowUsd)}`);
+  }
+
+  if (risk.minFreshWallets !== undefined && m.freshWallets !== undefined && m.freshWallets < risk.minFreshWallets) {
+    reject('minFreshWallets', `${m.freshWallets} fresh wallets, need ${risk.minFreshWallets}`);
+  }
+
+  if (risk.minLiquidity !== undefined && m.liquidity !== undefined && m.liquidity < risk.minLiquidity) {
+    reject('minLiquidity', `Liquidity $${formatUsd(m.liquidity)} below $${formatUsd(risk.minLiquidity)}`);
+  }
+
+  if (risk.minHolders !== undefined && m.holders !== undefined && m.holders < risk.minHolders) {
+    reject('minHolders', `${m.holders} holders, need ${risk.minHolders}`);
+  }
+
+  // marketCap 0 means the source didn't report one
+  if (m.marketCap) {
+    if (risk.minMcap !== undefined && m.marketCap < risk.minMcap) {
+      reject('minMcap', `Market cap $${formatUsd(m.marketCap)} below $${formatUsd(risk.minMcap)}`);
+    }
+    if (risk.maxMcap !== undefined && m.marketCap > risk.maxMcap) {
+      reject('maxMcap', `Market cap $${formatUsd(m.marketCap)} above $${formatUsd(risk.maxMcap)}`);
+    }
+  }
+
+  return rejections;
+}
+
+// =============================================================================
+// Portfolio Limits
+// =============================================================================
+
+export interface OpenPosition {
+  signalId: string;
+  chain: Chain;
+  token: string;
+  sectors: string[];
+  notionalUsd: number;
+}
+
+export interface PortfolioState {
+  open: OpenPosition[];
+  consecutiveLosses: number;  // Losing exits since the last winner, newest first
+  lastExitAt?: number;        // Epoch ms of the latest exit
+}
+
+/**
+ * An acted-on buy that hasn't been exited
+ */
+export function isOpenPosition(signal: LoggedSignal): boolean {
+  return signal.acted && signal.outcome?.action === 'buy' && signal.outcome.exitPrice === undefined;
+}
+
+/**
+ * USD committed to a signal: the recorded fill, else the size it was emitted with
+ */
+export function openPosition(signal: LoggedSignal | TradingSignal): OpenPosition {
+  const sized = signal as Partial<TradingSignal>;
+  return {
+    signalId: signal.id,
+    chain: signal.chain,
+    token: signal.token.toLowerCase(),
+    sectors: signal.sectors ?? [],
+    notionalUsd: signal.outcome?.notionalUsd ?? sized.positionSize?.usd ?? sized.suggestedAction?.sizeUsd ?? 0,
+  };
+}
+
+/**
+ * Open positions (acted-on buys without an exit) and the recent loss streak
+ */
+export function portfolioState(signals: LoggedSignal[]): PortfolioState {
+  const acted = signals.filter(s => s.acted && s.outcome?.action === 'buy');
+  const exits = acted
+    .filter(s => s.outcome?.exitedAt && s.outcome.pnl !== undefined)
+    .sort((a, b) => Date.parse(b.outcome!.exitedAt!) - Date.parse(a.outcome!.exitedAt!));
+
+  let consecutiveLosses = 0;
+  while (consecutiveLosses < exits.length && exits[consecutiveLosses].outcome!.pnl! < 0) {
+    consecutiveLosses++;
+  }
+
+  return {
+    open: acted.filter(isOpenPosition).map(openPosition),
+    consecutiveLosses,
+    lastExitAt: exits.length > 0 ? Date.parse(exits[0].outcome!.exitedAt!) : undefined,
+  };
+}
+
+/**
+ * Every portfolio limit a new entry would break (empty = allowed)
+ */
+export function evaluatePortfolio(
+  signal: TradingSignal,
+  portfolio: PortfolioState,
+  risk: RiskConfig,
+  now = Date.now()
+): RiskRejection[] {
+  const rejections: RiskRejection[] = [];
+  const reject = (filter: RiskFilter, reason: string) => rejections.push({ filter, reason });
+  const { open } = portfolio;
+
+  if (risk.lossCooldownMs !== undefined && portfolio.lastExitAt !== undefined &&
+      portfolio.consecutiveLosses >= (risk.lossCooldownAfter ?? 1)) {
+    const until = portfolio.lastExitAt + risk.lossCooldownMs;
+    if (now < until) {
+      reject('lossCooldown', `${portfolio.consecutiveLosses} losing exit(s) in a row, cooling down until ${new Date(until).toISOString()}`);
+    }
+  }
+
+  if (risk.maxOpenPositions !== undefined && open.length >= risk.maxOpenPositions) {
+    reject('maxOpenPositions', `${open.length} open positions, max ${risk.maxOpenPositions}`);
+  }
+
+  if (risk.maxOpenPerChain !== undefined) {
+    const onChain = open.filter(p => p.chain === signal.chain).length;
+    if (onChain >= risk.maxOpenPerChain) {
+      reject('maxOpenPerChain', `${onChain} open positions on ${signal.chain}, max ${risk.maxOpenPerChain}`);
+    }
+  }
+
+  if (risk.maxOpenPerSector !== undefined) {
+    for (const sector of signal.sectors ?? []) {
+      const inSector = open.filter(p => p.sectors.includes(sector)).length;
+      if (inSector >= risk.maxOpenPerSector) {
+        reject('maxOpenPerSector', `${inSector} open positions in ${sector}, max ${risk.maxOpenPerSector}`);
+        break;
+      }
+    }
+  }
+
+  if (risk.maxExposureUsd !== undefined) {
+    const exposure = open.reduce((sum, p) => sum + p.notionalUsd, 0);
+    const size = openPosition(signal).notionalUsd;
+    if (exposure + size > risk.maxExposureUsd) {
+      reject('maxExposureUsd', `Exposure $${formatUsd(exposure)} + $${formatUsd(size)} exceeds $${formatUsd(risk.maxExposureUsd)}`);
+    }
+  }
+
+  return rejections;
+}
+
+function formatUsd(num: number): string {
+  if (num >= 1e9) return (num / 1e9).toFixed(2) + 'B';
+  if (num >= 1e6) return (num / 1e6).toFixed(2) + 'M';
+  if (num >= 1e3) return (num / 1e3).toFixed(2) + 'K';
+  return num.toFixed(2);
+}
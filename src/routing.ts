@@ -0,0 +1,162 @@
+/**
+ * Source routing for NansenData
+ * Per-method ordered sources with timeout, credit cap and circuit-breaker settings,
+ * so routing can change through config instead of edits to data.ts
+ */
+
+import { readFileSync } from 'fs';
+import { checkJsonSchema, type JsonSchema } from './schema.js';
+
+export type RoutedSource = 'mcp' | 'api';
+
+/**
+ * Methods with a routing entry, and the sources each can actually use
+ */
+export const ROUTABLE_METHODS = {
+  screenTokens: ['mcp'],
+  getTokenInfo: ['mcp', 'api'],
+  getWalletProfile: ['mcp', 'api'],
+  getSmartMoneyNetflow: ['api', 'mcp'],
+  getSmartMoneyHoldings: ['api', 'mcp'],
+  getTokenHolders: ['mcp', 'api'],
+  getTokenDexTrades: ['mcp', 'api'],
+  getTokenFlows: ['mcp', 'api'],
+  getWalletBalances: ['api', 'mcp'],
+  getRelatedWallets: ['mcp', 'api'],
+} as const satisfies Record<string, readonly RoutedSource[]>;
+
+export type RoutedMethod = keyof typeof ROUTABLE_METHODS;
+
+export interface BreakerSettings {
+  failureThreshold?: number;  // Failure rate (0-1) that opens the breaker (default 0.5)
+  minCalls?: number;          // Calls in the window before the rate counts (default 5)
+  windowMs?: number;          // Rolling window for the failure rate (default 60s)
+  cooldownMs?: number;        // Open time before a half-open probe (default 30s)
+}
+
+export interface RoutePolicy {
+  sources: RoutedSource[];    // Tried in order; later sources are fallbacks
+  timeoutMs?: number;         // Per-source attempt; a slow source counts as failed
+  maxCredits?: number;        // Skip sources whose planned cost exceeds this
+  breaker?: BreakerSettings;  // Per-route breaker on top of the clients' per-source ones
+}
+
+export type RoutingTable = Record<RoutedMethod, RoutePolicy>;
+export type RoutingConfig = Partial<Record<RoutedMethod, Partial<RoutePolicy>>>;
+
+/**
+ * Routing that matches the original hard-coded behaviour
+ * Wallet balances stay API-only unless MCP is routed in via config
+ */
+export const DEFAULT_ROUTING: RoutingTable = {
+  ...Object.fromEntries(
+    Object.entries(ROUTABLE_METHODS).map(([method, sources]) => [method, { sources: [...sources] }])
+  ) as RoutingTable,
+  getWalletBalances: { sources: ['api'] },
+};
+
+export class NansenRoutingError extends Error {
+  constructor(
+    message: string,
+    public method: string,
+    public code: 'NO_SOURCE' | 'TIMEOUT' | 'OVER_BUDGET' | 'CIRCUIT_OPEN' | 'INVALID_CONFIG'
+  ) {
+    super(message);
+    this.name = 'NansenRoutingError';
+  }
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+const BREAKER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    failureThreshold: { type: 'number' },
+    minCalls: { type: 'integer' },
+    windowMs: { type: 'integer' },
+    cooldownMs: { type: 'integer' },
+  },
+  additionalProperties: false,
+};
+
+const POLICY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    sources: { type: 'array', items: { type: 'string', enum: ['mcp', 'api'] } },
+    timeoutMs: { type: 'integer' },
+    maxCredits: { type: 'number' },
+    breaker: BREAKER_SCHEMA,
+  },
+  additionalProperties: false,
+};
+
+const ROUTING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: Object.fromEntries(Object.keys(ROUTABLE_METHODS).map(m => [m, POLICY_SCHEMA])),
+  additionalProperties: false,
+};
+
+/**
+ * Merge config over the defaults
+ * The legacy preferMcp/fallbackToApi flags are applied first, so explicit entries win
+ */
+export function resolveRouting(
+  config: RoutingConfig = {},
+  flags: { preferMcp?: boolean; fallbackToApi?: boolean } = {}
+): RoutingTable {
+  validateRouting(config);
+
+  const table = {} as RoutingTable;
+  for (const method of Object.keys(ROUTABLE_METHODS) as RoutedMethod[]) {
+    let sources = [...DEFAULT_ROUTING[method].sources];
+
+    // preferMcp: false skips MCP wherever the API can answer
+    if (flags.preferMcp === false && sources[0] === 'mcp' && sources.includes('api')) {
+      sources = sources.filter(s => s !== 'mcp');
+    }
+    // fallbackToApi: false disables fallbacks in either direction
+    if (flags.fallbackToApi === false) {
+      sources = sources.slice(0, 1);
+    }
+
+    table[method] = { sources, ...config[method] };
+  }
+  return table;
+}
+
+/**
+ * Throws NansenRoutingError for unknown keys, bad types and unsupported sources
+ */
+export function validateRouting(config: unknown): asserts config is RoutingConfig {
+  const issues = checkJsonSchema(config, ROUTING_SCHEMA, 'routing', 'routing');
+  if (issues.length > 0) {
+    const { path, expected, received } = issues[0];
+    throw new NansenRoutingError(`Invalid routing config at ${path}: expected ${expected}, got ${received}`, path, 'INVALID_CONFIG');
+  }
+
+  for (const [method, policy] of Object.entries(config as RoutingConfig)) {
+    const supported: readonly RoutedSource[] = ROUTABLE_METHODS[method as RoutedMethod];
+    const unsupported = policy?.sources?.filter(s => !supported.includes(s)) ?? [];
+    if (unsupported.length > 0) {
+      throw new NansenRoutingError(
+        `${method} cannot use ${unsupported.join(', ')} (supported: ${supported.join(', ')})`,
+        method,
+        'INVALID_CONFIG'
+      );
+    }
+    if (policy?.sources?.length === 0) {
+      throw new NansenRoutingError(`${method} needs at least one source`, method, 'INVALID_CONFIG');
+    }
+  }
+}
+
+/**
+ * Load a routing config from a JSON file: { "getWalletBalances": { "sources": ["mcp"] }, ... }
+ */
+export function loadRoutingConfig(path: string): RoutingConfig {
+  const config: unknown = JSON.parse(readFileSync(path, 'utf-8'));
+  validateRouting(config);
+  return config;
+}
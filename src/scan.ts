@@ -0,0 +1,142 @@
+/**
+ * Scan-mode detectors
+ * Pure functions over netflow, OHLCV and holder data behind the breakout
+ * and fresh-wallets modes of scanOpportunities
+ */
+
+import type { SmartMoneyNetflow } from './types.js';
+
+export interface Candle {
+  time?: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export const BREAKOUT_THRESHOLDS = {
+  minAcceleration1h: 1.5,   // Last hour's netflow pace vs the 24h pace
+  minAcceleration24h: 1.2,  // 24h pace vs the 7d pace (when 7d inflow is positive)
+  minVolumeExpansion: 1.5,  // Recent candle volume vs the earlier average
+  recentCandles: 3,         // Candles that make up the "recent" window
+};
+
+// Fresh-wallet scans fetch holders and who-bought-sold per candidate (2 credits each)
+export const FRESH_WALLET_CANDIDATES = 10;
+
+const FRESH_LABEL = /fresh/i;
+
+// =============================================================================
+// Breakout
+// =============================================================================
+
+export interface NetflowAcceleration {
+  hourly1h: number;         // USD/hour over the last hour
+  hourly24h: number;        // USD/hour over the last day
+  hourly7d?: number;        // USD/hour over the last week
+  acceleration1h: number;   // hourly1h / hourly24h
+  acceleration24h?: number; // hourly24h / hourly7d (undefined when the week was flat or negative)
+}
+
+/**
+ * Netflow pace at 1h, 24h and 7d - undefined unless the 1h and 24h flows are both inflows
+ */
+export function netflowAcceleration(flow: SmartMoneyNetflow): NetflowAcceleration | undefined {
+  if (!flow.netflow1h || flow.netflow1h <= 0 || flow.netflowUsd <= 0) return undefined;
+
+  const hourly1h = flow.netflow1h;
+  const hourly24h = flow.netflowUsd / 24;
+  const hourly7d = flow.netflow7d !== undefined ? flow.netflow7d / (24 * 7) : undefined;
+
+  return {
+    hourly1h,
+    hourly24h,
+    hourly7d,
+    acceleration1h: hourly1h / hourly24h,
+    acceleration24h: hourly7d !== undefined && hourly7d > 0 ? hourly24h / hourly7d : undefined,
+  };
+}
+
+/**
+ * Whether smart money inflows are speeding up across all three windows
+ * A negative week turning into a positive day counts as accelerating
+ */
+export function isAccelerating(acceleration: NetflowAcceleration, thresholds = BREAKOUT_THRESHOLDS): boolean {
+  return acceleration.acceleration1h >= thresholds.minAcceleration1h &&
+    (acceleration.acceleration24h === undefined || acceleration.acceleration24h >= thresholds.minAcceleration24h);
+}
+
+export interface PriceVolumeExpansion {
+  priceChangePct: number;  // Last close vs the close before the recent window
+  rangeBreakPct: number;   // Last close vs the earlier range high (> 0 = broke out)
+  volumeRatio: number;     // Recent average volume / earlier average (0 without volume data)
+}
+
+/**
+ * Compare the most recent candles against the earlier range
+ * Returns undefined when there aren't enough candles for a baseline
+ */
+export function priceVolumeExpansion(candles: Candle[], recent = BREAKOUT_THRESHOLDS.recentCandles): PriceVolumeExpansion | undefined {
+  const sorted = candles.every(c => c.time)
+    ? [...candles].sort((a, b) => Date.parse(a.time!) - Date.parse(b.time!))
+    : candles;
+  if (sorted.length < recent + 2) return undefined;
+
+  const baseline = sorted.slice(0, -recent);
+  const window = sorted.slice(-recent);
+  const lastClose = window[window.length - 1].close;
+  const baselineClose = baseline[baseline.length - 1].close;
+  const baselineHigh = Math.max(...baseline.map(c => c.high));
+
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const baselineVolume = average(baseline.map(c => c.volume ?? 0));
+  const recentVolume = average(window.map(c => c.volume ?? 0));
+
+  return {
+    priceChangePct: ((lastClose - baselineClose) / baselineClose) * 100,
+    rangeBreakPct: ((lastClose - baselineHigh) / baselineHigh) * 100,
+    volumeRatio: baselineVolume > 0 ? recentVolume / baselineVolume : 0,
+  };
+}
+
+/**
+ * Price closed above the earlier range on expanding volume
+ */
+export function isExpansion(expansion: PriceVolumeExpansion, thresholds = BREAKOUT_THRESHOLDS): boolean {
+  return expansion.rangeBreakPct > 0 && expansion.volumeRatio >= thresholds.minVolumeExpansion;
+}
+
+// =============================================================================
+// Fresh Wallets
+// =============================================================================
+
+export interface FreshWalletActivity {
+  freshWallets: number;       // Unique fresh-labelled buyers and holders
+  freshBuyers: number;
+  freshHolders: number;
+  freshBuyVolumeUsd: number;
+}
+
+/**
+ * Count wallets Nansen labels as fresh among a token's top holders and recent buyers
+ */
+export function countFreshWallets(
+  holders: Array<{ address: string; label?: string }>,
+  buyers: Array<{ entity: string; label?: string; buyVolumeUsd: number }>
+): FreshWalletActivity {
+  const isFresh = (...labels: Array<string | undefined>) => labels.some(l => l !== undefined && FRESH_LABEL.test(l));
+
+  const freshHolders = new Set(
+    holders.filter(h => isFresh(h.label)).map(h => h.address.toLowerCase())
+  );
+  const freshBuyers = buyers.filter(b => b.buyVolumeUsd > 0 && isFresh(b.label, b.entity));
+  const buyerAddresses = new Set(freshBuyers.map(b => b.entity.toLowerCase()));
+
+  return {
+    freshWallets: new Set([...freshHolders, ...buyerAddresses]).size,
+    freshBuyers: buyerAddresses.size,
+    freshHolders: freshHolders.size,
+    freshBuyVolumeUsd: freshBuyers.reduce((sum, b) => sum + b.buyVolumeUsd, 0),
+  };
+}
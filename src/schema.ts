@@ -0,0 +1,302 @@
+/**
+ * Zero-dependency runtime validation for raw API and MCP payloads
+ * Catches renamed/missing fields before they turn into undefined/NaN downstream
+ *
+ * Field specs use a compact shorthand:
+ *   'string' | 'number' | 'boolean' | 'object' - required
+ *   'number?'                                   - optional (null/undefined allowed)
+ *   'string[]' / 'string[]?'                    - array of that type
+ */
+
+export type FieldSpec =
+  | 'string' | 'string?'
+  | 'number' | 'number?'
+  | 'boolean' | 'boolean?'
+  | 'object' | 'object?'
+  | 'string[]' | 'string[]?'
+  | 'number[]' | 'number[]?';
+
+export interface RowSchema {
+  name: string;                     // Endpoint or tool name, used in error messages
+  fields: Record<string, FieldSpec>;
+  oneOf?: string[][];               // At least one field of each group must be present
+  enums?: Record<string, readonly string[]>;
+}
+
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+export interface ValidationOptions {
+  mode?: ValidationMode;                      // Default 'lenient'
+  onErrors?: (errors: SchemaIssue[]) => void; // Called with dropped-row issues in lenient mode
+}
+
+export interface SchemaIssue {
+  schema: string;
+  path: string;      // e.g. data[3].net_flow_24h_usd
+  expected: string;
+  received: string;
+}
+
+export interface ValidationResult<T> {
+  data: T[];
+  errors: SchemaIssue[];
+}
+
+export class NansenSchemaError extends Error {
+  constructor(
+    message: string,
+    public schema: string,
+    public path: string,
+    public issues: SchemaIssue[]
+  ) {
+    super(message);
+    this.name = 'NansenSchemaError';
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type.endsWith('[]')) {
+    const itemType = type.slice(0, -2);
+    return Array.isArray(value) && value.every(v => matchesType(v, itemType));
+  }
+  if (type === 'number') return typeof value === 'number' && !isNaN(value);
+  if (type === 'object') return typeof value === 'object' && value !== null && !Array.isArray(value);
+  return typeof value === type;
+}
+
+/**
+ * Check a single row, returning every issue found
+ */
+export function checkRow(row: unknown, schema: RowSchema, path: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+    return [{ schema: schema.name, path, expected: 'object', received: describeValue(row) }];
+  }
+
+  const obj = row as Record<string, unknown>;
+
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    const optional = spec.endsWith('?');
+    const type = optional ? spec.slice(0, -1) : spec;
+    const value = obj[field];
+
+    if (value === undefined || value === null) {
+      if (!optional) {
+        issues.push({ schema: schema.name, path: `${path}.${field}`, expected: type, received: describeValue(value) });
+      }
+      continue;
+    }
+
+    if (!matchesType(value, type)) {
+      issues.push({ schema: schema.name, path: `${path}.${field}`, expected: type, received: describeValue(value) });
+    }
+  }
+
+  for (const group of schema.oneOf ?? []) {
+    if (!group.some(f => obj[f] !== undefined && obj[f] !== null)) {
+      issues.push({ schema: schema.name, path: `${path}.{${group.join('|')}}`, expected: 'one present', received: 'none' });
+    }
+  }
+
+  for (const [field, allowed] of Object.entries(schema.enums ?? {})) {
+    const value = obj[field];
+    if (value !== undefined && value !== null && !allowed.includes(value as string)) {
+      issues.push({ schema: schema.name, path: `${path}.${field}`, expected: allowed.join('|'), received: String(value) });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a list of raw rows
+ * strict: throws NansenSchemaError on the first bad row
+ * lenient: drops bad rows and returns their issues
+ * off: returns rows untouched
+ */
+export function validateRows<T>(
+  rows: unknown,
+  schema: RowSchema,
+  mode: ValidationMode = 'lenient',
+  basePath = 'data'
+): ValidationResult<T> {
+  if (mode === 'off') {
+    return { data: (Array.isArray(rows) ? rows : []) as T[], errors: [] };
+  }
+
+  if (rows === undefined || rows === null) {
+    return { data: [], errors: [] };
+  }
+
+  if (!Array.isArray(rows)) {
+    const issue: SchemaIssue = { schema: schema.name, path: basePath, expected: 'array', received: describeValue(rows) };
+    if (mode === 'strict') throw schemaError(issue, [issue]);
+    return { data: [], errors: [issue] };
+  }
+
+  const data: T[] = [];
+  const errors: SchemaIssue[] = [];
+
+  rows.forEach((row, i) => {
+    const issues = checkRow(row, schema, `${basePath}[${i}]`);
+    if (issues.length === 0) {
+      data.push(row as T);
+      return;
+    }
+    if (mode === 'strict') throw schemaError(issues[0], issues);
+    errors.push(...issues);
+  });
+
+  return { data, errors };
+}
+
+// Keys MCP tools use to wrap row arrays in an object
+const ROW_CONTAINER_KEYS = ['data', 'results', 'items', 'rows', 'candles', 'ohlcv'];
+
+/**
+ * Row array of a structured payload (bare array or wrapped in a container key)
+ * Returns undefined for text and unrecognized shapes
+ */
+export function extractRows(payload: unknown): unknown[] | undefined {
+  if (Array.isArray(payload)) return payload;
+  if (payload === null || typeof payload !== 'object') return undefined;
+
+  const obj = payload as Record<string, unknown>;
+  const key = ROW_CONTAINER_KEYS.find(k => Array.isArray(obj[k]));
+  return key ? obj[key] as unknown[] : undefined;
+}
+
+/**
+ * Validate a structured MCP payload: a bare row array or an object wrapping one
+ * Text/markdown payloads and unrecognized shapes pass through untouched
+ */
+export function validatePayload<T = unknown>(
+  payload: T,
+  schema: RowSchema,
+  mode: ValidationMode = 'lenient'
+): { payload: T; errors: SchemaIssue[] } {
+  if (mode === 'off' || payload === null || typeof payload !== 'object') {
+    return { payload, errors: [] };
+  }
+
+  if (Array.isArray(payload)) {
+    const { data, errors } = validateRows(payload, schema, mode, 'result');
+    return { payload: data as T, errors };
+  }
+
+  const obj = payload as Record<string, unknown>;
+  const key = ROW_CONTAINER_KEYS.find(k => Array.isArray(obj[k]));
+  if (!key) {
+    return { payload, errors: [] };
+  }
+
+  const { data, errors } = validateRows(obj[key], schema, mode, `result.${key}`);
+  return { payload: { ...obj, [key]: data } as T, errors };
+}
+
+// =============================================================================
+// JSON Schema (MCP tool input schemas)
+// =============================================================================
+
+/**
+ * Subset of JSON Schema used by MCP tools/list inputSchema
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  additionalProperties?: boolean | JsonSchema;
+  description?: string;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Check a value against a JSON Schema subset (type, enum, properties,
+ * required, items, additionalProperties, anyOf/oneOf)
+ * Unsupported keywords are ignored rather than rejected
+ */
+export function checkJsonSchema(value: unknown, schema: JsonSchema, name: string, path = 'arguments'): SchemaIssue[] {
+  const issue = (expected: string, received: string, at = path): SchemaIssue =>
+    ({ schema: name, path: at, expected, received });
+
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives?.length) {
+    const passes = alternatives.some(alt => checkJsonSchema(value, alt, name, path).length === 0);
+    if (!passes) return [issue('anyOf', describeValue(value))];
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonType(value);
+    const ok = types.some(t => t === actual || (t === 'number' && actual === 'integer'));
+    if (!ok) return [issue(types.join('|'), actual === 'integer' ? 'number' : actual)];
+  }
+
+  if (schema.enum && !schema.enum.some(e => e === value)) {
+    return [issue(schema.enum.map(String).join('|'), String(value))];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => issues.push(...checkJsonSchema(item, schema.items!, name, `${path}[${i}]`)));
+  }
+
+  if (jsonType(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+
+    for (const field of schema.required ?? []) {
+      if (obj[field] === undefined) {
+        issues.push(issue(schema.properties?.[field]?.type?.toString() ?? 'present', 'undefined', `${path}.${field}`));
+      }
+    }
+
+    for (const [field, fieldValue] of Object.entries(obj)) {
+      if (fieldValue === undefined) continue;
+      const fieldSchema = schema.properties?.[field];
+      if (fieldSchema) {
+        issues.push(...checkJsonSchema(fieldValue, fieldSchema, name, `${path}.${field}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push(issue('no such property', describeValue(fieldValue), `${path}.${field}`));
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...checkJsonSchema(fieldValue, schema.additionalProperties, name, `${path}.${field}`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Throw NansenSchemaError when a value fails its JSON Schema
+ */
+export function assertJsonSchema(value: unknown, schema: JsonSchema, name: string, path = 'arguments'): void {
+  const issues = checkJsonSchema(value, schema, name, path);
+  if (issues.length > 0) throw schemaError(issues[0], issues);
+}
+
+function schemaError(first: SchemaIssue, issues: SchemaIssue[]): NansenSchemaError {
+  return new NansenSchemaError(
+    `Schema mismatch in ${first.schema} at ${first.path}: expected ${first.expected}, got ${first.received}`,
+    first.schema,
+    first.path,
+    issues
+  );
+}
@@ -0,0 +1,275 @@
+/**
+ * Scoring strategies for scan signals
+ * A strategy sets a signal's opportunity score and turns it into a recommendation,
+ * returning a per-factor breakdown for both so scoring can be tuned without forking.
+ * The default strategy is the original netflow/trader/trend score and riskScore thresholds.
+ */
+
+import { readFileSync } from 'fs';
+import { checkJsonSchema, type JsonSchema } from './schema.js';
+import type { OpportunitySignal, ScanMode, SmartMoneyNetflow } from './types.js';
+import type { TradingSignal } from './trader.js';
+
+export type Recommendation = TradingSignal['recommendation'];
+
+export interface ScoreFactor {
+  name: string;
+  value: number;         // Input (metric value, or 1/0 for a rule)
+  contribution: number;  // Points added to the total
+  weight?: number;       // Weighted strategies only
+  note?: string;
+}
+
+export interface OpportunityScore {
+  score: number;
+  factors: ScoreFactor[];
+}
+
+export interface SignalAssessment {
+  riskScore: number;
+  recommendation: Recommendation;
+  confidence: number;
+  riskFactors: string[];  // Human-readable reasons for the recommendation
+  factors: ScoreFactor[];
+}
+
+export interface ScoringStrategy {
+  readonly name: string;
+  /** Opportunity score, used by the minScore filter and for ranking */
+  scoreOpportunity(signal: OpportunitySignal): OpportunityScore;
+  /** Recommendation for a signal that passed the risk filters (already rescored) */
+  assess(signal: OpportunitySignal): SignalAssessment;
+}
+
+export class NansenScoringError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(message);
+    this.name = 'NansenScoringError';
+  }
+}
+
+const CONFIDENCE: Record<Recommendation, number> = {
+  strong_buy: 0.8,
+  buy: 0.6,
+  watch: 0.4,
+  avoid: 0.3,
+};
+
+const sum = (factors: ScoreFactor[]) => factors.reduce((total, f) => total + f.contribution, 0);
+
+// =============================================================================
+// Default Strategy
+// =============================================================================
+
+/**
+ * Netflow score used by accumulation and distribution scans:
+ * |netflow|/50K (max 5) + traders/5 (max 3) + 2 when the 7d flow points the same way
+ */
+export function netflowScore(netflowUsd: number, traderCount: number, netflow7d?: number): OpportunityScore {
+  const sameDirection = !!netflow7d && Math.sign(netflowUsd) === Math.sign(netflow7d);
+  const factors: ScoreFactor[] = [
+    { name: 'netflow', value: netflowUsd, contribution: Math.min(Math.abs(netflowUsd) / 50000, 5), note: '|netflow| / 50K, max 5' },
+    { name: 'traders', value: traderCount, contribution: Math.min(traderCount / 5, 3), note: 'traders / 5, max 3' },
+    { name: 'trend', value: netflow7d ?? 0, contribution: sameDirection ? 2 : 0, note: '+2 when the 7d flow agrees' },
+  ];
+  return { score: sum(factors), factors };
+}
+
+/**
+ * netflowScore for an API netflow row
+ */
+export function scoreNetflow(item: SmartMoneyNetflow): OpportunityScore {
+  return netflowScore(item.netflowUsd, item.traderCount, item.netflow7d);
+}
+
+export const DEFAULT_STRATEGY: ScoringStrategy = {
+  name: 'default',
+
+  scoreOpportunity(signal) {
+    const m = signal.metrics;
+    if ((signal.type === 'accumulation' || signal.type === 'distribution') &&
+        m.netflow24h !== undefined && m.traderCount !== undefined) {
+      return netflowScore(m.netflow24h, m.traderCount, m.netflow7d);
+    }
+    // Breakout and fresh-wallet scores come from their detectors
+    return { score: signal.score, factors: [{ name: signal.type, value: signal.score, contribution: signal.score, note: 'scan score' }] };
+  },
+
+  assess(signal) {
+    const m = signal.metrics;
+    const factors: ScoreFactor[] = [];
+    const riskFactors: string[] = [];
+    const rule = (name: string, hit: boolean, points: number, reason?: string) => {
+      factors.push({ name, value: hit ? 1 : 0, contribution: hit ? points : 0 });
+      if (hit && reason) riskFactors.push(reason);
+    };
+
+    rule('highScore', signal.score > 5, 2);
+    rule('goodScore', signal.score > 3 && signal.score <= 5, 1);
+    rule('buyerRatio', !!(m.buyers && m.sellers && m.buyers > m.sellers * 2), 1, 'Strong buyer/seller ratio');
+    rule('highNetflow', !!(m.netflow24h && m.netflow24h > 100000), 1, 'High netflow');
+    rule('sellerPressure', !!(m.sellers && m.buyers && m.sellers > m.buyers), -1, 'More sellers than buyers');
+
+    const riskScore = sum(factors);
+    const recommendation: Recommendation =
+      riskScore >= 3 ? 'strong_buy' : riskScore >= 1 ? 'buy' : riskScore >= 0 ? 'watch' : 'avoid';
+
+    return { riskScore, recommendation, confidence: CONFIDENCE[recommendation], riskFactors, factors };
+  },
+};
+
+// =============================================================================
+// Weighted Strategy
+// =============================================================================
+
+export interface WeightedFactorConfig {
+  metric: string;         // Key in signal.metrics, or "score" for the scan score
+  weight?: number;        // Multiplier (default 1, negative to penalize)
+  scale?: number;         // Metric is divided by this first (default 1)
+  cap?: number;           // Max scaled value before weighting
+  absolute?: boolean;     // Use |metric| (default true, so outflows count for distribution)
+  modes?: ScanMode[];     // Only score these signal types
+}
+
+export interface WeightedScoringConfig {
+  name?: string;                                // Default "weighted"
+  factors: Record<string, WeightedFactorConfig>;
+  thresholds?: {                                // Score cutoffs (defaults 8 / 5 / 2)
+    strongBuy?: number;
+    buy?: number;
+    watch?: number;
+  };
+}
+
+const DEFAULT_THRESHOLDS = { strongBuy: 8, buy: 5, watch: 2 };
+
+// riskScore per recommendation, on the default strategy's scale so mixed logs still sort
+const RISK_SCORES: Record<Recommendation, number> = { strong_buy: 3, buy: 1, watch: 0, avoid: -1 };
+
+const SCAN_MODES: ScanMode[] = ['accumulation', 'distribution', 'breakout', 'fresh-wallets'];
+
+const WEIGHTED_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['factors'],
+  properties: {
+    name: { type: 'string' },
+    factors: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        required: ['metric'],
+        properties: {
+          metric: { type: 'string' },
+          weight: { type: 'number' },
+          scale: { type: 'number' },
+          cap: { type: 'number' },
+          absolute: { type: 'boolean' },
+          modes: { type: 'array', items: { type: 'string', enum: SCAN_MODES } },
+        },
+        additionalProperties: false,
+      },
+    },
+    thresholds: {
+      type: 'object',
+      properties: {
+        strongBuy: { type: 'number' },
+        buy: { type: 'number' },
+        watch: { type: 'number' },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Throws NansenScoringError for unknown keys, bad types, empty factors and zero scales
+ */
+export function validateScoringConfig(config: unknown): asserts config is WeightedScoringConfig {
+  const issues = checkJsonSchema(config, WEIGHTED_SCHEMA, 'scoring', 'scoring');
+  if (issues.length > 0) {
+    const { path, expected, received } = issues[0];
+    throw new NansenScoringError(`Invalid scoring config at ${path}: expected ${expected}, got ${received}`, path);
+  }
+
+  const { factors } = config as WeightedScoringConfig;
+  if (Object.keys(factors).length === 0) {
+    throw new NansenScoringError('Scoring config needs at least one factor', 'scoring.factors');
+  }
+  for (const [name, factor] of Object.entries(factors)) {
+    if (factor.scale === 0) {
+      throw new NansenScoringError(`Factor ${name} has scale 0`, `scoring.factors.${name}.scale`);
+    }
+  }
+}
+
+/**
+ * Weighted sum of signal metrics: weight * min(metric / scale, cap) per factor
+ * The total replaces the scan score and maps to a recommendation through the thresholds.
+ * Metrics a signal doesn't have contribute 0.
+ */
+export function createWeightedStrategy(config: WeightedScoringConfig): ScoringStrategy {
+  validateScoringConfig(config);
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...config.thresholds };
+
+  return {
+    name: config.name ?? 'weighted',
+
+    scoreOpportunity(signal) {
+      const factors: ScoreFactor[] = [];
+
+      for (const [name, factor] of Object.entries(config.factors)) {
+        if (factor.modes && !factor.modes.includes(signal.type)) continue;
+
+        const raw = factor.metric === 'score' ? signal.score : signal.metrics[factor.metric];
+        if (raw === undefined) {
+          factors.push({ name, value: 0, contribution: 0, weight: factor.weight ?? 1, note: `${factor.metric} unknown` });
+          continue;
+        }
+
+        const value = factor.absolute === false ? raw : Math.abs(raw);
+        let scaled = value / (factor.scale ?? 1);
+        if (factor.cap !== undefined) scaled = Math.min(scaled, factor.cap);
+        const weight = factor.weight ?? 1;
+
+        factors.push({ name, value: raw, contribution: weight * scaled, weight });
+      }
+
+      return { score: sum(factors), factors };
+    },
+
+    assess(signal) {
+      const recommendation: Recommendation =
+        signal.score >= thresholds.strongBuy ? 'strong_buy'
+          : signal.score >= thresholds.buy ? 'buy'
+            : signal.score >= thresholds.watch ? 'watch'
+              : 'avoid';
+
+      return {
+        riskScore: RISK_SCORES[recommendation],
+        recommendation,
+        confidence: CONFIDENCE[recommendation],
+        riskFactors: [`Weighted score ${signal.score.toFixed(2)} (${recommendation} at ${thresholdFor(recommendation, thresholds)})`],
+        factors: [{ name: 'score', value: signal.score, contribution: RISK_SCORES[recommendation], note: `thresholds ${thresholds.strongBuy}/${thresholds.buy}/${thresholds.watch}` }],
+      };
+    },
+  };
+}
+
+/**
+ * Load a weighted strategy config from a JSON file: { "factors": { "flow": { "metric": "netflow24h", ... } } }
+ */
+export function loadScoringConfig(path: string): WeightedScoringConfig {
+  const config: unknown = JSON.parse(readFileSync(path, 'utf-8'));
+  validateScoringConfig(config);
+  return config;
+}
+
+function thresholdFor(recommendation: Recommendation, thresholds: typeof DEFAULT_THRESHOLDS): string {
+  switch (recommendation) {
+    case 'strong_buy': return `>= ${thresholds.strongBuy}`;
+    case 'buy': return `>= ${thresholds.buy}`;
+    case 'watch': return `>= ${thresholds.watch}`;
+    default: return `< ${thresholds.watch}`;
+  }
+}
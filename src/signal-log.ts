@@ -1,32 +1,78 @@
 /**
  * Signal Logger
  * Persists signals for later analysis and performance tracking
+ *
+ * Every logged signal has a lifecycle state:
+ *   new -> watching -> entered -> exited
+ *   new -> expired   (nobody acted before the mode's TTL ran out)
+ *   new -> rejected  (skipped)
  */
 
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 import type { OpportunitySignal, Chain, ScanMode } from './types.js';
 
+export type SignalState = 'new' | 'watching' | 'entered' | 'exited' | 'expired' | 'rejected';
+
+export const SIGNAL_STATES: SignalState[] = ['new', 'watching', 'entered', 'exited', 'expired', 'rejected'];
+
+// Allowed next states (exited, expired and rejected are final)
+export const SIGNAL_TRANSITIONS: Record<SignalState, SignalState[]> = {
+  new: ['watching', 'expired', 'rejected'],
+  watching: ['entered', 'rejected'],
+  entered: ['exited'],
+  exited: [],
+  expired: [],
+  rejected: [],
+};
+
+// How long a new signal stays actionable, by scan mode
+export const DEFAULT_SIGNAL_TTL_MS: Record<ScanMode, number> = {
+  accumulation: 24 * 60 * 60 * 1000,
+  distribution: 24 * 60 * 60 * 1000,
+  breakout: 4 * 60 * 60 * 1000,
+  'fresh-wallets': 12 * 60 * 60 * 1000,
+};
+
+export interface SignalTransition {
+  state: SignalState;
+  at: string;
+  reason?: string;
+}
+
 export interface LoggedSignal extends OpportunitySignal {
   id: string;
   loggedAt: string;
   acted: boolean;
+  state: SignalState;
+  transitions: SignalTransition[];  // Oldest first, starting with 'new'
+  expiresAt: string;                // When a still-new signal expires
   outcome?: SignalOutcome;
 }
 
 export interface SignalOutcome {
   action: 'buy' | 'sell' | 'skip';
   executedAt?: string;
+  side?: 'long' | 'short';  // pnl direction (default long)
   entryPrice?: number;
   exitPrice?: number;
+  exitedAt?: string;        // When the exit price was first recorded
+  notionalUsd?: number;     // USD committed at entry
   pnl?: number;
   pnlPercent?: number;
   notes?: string;
+
+  // Filled by the outcome tracker from OHLCV
+  returns?: Record<string, number>;  // Return % at each horizon after emission ("1h", "4h", "24h", "7d")
+  maxFavorablePct?: number;          // Best excursion in the signal's direction
+  maxAdversePct?: number;            // Worst excursion against it (<= 0)
+  trackedAt?: string;
 }
 
 export interface SignalFilter {
   chains?: Chain[];
   modes?: ScanMode[];
+  states?: SignalState[];
   minScore?: number;
   maxScore?: number;
   acted?: boolean;
@@ -46,18 +92,35 @@ export interface SignalStats {
   winRate: number;
   avgScore: number;
   avgPnlPercent: number;
+  avgWinPercent: number;   // Mean pnlPercent of winners
+  avgLossPercent: number;  // Mean loss of losers, as a positive %
   byChain: Record<string, number>;
   byMode: Record<string, number>;
+  byState: Record<string, number>;
+}
+
+export class NansenSignalStateError extends Error {
+  constructor(
+    message: string,
+    public signalId: string,
+    public from: SignalState,
+    public to: SignalState
+  ) {
+    super(message);
+    this.name = 'NansenSignalStateError';
+  }
 }
 
 export class SignalLog {
   private signals: Map<string, LoggedSignal> = new Map();
   private logPath: string;
   private autoSave: boolean;
+  private ttlMs: Record<ScanMode, number>;
 
-  constructor(logPath?: string, autoSave: boolean = true) {
+  constructor(logPath?: string, autoSave: boolean = true, ttlMs: Partial<Record<ScanMode, number>> = {}) {
     this.logPath = logPath || join(process.cwd(), '.nansen', 'signals.json');
     this.autoSave = autoSave;
+    this.ttlMs = { ...DEFAULT_SIGNAL_TTL_MS, ...ttlMs };
     this.load();
   }
 
@@ -68,6 +131,27 @@ export class SignalLog {
     return `${signal.chain}:${signal.token}:${signal.type}:${signal.timestamp}`;
   }
 
+  /**
+   * Expiry time for a signal of this mode, counted from when it was logged
+   */
+  private expiryOf(signal: OpportunitySignal, loggedAt: string): string {
+    const ttl = this.ttlMs[signal.type] ?? DEFAULT_SIGNAL_TTL_MS.accumulation;
+    return new Date(Date.parse(loggedAt) + ttl).toISOString();
+  }
+
+  private createEntry(signal: OpportunitySignal, id: string): LoggedSignal {
+    const loggedAt = new Date().toISOString();
+    return {
+      ...signal,
+      id,
+      loggedAt,
+      acted: false,
+      state: 'new',
+      transitions: [{ state: 'new', at: loggedAt }],
+      expiresAt: this.expiryOf(signal, loggedAt),
+    };
+  }
+
   /**
    * Log a new signal
    */
@@ -79,12 +163,7 @@ export class SignalLog {
       return this.signals.get(id)!;
     }
 
-    const logged: LoggedSignal = {
-      ...signal,
-      id,
-      loggedAt: new Date().toISOString(),
-      acted: false,
-    };
+    const logged = this.createEntry(signal, id);
 
     this.signals.set(id, logged);
 
@@ -104,12 +183,7 @@ export class SignalLog {
       if (this.signals.has(id)) {
         return this.signals.get(id)!;
       }
-      const entry: LoggedSignal = {
-        ...s,
-        id,
-        loggedAt: new Date().toISOString(),
-        acted: false,
-      };
+      const entry = this.createEntry(s, id);
       this.signals.set(id, entry);
       return entry;
     });
@@ -121,13 +195,88 @@ export class SignalLog {
     return logged;
   }
 
+  /**
+   * Move a signal to a new lifecycle state
+   * Throws NansenSignalStateError for transitions the state machine doesn't allow;
+   * moving to the current state is a no-op.
+   */
+  transition(id: string, to: SignalState, reason?: string, at: Date = new Date()): LoggedSignal | undefined {
+    const signal = this.signals.get(id);
+    if (!signal) return undefined;
+
+    this.applyTransition(signal, to, reason, at);
+
+    if (this.autoSave) {
+      this.save();
+    }
+
+    return signal;
+  }
+
+  /**
+   * Expire new signals whose TTL has run out
+   */
+  expire(now: number = Date.now()): LoggedSignal[] {
+    const expired = this.expireStale(now);
+
+    if (expired.length > 0 && this.autoSave) {
+      this.save();
+    }
+
+    return expired;
+  }
+
+  /**
+   * Expire in memory only; persisted by the next save
+   */
+  private expireStale(now: number = Date.now()): LoggedSignal[] {
+    const expired: LoggedSignal[] = [];
+
+    for (const signal of this.signals.values()) {
+      if (signal.state === 'new' && Date.parse(signal.expiresAt) <= now) {
+        this.applyTransition(signal, 'expired', `${signal.type} TTL elapsed`, new Date(signal.expiresAt));
+        expired.push(signal);
+      }
+    }
+
+    return expired;
+  }
+
+  private applyTransition(signal: LoggedSignal, to: SignalState, reason?: string, at: Date = new Date()): void {
+    // A new signal past its TTL is expired even if expire() hasn't run yet
+    if (signal.state === 'new' && to !== 'expired' && Date.parse(signal.expiresAt) <= at.getTime()) {
+      this.applyTransition(signal, 'expired', `${signal.type} TTL elapsed`, new Date(signal.expiresAt));
+    }
+    if (signal.state === to) return;
+
+    if (!SIGNAL_TRANSITIONS[signal.state].includes(to)) {
+      throw new NansenSignalStateError(
+        `Signal ${signal.id} is ${signal.state} and cannot move to ${to}`,
+        signal.id,
+        signal.state,
+        to
+      );
+    }
+
+    signal.state = to;
+    signal.transitions.push({ state: to, at: at.toISOString(), ...(reason && { reason }) });
+  }
+
   /**
    * Mark a signal as acted upon
+   * buy/sell enters it (through watching when still new), skip rejects it.
    */
   markActed(id: string, action: 'buy' | 'sell' | 'skip', notes?: string): LoggedSignal | undefined {
     const signal = this.signals.get(id);
     if (!signal) return undefined;
 
+    if (action === 'skip') {
+      this.applyTransition(signal, 'rejected', notes);
+    } else {
+      if (signal.state === 'new') this.applyTransition(signal, 'watching');
+      this.applyTransition(signal, 'entered', notes);
+    }
+
     signal.acted = true;
     signal.outcome = {
       action,
@@ -157,9 +306,17 @@ export class SignalLog {
       ...outcome,
     } as SignalOutcome;
 
+    if (signal.outcome.exitPrice !== undefined && !signal.outcome.exitedAt) {
+      signal.outcome.exitedAt = new Date().toISOString();
+    }
+    if (signal.outcome.exitPrice !== undefined && signal.state === 'entered') {
+      this.applyTransition(signal, 'exited', undefined, new Date(signal.outcome.exitedAt!));
+    }
+
     // Calculate PnL percent if we have entry and exit
     if (signal.outcome.entryPrice && signal.outcome.exitPrice) {
-      signal.outcome.pnl = signal.outcome.exitPrice - signal.outcome.entryPrice;
+      const move = signal.outcome.exitPrice - signal.outcome.entryPrice;
+      signal.outcome.pnl = signal.outcome.side === 'short' ? -move : move;
       signal.outcome.pnlPercent = (signal.outcome.pnl / signal.outcome.entryPrice) * 100;
     }
 
@@ -178,9 +335,10 @@ export class SignalLog {
   }
 
   /**
-   * Find signals matching criteria
+   * Find signals matching criteria (expires stale signals in memory first)
    */
   find(filter: SignalFilter = {}): LoggedSignal[] {
+    this.expireStale();
     let results = Array.from(this.signals.values());
 
     if (filter.chains?.length) {
@@ -191,6 +349,10 @@ export class SignalLog {
       results = results.filter(s => filter.modes!.includes(s.type));
     }
 
+    if (filter.states?.length) {
+      results = results.filter(s => filter.states!.includes(s.state));
+    }
+
     if (filter.minScore !== undefined) {
       results = results.filter(s => s.score >= filter.minScore!);
     }
@@ -242,16 +404,22 @@ export class SignalLog {
 
     const byChain: Record<string, number> = {};
     const byMode: Record<string, number> = {};
+    const byState: Record<string, number> = {};
 
     for (const s of signals) {
       byChain[s.chain] = (byChain[s.chain] || 0) + 1;
       byMode[s.type] = (byMode[s.type] || 0) + 1;
+      byState[s.state] = (byState[s.state] || 0) + 1;
     }
 
     const totalPnl = withOutcome.reduce((sum, s) => sum + (s.outcome?.pnl ?? 0), 0);
     const avgPnlPercent = withOutcome.length > 0
       ? withOutcome.reduce((sum, s) => sum + (s.outcome?.pnlPercent ?? 0), 0) / withOutcome.length
       : 0;
+    const losing = withOutcome.filter(s => (s.outcome?.pnl ?? 0) < 0);
+    const meanPct = (list: LoggedSignal[]) => list.length > 0
+      ? Math.abs(list.reduce((sum, s) => sum + (s.outcome?.pnlPercent ?? 0), 0) / list.length)
+      : 0;
 
     return {
       totalSignals: signals.length,
@@ -265,8 +433,11 @@ export class SignalLog {
         ? signals.reduce((sum, s) => sum + s.score, 0) / signals.length
         : 0,
       avgPnlPercent,
+      avgWinPercent: meanPct(profitable),
+      avgLossPercent: meanPct(losing),
       byChain,
       byMode,
+      byState,
     };
   }
 
@@ -324,13 +495,30 @@ export class SignalLog {
       const data = JSON.parse(readFileSync(this.logPath, 'utf-8'));
       this.signals.clear();
       for (const signal of data) {
-        this.signals.set(signal.id, signal);
+        this.signals.set(signal.id, this.withLifecycle(signal));
       }
     } catch (error) {
       console.error('Failed to load signal log:', (error as Error).message);
     }
   }
 
+  /**
+   * Fill lifecycle fields for signals logged before states existed
+   */
+  private withLifecycle(signal: LoggedSignal): LoggedSignal {
+    if (signal.state) return signal;
+
+    const outcome = signal.outcome;
+    const state: SignalState = !signal.acted ? 'new'
+      : outcome?.action === 'skip' ? 'rejected'
+        : outcome?.exitPrice !== undefined ? 'exited'
+          : 'entered';
+    const transitions: SignalTransition[] = [{ state: 'new', at: signal.loggedAt }];
+    if (state !== 'new') transitions.push({ state, at: outcome?.exitedAt ?? outcome?.executedAt ?? signal.loggedAt });
+
+    return { ...signal, state, transitions, expiresAt: signal.expiresAt ?? this.expiryOf(signal, signal.loggedAt) };
+  }
+
   /**
    * Clear all signals
    */
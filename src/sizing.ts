@@ -0,0 +1,156 @@
+/**
+ * Position Sizing
+ * Turns a scored signal into a USD size by fixed-fractional, volatility-targeted or
+ * fractional-Kelly sizing, scaled by conviction and clamped by per-chain and per-token caps.
+ * Every step adds a line to the rationale so the size can be audited.
+ */
+
+import type { Recommendation } from './scoring.js';
+import type { SignalStats } from './signal-log.js';
+import type { PositionSizeHint } from './paper.js';
+import type { Chain } from './types.js';
+
+export type SizingMethod = 'fixed' | 'volatility' | 'kelly';
+
+export interface SizingConfig {
+  method?: SizingMethod;                             // Default 'fixed'
+  bankrollUsd?: number;                              // Capital sizes are a share of (default 10,000)
+  riskFraction?: number;                             // fixed: share of bankroll per trade (default 0.02)
+  targetVolatilityPct?: number;                      // volatility: bankroll % a 1σ candle move may swing (default 0.25)
+  kellyFraction?: number;                            // kelly: share of full Kelly to bet (default 0.25)
+  minOutcomes?: number;                              // kelly: outcomes needed before trusting the stats (default 20)
+  conviction?: Partial<Record<Recommendation, number>>;  // Multiplier per recommendation
+  maxFraction?: number;                              // Never more than this share of bankroll (default 0.1)
+  minSizeUsd?: number;                               // Smaller sizes become 0 (default 10)
+  chainCapsUsd?: Partial<Record<Chain, number>>;     // Max USD per trade on a chain
+  tokenCapsUsd?: Record<string, number>;             // Max USD per trade, keyed by token or chain:token
+}
+
+export interface SizingInputs {
+  volatilityPct?: number;  // Std dev of candle returns in % (NansenData.calculateVolatility)
+  stats?: Pick<SignalStats, 'winRate' | 'withOutcome' | 'avgWinPercent' | 'avgLossPercent'>;
+}
+
+export interface PositionSize {
+  usd: number;
+  fraction: number;        // Share of bankroll after conviction and caps
+  method: SizingMethod;    // Method that produced the base fraction (kelly/volatility fall back to fixed)
+  hint: PositionSizeHint;  // Bucket for consumers that only take a hint (medium = riskFraction)
+  rationale: string[];
+}
+
+export type SizableSignal = { recommendation: Recommendation; chain: Chain; token: string };
+
+export const DEFAULT_SIZING_CONFIG = {
+  method: 'fixed' as SizingMethod,
+  bankrollUsd: 10_000,
+  riskFraction: 0.02,
+  targetVolatilityPct: 0.25,
+  kellyFraction: 0.25,
+  minOutcomes: 20,
+  conviction: { strong_buy: 1, buy: 0.5, watch: 0, avoid: 0 } as Record<Recommendation, number>,
+  maxFraction: 0.1,
+  minSizeUsd: 10,
+};
+
+const pct = (fraction: number) => `${(fraction * 100).toFixed(2)}%`;
+
+/**
+ * Full-Kelly fraction from win rate and average win/loss (in %), or undefined without an edge estimate
+ */
+export function kellyFraction(winRate: number, avgWinPercent: number, avgLossPercent: number): number | undefined {
+  if (!(avgWinPercent > 0) || !(avgLossPercent > 0)) return undefined;
+  const payoff = avgWinPercent / avgLossPercent;
+  return winRate - (1 - winRate) / payoff;
+}
+
+/**
+ * Size a signal in USD
+ * Kelly needs minOutcomes closed trades and volatility needs a volatility reading;
+ * without them the size falls back to fixed-fractional.
+ */
+export function sizePosition(
+  signal: SizableSignal,
+  inputs: SizingInputs = {},
+  config: SizingConfig = {}
+): PositionSize {
+  const c = {
+    ...DEFAULT_SIZING_CONFIG,
+    ...config,
+    conviction: { ...DEFAULT_SIZING_CONFIG.conviction, ...config.conviction },
+  };
+  const rationale: string[] = [];
+
+  // Base fraction
+  let method: SizingMethod = 'fixed';
+  let fraction = c.riskFraction;
+
+  if (c.method === 'volatility') {
+    if (inputs.volatilityPct !== undefined && inputs.volatilityPct > 0) {
+      method = 'volatility';
+      fraction = c.targetVolatilityPct / inputs.volatilityPct;
+      rationale.push(`volatility ${inputs.volatilityPct.toFixed(2)}% per candle: ${pct(fraction)} targets ${c.targetVolatilityPct}% of bankroll`);
+    } else {
+      rationale.push('no volatility reading, using fixed fraction');
+    }
+  } else if (c.method === 'kelly') {
+    const stats = inputs.stats;
+    const kelly = stats && stats.withOutcome >= c.minOutcomes
+      ? kellyFraction(stats.winRate, stats.avgWinPercent, stats.avgLossPercent)
+      : undefined;
+    if (stats && kelly !== undefined) {
+      method = 'kelly';
+      fraction = Math.max(0, kelly) * c.kellyFraction;
+      rationale.push(
+        `Kelly ${pct(kelly)} (win rate ${pct(stats.winRate)}, avg win ${stats.avgWinPercent.toFixed(1)}% / loss ${stats.avgLossPercent.toFixed(1)}%) x ${c.kellyFraction}` +
+        (kelly <= 0 ? ': no edge' : '')
+      );
+    } else {
+      rationale.push(`fewer than ${c.minOutcomes} outcomes with wins and losses, using fixed fraction`);
+    }
+  }
+  if (method === 'fixed') {
+    rationale.push(`fixed ${pct(fraction)} of $${c.bankrollUsd}`);
+  }
+
+  // Conviction
+  const conviction = c.conviction[signal.recommendation] ?? 0;
+  if (conviction !== 1) {
+    fraction *= conviction;
+    rationale.push(`${signal.recommendation} conviction x${conviction}`);
+  }
+
+  if (fraction > c.maxFraction) {
+    fraction = c.maxFraction;
+    rationale.push(`capped at ${pct(c.maxFraction)} of bankroll`);
+  }
+
+  // Caps
+  let usd = fraction * c.bankrollUsd;
+  const chainCap = c.chainCapsUsd?.[signal.chain];
+  if (chainCap !== undefined && usd > chainCap) {
+    usd = chainCap;
+    rationale.push(`${signal.chain} cap $${chainCap}`);
+  }
+  const token = signal.token.toLowerCase();
+  const tokenCap = Object.entries(c.tokenCapsUsd ?? {})
+    .find(([key]) => key.toLowerCase() === token || key.toLowerCase() === `${signal.chain}:${token}`)?.[1];
+  if (tokenCap !== undefined && usd > tokenCap) {
+    usd = tokenCap;
+    rationale.push(`token cap $${tokenCap}`);
+  }
+
+  if (usd > 0 && usd < c.minSizeUsd) {
+    rationale.push(`$${usd.toFixed(2)} is below the $${c.minSizeUsd} minimum`);
+    usd = 0;
+  }
+
+  const finalFraction = usd / c.bankrollUsd;
+  return {
+    usd: Math.round(usd * 100) / 100,
+    fraction: finalFraction,
+    method,
+    hint: finalFraction >= c.riskFraction * 2 ? 'large' : finalFraction >= c.riskFraction ? 'medium' : 'small',
+    rationale,
+  };
+}
@@ -6,22 +6,86 @@
  * - Rate limiting (prevents throttling)
  * - Signal logging (tracks performance)
  * - Risk filtering (quality over quantity)
+ * - Pluggable scoring strategies (with per-factor breakdowns)
+ * - Position sizing (fixed-fractional, volatility-targeted or fractional Kelly)
+ * - Backtesting (logged signals or netflow snapshots vs OHLCV)
+ * - Outcome tracking (returns at fixed horizons after each signal)
+ * - Paper trading (suggested actions filled at OHLCV prices)
+ * - Execution adapters (orders to downstream skills, fills written back to the log)
+ * - Exit monitoring (sell signals for positions we hold)
  * - Deduplication (no duplicate signals)
  *
  * Designed to feed into execution skills (Bankr, polyclaw, etc.)
  */
 
+import { join } from 'path';
+import { randomUUID } from 'crypto';
 import { NansenAgent } from './agent.js';
 import { Cache, CACHE_TTL } from './cache.js';
 import { RateLimiter, RATE_LIMIT_PRESETS } from './rate-limiter.js';
-import { SignalLog, type LoggedSignal, type SignalOutcome } from './signal-log.js';
+import { SignalLog, NansenSignalStateError, type LoggedSignal, type SignalOutcome, type SignalFilter, type SignalStats, type SignalState } from './signal-log.js';
+import { CreditLedger, type CreditBudget, type CreditStats } from './credits.js';
+import type { RetryPolicy, RetryEvent } from './retry.js';
+import type { TransportOptions } from './transport.js';
+import type { ValidationOptions } from './schema.js';
+import { trace, type Provenance } from './provenance.js';
+import type { RoutingConfig, BreakerSettings } from './routing.js';
+import type { BreakerStats, DataConfig } from './data.js';
+import {
+  evaluateRisk,
+  evaluatePortfolio,
+  portfolioState,
+  openPosition,
+  needsTokenData,
+  applyTokenData,
+  isOpenPosition,
+  type RejectedSignal,
+  type RiskRejection,
+} from './risk.js';
+import { normalizeScreenerTokens, normalizeCandles } from './normalize.js';
+import { OutcomeTracker, type OutcomeTrackerOptions, type TrackingSummary } from './outcomes.js';
+import { PaperPortfolio, type PaperConfig, type PaperFill, type PaperTrade } from './paper.js';
+import { evaluateExit, DEFAULT_EXIT_CONFIG, type ExitConfig, type ExitSignal, type PositionMarket } from './exits.js';
+import { sizePosition, type PositionSize, type SizingConfig, type SizingMethod } from './sizing.js';
+import {
+  createDryRunAdapter,
+  createHttpAdapter,
+  isTerminal,
+  NansenExecutionError,
+  type ExecutionAdapter,
+  type OrderRequest,
+  type OrderState,
+  type Quote,
+} from './execution.js';
+import type { Candle } from './scan.js';
+import {
+  DEFAULT_STRATEGY,
+  createWeightedStrategy,
+  loadScoringConfig,
+  NansenScoringError,
+  type ScoringStrategy,
+  type ScoreFactor,
+  type WeightedScoringConfig,
+} from './scoring.js';
+import {
+  candleTime,
+  runBacktest,
+  loadCandleFile,
+  loadNetflowSnapshots,
+  signalsFromSnapshots,
+  type BacktestConfig,
+  type BacktestReport,
+  type CandleSource,
+  type NetflowSnapshot,
+} from './backtest.js';
 import type {
   Chain,
   ScanMode,
   OpportunitySignal,
   SmartMoneyNetflow,
 } from './types.js';
-import type { SmartMoneyHolding } from './api.js';
+import type { SmartMoneyHolding, TokenHolder } from './api.js';
+import type { MarketOverview, MarketOverviewOptions, ScreenerToken, TokenSummary, WalletSummary } from './data.js';
 
 // =============================================================================
 // Types
@@ -30,6 +94,11 @@ import type { SmartMoneyHolding } from './api.js';
 export interface TraderConfig {
   // API
   apiKey?: string;
+  transport?: TransportOptions;
+  validation?: ValidationOptions;
+  routing?: RoutingConfig | string;  // Per-method source routing (object or JSON file path)
+  breaker?: BreakerSettings | false; // Per-source circuit breakers (default on)
+  mcp?: DataConfig['mcp'];           // MCP handshake and tools/list (both default true)
 
   // Caching
   enableCache?: boolean;
@@ -39,12 +108,49 @@ export interface TraderConfig {
   enableRateLimit?: boolean;
   rateLimitPreset?: keyof typeof RATE_LIMIT_PRESETS;
 
+  // Retries (API + MCP)
+  retry?: Partial<RetryPolicy>;
+
   // Signal logging
   enableSignalLog?: boolean;
   signalLogPath?: string;
+  signalTtlMs?: Partial<Record<ScanMode, number>>;  // How long new signals stay actionable (default 24h, breakout 4h, fresh-wallets 12h)
+
+  // Credit metering (API + MCP + cache hits)
+  ledger?: CreditLedger;       // Share a ledger across instances
+  creditBudget?: CreditBudget; // Hourly/daily soft and hard limits
+  enableCreditLog?: boolean;   // Persist the ledger (default true)
+  creditLogPath?: string;
 
   // Risk filters
   riskConfig?: RiskConfig;
+
+  // Scoring: a strategy, a weighted-factor config, or a JSON file path (NANSEN_SCORING_CONFIG)
+  scoring?: ScoringStrategy | WeightedScoringConfig | string;
+
+  // Position sizing for buy actions (method also from NANSEN_SIZING_METHOD)
+  sizing?: SizingConfig;
+
+  // Exit rules for held positions (stops, netflow reversal, distribution, holder drops)
+  exits?: ExitConfig;
+
+  // Outcome tracking horizons and lookback
+  outcomeTracking?: OutcomeTrackerOptions;
+
+  // Paper trading
+  paper?: Omit<PaperConfig, 'path'>;
+  enablePaperLog?: boolean;   // Persist the paper portfolio (default true)
+  paperLogPath?: string;
+
+  // Execution adapters (a dry-run adapter is always registered; NANSEN_EXECUTION_URL adds 'http')
+  execution?: ExecutionConfig;
+}
+
+export interface ExecutionConfig {
+  adapters?: ExecutionAdapter[];
+  adapter?: string;  // Active adapter (default 'dry-run')
+  orderSizeUsd?: Partial<Record<SuggestedAction['positionSizeHint'], number>>;  // Actions without a sizeUsd
+  maxSlippageBps?: number;
 }
 
 export interface RiskConfig {
@@ -71,6 +177,19 @@ export interface RiskConfig {
 
   // Fresh wallet filter (potential insider signals)
   minFreshWallets?: number;
+
+  // Credits a scan may spend on screener data for the token filters
+  // (search lookups are free; unknown metrics skip their filter)
+  maxEnrichmentCredits?: number;
+
+  // Portfolio limits on new buy entries, counting acted-on buys without an exit
+  // (plus entries picked earlier in the same scan)
+  maxOpenPositions?: number;
+  maxOpenPerChain?: number;
+  maxOpenPerSector?: number;   // Per SmartMoneyNetflow sector; signals without sectors skip it
+  maxExposureUsd?: number;     // Sum of entry notionals (fills, else sized amounts)
+  lossCooldownMs?: number;     // No new entries this long after a losing exit...
+  lossCooldownAfter?: number;  // ...once this many exits in a row have lost (default 1)
 }
 
 export interface ScanOptions {
@@ -79,6 +198,25 @@ export interface ScanOptions {
   limit?: number;
   analyze?: boolean;
   riskOverride?: Partial<RiskConfig>;
+  strategy?: string;  // Registered scoring strategy for this scan (default: the active one)
+}
+
+// What buildOrder/paperTrade need - entry signals and exit signals both qualify
+export type ActionableSignal = Pick<TradingSignal, 'id' | 'symbol' | 'suggestedAction'> & Partial<Pick<TradingSignal, 'type'>>;
+
+export interface ExecuteOptions {
+  adapter?: string;          // Registered adapter (default: the active one)
+  amountUsd?: number;        // Override the action's sizeUsd
+  quantity?: number;         // Token amount instead of a USD size
+  closesSignalId?: string;   // Entry a sell closes (default: the latest open buy on the token)
+}
+
+export interface BacktestOptions extends BacktestConfig {
+  filter?: SignalFilter;                   // Logged signals to replay (default: all)
+  snapshots?: NetflowSnapshot[] | string;  // Replay netflow snapshots (or a snapshot file) instead
+  strategy?: string;                       // Scoring strategy for snapshot signals (default: the active one)
+  candles?: CandleSource | string;         // Candle source or JSON file (default: MCP token_ohlcv)
+  interval?: string;                       // token_ohlcv interval (default 1h)
 }
 
 export interface TradingSignal extends LoggedSignal {
@@ -87,6 +225,10 @@ export interface TradingSignal extends LoggedSignal {
   recommendation: 'strong_buy' | 'buy' | 'watch' | 'avoid';
   confidence: number;
   suggestedAction?: SuggestedAction;
+  strategy: string;               // Scoring strategy that produced score and riskScore
+  scoreBreakdown: ScoreFactor[];  // How the opportunity score was built
+  riskBreakdown: ScoreFactor[];   // How the riskScore/recommendation was reached
+  positionSize?: PositionSize;    // USD size and its rationale (buy actions)
 }
 
 export interface SuggestedAction {
@@ -96,6 +238,7 @@ export interface SuggestedAction {
   targetChain: Chain;
   targetToken: string;
   positionSizeHint: 'small' | 'medium' | 'large';
+  sizeUsd?: number;  // From the sizing engine
 }
 
 export interface TraderStats {
@@ -109,6 +252,16 @@ export interface TraderStats {
     throttledRequests: number;
     totalWaitTimeMs: number;
   };
+  retries: {
+    total: number;
+    byTarget: Record<string, number>;
+  };
+  credits: CreditStats;
+  breakers: BreakerStats;
+  rejections: {
+    total: number;
+    byFilter: Record<string, number>;
+  };
   signals: {
     totalSignals: number;
     actedOn: number;
@@ -130,6 +283,20 @@ const DEFAULT_RISK_CONFIG: RiskConfig = {
   minSmartMoneyBuyers: 3,
   minNetflowUsd: 10000,
   minFreshWallets: 5,
+  maxEnrichmentCredits: 5,
+};
+
+// Rejected signals kept for getRejectedSignals()
+const MAX_REJECTIONS = 200;
+
+// Scan modes whose buys open positions - distribution flags smart money leaving
+const ENTRY_MODES: readonly ScanMode[] = ['accumulation', 'breakout', 'fresh-wallets'];
+
+// USD per order when positionSizeHint is all we have
+const DEFAULT_ORDER_SIZE_USD: Record<SuggestedAction['positionSizeHint'], number> = {
+  small: 100,
+  medium: 250,
+  large: 500,
 };
 
 // =============================================================================
@@ -138,33 +305,120 @@ const DEFAULT_RISK_CONFIG: RiskConfig = {
 
 export class NansenTrader {
   public readonly agent: NansenAgent;
+  public readonly ledger: CreditLedger;
+  public readonly outcomes: OutcomeTracker;
+  public readonly paper: PaperPortfolio;
   private cache: Cache;
   private rateLimiter: RateLimiter;
   private signalLog: SignalLog;
   private riskConfig: RiskConfig;
   private config: TraderConfig;
+  private retryStats = { total: 0, byTarget: {} as Record<string, number> };
+  private rejectionStats = { total: 0, byFilter: {} as Record<string, number> };
+  private rejected: RejectedSignal[] = [];
+  private strategies = new Map<string, ScoringStrategy>([[DEFAULT_STRATEGY.name, DEFAULT_STRATEGY]]);
+  private strategy: ScoringStrategy = DEFAULT_STRATEGY;
+  private sizing: SizingConfig;
+  private adapters = new Map<string, ExecutionAdapter>();
+  private adapter!: ExecutionAdapter;
+  private orders = new Map<string, OrderState>();
 
   constructor(config: TraderConfig = {}) {
     this.config = config;
 
+    // Initialize credit ledger
+    this.ledger = config.ledger ?? new CreditLedger({
+      budget: config.creditBudget,
+      path: config.enableCreditLog !== false
+        ? config.creditLogPath || join(process.cwd(), '.nansen', 'credits.json')
+        : undefined,
+    });
+    if (config.ledger && config.creditBudget) {
+      this.ledger.setBudget(config.creditBudget);
+    }
+
     // Initialize agent
-    this.agent = new NansenAgent(config.apiKey);
+    this.agent = new NansenAgent({
+      apiKey: config.apiKey,
+      transport: config.transport,
+      validation: config.validation,
+      routing: config.routing,
+      breaker: config.breaker,
+      mcp: config.mcp,
+      retry: config.retry,
+      onRetry: (event) => this.recordRetry(event),
+      ledger: this.ledger,
+    });
 
     // Initialize cache
-    this.cache = new Cache(config.cacheTtlMs || 60000);
+    this.cache = new Cache(config.cacheTtlMs || 60000, this.ledger);
 
     // Initialize rate limiter
     const preset = config.rateLimitPreset || 'standard';
     this.rateLimiter = new RateLimiter(RATE_LIMIT_PRESETS[preset]);
 
     // Initialize signal log
-    this.signalLog = new SignalLog(config.signalLogPath, config.enableSignalLog !== false);
+    this.signalLog = new SignalLog(config.signalLogPath, config.enableSignalLog !== false, config.signalTtlMs);
 
     // Initialize risk config
     this.riskConfig = {
       ...DEFAULT_RISK_CONFIG,
       ...config.riskConfig,
     };
+
+    // Initialize position sizing
+    this.sizing = {
+      method: process.env.NANSEN_SIZING_METHOD as SizingMethod | undefined,
+      ...config.sizing,
+    };
+
+    // Initialize outcome tracker (candles via the cached MCP token_ohlcv)
+    this.outcomes = new OutcomeTracker(
+      this.signalLog,
+      (token, chain) => this.getCandles(token, chain),
+      config.outcomeTracking
+    );
+
+    // Initialize paper portfolio (fills at the latest OHLCV close)
+    this.paper = new PaperPortfolio((token, chain) => this.getLatestPrice(token, chain), {
+      ...config.paper,
+      onTrade: (trade, fullyClosed) => {
+        if (fullyClosed) this.closePaperSignals(trade);
+        config.paper?.onTrade?.(trade, fullyClosed);
+      },
+      path: config.enablePaperLog !== false
+        ? config.paperLogPath || join(process.cwd(), '.nansen', 'paper.json')
+        : undefined,
+    });
+
+    // Initialize execution adapters (dry-run fills at the latest OHLCV close)
+    this.registerExecutionAdapter(
+      createDryRunAdapter({ prices: (token, chain) => this.getLatestPrice(token, chain) }),
+      true
+    );
+    if (process.env.NANSEN_EXECUTION_URL) {
+      this.registerExecutionAdapter(createHttpAdapter({
+        url: process.env.NANSEN_EXECUTION_URL,
+        token: process.env.NANSEN_EXECUTION_TOKEN,
+      }));
+    }
+    for (const adapter of config.execution?.adapters ?? []) {
+      this.registerExecutionAdapter(adapter);
+    }
+    if (config.execution?.adapter) {
+      this.useExecutionAdapter(config.execution.adapter);
+    }
+
+    // Initialize scoring strategy
+    const scoring = config.scoring ?? process.env.NANSEN_SCORING_CONFIG;
+    if (scoring) {
+      this.registerScoringStrategy(
+        typeof scoring === 'string' ? createWeightedStrategy(loadScoringConfig(scoring))
+          : 'scoreOpportunity' in scoring ? scoring
+            : createWeightedStrategy(scoring),
+        true
+      );
+    }
   }
 
   // ===========================================================================
@@ -185,6 +439,7 @@ export class NansenTrader {
     } = options;
 
     const effectiveRisk = { ...this.riskConfig, ...riskOverride };
+    const strategy = options.strategy ? this.getScoringStrategy(options.strategy) : this.strategy;
     const allSignals: OpportunitySignal[] = [];
 
     // Filter chains
@@ -211,17 +466,17 @@ export class NansenTrader {
       }
     }
 
-    // Apply risk filters
-    const filtered = this.applyRiskFilters(allSignals, effectiveRisk);
+    // Apply risk filters (token filters after enrichment)
+    const filtered = await this.applyRiskFilters(allSignals, effectiveRisk, strategy);
 
     // Deduplicate
     const deduped = this.deduplicateSignals(filtered, effectiveRisk.dedupeWindowMs);
 
     // Score and rank
-    const scored = this.scoreSignals(deduped);
+    const scored = this.scoreSignals(deduped, strategy);
 
-    // Take top signals
-    const topSignals = scored.slice(0, limit);
+    // Take top signals (sized, entries within portfolio limits)
+    const topSignals = await this.selectSignals(scored, limit, effectiveRisk);
 
     // Optionally analyze with MCP
     if (analyze && topSignals.length > 0) {
@@ -292,6 +547,78 @@ export class NansenTrader {
     ) as Promise<SmartMoneyHolding[]>;
   }
 
+  /**
+   * Get market overview with caching
+   */
+  async getMarketOverview(options: MarketOverviewOptions = {}): Promise<MarketOverview> {
+    const cacheKey = Cache.makeKey('market', { ...options });
+
+    if (this.config.enableRateLimit !== false) {
+      await this.rateLimiter.acquire();
+    }
+
+    return this.cache.getOrFetch(
+      cacheKey,
+      () => this.agent.data.getMarketOverview(options),
+      CACHE_TTL.TOKEN_SCREEN,
+      this.agent.data.planMarketOverview(options).estimatedCredits
+    ) as Promise<MarketOverview>;
+  }
+
+  /**
+   * Get hot tokens for a chain with caching (MCP token_discovery_screener)
+   */
+  async getHotTokens(chain: Chain): Promise<ScreenerToken[]> {
+    const cacheKey = Cache.makeKey('hot', { chain });
+
+    if (this.config.enableRateLimit !== false) {
+      await this.rateLimiter.acquire();
+    }
+
+    return this.cache.getOrFetch(
+      cacheKey,
+      () => this.agent.data.screenTokens([chain]),
+      CACHE_TTL.TOKEN_SCREEN,
+      this.agent.data.mcp.getToolCredits('token_discovery_screener')
+    ) as Promise<ScreenerToken[]>;
+  }
+
+  /**
+   * Get normalized token summary with caching (MCP-first with API fallback)
+   */
+  async getTokenSummary(token: string, chain: Chain): Promise<TokenSummary> {
+    const cacheKey = Cache.makeKey('token_summary', { token, chain });
+
+    if (this.config.enableRateLimit !== false) {
+      await this.rateLimiter.acquire(2); // MCP costs more
+    }
+
+    return this.cache.getOrFetch(
+      cacheKey,
+      () => this.agent.data.getTokenInfo(token, chain),
+      CACHE_TTL.MCP_ANALYSIS,
+      this.agent.data.planTokenInfo().estimatedCredits
+    ) as Promise<TokenSummary>;
+  }
+
+  /**
+   * Get wallet summary with caching (chain enables the API fallback)
+   */
+  async getWalletSummary(address: string, chain?: Chain): Promise<WalletSummary> {
+    const cacheKey = Cache.makeKey('wallet_summary', { address, chain });
+
+    if (this.config.enableRateLimit !== false) {
+      await this.rateLimiter.acquire(2);
+    }
+
+    return this.cache.getOrFetch(
+      cacheKey,
+      () => this.agent.data.getWalletProfile(address, chain),
+      CACHE_TTL.WALLET_PROFILE,
+      this.agent.data.planWalletProfile(chain).estimatedCredits
+    ) as Promise<WalletSummary>;
+  }
+
   /**
    * Analyze a specific token (MCP + API combined)
    */
@@ -360,6 +687,21 @@ export class NansenTrader {
     return this.signalLog.markActed(signalId, action, notes);
   }
 
+  /**
+   * Move a logged signal along its lifecycle (new -> watching -> entered -> exited)
+   * Throws NansenSignalStateError for transitions the lifecycle doesn't allow
+   */
+  transitionSignal(signalId: string, state: SignalState, reason?: string): LoggedSignal | undefined {
+    return this.signalLog.transition(signalId, state, reason);
+  }
+
+  /**
+   * Expire new signals past their mode's TTL
+   */
+  expireSignals(): LoggedSignal[] {
+    return this.signalLog.expire();
+  }
+
   /**
    * Record trade outcome
    */
@@ -374,6 +716,20 @@ export class NansenTrader {
     return this.signalLog.find({ limit });
   }
 
+  /**
+   * Get a logged signal by ID
+   */
+  getSignal(signalId: string): LoggedSignal | undefined {
+    return this.signalLog.get(signalId);
+  }
+
+  /**
+   * Query the signal log
+   */
+  findSignals(filter: SignalFilter = {}): LoggedSignal[] {
+    return this.signalLog.find(filter);
+  }
+
   /**
    * Get signals for a specific token
    */
@@ -381,6 +737,423 @@ export class NansenTrader {
     return this.signalLog.getTokenHistory(token, chain);
   }
 
+  // ===========================================================================
+  // Backtesting and Outcomes
+  // ===========================================================================
+
+  /**
+   * Replay logged signals (or netflow snapshots) against OHLCV and report returns
+   * by hold horizon, chain, mode and score bucket
+   */
+  async backtest(options: BacktestOptions = {}): Promise<BacktestReport> {
+    const { filter, snapshots, strategy, candles, interval = '1h', ...config } = options;
+
+    const signals = snapshots !== undefined
+      ? signalsFromSnapshots(
+        typeof snapshots === 'string' ? loadNetflowSnapshots(snapshots) : snapshots,
+        this.getScoringStrategy(strategy)
+      )
+      : this.signalLog.find(filter);
+
+    const source: CandleSource = typeof candles === 'string'
+      ? loadCandleFile(candles)
+      : candles ?? ((token, chain) => this.getCandles(token, chain, interval));
+
+    return runBacktest(signals, source, config);
+  }
+
+  /**
+   * OHLCV candles with caching (MCP token_ohlcv)
+   */
+  async getCandles(token: string, chain: Chain, interval = '1h'): Promise<Candle[]> {
+    if (this.config.enableRateLimit !== false) {
+      await this.rateLimiter.acquire();
+    }
+
+    return this.cache.getOrFetch(
+      Cache.makeKey('ohlcv', { token, chain, interval }),
+      async () => normalizeCandles(await this.agent.data.mcp.getTokenOhlcv(token, chain, interval)),
+      CACHE_TTL.TOKEN_INFO,
+      this.agent.data.mcp.getToolCredits('token_ohlcv')
+    ) as Promise<Candle[]>;
+  }
+
+  /**
+   * Fill returns, excursions and pnl for logged signals from OHLCV
+   */
+  async trackOutcomes(filter: SignalFilter = {}): Promise<TrackingSummary> {
+    return this.outcomes.run(filter);
+  }
+
+  /**
+   * Track outcomes in the background; returns a stop function
+   */
+  startOutcomeTracking(intervalMs?: number, onRun?: (summary: TrackingSummary) => void): () => void {
+    return this.outcomes.start(intervalMs, onRun);
+  }
+
+  /**
+   * Latest close from hourly OHLCV
+   */
+  async getLatestPrice(token: string, chain: Chain): Promise<number> {
+    const candles = await this.getCandles(token, chain);
+    const latest = [...candles].sort((a, b) => candleTime(a) - candleTime(b)).pop();
+    if (!latest) throw new Error(`No OHLCV for ${chain}:${token}`);
+    return latest.close;
+  }
+
+  /**
+   * Paper-trade each signal's suggested action and mark the signal as acted on
+   * Signals without an action (or with a buy on a non-entry signal), or whose fill fails, are skipped
+   */
+  async paperTrade(signals: ActionableSignal[]): Promise<PaperFill[]> {
+    const fills: PaperFill[] = [];
+
+    for (const signal of signals) {
+      const action = actionFor(signal);
+      if (!action) continue;
+      if (!this.watchForFill(signal.id, 'paper')) continue;  // Expired, rejected or exited
+      try {
+        const fill = await this.paper.execute(action, { symbol: signal.symbol, signalId: signal.id });
+        if (fill) {
+          fills.push(fill);
+          this.signalLog.markActed(signal.id, fill.side, 'paper');
+          if (fill.side === 'buy') {
+            this.signalLog.recordOutcome(signal.id, {
+              side: 'long',
+              entryPrice: fill.price,
+              notionalUsd: fill.notional,
+              executedAt: fill.timestamp,
+            });
+          }
+        }
+      } catch {
+        // Skip - e.g. no price or out of paper cash
+      }
+    }
+
+    return fills;
+  }
+
+  // ===========================================================================
+  // Execution
+  // ===========================================================================
+
+  /**
+   * Add an execution adapter (replacing one with the same name), optionally making it active
+   */
+  registerExecutionAdapter(adapter: ExecutionAdapter, activate = false): void {
+    this.adapters.set(adapter.name, adapter);
+    if (activate) this.adapter = adapter;
+  }
+
+  /**
+   * Make a registered adapter the one executeSignal() uses
+   */
+  useExecutionAdapter(name: string): void {
+    this.adapter = this.getExecutionAdapter(name);
+  }
+
+  /**
+   * A registered adapter by name, or the active one
+   */
+  getExecutionAdapter(name?: string): ExecutionAdapter {
+    if (name === undefined) return this.adapter;
+
+    const adapter = this.adapters.get(name);
+    if (!adapter) {
+      throw new NansenExecutionError(
+        `Unknown execution adapter: ${name} (registered: ${[...this.adapters.keys()].join(', ')})`,
+        'UNKNOWN_ADAPTER',
+        name
+      );
+    }
+    return adapter;
+  }
+
+  listExecutionAdapters(): string[] {
+    return [...this.adapters.keys()];
+  }
+
+  /**
+   * Order for a signal's suggested action, or undefined when it says wait
+   * or buys on a signal that isn't an entry (e.g. distribution)
+   */
+  buildOrder(signal: ActionableSignal, options: ExecuteOptions = {}): OrderRequest | undefined {
+    const action = actionFor(signal);
+    if (!action) return undefined;
+
+    const sizes = { ...DEFAULT_ORDER_SIZE_USD, ...this.config.execution?.orderSizeUsd };
+    return {
+      clientOrderId: `${signal.id}-${randomUUID().slice(0, 8)}`,
+      token: action.targetToken,
+      chain: action.targetChain,
+      side: action.action,
+      symbol: signal.symbol,
+      amountUsd: options.quantity === undefined
+        ? options.amountUsd ?? action.sizeUsd ?? sizes[action.positionSizeHint]
+        : undefined,
+      quantity: options.quantity,
+      maxSlippageBps: this.config.execution?.maxSlippageBps,
+      signalId: signal.id,
+      closesSignalId: options.closesSignalId,
+    };
+  }
+
+  /**
+   * Quote a signal's suggested action without placing it
+   */
+  async quoteSignal(signal: ActionableSignal, options: ExecuteOptions = {}): Promise<Quote | undefined> {
+    const order = this.buildOrder(signal, options);
+    return order && this.getExecutionAdapter(options.adapter).quote(order);
+  }
+
+  /**
+   * Submit a signal's suggested action through an adapter
+   * A new logged signal moves to watching first, so expired or rejected ones throw before
+   * anything is sent. Fills are written back to the signal log (markActed, entry/exit prices)
+   * now and on syncOrders().
+   */
+  async executeSignal(signal: ActionableSignal, options: ExecuteOptions = {}): Promise<OrderState | undefined> {
+    const order = this.buildOrder(signal, options);
+    if (!order) return undefined;
+
+    if (!this.watchForFill(signal.id, `order ${order.clientOrderId}`)) {
+      const logged = this.signalLog.get(signal.id)!;
+      throw new NansenSignalStateError(
+        `Signal ${signal.id} is ${logged.state} and cannot be executed`,
+        signal.id,
+        logged.state,
+        'watching'
+      );
+    }
+
+    return this.applyOrderUpdate(await this.getExecutionAdapter(options.adapter).submit(order));
+  }
+
+  /**
+   * Execute each signal's suggested action; signals that wait, or whose submit throws, are skipped
+   */
+  async executeSignals(signals: ActionableSignal[], options: ExecuteOptions = {}): Promise<OrderState[]> {
+    const orders: OrderState[] = [];
+
+    for (const signal of signals) {
+      try {
+        const order = await this.executeSignal(signal, options);
+        if (order) orders.push(order);
+      } catch {
+        // Skip - e.g. adapter unreachable
+      }
+    }
+
+    return orders;
+  }
+
+  /**
+   * Poll the adapters for every open order and write new fills back to the log
+   */
+  async syncOrders(): Promise<OrderState[]> {
+    const updated: OrderState[] = [];
+
+    for (const order of this.getOrders({ open: true })) {
+      try {
+        updated.push(this.applyOrderUpdate(await this.getExecutionAdapter(order.adapter).status(order.orderId)));
+      } catch (error) {
+        console.error(`Order sync failed for ${order.adapter}:${order.orderId}:`, (error as Error).message);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Sync open orders in the background; returns a stop function
+   */
+  startOrderSync(intervalMs = 30000, onSync?: (orders: OrderState[]) => void): () => void {
+    const tick = async () => {
+      try {
+        const orders = await this.syncOrders();
+        if (orders.length > 0) onSync?.(orders);
+      } catch (error) {
+        console.error('Order sync error:', (error as Error).message);
+      }
+    };
+
+    const intervalId = setInterval(tick, intervalMs);
+    return () => clearInterval(intervalId);
+  }
+
+  /**
+   * Fetch an order's status from its adapter, writing any new fill back to the log
+   */
+  async getOrderStatus(orderId: string, adapter?: string): Promise<OrderState> {
+    return this.applyOrderUpdate(await this.adapterFor(orderId, adapter).status(orderId));
+  }
+
+  async cancelOrder(orderId: string, adapter?: string): Promise<OrderState> {
+    return this.applyOrderUpdate(await this.adapterFor(orderId, adapter).cancel(orderId));
+  }
+
+  /**
+   * Orders placed through this trader, newest first
+   */
+  getOrders(filter: { open?: boolean } = {}): OrderState[] {
+    return [...this.orders.values()]
+      .filter(o => filter.open === undefined || filter.open !== isTerminal(o.status))
+      .reverse();
+  }
+
+  // ===========================================================================
+  // Positions and Exits
+  // ===========================================================================
+
+  /**
+   * Acted-on buys without an exit, newest first
+   */
+  getOpenPositions(): LoggedSignal[] {
+    return this.signalLog.find({ acted: true }).filter(isOpenPosition);
+  }
+
+  /**
+   * Check every open position against the exit rules
+   * Netflow and distribution scans are fetched once per chain (cached); candles and
+   * top holders once per position. A source that fails skips its rules.
+   */
+  async checkExits(config: ExitConfig = {}): Promise<ExitSignal[]> {
+    const rules = { ...DEFAULT_EXIT_CONFIG, ...this.config.exits, ...config };
+    const positions = this.getOpenPositions();
+    const chains = new Map<Chain, Pick<PositionMarket, 'netflows' | 'distribution'>>();
+    const optional = <T>(promise: Promise<T>) => promise.catch(() => undefined);
+
+    for (const chain of new Set(positions.map(p => p.chain))) {
+      chains.set(chain, {
+        netflows: await optional(this.getSmartMoney(chain, 'all')),
+        distribution: await optional(this.cache.getOrFetch(
+          Cache.makeKey('scan', { chain, mode: 'distribution' }),
+          () => this.agent.data.scanOpportunities({ chain, mode: 'distribution', limit: this.riskConfig.maxSignalsPerScan * 2 }),
+          CACHE_TTL.SMART_MONEY
+        ) as Promise<OpportunitySignal[]>),
+      });
+    }
+
+    const exits: ExitSignal[] = [];
+    for (const position of positions) {
+      const market: PositionMarket = {
+        ...chains.get(position.chain),
+        candles: await optional(this.getCandles(position.token, position.chain)),
+        holders: rules.checkHolders
+          ? await optional(this.getTokenHolders(position.token, position.chain, rules.topHolders))
+          : undefined,
+      };
+      const exit = evaluateExit(position, market, rules);
+      if (exit) exits.push(exit);
+    }
+
+    const rank = { high: 0, medium: 1, low: 2 };
+    return exits.sort((a, b) => rank[a.suggestedAction.urgency] - rank[b.suggestedAction.urgency]);
+  }
+
+  /**
+   * Check exits on an interval, calling onExit when a position trips a new set of rules
+   */
+  monitorExits(
+    options: { intervalMs?: number; exits?: ExitConfig },
+    onExit: (exit: ExitSignal) => void | Promise<void>
+  ): () => void {
+    const { intervalMs = 5 * 60 * 1000, exits: config } = options;
+    const reported = new Map<string, string>();
+
+    const runCheck = async () => {
+      try {
+        for (const exit of await this.checkExits(config)) {
+          const triggers = exit.reasons.map(r => r.trigger).sort().join(',');
+          if (reported.get(exit.positionId) === triggers) continue;
+          reported.set(exit.positionId, triggers);
+          await onExit(exit);
+        }
+      } catch (error) {
+        console.error('Exit monitor error:', (error as Error).message);
+      }
+    };
+
+    runCheck();
+    const intervalId = setInterval(runCheck, intervalMs);
+
+    return () => clearInterval(intervalId);
+  }
+
+  /**
+   * Sell a position through an execution adapter
+   * Sells the entry quantity when the fill was recorded, else the entry notional in USD.
+   * The fill's price is written to the position as its exit.
+   */
+  async executeExit(exit: ExitSignal, options: ExecuteOptions = {}): Promise<OrderState | undefined> {
+    const filledAt = this.getSignal(exit.positionId)?.outcome?.entryPrice;
+    const quantity = exit.notionalUsd && filledAt ? exit.notionalUsd / filledAt : undefined;
+
+    return this.executeSignal(exit, {
+      quantity,
+      amountUsd: quantity === undefined ? exit.notionalUsd : undefined,
+      closesSignalId: exit.positionId,
+      ...options,
+    });
+  }
+
+  /**
+   * Top token holders with caching
+   */
+  async getTokenHolders(token: string, chain: Chain, limit = 25): Promise<TokenHolder[]> {
+    if (this.config.enableRateLimit !== false) {
+      await this.rateLimiter.acquire();
+    }
+
+    return this.cache.getOrFetch(
+      Cache.makeKey('holders', { token, chain, limit }),
+      () => this.agent.data.getTokenHolders(token, chain, limit),
+      CACHE_TTL.TOKEN_INFO,
+      this.agent.data.mcp.getToolCredits('token_current_top_holders')
+    ) as Promise<TokenHolder[]>;
+  }
+
+  // ===========================================================================
+  // Scoring
+  // ===========================================================================
+
+  /**
+   * Add a scoring strategy (replacing one with the same name), optionally making it active
+   */
+  registerScoringStrategy(strategy: ScoringStrategy, activate = false): void {
+    this.strategies.set(strategy.name, strategy);
+    if (activate) this.strategy = strategy;
+  }
+
+  /**
+   * Make a registered strategy the one scan() uses
+   */
+  useScoringStrategy(name: string): void {
+    this.strategy = this.getScoringStrategy(name);
+  }
+
+  /**
+   * A registered strategy by name, or the active one
+   */
+  getScoringStrategy(name?: string): ScoringStrategy {
+    if (name === undefined) return this.strategy;
+
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new NansenScoringError(
+        `Unknown scoring strategy: ${name} (registered: ${[...this.strategies.keys()].join(', ')})`,
+        name
+      );
+    }
+    return strategy;
+  }
+
+  listScoringStrategies(): string[] {
+    return [...this.strategies.keys()];
+  }
+
   // ===========================================================================
   // Monitoring
   // ===========================================================================
@@ -441,6 +1214,16 @@ export class NansenTrader {
         throttledRequests: rateLimitStats.throttledRequests,
         totalWaitTimeMs: rateLimitStats.totalWaitTimeMs,
       },
+      retries: {
+        total: this.retryStats.total,
+        byTarget: { ...this.retryStats.byTarget },
+      },
+      credits: this.ledger.getStats(),
+      breakers: this.agent.data.getBreakerStats(),
+      rejections: {
+        total: this.rejectionStats.total,
+        byFilter: { ...this.rejectionStats.byFilter },
+      },
       signals: {
         totalSignals: signalStats.totalSignals,
         actedOn: signalStats.actedOn,
@@ -451,16 +1234,118 @@ export class NansenTrader {
   }
 
   /**
-   * Get signal performance stats
+   * Signals dropped by the risk filters (most recent last), with every failed filter
    */
-  getPerformanceStats() {
-    return this.signalLog.getStats();
+  getRejectedSignals(limit?: number): RejectedSignal[] {
+    return limit ? this.rejected.slice(-limit) : [...this.rejected];
+  }
+
+  /**
+   * Get signal performance stats, optionally for a subset of signals
+   */
+  getPerformanceStats(filter: SignalFilter = {}) {
+    return this.signalLog.getStats(filter);
+  }
+
+  /**
+   * Run a call and wrap its result with source, freshness, credits and fallback reason
+   * Cache hits report source 'cache' with the age and origin of the cached fetch
+   */
+  async withProvenance<T>(call: (trader: this) => Promise<T>): Promise<Provenance<T>> {
+    return trace(() => call(this));
   }
 
   // ===========================================================================
   // Internal Methods
   // ===========================================================================
 
+  private adapterFor(orderId: string, adapter?: string): ExecutionAdapter {
+    const tracked = this.getOrders().find(o => o.orderId === orderId && (!adapter || o.adapter === adapter));
+    return this.getExecutionAdapter(adapter ?? tracked?.adapter);
+  }
+
+  /**
+   * Move a logged signal to watching before anything is filled on it, so the fill can enter it
+   * False when the lifecycle doesn't allow that (expired, rejected or exited); unlogged signals pass
+   */
+  private watchForFill(signalId: string, reason: string): boolean {
+    const logged = this.signalLog.get(signalId);
+    if (!logged || logged.state === 'watching' || logged.state === 'entered') return true;
+
+    try {
+      this.signalLog.transition(signalId, 'watching', reason);
+      return true;
+    } catch (error) {
+      if (error instanceof NansenSignalStateError) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Set the exit price on the logged entries of a fully closed paper position
+   */
+  private closePaperSignals(trade: PaperTrade): void {
+    for (const id of trade.signalIds) {
+      const logged = this.signalLog.get(id);
+      if (logged && isOpenPosition(logged)) {
+        this.signalLog.recordOutcome(id, { exitPrice: trade.exitPrice, exitedAt: trade.closedAt });
+      }
+    }
+  }
+
+  /**
+   * Track an order and write any new fill back to the signal log
+   * Buys set the signal's entry price; sells set the exit price on the entry they close.
+   */
+  private applyOrderUpdate(order: OrderState): OrderState {
+    const key = `${order.adapter}:${order.orderId}`;
+    const previous = this.orders.get(key);
+    this.orders.delete(key);
+    this.orders.set(key, order);
+
+    if (!order.avgPrice || !order.filledQuantity) return order;
+    if (previous?.avgPrice === order.avgPrice && previous.filledQuantity === order.filledQuantity) return order;
+
+    const { signalId, side, token, chain } = order.request;
+    if (signalId) {
+      if (!previous?.filledQuantity) {
+        // The fill happened either way - record it even if the signal moved on since submit
+        try {
+          this.signalLog.markActed(signalId, side, `${order.adapter} order ${order.orderId}`);
+        } catch (error) {
+          if (!(error instanceof NansenSignalStateError)) throw error;
+          console.error(`Fill for ${order.adapter}:${order.orderId} not marked on ${signalId}:`, error.message);
+        }
+      }
+      if (side === 'buy') {
+        this.signalLog.recordOutcome(signalId, {
+          side: 'long',
+          entryPrice: order.avgPrice,
+          notionalUsd: order.avgPrice * order.filledQuantity,
+          executedAt: order.updatedAt,
+        });
+      }
+    }
+
+    if (side === 'sell') {
+      const entryId = order.request.closesSignalId ?? this.signalLog.getTokenHistory(token, chain).find(s =>
+        s.id !== signalId &&
+        s.outcome?.action === 'buy' &&
+        s.outcome.entryPrice !== undefined &&
+        s.outcome.exitPrice === undefined
+      )?.id;
+      if (entryId) this.signalLog.recordOutcome(entryId, { exitPrice: order.avgPrice });
+    }
+
+    return order;
+  }
+
+  private recordRetry(event: RetryEvent): void {
+    const key = `${event.source}:${event.target}`;
+    this.retryStats.total++;
+    this.retryStats.byTarget[key] = (this.retryStats.byTarget[key] || 0) + 1;
+  }
+
   private filterChains(chains: Chain[], risk: RiskConfig): Chain[] {
     let filtered = chains;
 
@@ -475,30 +1360,110 @@ export class NansenTrader {
     return filtered;
   }
 
-  private applyRiskFilters(signals: OpportunitySignal[], risk: RiskConfig): OpportunitySignal[] {
-    return signals.filter(s => {
-      // Score filter
-      if (s.score < risk.minScore) return false;
+  /**
+   * Drop signals that fail the risk config, recording why
+   * Cheap metric filters run first so only survivors are enriched with token data.
+   * Signals are rescored by the strategy before each pass, so minScore sees factors
+   * on enriched metrics too. Each pass scores the original scan score (baseScore), never
+   * the previous pass's output.
+   */
+  private async applyRiskFilters(
+    signals: OpportunitySignal[],
+    risk: RiskConfig,
+    strategy: ScoringStrategy
+  ): Promise<OpportunitySignal[]> {
+    const rescore = (s: OpportunitySignal) => {
+      const base = withBaseScore(s);
+      return { ...base, score: strategy.scoreOpportunity(base).score };
+    };
+
+    const candidates = signals.map(rescore).filter(s => this.passesRisk(s, risk));
+    const enriched = await this.enrichForRisk(candidates, risk);
+    return enriched.map(rescore).filter(s => this.passesRisk(s, risk));
+  }
 
-      // Metrics filters
-      const m = s.metrics;
+  private passesRisk(signal: OpportunitySignal, risk: RiskConfig): boolean {
+    const rejections = evaluateRisk(signal, risk);
+    if (rejections.length === 0) return true;
 
-      if (risk.minSmartMoneyBuyers && m.buyers && m.buyers < risk.minSmartMoneyBuyers) {
-        return false;
-      }
+    this.recordRejection(signal, rejections);
+    return false;
+  }
+
+  private recordRejection(signal: OpportunitySignal, rejections: RiskRejection[]): void {
+    this.rejected.push({ signal, rejections, rejectedAt: new Date().toISOString() });
+    if (this.rejected.length > MAX_REJECTIONS) {
+      this.rejected.splice(0, this.rejected.length - MAX_REJECTIONS);
+    }
+    this.rejectionStats.total++;
+    for (const { filter } of rejections) {
+      this.rejectionStats.byFilter[filter] = (this.rejectionStats.byFilter[filter] || 0) + 1;
+    }
+  }
+
+  /**
+   * Fill liquidity, holders and market cap for the token filters
+   * 1. Screener per chain (cached; skipped once maxEnrichmentCredits is used up)
+   * 2. general_search for the top remaining tokens (free, cached)
+   * Lookups that fail leave the metric unknown
+   */
+  private async enrichForRisk(signals: OpportunitySignal[], risk: RiskConfig): Promise<OpportunitySignal[]> {
+    const keyOf = (chain: Chain, token: string) => `${chain}:${token.toLowerCase()}`;
+    const tokens = new Map<string, ScreenerToken>();
+    const missing = () => signals
+      .filter(s => needsTokenData(s, risk) && !tokens.has(keyOf(s.chain, s.token)))
+      .sort((a, b) => b.score - a.score);
+
+    let credits = risk.maxEnrichmentCredits ?? DEFAULT_RISK_CONFIG.maxEnrichmentCredits!;
+    for (const chain of new Set(missing().map(s => s.chain))) {
+      const cost = this.cache.has(Cache.makeKey('hot', { chain }))
+        ? 0
+        : this.agent.data.mcp.getToolCredits('token_discovery_screener');
+      if (cost > credits) continue;
 
-      if (risk.minNetflowUsd && m.netflow24h && Math.abs(m.netflow24h) < risk.minNetflowUsd) {
-        return false;
+      try {
+        for (const token of await this.getHotTokens(chain)) {
+          if (token.address) tokens.set(keyOf(token.chain, token.address), token);
+        }
+        credits -= cost;
+      } catch {
+        // Screener unavailable - fall through to search
       }
+    }
 
-      if (risk.minFreshWallets && m.freshWallets && m.freshWallets < risk.minFreshWallets) {
-        return false;
+    for (const signal of missing().slice(0, risk.maxSignalsPerScan)) {
+      try {
+        const token = await this.lookupToken(signal.token, signal.chain);
+        if (token) tokens.set(keyOf(signal.chain, signal.token), token);
+      } catch {
+        // Leave unknown
       }
+    }
 
-      return true;
+    return signals.map(s => {
+      const token = tokens.get(keyOf(s.chain, s.token));
+      return token ? applyTokenData(s, token) : s;
     });
   }
 
+  /**
+   * Token row from MCP general_search (free), matched by address
+   */
+  private async lookupToken(token: string, chain: Chain): Promise<ScreenerToken | undefined> {
+    if (this.config.enableRateLimit !== false) {
+      await this.rateLimiter.acquire();
+    }
+
+    const rows = await this.cache.getOrFetch(
+      Cache.makeKey('token_lookup', { token, chain }),
+      async () => normalizeScreenerTokens(await this.agent.data.search(token), chain),
+      CACHE_TTL.TOKEN_INFO,
+      this.agent.data.mcp.getToolCredits('general_search')
+    ) as ScreenerToken[];
+
+    return rows.find(row => row.address.toLowerCase() === token.toLowerCase());
+  }
+
   private deduplicateSignals(signals: OpportunitySignal[], windowMs: number): OpportunitySignal[] {
     const seen = new Map<string, OpportunitySignal>();
 
@@ -520,54 +1485,12 @@ export class NansenTrader {
     return Array.from(seen.values());
   }
 
-  private scoreSignals(signals: OpportunitySignal[]): TradingSignal[] {
+  private scoreSignals(signals: OpportunitySignal[], strategy: ScoringStrategy): TradingSignal[] {
     return signals
       .map(signal => {
-        const riskFactors: string[] = [];
-        let riskScore = 0;
-
-        // Positive factors
-        if (signal.score > 5) {
-          riskScore += 2;
-        } else if (signal.score > 3) {
-          riskScore += 1;
-        }
-
-        const m = signal.metrics;
-
-        if (m.buyers && m.sellers && m.buyers > m.sellers * 2) {
-          riskScore += 1;
-          riskFactors.push('Strong buyer/seller ratio');
-        }
-
-        if (m.netflow24h && m.netflow24h > 100000) {
-          riskScore += 1;
-          riskFactors.push('High netflow');
-        }
-
-        // Negative factors
-        if (m.sellers && m.buyers && m.sellers > m.buyers) {
-          riskScore -= 1;
-          riskFactors.push('More sellers than buyers');
-        }
-
-        // Determine recommendation
-        let recommendation: TradingSignal['recommendation'];
-        let confidence: number;
-
-        if (riskScore >= 3) {
-          recommendation = 'strong_buy';
-          confidence = 0.8;
-        } else if (riskScore >= 1) {
-          recommendation = 'buy';
-          confidence = 0.6;
-        } else if (riskScore >= 0) {
-          recommendation = 'watch';
-          confidence = 0.4;
-        } else {
-          recommendation = 'avoid';
-          confidence = 0.3;
-        }
+        // Same input the score came from, so the breakdown adds up to it
+        const { factors: scoreBreakdown } = strategy.scoreOpportunity(withBaseScore(signal));
+        const { riskScore, riskFactors, recommendation, confidence, factors: riskBreakdown } = strategy.assess(signal);
 
         // Create suggested action for strong signals
         let suggestedAction: SuggestedAction | undefined;
@@ -592,11 +1515,67 @@ export class NansenTrader {
           recommendation,
           confidence,
           suggestedAction,
+          strategy: strategy.name,
+          scoreBreakdown,
+          riskBreakdown,
         } as TradingSignal;
       })
       .sort((a, b) => b.riskScore - a.riskScore || b.score - a.score);
   }
 
+  /**
+   * Take signals in rank order until the limit, sizing each buy action and
+   * rejecting entries that would break a portfolio limit
+   */
+  private async selectSignals(signals: TradingSignal[], limit: number, risk: RiskConfig): Promise<TradingSignal[]> {
+    const portfolio = portfolioState(this.signalLog.find({ acted: true }));
+    const stats = this.sizing.method === 'kelly' ? this.signalLog.getStats() : undefined;
+    const selected: TradingSignal[] = [];
+
+    for (const signal of signals) {
+      if (selected.length >= limit) break;
+
+      if (signal.suggestedAction?.action === 'buy') {
+        await this.sizeSignal(signal, stats);
+      }
+      if (signal.suggestedAction?.action === 'buy') {
+        const rejections = evaluatePortfolio(signal, portfolio, risk);
+        if (rejections.length > 0) {
+          this.recordRejection(signal, rejections);
+          continue;
+        }
+        portfolio.open.push(openPosition(signal));
+      }
+
+      selected.push(signal);
+    }
+
+    return selected;
+  }
+
+  /**
+   * Replace the recommendation-based size hint with a concrete USD size
+   * Actions that size to $0 (no edge, caps, below minimum) become waits.
+   */
+  private async sizeSignal(signal: TradingSignal, stats?: SignalStats): Promise<void> {
+    const action = signal.suggestedAction!;
+
+    let volatilityPct: number | undefined;
+    if (this.sizing.method === 'volatility') {
+      try {
+        volatilityPct = this.agent.data.calculateVolatility(await this.getCandles(signal.token, signal.chain));
+      } catch {
+        // Falls back to fixed-fractional
+      }
+    }
+
+    const size = sizePosition(signal, { volatilityPct, stats }, this.sizing);
+    signal.positionSize = size;
+    signal.suggestedAction = size.usd > 0
+      ? { ...action, positionSizeHint: size.hint, sizeUsd: size.usd }
+      : { ...action, action: 'wait', urgency: 'low', reasoning: `${action.reasoning}; sized to $0 (${size.rationale.at(-1)})`, sizeUsd: 0 };
+  }
+
   private async enrichWithMcp(signals: TradingSignal[]): Promise<void> {
     for (const signal of signals) {
       try {
@@ -638,6 +1617,24 @@ export class NansenTrader {
 // Helpers
 // =============================================================================
 
+/**
+ * The signal with its original scan score restored, recording it as baseScore
+ */
+function withBaseScore<T extends OpportunitySignal>(signal: T): T {
+  const baseScore = signal.baseScore ?? signal.score;
+  return { ...signal, score: baseScore, baseScore };
+}
+
+/**
+ * The action to act on: none for wait, or for a buy on a signal that isn't an entry (e.g. distribution)
+ */
+function actionFor(signal: ActionableSignal): (SuggestedAction & { action: 'buy' | 'sell' }) | undefined {
+  const action = signal.suggestedAction;
+  if (!action || action.action === 'wait') return undefined;
+  if (action.action === 'buy' && signal.type && !ENTRY_MODES.includes(signal.type)) return undefined;
+  return { ...action, action: action.action };
+}
+
 function formatNumber(num: number): string {
   if (num >= 1e9) return (num / 1e9).toFixed(2) + 'B';
   if (num >= 1e6) return (num / 1e6).toFixed(2) + 'M';
@@ -0,0 +1,67 @@
+/**
+ * HTTP transport shared by NansenClient and NansenMcp
+ * Lets callers plug in proxies, custom agents, recording or in-process fakes
+ * without patching the global fetch
+ */
+
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface TransportOptions {
+  fetch?: FetchFn;                   // Defaults to the global fetch (resolved per request)
+  timeoutMs?: number;                // Per-request timeout, aborts via AbortSignal
+  headers?: Record<string, string>;  // Sent with every request, overridden by request headers
+  userAgent?: string;
+}
+
+export const DEFAULT_USER_AGENT = 'nansen-api-skill/1.0.0';
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+export class HttpTransport {
+  private options: TransportOptions;
+
+  constructor(options: TransportOptions = {}) {
+    this.options = options;
+  }
+
+  get timeoutMs(): number {
+    return this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Send a request with default headers and timeout applied
+   * The timeout stops once headers arrive - use send() to cover reading the body too
+   * Rejects with an AbortError when the timeout fires
+   */
+  async request(url: string, init: RequestInit = {}): Promise<Response> {
+    return this.send(url, init, async response => response);
+  }
+
+  /**
+   * Send a request and read its response under the same timeout, so a stalled body aborts too
+   * Rejects with an AbortError when the timeout fires
+   */
+  async send<T>(url: string, init: RequestInit, read: (response: Response) => Promise<T>): Promise<T> {
+    const fetchFn = this.options.fetch ?? fetch;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetchFn(url, {
+        ...init,
+        headers: {
+          'User-Agent': this.options.userAgent ?? DEFAULT_USER_AGENT,
+          ...this.options.headers,
+          ...(init.headers as Record<string, string> | undefined),
+        },
+        signal: init.signal ?? controller.signal,
+      });
+      return await read(response);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+export function createTransport(options?: TransportOptions): HttpTransport {
+  return new HttpTransport(options);
+}
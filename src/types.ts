@@ -159,8 +159,10 @@ export interface OpportunitySignal {
   symbol: string;
   chain: Chain;
   score: number;
+  baseScore?: number;  // Scan score before strategy rescoring (set by NansenTrader)
   reason: string;
   metrics: Record<string, number>;
+  sectors?: string[];  // Token sectors from the netflow row, when reported
   timestamp: string;
 }
 
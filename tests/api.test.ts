@@ -292,6 +292,80 @@ describe('NansenClient', () => {
     });
   });
 
+  describe('retries', () => {
+    const okResponse = {
+      ok: true,
+      json: () => Promise.resolve({ data: [] }),
+    };
+
+    it('should retry retryable statuses and succeed', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: new Headers(),
+          json: () => Promise.reject(new Error('Invalid JSON')),
+        })
+        .mockResolvedValueOnce(okResponse);
+
+      const onRetry = vi.fn();
+      const client = new NansenClient('key', undefined, { retry: { baseDelayMs: 1 }, onRetry });
+      const result = await client.getSmartMoneyNetflow({ chain: 'base' });
+
+      expect(result).toEqual([]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+        source: 'api',
+        target: '/smart-money/netflow',
+        status: 503,
+      }));
+    });
+
+    it('should retry network failures', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce(okResponse);
+
+      const client = new NansenClient('key', undefined, { retry: { baseDelayMs: 1 } });
+      await client.getSmartMoneyNetflow({ chain: 'base' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const failure = {
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'retry-after': '0' }),
+        json: () => Promise.resolve({ code: 'RATE_LIMITED', message: 'Slow down' }),
+      };
+      mockFetch.mockResolvedValueOnce(failure).mockResolvedValueOnce(failure);
+
+      const client = new NansenClient('key', undefined, { retry: { maxAttempts: 2 } });
+
+      await expect(client.getSmartMoneyNetflow({ chain: 'base' }))
+        .rejects.toMatchObject({ code: 'RATE_LIMITED', status: 429 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry validation errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        headers: new Headers(),
+        json: () => Promise.resolve({ code: 'VALIDATION_ERROR', message: 'Bad chain' }),
+      });
+
+      const client = new NansenClient('key', undefined, { retry: { baseDelayMs: 1 } });
+
+      await expect(client.getSmartMoneyNetflow({ chain: 'base' }))
+        .rejects.toThrow('Bad chain');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('scanOpportunities', () => {
     it('should scan for accumulation signals', async () => {
       const mockData = {
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  simulateTrade,
+  summarizeTrades,
+  scoreBucket,
+  runBacktest,
+  signalsFromSnapshots,
+  loadCandleFile,
+  appendNetflowSnapshot,
+  loadNetflowSnapshots,
+  type BacktestTrade,
+  type NetflowSnapshot,
+} from '../src/backtest.js';
+import { NansenTrader } from '../src/trader.js';
+import type { Candle } from '../src/scan.js';
+import type { OpportunitySignal, SmartMoneyNetflow } from '../src/types.js';
+import { jsonResponse } from './helpers.js';
+
+const SESSIONLESS = { session: false, discoverTools: false };
+const T0 = Date.parse('2026-01-01T00:00:00.000Z');
+
+function signal(overrides: Partial<OpportunitySignal> = {}): OpportunitySignal {
+  return {
+    type: 'accumulation',
+    token: '0xabc',
+    symbol: 'ABC',
+    chain: 'base',
+    score: 5,
+    reason: '',
+    metrics: {},
+    timestamp: new Date(T0).toISOString(),
+    ...overrides,
+  };
+}
+
+// Hourly candles from T0, one [open, high, low, close] per hour
+function hourly(ohlc: Array<[number, number, number, number]>): Candle[] {
+  return ohlc.map(([open, high, low, close], i) => ({
+    time: new Date(T0 + i * 3600_000).toISOString(), open, high, low, close,
+  }));
+}
+
+function trade(returnPct: number, hour: number, overrides: Partial<BacktestTrade> = {}): BacktestTrade {
+  return {
+    signalId: `s${hour}`, token: '0xabc', symbol: 'ABC', chain: 'base', mode: 'accumulation', score: 5,
+    side: 'long', holdHours: 4, entryTime: new Date(T0).toISOString(), entryPrice: 1,
+    exitTime: new Date(T0 + hour * 3600_000).toISOString(), exitPrice: 1, exitReason: 'horizon', returnPct,
+    ...overrides,
+  };
+}
+
+function flowRow(overrides: Partial<SmartMoneyNetflow>): SmartMoneyNetflow {
+  return {
+    token: '0xabc', symbol: 'ABC', name: 'ABC', chain: 'base', netflow: 100000, netflowUsd: 100000,
+    inflow: 0, inflowUsd: 0, outflow: 0, outflowUsd: 0, buyersCount: 4, sellersCount: 1,
+    traderCount: 10, timestamp: '', ...overrides,
+  };
+}
+
+const CANDLES = hourly([
+  [100, 102, 99, 101],
+  [101, 104, 100, 103],
+  [103, 106, 102, 105],
+  [105, 107, 96, 98],
+  [98, 99, 90, 92],
+  [92, 95, 91, 94],
+]);
+
+describe('simulateTrade', () => {
+  it('should exit at the close before the horizon, net of fees', () => {
+    const result = simulateTrade(signal(), CANDLES, 3, { feeBps: 50 })!;
+
+    expect(result).toMatchObject({ side: 'long', entryPrice: 100, exitPrice: 105, exitReason: 'horizon' });
+    expect(result.returnPct).toBeCloseTo(5 - 1);
+  });
+
+  it('should stop out before taking profit when both trigger', () => {
+    expect(simulateTrade(signal(), CANDLES, 24, { stopLossPct: 5, takeProfitPct: 6, feeBps: 0 }))
+      .toMatchObject({ exitReason: 'take_profit', exitPrice: 106 });
+    expect(simulateTrade(signal(), CANDLES, 24, { stopLossPct: 3, takeProfitPct: 7, feeBps: 0 }))
+      .toMatchObject({ exitReason: 'stop_loss', exitPrice: 97, returnPct: -3 });
+
+    const both = hourly([[100, 120, 80, 100]]);
+    expect(simulateTrade(signal(), both, 4, { stopLossPct: 10, takeProfitPct: 10 })!.exitReason).toBe('stop_loss');
+  });
+
+  it('should short distribution signals and report the end of data', () => {
+    const result = simulateTrade(signal({ type: 'distribution' }), CANDLES, 72, { feeBps: 0 })!;
+
+    expect(result).toMatchObject({ side: 'short', exitPrice: 94, exitReason: 'end_of_data' });
+    expect(result.returnPct).toBeCloseTo(6);
+    expect(simulateTrade(signal({ timestamp: '2026-02-01T00:00:00.000Z' }), CANDLES, 4)).toBeUndefined();
+  });
+});
+
+describe('summarizeTrades', () => {
+  it('should compute hit rate, compounded drawdown and Sharpe', () => {
+    const stats = summarizeTrades([trade(10, 1), trade(-20, 2), trade(5, 3)], 24);
+
+    expect(stats).toMatchObject({ trades: 3, wins: 2 });
+    expect(stats.hitRate).toBeCloseTo(2 / 3);
+    expect(stats.avgReturnPct).toBeCloseTo(-5 / 3);
+    expect(stats.maxDrawdownPct).toBeCloseTo(20);
+    expect(stats.totalReturnPct).toBeCloseTo((1.1 * 0.8 * 1.05 - 1) * 100);
+    expect(stats.sharpe).toBeLessThan(0);
+    expect(summarizeTrades([], 24)).toMatchObject({ trades: 0, hitRate: 0, sharpe: 0 });
+  });
+
+  it('should bucket scores', () => {
+    expect([1, 2, 5.5, 8, 12].map(s => scoreBucket(s))).toEqual(['<2', '2-4', '4-6', '8+', '8+']);
+  });
+});
+
+describe('runBacktest', () => {
+  it('should break results down by chain, mode and score bucket', async () => {
+    const candles = vi.fn(async (token: string) => {
+      if (token === '0xmissing') throw new Error('not listed');
+      return CANDLES;
+    });
+
+    const report = await runBacktest([
+      signal({ score: 7 }),
+      signal({ chain: 'ethereum', type: 'distribution', score: 3 }),
+      signal({ token: '0xmissing' }),
+      signal({ timestamp: '2026-02-01T00:00:00.000Z' }),
+    ], candles, { holdHours: [3, 24], feeBps: 0 });
+
+    expect(candles).toHaveBeenCalledTimes(3);
+    expect(report.skipped.map(s => s.reason)).toEqual(['Candles unavailable: not listed', 'No candles after the signal']);
+    expect(report.horizons.map(h => h.holdHours)).toEqual([3, 24]);
+
+    const [short] = report.horizons;
+    expect(short.overall.trades).toBe(2);
+    expect(Object.keys(short.byChain)).toEqual(['base', 'ethereum']);
+    expect(short.byMode.distribution.avgReturnPct).toBeCloseTo(-5);
+    expect(Object.keys(short.byScoreBucket)).toEqual(['6-8', '2-4']);
+  });
+
+  it('should read candles from a file keyed by chain and token', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'nansen-candles-')), 'candles.json');
+    writeFileSync(path, JSON.stringify({ 'base:0xABC': [{ t: '2026-01-01T00:00:00Z', o: 1, h: 1, l: 1, c: 1 }] }));
+    const source = loadCandleFile(path);
+
+    expect(await source('0xabc', 'base')).toEqual([{ time: '2026-01-01T00:00:00Z', open: 1, high: 1, low: 1, close: 1, volume: undefined }]);
+    await expect(source('0xdef', 'base')).rejects.toThrow('No candles for base:0xdef');
+  });
+});
+
+describe('netflow snapshots', () => {
+  it('should regenerate scored signals from stored snapshots', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'nansen-snapshots-')), 'nested', 'snapshots.json');
+    const snapshot: NetflowSnapshot = {
+      timestamp: '2026-01-01T00:00:00.000Z',
+      chain: 'base',
+      rows: [flowRow({}), flowRow({ token: '0xout', netflowUsd: -250000 }), flowRow({ token: '0xflat', netflowUsd: 0 })],
+    };
+    appendNetflowSnapshot(path, snapshot);
+
+    const signals = signalsFromSnapshots(loadNetflowSnapshots(path));
+
+    expect(signals.map(s => [s.token, s.type, s.score])).toEqual([['0xabc', 'accumulation', 4], ['0xout', 'distribution', 7]]);
+    expect(signals[0].timestamp).toBe(snapshot.timestamp);
+  });
+
+  it('should backtest snapshots through the trader with MCP candles', async () => {
+    const ohlcv = CANDLES.map(c => ({ t: c.time, o: c.open, h: c.high, l: c.low, c: c.close }));
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({
+      jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: JSON.stringify(ohlcv) }] },
+    }));
+    const trader = new NansenTrader({
+      apiKey: 'key',
+      transport: { fetch: fetchFn as typeof fetch },
+      enableRateLimit: false,
+      enableSignalLog: false,
+      enableCreditLog: false,
+      mcp: SESSIONLESS,
+    });
+
+    const report = await trader.backtest({
+      snapshots: [{ timestamp: new Date(T0).toISOString(), chain: 'base', rows: [flowRow({})] }],
+      holdHours: [3],
+      feeBps: 0,
+    });
+
+    expect(report.horizons[0].trades[0]).toMatchObject({ entryPrice: 100, exitPrice: 105, returnPct: 5 });
+    expect(JSON.parse(fetchFn.mock.calls[0][1].body).params).toMatchObject({ name: 'token_ohlcv', arguments: { token: '0xabc', interval: '1h' } });
+  });
+});
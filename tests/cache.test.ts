@@ -60,12 +60,19 @@ describe('Cache', () => {
     });
 
     it('should track credits saved', async () => {
-      cache.set('key1', 'cached');
+      cache.set('key1', 'cached', undefined, 5);
       await cache.getOrFetch('key1', async () => 'fetched', undefined, 5);
 
       const stats = cache.getStats();
       expect(stats.creditsSaved).toBe(5);
     });
+
+    it('should count the credits the cached fetch cost, not the caller\'s', async () => {
+      await cache.getOrFetch('key1', async () => 'fetched', undefined, 5);
+      await cache.getOrFetch('key1', async () => 'fetched', undefined, 1);
+
+      expect(cache.getStats().creditsSaved).toBe(5);
+    });
   });
 
   describe('invalidate', () => {
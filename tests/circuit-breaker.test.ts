@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker, isSourceFailure } from '../src/circuit-breaker.js';
+import { NansenClient, NansenApiError } from '../src/api.js';
+import { NansenData } from '../src/data.js';
+import { jsonResponse } from './helpers.js';
+
+const SESSIONLESS = { session: false, discoverTools: false };
+const NO_RETRY = { maxAttempts: 1 };
+
+function serverError() {
+  return {
+    ok: false,
+    status: 500,
+    headers: new Headers({ 'content-type': 'text/plain' }),
+    text: () => Promise.resolve('Server error'),
+  } as unknown as Response;
+}
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open once the failure rate crosses the threshold', () => {
+    const breaker = new CircuitBreaker({ minCalls: 4, failureThreshold: 0.5 });
+
+    breaker.recordSuccess(['x']);
+    breaker.recordFailure(['x']);
+    breaker.recordFailure(['x']);
+    expect(breaker.getState('x')).toBe('closed');  // Below minCalls
+
+    breaker.recordSuccess(['x']);
+    breaker.recordFailure(['x']);
+    expect(breaker.getState('x')).toBe('open');
+    expect(breaker.allow(['x'])).toBe(false);
+  });
+
+  it('should allow a single half-open probe after the cooldown', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ minCalls: 1, cooldownMs: 1000 });
+    breaker.recordFailure(['x']);
+
+    expect(breaker.retryAfter(['x'])).toBe(1000);
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.allow(['x'])).toBe(true);
+    expect(breaker.getState('x')).toBe('half-open');
+    expect(breaker.allow(['x'])).toBe(false);  // Probe already in flight
+
+    breaker.recordFailure(['x']);
+    expect(breaker.getState('x')).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.allow(['x'])).toBe(true);
+    breaker.recordSuccess(['x']);
+    expect(breaker.getState('x')).toBe('closed');
+    expect(breaker.getSnapshots()[0]).toMatchObject({ key: 'x', state: 'closed', calls: 0 });
+  });
+
+  it('should only count source failures', () => {
+    expect(isSourceFailure(new NansenApiError('HTTP_500', 'boom', undefined, 500))).toBe(true);
+    expect(isSourceFailure(new NansenApiError('HTTP_429', 'slow down', undefined, 429))).toBe(true);
+    expect(isSourceFailure(new NansenApiError('FETCH_ERROR', 'offline'))).toBe(true);
+    expect(isSourceFailure(new NansenApiError('HTTP_400', 'bad request', undefined, 400))).toBe(false);
+
+    const breaker = new CircuitBreaker({ minCalls: 1 });
+    breaker.record(['x'], new NansenApiError('HTTP_422', 'invalid', undefined, 422));
+    expect(breaker.getState('x')).toBe('closed');
+  });
+
+  it('should require every key to allow the call', () => {
+    const breaker = new CircuitBreaker({ minCalls: 1 });
+    breaker.recordFailure(['all']);
+
+    expect(breaker.allow(['all', '/tgm/holders'])).toBe(false);
+    breaker.reset('all');
+    expect(breaker.allow(['all', '/tgm/holders'])).toBe(true);
+  });
+});
+
+describe('client breakers', () => {
+  it('should fail fast with CIRCUIT_OPEN once an endpoint trips', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(serverError());
+    const client = new NansenClient('key', undefined, {
+      transport: { fetch: fetchFn },
+      retry: NO_RETRY,
+      breaker: { minCalls: 2 },
+    });
+    const request = { chain: 'base' as const, tokenAddress: '0xtoken' };
+
+    await expect(client.getTokenHolders(request)).rejects.toMatchObject({ code: 'HTTP_500' });
+    await expect(client.getTokenHolders(request)).rejects.toMatchObject({ code: 'HTTP_500' });
+    await expect(client.getTokenHolders(request)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(client.breaker?.getState('/tgm/holders')).toBe('open');
+  });
+
+  it('should not create breakers when disabled', () => {
+    const client = new NansenClient('key', undefined, { breaker: false });
+    expect(client.breaker).toBeUndefined();
+  });
+
+  it('should route straight to the fallback while a source is open', async () => {
+    const fetchFn = vi.fn((url: string) => String(url).includes('mcp.nansen.ai')
+      ? Promise.resolve(serverError())
+      : Promise.resolve(jsonResponse({ data: [{ address: '0xholder', ownership_percentage: 0.1, value_usd: 100 }] })));
+    const data = new NansenData({
+      apiKey: 'key',
+      transport: { fetch: fetchFn as typeof fetch },
+      retry: NO_RETRY,
+      mcp: SESSIONLESS,
+      breaker: { minCalls: 1 },
+    });
+
+    await data.getTokenHolders('0xtoken', 'base');
+    const mcpCalls = () => fetchFn.mock.calls.filter(([url]) => String(url).includes('mcp.nansen.ai')).length;
+    expect(mcpCalls()).toBe(1);
+
+    const { source, fallbackReason } = await data.withProvenance(d => d.getTokenHolders('0xtoken', 'base'));
+
+    expect(source).toBe('api');
+    expect(fallbackReason).toContain('Circuit open');
+    expect(mcpCalls()).toBe(1);
+    expect(data.getBreakerStats().mcp).toContainEqual(expect.objectContaining({ key: 'token_current_top_holders', state: 'open' }));
+  });
+
+  it('should apply route breaker policies per method and source', async () => {
+    const fetchFn = vi.fn((url: string) => String(url).includes('mcp.nansen.ai')
+      ? Promise.resolve(serverError())
+      : Promise.resolve(jsonResponse({ data: [] })));
+    const data = new NansenData({
+      apiKey: 'key',
+      transport: { fetch: fetchFn as typeof fetch },
+      retry: NO_RETRY,
+      mcp: SESSIONLESS,
+      breaker: false,
+      routing: { getTokenFlows: { breaker: { minCalls: 1 } } },
+    });
+
+    await data.getTokenFlows('0xtoken', 'base');
+    await data.getTokenFlows('0xtoken', 'base');
+
+    expect(fetchFn.mock.calls.filter(([url]) => String(url).includes('mcp.nansen.ai'))).toHaveLength(1);
+    expect(data.getBreakerStats().routes).toEqual([
+      expect.objectContaining({ key: 'getTokenFlows:mcp', state: 'open' }),
+      expect.objectContaining({ key: 'getTokenFlows:api', state: 'closed' }),
+    ]);
+
+    data.resetBreakers();
+    expect(data.getBreakerStats().routes).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { unlinkSync, existsSync } from 'fs';
+import { join } from 'path';
+import { CreditLedger, NansenBudgetError, budgetFromEnv } from '../src/credits.js';
+import { Cache } from '../src/cache.js';
+import { NansenClient } from '../src/api.js';
+import { NansenMcp } from '../src/mcp.js';
+import { jsonResponse } from './helpers.js';
+
+const TEST_LEDGER_PATH = join(process.cwd(), '.test-credits.json');
+
+describe('CreditLedger', () => {
+  afterEach(() => {
+    if (existsSync(TEST_LEDGER_PATH)) {
+      unlinkSync(TEST_LEDGER_PATH);
+    }
+  });
+
+  it('should total paid calls and cache hits separately', () => {
+    const ledger = new CreditLedger();
+    ledger.record({ source: 'mcp', target: 'token_pnl_leaderboard', credits: 5, cacheHit: false });
+    ledger.record({ source: 'api', target: '/tgm/holders', credits: 1, cacheHit: false });
+    ledger.record({ source: 'cache', target: 'analyze:token=0x1', credits: 0, cacheHit: true, saved: 5 });
+
+    const stats = ledger.getStats();
+    expect(stats.total).toBe(6);
+    expect(stats.calls).toBe(2);
+    expect(stats.cacheHits).toBe(1);
+    expect(stats.creditsSaved).toBe(5);
+    expect(stats.lastHour).toBe(6);
+    expect(stats.bySource).toEqual({ api: 1, mcp: 5 });
+    expect(stats.byTarget['token_pnl_leaderboard']).toBe(5);
+  });
+
+  it('should only count the trailing window toward hourly spend', () => {
+    const ledger = new CreditLedger();
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    ledger.record({ source: 'api', target: '/tgm/flows', credits: 4, cacheHit: false, timestamp: twoHoursAgo });
+    ledger.record({ source: 'api', target: '/tgm/flows', credits: 1, cacheHit: false });
+
+    expect(ledger.getSpent('hourly')).toBe(1);
+    expect(ledger.getSpent('daily')).toBe(5);
+  });
+
+  it('should warn once when crossing a soft limit', () => {
+    const onWarning = vi.fn();
+    const ledger = new CreditLedger({ budget: { hourly: { soft: 3 } }, onWarning });
+
+    for (let i = 0; i < 5; i++) {
+      ledger.record({ source: 'api', target: '/tgm/flows', credits: 1, cacheHit: false });
+    }
+
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledWith({ window: 'hourly', spent: 3, limit: 3 });
+  });
+
+  it('should refuse calls past a hard limit with NansenBudgetError', () => {
+    const ledger = new CreditLedger({ budget: { daily: { hard: 5 } } });
+    ledger.record({ source: 'mcp', target: 'token_pnl_leaderboard', credits: 5, cacheHit: false });
+
+    expect(() => ledger.assertAvailable(0, 'general_search')).not.toThrow();
+    expect(() => ledger.assertAvailable(1, '/tgm/holders')).toThrow(NansenBudgetError);
+    try {
+      ledger.assertAvailable(1, '/tgm/holders');
+    } catch (error) {
+      expect(error).toMatchObject({ window: 'daily', spent: 5, limit: 5, requested: 1 });
+    }
+  });
+
+  it('should hold reserved credits against the hard limit until released', () => {
+    const ledger = new CreditLedger({ budget: { hourly: { hard: 5 } } });
+    const release = ledger.reserve(3, '/tgm/holders');
+
+    expect(() => ledger.reserve(3, '/tgm/flows')).toThrow('3 reserved');
+    release();
+    release();
+    expect(() => ledger.reserve(5, '/tgm/flows')).not.toThrow();
+  });
+
+  it('should persist entries and totals, batching writes', () => {
+    vi.useFakeTimers();
+    try {
+      const ledger = new CreditLedger({ path: TEST_LEDGER_PATH });
+      ledger.record({ source: 'api', target: '/tgm/flows', credits: 2, cacheHit: false });
+      ledger.record({ source: 'cache', target: 'key', credits: 0, cacheHit: true, saved: 2 });
+      expect(existsSync(TEST_LEDGER_PATH)).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      const reloaded = new CreditLedger({ path: TEST_LEDGER_PATH });
+      expect(reloaded.getStats()).toMatchObject({ total: 2, cacheHits: 1 });
+      expect(reloaded.getEntries()).toHaveLength(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should read budgets from the environment', () => {
+    expect(budgetFromEnv({ NANSEN_CREDITS_HOURLY_HARD: '50', NANSEN_CREDITS_DAILY_SOFT: '200' })).toEqual({
+      hourly: { soft: undefined, hard: 50 },
+      daily: { soft: 200, hard: undefined },
+    });
+    expect(budgetFromEnv({})).toEqual({});
+  });
+});
+
+describe('metering', () => {
+  it('Cache should record hits with the credits saved', async () => {
+    const ledger = new CreditLedger();
+    const cache = new Cache(60000, ledger);
+
+    await cache.getOrFetch('key', async () => 'fetched', undefined, 5);
+    await cache.getOrFetch('key', async () => 'fetched', undefined, 5);
+
+    expect(ledger.getEntries()).toEqual([
+      expect.objectContaining({ source: 'cache', target: 'key', cacheHit: true, saved: 5 }),
+    ]);
+  });
+
+  it('NansenClient should record calls and stop at the hard limit', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({ data: [] }));
+    const ledger = new CreditLedger({ budget: { hourly: { hard: 1 } } });
+    const client = new NansenClient('key', undefined, { transport: { fetch: fetchFn }, ledger });
+
+    await client.getSmartMoneyNetflow({ chain: 'base' });
+    await expect(client.getSmartMoneyNetflow({ chain: 'base' })).rejects.toThrow(NansenBudgetError);
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(ledger.getEntries()[0]).toMatchObject({ source: 'api', target: '/smart-money/netflow', credits: 1 });
+  });
+
+  it('NansenClient should not let parallel calls overspend the hard limit together', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({ data: [] }));
+    const ledger = new CreditLedger({ budget: { hourly: { hard: 2 } } });
+    const client = new NansenClient('key', undefined, { transport: { fetch: fetchFn }, ledger });
+
+    const results = await Promise.allSettled([1, 2, 3].map(() => client.getSmartMoneyNetflow({ chain: 'base' })));
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(ledger.getSpent('hourly')).toBe(2);
+    await expect(client.getSmartMoneyNetflow({ chain: 'base' })).rejects.toThrow('2/2 spent');
+  });
+
+  it('NansenMcp should charge MCP_TOOLS credits per tool', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { content: [{ type: 'text', text: '[]' }] },
+    }));
+    const ledger = new CreditLedger();
+    const mcp = new NansenMcp('key', undefined, { transport: { fetch: fetchFn }, ledger });
+
+    await mcp.getSmartTraderNetflows('base');
+    await mcp.search('AERO');
+
+    expect(ledger.getStats().bySource.mcp).toBe(5);
+    expect(ledger.getStats().calls).toBe(2);
+  });
+});
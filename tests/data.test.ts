@@ -426,7 +426,7 @@ describe('NansenData', () => {
         json: () => Promise.resolve(screenerResponse),
       });
 
-      const data = new NansenData();
+      const data = new NansenData({ mcp: { session: false, discoverTools: false } });
       const tokens = await data.screenTokens(['base']);
 
       expect(tokens).toHaveLength(1);
@@ -456,6 +456,45 @@ describe('NansenData', () => {
       expect(result[0].symbol).toBe('TEST');
       expect(result[0].netflowUsd).toBe(100000);
     });
+
+    it('should normalize the MCP fallback into the API shape', async () => {
+      // API rejects (non-retryable), MCP answers with a markdown table
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({ error: 'bad request' }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({
+          jsonrpc: '2.0',
+          id: 1,
+          result: {
+            content: [{ type: 'text', text: [
+              '| Token Symbol | Token Address | Net Flow 24h (USD) | Trader Count |',
+              '|---|---|---|---|',
+              '| OUT | 0xout | -$5,000 | 2 |',
+              '| IN | 0xin | $12,000 | 7 |',
+            ].join('\n') }],
+          },
+        }),
+      });
+
+      const data = new NansenData({ mcp: { session: false, discoverTools: false } });
+      const result = await data.getSmartMoneyNetflow({ chain: 'base', direction: 'inflow' });
+
+      expect(result).toEqual([expect.objectContaining({
+        token: '0xin',
+        symbol: 'IN',
+        chain: 'base',
+        netflowUsd: 12000,
+        inflowUsd: 12000,
+        buyersCount: 7,
+        traderCount: 7,
+      })]);
+    });
   });
 
   describe('getTokenHolders', () => {
@@ -476,10 +515,10 @@ describe('NansenData', () => {
         json: () => Promise.resolve(mcpResponse),
       });
 
-      const data = new NansenData();
+      const data = new NansenData({ mcp: { session: false, discoverTools: false } });
       const result = await data.getTokenHolders('0xtoken', 'base');
 
-      expect(result).toBeDefined();
+      expect(result[0]).toMatchObject({ address: '0xholder', ownershipPercent: 10, valueUsd: 0 });
       // Verify MCP endpoint was called
       expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('mcp.nansen.ai'),
@@ -505,7 +544,7 @@ describe('NansenData', () => {
         }),
       });
 
-      const data = new NansenData();
+      const data = new NansenData({ mcp: { session: false, discoverTools: false } });
       const result = await data.getTokenHolders('0xtoken', 'base');
 
       expect(result).toBeDefined();
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildPlan, callNode, groupNode, asFallback } from '../src/estimate.js';
+import { NansenData } from '../src/data.js';
+
+describe('estimate', () => {
+  it('should multiply repeated calls and sum groups', () => {
+    const group = groupNode('g', [
+      callNode('mcp', 'token_ohlcv', 1, { count: 3 }),
+      callNode('api', '/tgm/holders', 1),
+    ]);
+    expect(group.children![0]).toMatchObject({ credits: 3, count: 3 });
+    expect(group.credits).toBe(4);
+  });
+
+  it('should exclude fallbacks from the estimate but include them in the max', () => {
+    const plan = buildPlan('m', [
+      callNode('mcp', 'token_pnl_leaderboard', 5),
+      asFallback(groupNode('api', [callNode('api', '/tgm/flows', 1), callNode('api', '/tgm/holders', 1)])),
+    ]);
+    expect(plan.estimatedCredits).toBe(5);
+    expect(plan.maxCredits).toBe(7);
+  });
+});
+
+describe('NansenData dry run', () => {
+  const fetchFn = vi.fn();
+  const data = new NansenData({ apiKey: 'key', transport: { fetch: fetchFn } });
+
+  it('should plan getMarketOverview with per-chain netflows and capped OHLCV', () => {
+    const plan = data.planMarketOverview({ chains: ['base', 'ethereum'], topOhlcvCount: 15 });
+
+    // screener 1 + 2 netflows + chain rank 1 + 10 OHLCV (capped)
+    expect(plan.estimatedCredits).toBe(14);
+    expect(plan.calls.find(c => c.label === 'topTokensOhlcv')).toMatchObject({ count: 10, conditional: true });
+    expect(plan.calls.find(c => c.label === 'netflows')?.children).toHaveLength(2);
+  });
+
+  it('should plan getTokenInfo as MCP analyzeToken with an API fallback', () => {
+    const plan = data.planTokenInfo();
+
+    expect(plan.calls[0].label).toBe('mcp.analyzeToken');
+    expect(plan.calls[0].credits).toBe(13);
+    expect(plan.calls[1].fallback).toBe(true);
+    expect(plan.estimatedCredits).toBe(13);
+    expect(plan.maxCredits).toBe(17);
+  });
+
+  it('should only include the wallet API fallback when a chain is given', () => {
+    expect(data.planWalletProfile().calls).toHaveLength(1);
+    expect(data.planWalletProfile('base').calls).toHaveLength(2);
+    expect(data.planWalletProfile().estimatedCredits).toBe(9);
+  });
+
+  it('should not call anything', () => {
+    data.planPolymarketOverview(true);
+    data.planScanOpportunities({ chain: 'base', mode: 'accumulation' });
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+});
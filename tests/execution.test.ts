@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createDryRunAdapter,
+  createHttpAdapter,
+  NansenExecutionError,
+  type ExecutionAdapter,
+  type OrderRequest,
+  type OrderState,
+} from '../src/execution.js';
+import { NansenTrader, type TradingSignal } from '../src/trader.js';
+import { jsonResponse } from './helpers.js';
+
+const SESSIONLESS = { session: false, discoverTools: false };
+
+function order(overrides: Partial<OrderRequest> = {}): OrderRequest {
+  return { clientOrderId: 'c-1', token: '0xabc', chain: 'base', side: 'buy', amountUsd: 100, ...overrides };
+}
+
+function createTrader(adapters: ExecutionAdapter[] = []) {
+  const ohlcv = [{ t: '2026-01-01T00:00:00Z', o: 1, h: 1, l: 1, c: 2 }];
+  const fetchFn = vi.fn((url: string) => {
+    if (!url.includes('mcp.nansen.ai')) {
+      return Promise.resolve(jsonResponse({ data: [
+        { token_address: '0xabc', token_symbol: 'ABC', chain: 'base', net_flow_24h_usd: 300000, net_flow_7d_usd: 900000, trader_count: 20 },
+      ] }));
+    }
+    return Promise.resolve(jsonResponse({
+      jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: JSON.stringify(ohlcv) }] },
+    }));
+  });
+  return new NansenTrader({
+    apiKey: 'key',
+    transport: { fetch: fetchFn as typeof fetch },
+    enableRateLimit: false,
+    enableSignalLog: false,
+    enableCreditLog: false,
+    enablePaperLog: false,
+    mcp: SESSIONLESS,
+    riskConfig: { minScore: 2, maxSignalsPerScan: 10, dedupeWindowMs: 0 },
+    execution: { adapters },
+    sizing: { bankrollUsd: 2500 },  // 2% -> $50 orders
+  });
+}
+
+describe('createDryRunAdapter', () => {
+  it('should log every call and fill at the quoted price', async () => {
+    const log = vi.fn();
+    const adapter = createDryRunAdapter({ prices: async () => 4, log });
+
+    expect(await adapter.quote(order())).toMatchObject({ adapter: 'dry-run', price: 4, quantity: 25, amountUsd: 100 });
+    const filled = await adapter.submit(order({ side: 'sell', amountUsd: undefined, quantity: 10 }));
+    expect(filled).toMatchObject({ status: 'filled', filledQuantity: 10, avgPrice: 4 });
+    expect(await adapter.status(filled.orderId)).toMatchObject({ status: 'filled' });
+    expect(await adapter.cancel(filled.orderId)).toMatchObject({ status: 'filled' });
+
+    expect(log.mock.calls.map(([entry]) => entry.call)).toEqual(['quote', 'submit', 'status', 'cancel']);
+  });
+
+  it('should reject orders it cannot price and throw on invalid ones', async () => {
+    const adapter = createDryRunAdapter({ prices: async () => { throw new Error('no candles'); }, log: () => {} });
+
+    expect(await adapter.submit(order())).toMatchObject({ status: 'rejected', error: expect.stringContaining('no candles') });
+    await expect(adapter.submit(order({ amountUsd: undefined }))).rejects.toMatchObject({ code: 'INVALID_ORDER' });
+    await expect(adapter.status('missing')).rejects.toMatchObject({ code: 'UNKNOWN_ORDER' });
+  });
+});
+
+describe('createHttpAdapter', () => {
+  it('should POST orders to the configured URL and poll their status', async () => {
+    const fetchFn = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/orders') && init?.method === 'POST') return jsonResponse({ orderId: 'o-1', status: 'submitted' });
+      return jsonResponse({ orderId: 'o-1', status: 'filled', filledQuantity: 50, avgPrice: 2 });
+    });
+    const adapter = createHttpAdapter({ url: 'https://exec.example/', token: 'secret', transport: { fetch: fetchFn } });
+
+    const submitted = await adapter.submit(order({ signalId: 'sig-1' }));
+    expect(submitted).toMatchObject({ orderId: 'o-1', adapter: 'http', status: 'submitted', clientOrderId: 'c-1' });
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe('https://exec.example/orders');
+    expect((init!.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init!.body as string)).toMatchObject({ token: '0xabc', side: 'buy', amountUsd: 100, signalId: 'sig-1' });
+
+    expect(await adapter.status('o-1')).toMatchObject({ status: 'filled', avgPrice: 2, request: { signalId: 'sig-1' } });
+    expect(fetchFn.mock.calls[1][0]).toBe('https://exec.example/orders/o-1');
+  });
+
+  it('should surface HTTP errors and malformed responses', async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'insufficient balance' }, 400))
+      .mockResolvedValueOnce(jsonResponse({ status: 'weird' }));
+    const adapter = createHttpAdapter({ url: 'https://exec.example', transport: { fetch: fetchFn } });
+
+    const error = await adapter.submit(order()).catch(e => e);
+    expect(error).toBeInstanceOf(NansenExecutionError);
+    expect(error).toMatchObject({ code: 'HTTP_ERROR', status: 400, message: expect.stringContaining('insufficient balance') });
+    await expect(adapter.submit(order())).rejects.toMatchObject({ code: 'BAD_RESPONSE' });
+  });
+});
+
+describe('NansenTrader execution', () => {
+  it('should execute through the dry-run adapter and write entry and exit back to the log', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const trader = createTrader();
+    expect(trader.listExecutionAdapters()).toEqual(['dry-run']);
+    expect(() => trader.useExecutionAdapter('bankr')).toThrow(NansenExecutionError);
+
+    const [signal] = await trader.scan({ chains: ['base'] });
+    const buy = await trader.executeSignal(signal);
+    expect(buy).toMatchObject({ status: 'filled', avgPrice: 2, filledQuantity: 25, request: { amountUsd: 50 } });
+    expect(trader.getSignal(signal.id)).toMatchObject({ acted: true, state: 'entered', outcome: { action: 'buy', entryPrice: 2 } });
+
+    const exit: TradingSignal = {
+      ...signal,
+      id: 'exit-signal',
+      suggestedAction: { ...signal.suggestedAction!, action: 'sell' },
+    };
+    await trader.executeSignal(exit, { quantity: 25 });
+    expect(trader.getSignal(signal.id)!.outcome).toMatchObject({ entryPrice: 2, exitPrice: 2, pnl: 0 });
+    expect(trader.getSignal(signal.id)!.transitions.map(t => t.state)).toEqual(['new', 'watching', 'entered', 'exited']);
+    expect(trader.getOrders()).toHaveLength(2);
+    expect(log).toHaveBeenCalledTimes(2);  // One JSON line per dry-run submit
+    log.mockRestore();
+  });
+
+  it('should pick up fills for open orders on sync', async () => {
+    let state: OrderState | undefined;
+    const adapter: ExecutionAdapter = {
+      name: 'venue',
+      quote: vi.fn(),
+      submit: vi.fn(async (request) => {
+        const now = new Date().toISOString();
+        state = { orderId: 'v-1', clientOrderId: request.clientOrderId, adapter: 'venue', status: 'submitted', request, submittedAt: now, updatedAt: now };
+        return state;
+      }),
+      cancel: vi.fn(),
+      status: vi.fn(async () => ({ ...state!, status: 'filled' as const, filledQuantity: 10, avgPrice: 1.5 })),
+    };
+    const trader = createTrader([adapter]);
+    trader.useExecutionAdapter('venue');
+
+    const [signal] = await trader.scan({ chains: ['base'] });
+    await trader.executeSignal(signal);
+    expect(trader.getSignal(signal.id)).toMatchObject({ acted: false, state: 'watching' });
+    expect(trader.getOrders({ open: true })).toHaveLength(1);
+
+    const synced = await trader.syncOrders();
+    expect(synced).toMatchObject([{ status: 'filled' }]);
+    expect(trader.getSignal(signal.id)).toMatchObject({ acted: true, outcome: { entryPrice: 1.5, notes: 'venue order v-1' } });
+    expect(trader.getOrders({ open: true })).toEqual([]);
+  });
+
+  it('should log order sync errors instead of rejecting the interval tick', async () => {
+    vi.useFakeTimers();
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      let state: OrderState | undefined;
+      let down = true;
+      const adapter: ExecutionAdapter = {
+        name: 'venue',
+        quote: vi.fn(),
+        submit: vi.fn(async (request) => {
+          const now = new Date().toISOString();
+          state = { orderId: 'v-1', clientOrderId: request.clientOrderId, adapter: 'venue', status: 'submitted', request, submittedAt: now, updatedAt: now };
+          return state;
+        }),
+        cancel: vi.fn(),
+        status: vi.fn(async () => {
+          if (down) throw new Error('venue down');
+          return { ...state!, status: 'filled' as const, filledQuantity: 10, avgPrice: 1.5 };
+        }),
+      };
+      const trader = createTrader([adapter]);
+      trader.useExecutionAdapter('venue');
+      const [signal] = await trader.scan({ chains: ['base'] });
+      await trader.executeSignal(signal);
+
+      const onSync = vi.fn(() => { throw new Error('handler bug'); });
+      const stop = trader.startOrderSync(1000, onSync);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(log).toHaveBeenCalledWith('Order sync failed for venue:v-1:', 'venue down');
+
+      down = false;
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(onSync).toHaveBeenCalledOnce();
+      expect(log).toHaveBeenCalledWith('Order sync error:', 'handler bug');
+      stop();
+    } finally {
+      log.mockRestore();
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not act on buys from signals that are not entries', async () => {
+    const trader = createTrader();
+    const [signal] = await trader.scan({ chains: ['base'] });
+    const distribution: TradingSignal = { ...signal, type: 'distribution' };
+
+    expect(distribution.suggestedAction).toMatchObject({ action: 'buy' });
+    expect(trader.buildOrder(distribution)).toBeUndefined();
+    expect(await trader.executeSignal(distribution)).toBeUndefined();
+    expect(await trader.paperTrade([distribution])).toEqual([]);
+    expect(trader.getSignal(signal.id)).toMatchObject({ acted: false, state: 'new' });
+  });
+});
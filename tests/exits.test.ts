@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { priceExits, netflowExit, holderExit, evaluateExit } from '../src/exits.js';
+import { NansenTrader } from '../src/trader.js';
+import type { LoggedSignal } from '../src/signal-log.js';
+import type { Candle } from '../src/scan.js';
+import type { TokenHolder } from '../src/api.js';
+import type { SmartMoneyNetflow } from '../src/types.js';
+import { jsonResponse } from './helpers.js';
+
+const SESSIONLESS = { session: false, discoverTools: false };
+const HOUR = 3600_000;
+const T0 = Date.parse('2026-01-01T00:00:00.000Z');
+
+function position(overrides: Partial<LoggedSignal> = {}): LoggedSignal {
+  return {
+    id: 'sig-1',
+    type: 'accumulation',
+    token: '0xabc',
+    symbol: 'ABC',
+    chain: 'base',
+    score: 5,
+    reason: '',
+    metrics: {},
+    timestamp: new Date(T0).toISOString(),
+    loggedAt: new Date(T0).toISOString(),
+    acted: true,
+    outcome: { action: 'buy', entryPrice: 100, notionalUsd: 500, executedAt: new Date(T0).toISOString() },
+    ...overrides,
+  };
+}
+
+// Hourly closes from T0
+function hourly(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({ time: new Date(T0 + i * HOUR).toISOString(), open: close, high: close, low: close, close }));
+}
+
+function flow(netflowUsd: number, netflow7d?: number): SmartMoneyNetflow {
+  return { token: '0xABC', symbol: 'ABC', chain: 'base', netflowUsd, netflow7d, traderCount: 5 } as SmartMoneyNetflow;
+}
+
+function holder(tokenAmount: number, balanceChange24h: number): TokenHolder {
+  return { address: `0x${tokenAmount}`, tokenAmount, valueUsd: 0, ownershipPercent: 0, balanceChange24h, balanceChange7d: 0, balanceChange30d: 0 };
+}
+
+describe('priceExits', () => {
+  it('should trip the stop-loss, trailing stop and take-profit', () => {
+    expect(priceExits(position(), hourly([100, 90, 84])).reasons).toMatchObject([{ trigger: 'stopLoss', urgency: 'high' }]);
+    expect(priceExits(position(), hourly([100, 90])).reasons).toEqual([]);
+
+    const trailing = priceExits(position(), hourly([100, 150, 125]), { trailingStopPct: 10, takeProfitPct: 20 });
+    expect(trailing.pnlPercent).toBeCloseTo(25);
+    expect(trailing.reasons.map(r => r.trigger)).toEqual(['trailingStop', 'takeProfit']);
+    expect(trailing.reasons[1].urgency).toBe('medium');
+  });
+
+  it('should fall back to the first candle after entry without a recorded fill', () => {
+    const unfilled = position({ outcome: { action: 'buy', executedAt: new Date(T0 + HOUR).toISOString() } });
+    const result = priceExits(unfilled, hourly([50, 100, 80]));
+
+    expect(result).toMatchObject({ entryPrice: 100, price: 80 });
+    expect(result.reasons).toMatchObject([{ trigger: 'stopLoss' }]);
+  });
+});
+
+describe('netflowExit and holderExit', () => {
+  it('should flag smart money outflows past the threshold', () => {
+    expect(netflowExit(flow(-5000))).toBeUndefined();
+    expect(netflowExit(flow(-50_000))).toMatchObject({ trigger: 'netflowReversal', urgency: 'medium' });
+    expect(netflowExit(flow(-50_000, -200_000))).toMatchObject({ urgency: 'high', reason: expect.stringContaining('negative over 7d') });
+  });
+
+  it('should measure the top holders cut against their balances a day ago', () => {
+    // 1000 + 1000 a day ago, 150 sold -> 7.5%
+    expect(holderExit([holder(900, -100), holder(950, -50)])).toBeUndefined();
+    expect(holderExit([holder(850, -150), holder(950, -50)])).toMatchObject({ trigger: 'holderDrop', urgency: 'medium' });
+    expect(holderExit([holder(600, -400), holder(1000, 0)])).toMatchObject({ urgency: 'high' });
+    expect(holderExit([holder(600, -400), holder(1000, 0)], { topHolders: 1 })!.reason).toContain('Top 1 holders cut balances 40.0%');
+  });
+});
+
+describe('evaluateExit', () => {
+  it('should turn tripped rules into one sell action, urgent when several agree', () => {
+    expect(evaluateExit(position(), { candles: hourly([100, 95]), netflows: [flow(20_000)] })).toBeUndefined();
+
+    const single = evaluateExit(position(), { distribution: [{ token: '0xabc', reason: '8 smart traders exiting' } as never] }, {}, T0);
+    expect(single).toMatchObject({
+      id: 'exit:sig-1',
+      positionId: 'sig-1',
+      notionalUsd: 500,
+      suggestedAction: { action: 'sell', urgency: 'medium', targetToken: '0xabc', targetChain: 'base' },
+      timestamp: new Date(T0).toISOString(),
+    });
+
+    const combined = evaluateExit(position(), { candles: hourly([100, 110]), netflows: [flow(-50_000)], holders: [holder(850, -150)] });
+    expect(combined!.reasons.map(r => r.trigger)).toEqual(['netflowReversal', 'holderDrop']);
+    expect(combined).toMatchObject({ price: 110, suggestedAction: { urgency: 'high' } });
+    expect(combined!.pnlPercent).toBeCloseTo(10);
+  });
+});
+
+describe('NansenTrader exits', () => {
+  it('should check open positions and close them through an adapter', async () => {
+    const now = Date.now();
+    let netflow = 300000;
+    const candles = [
+      { t: new Date(now - 2 * HOUR).toISOString(), o: 2, h: 2, l: 2, c: 2 },
+      { t: new Date(now - HOUR).toISOString(), o: 2, h: 2, l: 1.5, c: 1.5 },
+    ];
+    const holders = [{ address: '0xwhale', token_amount: 500, balance_change_24h: -500 }];
+    const fetchFn = vi.fn((url: string, init?: RequestInit) => {
+      if (!url.includes('mcp.nansen.ai')) {
+        return Promise.resolve(jsonResponse({ data: [
+          { token_address: '0xabc', token_symbol: 'ABC', chain: 'base', net_flow_24h_usd: netflow, net_flow_7d_usd: netflow * 3, trader_count: 20 },
+        ] }));
+      }
+      const { params } = JSON.parse(init!.body as string);
+      const result = params.name === 'token_current_top_holders' ? holders : candles;
+      return Promise.resolve(jsonResponse({
+        jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: JSON.stringify(result) }] },
+      }));
+    });
+    const trader = new NansenTrader({
+      apiKey: 'key',
+      transport: { fetch: fetchFn as typeof fetch },
+      enableRateLimit: false,
+      enableSignalLog: false,
+      enableCreditLog: false,
+      enablePaperLog: false,
+      mcp: SESSIONLESS,
+      riskConfig: { minScore: 2, maxSignalsPerScan: 10, dedupeWindowMs: 0 },
+    });
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const [signal] = await trader.scan({ chains: ['base'] });
+    expect(await trader.checkExits()).toEqual([]);
+
+    trader.markActed(signal.id, 'buy');
+    trader.recordOutcome(signal.id, { entryPrice: 2, notionalUsd: 100, executedAt: new Date(now - 3 * HOUR).toISOString() });
+    expect(trader.getOpenPositions().map(p => p.id)).toEqual([signal.id]);
+
+    netflow = -300000;
+    const [exit] = await trader.checkExits();
+    expect(exit.reasons.map(r => r.trigger)).toEqual(['stopLoss', 'netflowReversal', 'distribution', 'holderDrop']);
+    expect(exit).toMatchObject({ positionId: signal.id, entryPrice: 2, price: 1.5, suggestedAction: { action: 'sell', urgency: 'high' } });
+    expect((await trader.checkExits({ checkHolders: false, stopLossPct: 50 }))[0].reasons.map(r => r.trigger))
+      .toEqual(['netflowReversal', 'distribution']);
+
+    const order = await trader.executeExit(exit);
+    expect(order).toMatchObject({ status: 'filled', avgPrice: 1.5, request: { side: 'sell', quantity: 50, closesSignalId: signal.id } });
+    expect(trader.getSignal(signal.id)!.outcome).toMatchObject({ entryPrice: 2, exitPrice: 1.5, pnlPercent: -25 });
+    expect(trader.getOpenPositions()).toEqual([]);
+    log.mockRestore();
+  });
+});
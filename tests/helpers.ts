@@ -0,0 +1,24 @@
+/**
+ * Shared test helpers
+ */
+
+/**
+ * Minimal fetch Response with a JSON body
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return {
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? 'OK' : 'Bad Request',
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: () => Promise.resolve(body),
+  } as unknown as Response;
+}
+
+/**
+ * MCP tools/call response with one text block (non-strings are sent as JSON)
+ */
+export function mcpResponse(result: unknown): Response {
+  const text = typeof result === 'string' ? result : JSON.stringify(result);
+  return jsonResponse({ jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text }] } });
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import { NansenHttpServer } from '../src/http-server.js';
+import { NansenBudgetError } from '../src/credits.js';
+import { SignalLog } from '../src/signal-log.js';
+import type { NansenTrader } from '../src/trader.js';
+
+function mockTrader(overrides: Partial<Record<keyof NansenTrader, unknown>> = {}) {
+  return {
+    getMarketOverview: vi.fn().mockResolvedValue({ hotTokens: [] }),
+    getHotTokens: vi.fn().mockResolvedValue([{ symbol: 'A' }, { symbol: 'B' }, { symbol: 'C' }]),
+    scan: vi.fn().mockResolvedValue([]),
+    findSignals: vi.fn().mockReturnValue([]),
+    getPerformanceStats: vi.fn().mockReturnValue({ totalSignals: 0 }),
+    markActed: vi.fn().mockReturnValue(undefined),
+    recordOutcome: vi.fn().mockReturnValue(undefined),
+    getStats: vi.fn().mockReturnValue({}),
+    ...overrides,
+  } as unknown as NansenTrader;
+}
+
+describe('NansenHttpServer', () => {
+  it('should coerce query strings to the schema types', async () => {
+    const trader = mockTrader();
+    const server = new NansenHttpServer(trader);
+
+    const response = await server.handle({ method: 'GET', url: '/market?chains=base,ethereum&topOhlcvCount=3' });
+
+    expect(response.status).toBe(200);
+    expect(trader.getMarketOverview).toHaveBeenCalledWith({ chains: ['base', 'ethereum'], topOhlcvCount: 3 });
+  });
+
+  it('should pass path parameters and apply the limit', async () => {
+    const trader = mockTrader();
+    const server = new NansenHttpServer(trader);
+
+    const response = await server.handle({ method: 'GET', url: '/hot/base?limit=2' });
+
+    expect(trader.getHotTokens).toHaveBeenCalledWith('base');
+    expect(response.body).toMatchObject({ chain: 'base', count: 2, hotTokens: [{ symbol: 'A' }, { symbol: 'B' }] });
+    expect((await server.handle({ method: 'GET', url: '/hot/dogechain' })).status).toBe(400);
+    expect(await server.handle({ method: 'GET', url: '/hot/%E0%A4%A' })).toMatchObject({
+      status: 400,
+      body: { error: { code: 'INVALID_PARAMS' } },
+    });
+  });
+
+  it('should validate bodies and reject bad input with 400', async () => {
+    const trader = mockTrader();
+    const server = new NansenHttpServer(trader);
+
+    const response = await server.handle({ method: 'POST', url: '/scan', body: { limit: 'ten' } });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ error: { code: 'INVALID_PARAMS' } });
+    expect(trader.scan).not.toHaveBeenCalled();
+
+    expect((await server.handle({ method: 'GET', url: '/signals?minScore=high' })).status).toBe(400);
+  });
+
+  it('should record outcomes and 404 on unknown signals', async () => {
+    const log = new SignalLog('/tmp/unused-signals.json', false);
+    const { id } = log.log({ type: 'accumulation', token: '0x1', symbol: 'A', chain: 'base', score: 5, reason: '', metrics: {}, timestamp: new Date().toISOString() });
+    const server = new NansenHttpServer(mockTrader({
+      markActed: log.markActed.bind(log),
+      recordOutcome: log.recordOutcome.bind(log),
+    }));
+    const url = `/signals/${encodeURIComponent(id)}/outcome`;
+
+    const ok = await server.handle({ method: 'POST', url, body: { action: 'buy', entryPrice: 1 } });
+    expect(ok.status).toBe(200);
+    expect(log.get(id)).toMatchObject({ acted: true, state: 'entered', outcome: { action: 'buy', entryPrice: 1 } });
+
+    const conflict = await server.handle({ method: 'POST', url, body: { action: 'skip' } });
+    expect(conflict.status).toBe(409);
+    expect(conflict.body).toMatchObject({ error: { code: 'INVALID_TRANSITION', details: { from: 'entered', to: 'rejected' } } });
+
+    const missing = await server.handle({ method: 'POST', url: '/signals/nope/outcome', body: { action: 'skip' } });
+    expect(missing.status).toBe(404);
+  });
+
+  it('should distinguish unknown routes from wrong methods', async () => {
+    const server = new NansenHttpServer(mockTrader());
+
+    expect((await server.handle({ method: 'GET', url: '/nope' })).status).toBe(404);
+
+    const wrongMethod = await server.handle({ method: 'GET', url: '/scan' });
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.allow).toBe('POST');
+  });
+
+  it('should map budget errors to 429', async () => {
+    const server = new NansenHttpServer(mockTrader({
+      scan: vi.fn().mockRejectedValue(new NansenBudgetError('Hourly budget exhausted', 'hourly', 100, 100, 1)),
+    }));
+
+    const response = await server.handle({ method: 'POST', url: '/scan', body: {} });
+
+    expect(response.status).toBe(429);
+    expect(response.body).toMatchObject({ error: { code: 'BUDGET_EXCEEDED', details: { window: 'hourly' } } });
+  });
+
+  it('should require the bearer token when configured', async () => {
+    const server = new NansenHttpServer(mockTrader(), { token: 'secret' });
+
+    expect((await server.handle({ method: 'GET', url: '/signals' })).status).toBe(401);
+    expect((await server.handle({ method: 'GET', url: '/signals', headers: { authorization: 'Bearer wrong' } })).status).toBe(401);
+    expect((await server.handle({ method: 'GET', url: '/signals', headers: { authorization: 'Bearer secret' } })).status).toBe(200);
+
+    // Discovery stays public
+    expect((await server.handle({ method: 'GET', url: '/openapi.json' })).status).toBe(200);
+  });
+
+  it('should generate an OpenAPI document from the routes', () => {
+    const doc = new NansenHttpServer(mockTrader(), { token: 'secret' }).getOpenApiDocument() as any;
+
+    expect(doc.openapi).toBe('3.0.3');
+    expect(Object.keys(doc.paths)).toEqual(expect.arrayContaining(['/market', '/hot/{chain}', '/scan', '/signals', '/signals/{id}/outcome']));
+    expect(doc.paths['/hot/{chain}'].get.parameters[0]).toMatchObject({ name: 'chain', in: 'path', required: true });
+    expect(doc.paths['/scan'].post.requestBody.content['application/json'].schema.properties).toHaveProperty('modes');
+    expect(doc.paths['/signals/{id}/outcome'].post.requestBody.content['application/json'].schema.properties).not.toHaveProperty('signalId');
+    expect(doc.components.securitySchemes.bearerAuth).toEqual({ type: 'http', scheme: 'bearer' });
+  });
+
+  it('should serve over HTTP', async () => {
+    const trader = mockTrader();
+    const server = await new NansenHttpServer(trader).listen(0);
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const scan = await fetch(`http://127.0.0.1:${port}/scan`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ chains: ['base'] }),
+      });
+      expect(scan.status).toBe(200);
+      expect(trader.scan).toHaveBeenCalledWith({ chains: ['base'] });
+
+      const invalid = await fetch(`http://127.0.0.1:${port}/scan`, { method: 'POST', body: '{not json' });
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toMatchObject({ error: { code: 'INVALID_JSON' } });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseMarkdownTable,
+  parseMarkdownTables,
+  parseNumber,
+  cleanCell,
+  isEvmAddress,
+  isSolanaAddress,
+  findAddress,
+} from '../src/markdown.js';
+
+const EVM = '0x6982508145454ce325ddbe47a25d4ec3d2311933';
+const SOL = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+describe('parseMarkdownTable', () => {
+  it('should key rows by header and stop at the end of the table', () => {
+    const table = parseMarkdownTable([
+      'Results:',
+      '| Token | Market Cap | Price (USD) |',
+      '|-------|-----------:|:-----------:|',
+      '| [PEPE](https://nansen.ai/token/pepe) | $1.2B | `0.0000012` |',
+      '| **WIF** |  | $2.10 |',
+      '',
+      '| Not | Part |',
+    ].join('\n'));
+
+    expect(table?.headers).toEqual(['Token', 'Market Cap', 'Price (USD)']);
+    expect(table?.keys).toEqual(['token', 'market_cap', 'price_usd']);
+    expect(table?.rows).toEqual([
+      { token: 'PEPE', market_cap: '$1.2B', price_usd: '0.0000012' },
+      { token: 'WIF', price_usd: '$2.10' },
+    ]);
+  });
+
+  it('should find every table and keep escaped pipes', () => {
+    const tables = parseMarkdownTables([
+      '| A | B |',
+      '|---|---|',
+      '| x \\| y | 1 |',
+      '',
+      '## Next',
+      '| C |',
+      '|---|',
+      '| 2 |',
+    ].join('\n'));
+
+    expect(tables).toHaveLength(2);
+    expect(tables[0].rows).toEqual([{ a: 'x | y', b: '1' }]);
+    expect(tables[1].rows).toEqual([{ c: '2' }]);
+  });
+
+  it('should return undefined without a header divider', () => {
+    expect(parseMarkdownTable('| just | pipes |\n| no | divider |')).toBeUndefined();
+    expect(parseMarkdownTable('No data')).toBeUndefined();
+  });
+});
+
+describe('parseNumber', () => {
+  it('should parse currency, suffixes, percents and separators', () => {
+    expect(parseNumber('$1.2M')).toBeCloseTo(1_200_000);
+    expect(parseNumber('-3.4%')).toBe(-3.4);
+    expect(parseNumber('1,234')).toBe(1234);
+    expect(parseNumber('-$500K')).toBe(-500_000);
+    expect(parseNumber('$-2.5b')).toBe(-2_500_000_000);
+    expect(parseNumber('+12%')).toBe(12);
+    expect(parseNumber('(1,000)')).toBe(-1000);
+    expect(parseNumber('−7.5')).toBe(-7.5);
+    expect(parseNumber('.5')).toBe(0.5);
+  });
+
+  it('should reject text that is not a number', () => {
+    expect(parseNumber('N/A')).toBeUndefined();
+    expect(parseNumber('12 holders')).toBeUndefined();
+    expect(parseNumber('')).toBeUndefined();
+    expect(parseNumber(EVM)).toBeUndefined();
+  });
+});
+
+describe('addresses', () => {
+  it('should recognize EVM and Solana addresses', () => {
+    expect(isEvmAddress(EVM)).toBe(true);
+    expect(isSolanaAddress(SOL)).toBe(true);
+    expect(isSolanaAddress('PEPE')).toBe(false);
+    expect(isSolanaAddress('0OIl0OIl0OIl0OIl0OIl0OIl0OIl0OIl')).toBe(false);
+  });
+
+  it('should find an address inside text', () => {
+    expect(findAddress(`PEPE (${EVM})`)).toBe(EVM);
+    expect(findAddress(`BONK - ${SOL}`)).toBe(SOL);
+    expect(findAddress('no address here')).toBeUndefined();
+  });
+
+  it('should strip inline formatting', () => {
+    expect(cleanCell(' [BONK](https://x.y/z) ')).toBe('BONK');
+    expect(cleanCell('`0xabc`')).toBe('0xabc');
+    expect(cleanCell('__bold__')).toBe('bold');
+  });
+});
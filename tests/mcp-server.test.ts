@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { NansenMcpServer, SKILL_TOOLS } from '../src/mcp-server.js';
+import { SignalLog } from '../src/signal-log.js';
+import type { NansenTrader } from '../src/trader.js';
+
+function mockTrader(overrides: Partial<Record<keyof NansenTrader, unknown>> = {}) {
+  return {
+    scan: vi.fn().mockResolvedValue([{ token: '0x1', score: 80 }]),
+    getTokenSummary: vi.fn().mockResolvedValue({ holders: [] }),
+    findSignals: vi.fn().mockReturnValue([]),
+    getPerformanceStats: vi.fn().mockReturnValue({ totalSignals: 0 }),
+    markActed: vi.fn().mockReturnValue(undefined),
+    recordOutcome: vi.fn().mockReturnValue(undefined),
+    ...overrides,
+  } as unknown as NansenTrader;
+}
+
+function call(server: NansenMcpServer, name: string, args: unknown, id = 1) {
+  return server.handleMessage({ jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: args } });
+}
+
+describe('NansenMcpServer', () => {
+  it('should answer initialize with tool capabilities', async () => {
+    const server = new NansenMcpServer(mockTrader());
+    const response = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1' } },
+    });
+
+    expect(response?.result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'nansen-api-skill' },
+    });
+  });
+
+  it('should not respond to notifications', async () => {
+    const server = new NansenMcpServer(mockTrader());
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+  });
+
+  it('should list every tool with an input schema', async () => {
+    const server = new NansenMcpServer(mockTrader());
+    const response = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const tools = (response?.result as { tools: any[] }).tools;
+
+    expect(tools.map(t => t.name)).toEqual([
+      'market_overview', 'trader_scan', 'token_summary', 'wallet_summary', 'signal_log_query', 'record_outcome',
+    ]);
+    expect(tools.every(t => t.inputSchema.type === 'object')).toBe(true);
+    expect(tools[0]).not.toHaveProperty('handler');
+  });
+
+  it('should call the trader and return JSON text content', async () => {
+    const trader = mockTrader();
+    const server = new NansenMcpServer(trader);
+    const response = await call(server, 'trader_scan', { chains: ['base'], modes: ['accumulation'], limit: 5 });
+
+    expect(trader.scan).toHaveBeenCalledWith({ chains: ['base'], modes: ['accumulation'], limit: 5 });
+    const content = (response?.result as any).content;
+    expect(JSON.parse(content[0].text)).toEqual([{ token: '0x1', score: 80 }]);
+  });
+
+  it('should reject invalid arguments with -32602 before calling the trader', async () => {
+    const trader = mockTrader();
+    const server = new NansenMcpServer(trader);
+
+    const missing = await call(server, 'token_summary', { token: '0x1' });
+    expect(missing?.error?.code).toBe(-32602);
+    expect(missing?.error?.message).toContain('arguments.chain');
+
+    const badChain = await call(server, 'trader_scan', { chains: ['solana', 'dogechain'] });
+    expect(badChain?.error?.code).toBe(-32602);
+
+    expect(trader.getTokenSummary).not.toHaveBeenCalled();
+    expect(trader.scan).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown tools and methods', async () => {
+    const server = new NansenMcpServer(mockTrader());
+    expect((await call(server, 'nope', {}))?.error?.code).toBe(-32602);
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'resources/list' }))?.error?.code).toBe(-32601);
+  });
+
+  it('should report handler failures as tool errors', async () => {
+    const server = new NansenMcpServer(mockTrader({
+      getTokenSummary: vi.fn().mockRejectedValue(new Error('Hourly credit budget exhausted')),
+    }));
+
+    const failed = await call(server, 'token_summary', { token: '0x1', chain: 'base' });
+    expect(failed?.result).toMatchObject({ isError: true, content: [{ text: 'Hourly credit budget exhausted' }] });
+
+    const notFound = await call(server, 'record_outcome', { signalId: 'missing', action: 'skip' });
+    expect(notFound?.result).toMatchObject({ isError: true });
+  });
+
+  it('should mark signals acted when an outcome carries an action', async () => {
+    const log = new SignalLog('/tmp/unused-signals.json', false);
+    const { id } = log.log({ type: 'accumulation', token: '0x1', symbol: 'A', chain: 'base', score: 5, reason: '', metrics: {}, timestamp: new Date().toISOString() });
+    const server = new NansenMcpServer(mockTrader({
+      markActed: log.markActed.bind(log),
+      recordOutcome: log.recordOutcome.bind(log),
+    }));
+
+    await call(server, 'record_outcome', { signalId: id, action: 'buy', entryPrice: 1, notes: 'manual' });
+    expect(log.get(id)).toMatchObject({ acted: true, state: 'entered', outcome: { action: 'buy', entryPrice: 1, notes: 'manual' } });
+
+    await call(server, 'record_outcome', { signalId: id, exitPrice: 2 });
+    expect(log.get(id)).toMatchObject({ state: 'exited', outcome: { pnlPercent: 100 } });
+  });
+
+  it('should compute signal stats without the result limit', async () => {
+    const trader = mockTrader();
+    const server = new NansenMcpServer(trader);
+    await call(server, 'signal_log_query', { chains: ['base'], limit: 5 });
+
+    expect(trader.findSignals).toHaveBeenCalledWith({ chains: ['base'], limit: 5 });
+    expect(trader.getPerformanceStats).toHaveBeenCalledWith({ chains: ['base'] });
+  });
+
+  it('should serve newline-delimited JSON-RPC over streams', async () => {
+    const server = new NansenMcpServer(mockTrader(), SKILL_TOOLS);
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', chunk => chunks.push(chunk.toString()));
+
+    const done = server.listen(input, output);
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('not json\n');
+    input.end('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    await done;
+
+    const responses = chunks.join('').trim().split('\n').map(line => JSON.parse(line));
+    expect(responses).toHaveLength(2);
+    expect(responses).toContainEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    expect(responses).toContainEqual(expect.objectContaining({ error: expect.objectContaining({ code: -32700 }) }));
+  });
+});
@@ -1,10 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { NansenMcp, NansenMcpError } from '../src/mcp.js';
+import { NansenSchemaError } from '../src/schema.js';
+import { CreditLedger, NansenBudgetError } from '../src/credits.js';
 
 // Mock fetch
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+// Wire-level tests queue one response per tools/call, so skip the handshake and tools/list
+const SESSIONLESS = { session: false, discoverTools: false };
+
 describe('NansenMcp', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -38,7 +43,7 @@ describe('NansenMcp', () => {
         json: () => Promise.resolve(jsonResponse),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       const result = await mcp.callTool('general_search', { query: 'test' });
 
       expect(result).toEqual({ data: 'test' });
@@ -57,7 +62,7 @@ describe('NansenMcp', () => {
         json: () => Promise.resolve(errorResponse),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       await expect(mcp.callTool('general_search', { query: 'test' }))
         .rejects.toThrow(NansenMcpError);
     });
@@ -76,7 +81,7 @@ data: {"jsonrpc":"2.0","id":1,"result":{"content":[{"type":"text","text":"{\\"fo
         text: () => Promise.resolve(sseText),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       const result = await mcp.callTool('general_search', { query: 'test' });
 
       expect(result).toEqual({ found: true });
@@ -97,7 +102,7 @@ data: {"jsonrpc":"2.0","id":1,"result":{"content":[{"type":"text","text":"{\\"fi
         text: () => Promise.resolve(sseText),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       const result = await mcp.callTool('general_search', { query: 'test' });
 
       // Should return the last valid JSON-RPC response with a result
@@ -116,7 +121,7 @@ data: {"jsonrpc":"2.0","id":1,"error":{"code":-32000,"message":"Tool error"}}
         text: () => Promise.resolve(sseText),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       await expect(mcp.callTool('general_search', { query: 'test' }))
         .rejects.toThrow(NansenMcpError);
     });
@@ -132,7 +137,7 @@ data: {"jsonrpc":"2.0","id":1,"error":{"code":-32000,"message":"Tool error"}}
         text: () => Promise.resolve(sseText),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       await expect(mcp.callTool('general_search', { query: 'test' }))
         .rejects.toThrow('No data in SSE response');
     });
@@ -152,7 +157,7 @@ data: {"notJsonRpc": true}
         text: () => Promise.resolve(sseText),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       await expect(mcp.callTool('general_search', { query: 'test' }))
         .rejects.toThrow('No valid JSON-RPC response in SSE');
     });
@@ -167,17 +172,92 @@ data: {"notJsonRpc": true}
         text: () => Promise.resolve('Invalid API key'),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       await expect(mcp.callTool('general_search', { query: 'test' }))
         .rejects.toThrow('MCP HTTP error: 401 Unauthorized');
     });
 
     it('should throw on network error', async () => {
-      mockFetch.mockRejectedValueOnce(new Error('Network failure'));
+      // Network failures are retried, so every attempt must fail
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network failure'))
+        .mockRejectedValueOnce(new Error('Network failure'))
+        .mockRejectedValueOnce(new Error('Network failure'));
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, { ...SESSIONLESS, retry: { baseDelayMs: 1 } });
       await expect(mcp.callTool('general_search', { query: 'test' }))
         .rejects.toThrow('MCP request failed: Network failure');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('callTool - retries', () => {
+    const okResponse = {
+      ok: true,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => Promise.resolve({
+        jsonrpc: '2.0',
+        id: 1,
+        result: { content: [{ type: 'text', text: JSON.stringify({ ok: true }) }] },
+      }),
+    };
+
+    it('should retry 502 and report each retry through the hook', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 502,
+          statusText: 'Bad Gateway',
+          headers: new Headers(),
+          text: () => Promise.resolve(''),
+        })
+        .mockResolvedValueOnce(okResponse);
+
+      const onRetry = vi.fn();
+      const mcp = new NansenMcp('test-key', undefined, { ...SESSIONLESS, retry: { baseDelayMs: 1 }, onRetry });
+      const result = await mcp.callTool('general_search', { query: 'test' });
+
+      expect(result).toEqual({ ok: true });
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+        source: 'mcp',
+        target: 'general_search',
+        attempt: 1,
+        status: 502,
+      }));
+    });
+
+    it('should honor Retry-After on 429', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: new Headers({ 'retry-after': '0.05' }),
+          text: () => Promise.resolve(''),
+        })
+        .mockResolvedValueOnce(okResponse);
+
+      const onRetry = vi.fn();
+      const mcp = new NansenMcp('test-key', undefined, { ...SESSIONLESS, onRetry });
+      await mcp.callTool('general_search', { query: 'test' });
+
+      expect(onRetry.mock.calls[0][0].delayMs).toBe(50);
+    });
+
+    it('should not retry auth errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        headers: new Headers(),
+        text: () => Promise.resolve(''),
+      });
+
+      const mcp = new NansenMcp('test-key', undefined, { ...SESSIONLESS, retry: { baseDelayMs: 1 } });
+      await expect(mcp.callTool('general_search', { query: 'test' }))
+        .rejects.toThrow('MCP HTTP error: 401');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -197,7 +277,7 @@ data: {"notJsonRpc": true}
         json: () => Promise.resolve(jsonResponse),
       });
 
-      const mcp = new NansenMcp('test-key');
+      const mcp = new NansenMcp('test-key', undefined, SESSIONLESS);
       await mcp.search('AERO');
 
       expect(mockFetch).toHaveBeenCalledWith(
@@ -230,4 +310,147 @@ data: {"notJsonRpc": true}
       }
     });
   });
+
+  describe('session lifecycle', () => {
+    const TOOLS = [
+      {
+        name: 'general_search',
+        inputSchema: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+      },
+      { name: 'brand_new_tool', inputSchema: { type: 'object', properties: {} } },
+    ];
+
+    // failToolsList: true fails every tools/list, a number fails that many
+    function rpcServer(options: { expireFirstCall?: boolean; failToolsList?: boolean | number } = {}) {
+      let sessions = 0;
+      let listFailures = options.failToolsList === true ? Infinity : Number(options.failToolsList ?? 0);
+      let expired = !options.expireFirstCall;
+
+      return vi.fn(async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string);
+        const headers = init.headers as Record<string, string>;
+        const reply = (result: unknown, extra: Record<string, string> = {}) => ({
+          ok: true,
+          headers: new Headers({ 'content-type': 'application/json', ...extra }),
+          json: () => Promise.resolve({ jsonrpc: '2.0', id: body.id, result }),
+        });
+
+        switch (body.method) {
+          case 'initialize':
+            sessions++;
+            return reply({ protocolVersion: '2025-03-26', serverInfo: { name: 'nansen' } }, { 'mcp-session-id': `s${sessions}` });
+          case 'notifications/initialized':
+            return { ok: true, status: 202, headers: new Headers() };
+          case 'tools/list':
+            if (listFailures > 0) {
+              listFailures--;
+              return { ok: false, status: 500, statusText: 'Error', headers: new Headers(), text: () => Promise.resolve('') };
+            }
+            return reply({ tools: TOOLS });
+          default:
+            if (!expired && headers['Mcp-Session-Id'] === 's1') {
+              expired = true;
+              return { ok: false, status: 404, statusText: 'Not Found', headers: new Headers(), text: () => Promise.resolve('') };
+            }
+            return reply({ content: [{ type: 'text', text: JSON.stringify({ session: headers['Mcp-Session-Id'] }) }] });
+        }
+      });
+    }
+
+    const methods = (fetchFn: ReturnType<typeof rpcServer>) =>
+      fetchFn.mock.calls.map(c => JSON.parse(c[1].body as string).method);
+
+    it('should initialize once and reuse the session header', async () => {
+      const fetchFn = rpcServer();
+      const mcp = new NansenMcp('test-key', undefined, { transport: { fetch: fetchFn } });
+
+      await Promise.all([mcp.search('a'), mcp.search('b')]);
+      const result = await mcp.search('c');
+
+      expect(result).toEqual({ session: 's1' });
+      expect(methods(fetchFn).filter(m => m === 'initialize')).toHaveLength(1);
+      expect(methods(fetchFn).slice(0, 3)).toEqual(['initialize', 'notifications/initialized', 'tools/list']);
+      expect(mcp.getSession()).toMatchObject({ sessionId: 's1', serverInfo: { name: 'nansen' } });
+
+      const ids = fetchFn.mock.calls.map(c => JSON.parse(c[1].body as string).id).filter(Boolean);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should re-initialize when the session expires', async () => {
+      const fetchFn = rpcServer({ expireFirstCall: true });
+      const mcp = new NansenMcp('test-key', undefined, { transport: { fetch: fetchFn } });
+
+      const result = await mcp.search('AERO');
+
+      expect(result).toEqual({ session: 's2' });
+      expect(methods(fetchFn).filter(m => m === 'initialize')).toHaveLength(2);
+    });
+
+    it('should reject unknown tools and invalid arguments from tools/list', async () => {
+      const fetchFn = rpcServer();
+      const mcp = new NansenMcp('test-key', undefined, { transport: { fetch: fetchFn } });
+
+      await expect(mcp.callTool('token_ohlcv', { token: '0x1' })).rejects.toMatchObject({ code: 'UNKNOWN_TOOL' });
+      await expect(mcp.callTool('general_search', { query: 42 })).rejects.toThrow(NansenSchemaError);
+      await expect(mcp.callTool('brand_new_tool', {})).resolves.toEqual({ session: 's1' });
+      expect(mcp.getDiscoveredTools().map(t => t.name)).toEqual(['general_search', 'brand_new_tool']);
+    });
+
+    it('should call tools unchecked when discovery fails', async () => {
+      const fetchFn = rpcServer({ failToolsList: true });
+      const mcp = new NansenMcp('test-key', undefined, { transport: { fetch: fetchFn } });
+
+      await expect(mcp.callTool('token_ohlcv', { token: '0x1' })).resolves.toEqual({ session: 's1' });
+      expect(methods(fetchFn).filter(m => m === 'tools/list')).toHaveLength(1);
+    });
+
+    it('should retry discovery after a backoff instead of giving up', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const fetchFn = rpcServer({ failToolsList: 1 });
+        const mcp = new NansenMcp('test-key', undefined, { transport: { fetch: fetchFn } });
+        const lists = () => methods(fetchFn).filter(m => m === 'tools/list').length;
+
+        await mcp.callTool('token_ohlcv', { token: '0x1' });
+        await mcp.callTool('token_ohlcv', { token: '0x1' });
+        expect(lists()).toBe(1);
+
+        vi.advanceTimersByTime(30_000);
+        await expect(mcp.callTool('token_ohlcv', { token: '0x1' })).rejects.toMatchObject({ code: 'UNKNOWN_TOOL' });
+        expect(lists()).toBe(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should free the half-open probe when arguments fail validation', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const mcp = new NansenMcp('test-key', undefined, { transport: { fetch: rpcServer() } });
+        for (let i = 0; i < 10; i++) mcp.breaker!.record(['all'], new NansenMcpError('down', 'TIMEOUT'));
+        vi.advanceTimersByTime(30_000);
+
+        await expect(mcp.callTool('token_ohlcv', { token: '0x1' })).rejects.toMatchObject({ code: 'UNKNOWN_TOOL' });
+        expect(mcp.breaker!.getState('all')).toBe('half-open');
+        await expect(mcp.callTool('general_search', { query: 'AERO' })).resolves.toEqual({ session: 's1' });
+        expect(mcp.breaker!.getState('all')).toBe('closed');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not discover tools for calls the budget or breaker blocks', async () => {
+      const fetchFn = rpcServer();
+      const ledger = new CreditLedger({ budget: { daily: { hard: 0 } } });
+      const mcp = new NansenMcp('test-key', undefined, { transport: { fetch: fetchFn }, ledger });
+
+      await expect(mcp.callTool('token_ohlcv', { token: '0x1' })).rejects.toThrow(NansenBudgetError);
+
+      const tripped = new NansenMcp('test-key', undefined, { transport: { fetch: fetchFn } });
+      for (let i = 0; i < 10; i++) tripped.breaker!.record(['all'], new NansenMcpError('down', 'TIMEOUT'));
+      await expect(tripped.callTool('token_ohlcv', { token: '0x1' })).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+  });
 });
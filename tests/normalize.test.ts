@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toRows,
+  normalizeScreenerTokens,
+  normalizeNetflows,
+  normalizeHoldings,
+  normalizeTokenHolders,
+  normalizeDexTrades,
+  normalizeTokenFlows,
+  normalizeRelatedWallets,
+} from '../src/normalize.js';
+
+describe('toRows', () => {
+  it('should accept bare and wrapped JSON rows', () => {
+    expect(toRows([{ a: 1 }])).toEqual([{ a: 1 }]);
+    expect(toRows({ data: [{ a: 1 }, null, 'x'] })).toEqual([{ a: 1 }]);
+    expect(toRows({ summary: 'none' })).toEqual([]);
+    expect(toRows(null)).toEqual([]);
+  });
+
+  it('should key markdown rows by snake_case headers', () => {
+    const markdown = [
+      'Top holders for TOKEN:',
+      '',
+      '| Address | Address Label | Ownership % |',
+      '|:--------|---------------|------------:|',
+      '| 0xabc | Binance 14 | 12.5% |',
+      '| 0xdef |  | 3% |',
+      '',
+      'Data as of today',
+    ].join('\n');
+
+    expect(toRows(markdown)).toEqual([
+      { address: '0xabc', address_label: 'Binance 14', ownership: '12.5%' },
+      { address: '0xdef', ownership: '3%' },
+    ]);
+  });
+
+  it('should return no rows for text without a table', () => {
+    expect(toRows('No smart money activity found.')).toEqual([]);
+  });
+});
+
+describe('normalizers', () => {
+  it('should map screener columns by header, whatever their order', () => {
+    const markdown = [
+      '| Market Cap | Token | Chain | Volume 24h | Price | 24h Change | Contract |',
+      '|---|---|---|---|---|---|---|',
+      '| $1.2M | BONK | Solana | $350K | $0.000021 | -3.4% | DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263 |',
+      '| 45,000,000 | PEPE (0x6982508145454ce325ddbe47a25d4ec3d2311933) | | 1,234 | 0.0000012 | +12% | |',
+    ].join('\n');
+
+    expect(normalizeScreenerTokens(markdown, 'ethereum')).toEqual([
+      {
+        address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+        symbol: 'BONK',
+        name: undefined,
+        chain: 'solana',
+        price: 0.000021,
+        priceChange24h: -3.4,
+        volume24h: 350_000,
+        marketCap: 1_200_000,
+        holders: undefined,
+        liquidity: undefined,
+        netflowUsd: undefined,
+        smartMoneyFlow: undefined,
+      },
+      expect.objectContaining({
+        address: '0x6982508145454ce325ddbe47a25d4ec3d2311933',
+        symbol: 'PEPE',
+        chain: 'ethereum',
+        marketCap: 45_000_000,
+        volume24h: 1234,
+        priceChange24h: 12,
+      }),
+    ]);
+  });
+
+  it('should map JSON screener rows', () => {
+    expect(normalizeScreenerTokens([{ token_address: '0x1', token_symbol: 'HOT', chain: 'base', price: 1.5, net_flow_usd: 0 }], 'base'))
+      .toEqual([expect.objectContaining({ address: '0x1', symbol: 'HOT', chain: 'base', price: 1.5, netflowUsd: 0 })]);
+  });
+
+  it('should derive netflow fields like the API client', () => {
+    const [flow] = normalizeNetflows([
+      { token_address: '0x1', token_symbol: 'DUMP', net_flow_24h_usd: -2500, trader_count: 4, token_sectors: ['DeFi'] },
+    ], 'base');
+
+    expect(flow).toMatchObject({
+      token: '0x1',
+      symbol: 'DUMP',
+      name: 'DUMP',
+      chain: 'base',
+      netflow: -2500,
+      inflowUsd: 0,
+      outflowUsd: 2500,
+      buyersCount: 0,
+      sellersCount: 4,
+      sectors: ['DeFi'],
+    });
+  });
+
+  it('should skip rows without an identifier', () => {
+    expect(normalizeNetflows([{ token_symbol: 'NOADDR' }], 'base')).toEqual([]);
+    expect(normalizeHoldings([{ symbol: 'NOADDR' }], 'base')).toEqual([]);
+    expect(normalizeRelatedWallets([{ label: 'orphan' }])).toEqual([]);
+  });
+
+  it('should normalize holdings with defaults for missing numbers', () => {
+    expect(normalizeHoldings([{ address: '0x1', symbol: 'A', holder_count: 12 }], 'ethereum')).toEqual([{
+      token: '0x1',
+      symbol: 'A',
+      chain: 'ethereum',
+      holderCount: 12,
+      totalBalanceUsd: 0,
+      balanceChange24hUsd: 0,
+      balanceChange7dUsd: 0,
+      marketCap: 0,
+    }]);
+  });
+
+  it('should treat JSON ownership as a fraction and markdown ownership as a percent', () => {
+    expect(normalizeTokenHolders([{ address: '0x1', ownership_percentage: 0.25 }])[0].ownershipPercent).toBe(25);
+    expect(normalizeTokenHolders('| Address | Ownership % |\n|---|---|\n| 0x1 | 25% |')[0].ownershipPercent).toBe(25);
+  });
+
+  it('should keep only trades with a known side', () => {
+    const trades = normalizeDexTrades([
+      { tx_hash: '0xa', side: 'BUY', trader_address: '0xw', value_usd: 100, price_usd: 2 },
+      { tx_hash: '0xb', side: 'transfer' },
+    ]);
+
+    expect(trades).toEqual([{
+      txHash: '0xa',
+      timestamp: '',
+      trader: '0xw',
+      traderLabel: undefined,
+      side: 'buy',
+      tokenAmount: 0,
+      valueUsd: 100,
+      priceUsd: 2,
+    }]);
+  });
+
+  it('should derive net flow from inflow and outflow when missing', () => {
+    const [flow] = normalizeTokenFlows([{ segment: 'Smart Money', inflow_usd: 500, outflow_usd: 200 }]);
+    expect(flow).toMatchObject({ entity: 'Smart Money', netFlowUsd: 300, txCount: 0 });
+  });
+
+  it('should normalize related wallets', () => {
+    expect(normalizeRelatedWallets({ data: [{ address: '0x2', relationship: 'funder', tx_count: 3 }] })).toEqual([{
+      address: '0x2',
+      label: undefined,
+      relationship: 'funder',
+      txCount: 3,
+      totalValueUsd: 0,
+    }]);
+  });
+});
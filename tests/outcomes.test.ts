@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { measureOutcome, OutcomeTracker } from '../src/outcomes.js';
+import { SignalLog } from '../src/signal-log.js';
+import type { Candle } from '../src/scan.js';
+import type { OpportunitySignal } from '../src/types.js';
+
+const HOUR = 3600_000;
+const T0 = Date.parse('2026-01-01T00:00:00.000Z');
+const HORIZONS = { '1h': HOUR, '4h': 4 * HOUR };
+
+function signal(overrides: Partial<OpportunitySignal> = {}): OpportunitySignal {
+  return {
+    type: 'accumulation',
+    token: '0xabc',
+    symbol: 'ABC',
+    chain: 'base',
+    score: 5,
+    reason: '',
+    metrics: {},
+    timestamp: new Date(T0).toISOString(),
+    ...overrides,
+  };
+}
+
+// Hourly candles from T0, one [open, high, low, close] per hour
+function hourly(ohlc: Array<[number, number, number, number]>): Candle[] {
+  return ohlc.map(([open, high, low, close], i) => ({
+    time: new Date(T0 + i * HOUR).toISOString(), open, high, low, close,
+  }));
+}
+
+const CANDLES = hourly([
+  [100, 104, 99, 102],
+  [102, 103, 95, 96],
+  [96, 110, 96, 108],
+  [108, 112, 105, 110],
+  [110, 130, 70, 100],
+]);
+
+function tempLog(): SignalLog {
+  return new SignalLog(join(mkdtempSync(join(tmpdir(), 'nansen-outcomes-')), 'signals.json'), false);
+}
+
+describe('measureOutcome', () => {
+  it('should fill returns and excursions up to the longest horizon', () => {
+    const m = measureOutcome(signal(), CANDLES, HORIZONS, T0 + 10 * HOUR)!;
+
+    expect(m).toMatchObject({ side: 'long', emissionPrice: 100, exitPrice: 110, complete: true });
+    expect(m.returns['1h']).toBeCloseTo(2);
+    expect(m.returns['4h']).toBeCloseTo(10);
+    // The 5th candle is past 4h, so its 130/70 range is ignored
+    expect(m.maxFavorablePct).toBeCloseTo(12);
+    expect(m.maxAdversePct).toBeCloseTo(-5);
+  });
+
+  it('should leave horizons that have not closed yet and sign shorts', () => {
+    const m = measureOutcome(signal({ type: 'distribution' }), CANDLES, HORIZONS, T0 + 2 * HOUR + 30 * 60_000)!;
+
+    expect(m.complete).toBe(false);
+    expect(Object.keys(m.returns)).toEqual(['1h']);
+    expect(m.returns['1h']).toBeCloseTo(-2);
+    expect(m.maxFavorablePct).toBeCloseTo(5);
+    expect(m.maxAdversePct).toBeCloseTo(-4);
+  });
+
+  it('should need candles covering the emission', () => {
+    expect(measureOutcome(signal({ timestamp: '2025-12-31T00:00:00.000Z' }), CANDLES, HORIZONS)).toBeUndefined();
+    expect(measureOutcome(signal({ timestamp: '2026-02-01T00:00:00.000Z' }), CANDLES, HORIZONS)).toBeUndefined();
+  });
+});
+
+describe('OutcomeTracker', () => {
+  it('should record outcomes through the log so win rate reflects them', async () => {
+    const log = tempLog();
+    const win = log.log(signal());
+    const short = log.log(signal({ token: '0xdef', type: 'distribution' }));
+    const candles = vi.fn(async () => CANDLES);
+
+    const tracker = new OutcomeTracker(log, candles, { horizons: HORIZONS, maxAgeMs: Infinity });
+    const summary = await tracker.run();
+
+    expect(summary).toEqual({ checked: 2, updated: 2, completed: 2, pending: 0, failed: [] });
+    expect(log.get(win.id)!.outcome).toMatchObject({ side: 'long', entryPrice: 100, exitPrice: 110, pnlPercent: 10 });
+    expect(log.get(short.id)!.outcome).toMatchObject({ side: 'short', pnl: -10 });
+    expect(log.getStats().winRate).toBe(0.5);
+
+    // Complete signals aren't fetched again
+    expect(await tracker.run()).toMatchObject({ checked: 0 });
+    expect(candles).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep manual fills, wait for late candles and report failures', async () => {
+    const log = tempLog();
+    const manual = log.log(signal());
+    log.recordOutcome(manual.id, { action: 'buy', entryPrice: 101, exitPrice: 105 });
+    const fresh = log.log(signal({ token: '0xnew', timestamp: new Date(T0 + 24 * HOUR).toISOString() }));
+    const broken = log.log(signal({ token: '0xbad' }));
+
+    const tracker = new OutcomeTracker(log, async (token) => {
+      if (token === '0xbad') throw new Error('token_ohlcv failed');
+      return CANDLES;
+    }, { horizons: HORIZONS, maxAgeMs: Infinity });
+    const summary = await tracker.run();
+
+    expect(summary.pending).toBe(1);
+    expect(summary.failed).toEqual([{ id: broken.id, reason: 'token_ohlcv failed' }]);
+    expect(log.get(manual.id)!.outcome).toMatchObject({ action: 'buy', entryPrice: 101, exitPrice: 105, returns: { '4h': 10 } });
+    expect(log.get(fresh.id)!.outcome).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { paginate, collect } from '../src/paginate.js';
+import { NansenClient } from '../src/api.js';
+import { NansenMcp } from '../src/mcp.js';
+import { jsonResponse } from './helpers.js';
+
+function pages(sizes: number[]) {
+  return vi.fn(async (page: number) =>
+    Array.from({ length: sizes[page - 1] ?? 0 }, (_, i) => `${page}-${i}`)
+  );
+}
+
+describe('paginate', () => {
+  it('should fetch lazily and stop at a short page', async () => {
+    const fetchPage = pages([2, 2, 1, 2]);
+    const iterator = paginate(fetchPage, { pageSize: 2 });
+
+    expect(fetchPage).not.toHaveBeenCalled();
+    expect(await collect(iterator)).toEqual(['1-0', '1-1', '2-0', '2-1', '3-0']);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop at an empty page without a page size', async () => {
+    const fetchPage = pages([3, 1]);
+    expect(await collect(paginate(fetchPage))).toHaveLength(4);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should honor maxItems without fetching extra pages', async () => {
+    const fetchPage = pages([2, 2, 2]);
+    expect(await collect(paginate(fetchPage, { pageSize: 2, maxItems: 3 }))).toEqual(['1-0', '1-1', '2-0']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop before exceeding maxCredits', async () => {
+    const fetchPage = pages([2, 2, 2]);
+    const items = await collect(paginate(fetchPage, { pageSize: 2, creditsPerPage: 3, maxCredits: 7 }));
+    expect(items).toHaveLength(4);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should acquire the rate limiter at the page cost', async () => {
+    const rateLimiter = { acquire: vi.fn().mockResolvedValue(0) };
+    await collect(paginate(pages([1]), { pageSize: 1, maxPages: 1, creditsPerPage: 5, rateLimiter: rateLimiter as any }));
+    expect(rateLimiter.acquire).toHaveBeenCalledWith(5);
+  });
+});
+
+describe('iterators', () => {
+  it('NansenClient.iterateTokenTransfers should send pagination and walk pages', async () => {
+    const transfer = (from: string) => ({
+      tx_hash: `0x${from}`, timestamp: '2026-01-02T00:00:00Z', from_address: from, to_address: '0xb', token_amount: 1, value_usd: 1,
+    });
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ data: [transfer('0xa'), transfer('0xc')] }))
+      .mockResolvedValueOnce(jsonResponse({ data: [transfer('0xe')] }));
+    const client = new NansenClient('key', undefined, { transport: { fetch: fetchFn } });
+
+    const transfers = await collect(client.iterateTokenTransfers(
+      { chain: 'base', tokenAddress: '0xtoken', date: { from: '2026-01-01', to: '2026-01-31' }, perPage: 2 }
+    ));
+
+    expect(transfers.map(t => t.from)).toEqual(['0xa', '0xc', '0xe']);
+    const bodies = fetchFn.mock.calls.map(c => JSON.parse(c[1].body));
+    expect(bodies[0].pagination).toEqual({ page: 1, per_page: 2 });
+    expect(bodies[1].pagination).toEqual({ page: 2, per_page: 2 });
+    expect(bodies[1].date).toEqual({ from: '2026-01-01', to: '2026-01-31' });
+  });
+
+  it('NansenMcp.iterateTokenTransfers should request successive pages', async () => {
+    const fetchFn = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      const { params } = JSON.parse(init.body as string);
+      const rows = params.arguments.page === 1 ? [{ from: '0xa', to: '0xb' }] : [];
+      return Promise.resolve(jsonResponse({
+        jsonrpc: '2.0',
+        id: 1,
+        result: { content: [{ type: 'text', text: JSON.stringify(rows) }] },
+      }));
+    });
+    const mcp = new NansenMcp('key', undefined, { transport: { fetch: fetchFn }, session: false, discoverTools: false });
+
+    const rows = await collect(mcp.iterateTokenTransfers('0xtoken', 'base', { pageSize: 1, maxPages: 5 }));
+
+    expect(rows).toHaveLength(1);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PaperPortfolio, NansenPaperError } from '../src/paper.js';
+import { NansenTrader, type SuggestedAction, type TraderConfig } from '../src/trader.js';
+import { jsonResponse } from './helpers.js';
+
+const SESSIONLESS = { session: false, discoverTools: false };
+
+function tempPath(): string {
+  return join(mkdtempSync(join(tmpdir(), 'nansen-paper-')), 'paper.json');
+}
+
+function priceBook(initial: Record<string, number>) {
+  const prices = { ...initial };
+  const source = vi.fn(async (token: string) => {
+    if (prices[token] === undefined) throw new Error('no candles');
+    return prices[token];
+  });
+  return { prices, source };
+}
+
+function action(overrides: Partial<SuggestedAction> = {}): SuggestedAction {
+  return {
+    action: 'buy',
+    urgency: 'high',
+    reasoning: 'test',
+    targetChain: 'base',
+    targetToken: '0xabc',
+    positionSizeHint: 'medium',
+    ...overrides,
+  };
+}
+
+describe('PaperPortfolio', () => {
+  it('should fill with slippage and fees and track realized and unrealized PnL', async () => {
+    const { prices, source } = priceBook({ '0xabc': 2 });
+    const paper = new PaperPortfolio(source, { startingCash: 1000, slippageBps: 100, feeBps: 50 });
+
+    const buy = await paper.open('0xabc', 'base', { usd: 202 });
+    expect(buy).toMatchObject({ side: 'buy', marketPrice: 2, price: 2.02, fee: 1.01 });
+    expect(buy.quantity).toBeCloseTo(99.5);
+    expect(paper.getReport()).toMatchObject({ cash: 798, openPositions: 1 });
+
+    prices['0xabc'] = 3;
+    await paper.markToMarket();
+    expect(paper.getReport().unrealizedPnl).toBeCloseTo(99.5 * 3 - 202);
+
+    const sell = await paper.close('0xABC', { fraction: 0.5 });
+    expect(sell.price).toBeCloseTo(2.97);
+    const [trade] = paper.getClosedTrades();
+    expect(trade.costBasis).toBeCloseTo(101);
+    expect(trade.realizedPnl).toBeCloseTo(49.75 * 2.97 * 0.995 - 101);
+
+    const report = paper.getReport();
+    expect(report).toMatchObject({ openPositions: 1, closedTrades: 1, winRate: 1 });
+    expect(report.fees).toBeCloseTo(1.01 + 49.75 * 2.97 * 0.005);
+    expect(report.equity).toBeCloseTo(report.cash + 49.75 * 3);
+  });
+
+  it('should execute suggested actions sized from equity', async () => {
+    const { source } = priceBook({ '0xabc': 1 });
+    const paper = new PaperPortfolio(source, { startingCash: 10_000, slippageBps: 0, feeBps: 0 });
+
+    await paper.execute(action());
+    await paper.execute(action({ positionSizeHint: 'small' }), { signalId: 'sig-2' });
+    expect(paper.getPositions()[0]).toMatchObject({ id: 'base:0xabc', quantity: 500 + 200, costBasis: 700, signalIds: ['sig-2'] });
+
+    expect(await paper.execute(action({ sizeUsd: 125 }))).toMatchObject({ side: 'buy', notional: 125, quantity: 125 });
+
+    expect(await paper.execute(action({ action: 'wait' }))).toBeUndefined();
+    expect(await paper.execute(action({ action: 'sell', targetToken: '0xnone' }))).toBeUndefined();
+    expect(await paper.execute(action({ action: 'sell' }))).toMatchObject({ side: 'sell', quantity: 825 });
+    expect(paper.getPositions()).toEqual([]);
+  });
+
+  it('should reject orders it cannot fill', async () => {
+    const { source } = priceBook({ '0xabc': 1 });
+    const paper = new PaperPortfolio(source, { startingCash: 100 });
+
+    await expect(paper.open('0xdead', 'base', { usd: 10 })).rejects.toMatchObject({ code: 'NO_PRICE' });
+    await expect(paper.open('0xabc', 'base', { usd: -5 })).rejects.toMatchObject({ code: 'INVALID_ORDER' });
+    await expect(paper.close('0xabc')).rejects.toThrow(NansenPaperError);
+
+    await paper.open('0xabc', 'base', { usd: 500 });  // Capped at available cash
+    expect(paper.getReport().cash).toBe(0);
+    await expect(paper.open('0xabc', 'base', { usd: 10 })).rejects.toMatchObject({ code: 'INSUFFICIENT_CASH' });
+  });
+
+  it('should persist state to disk', async () => {
+    const path = tempPath();
+    const { source } = priceBook({ '0xabc': 4 });
+    const paper = new PaperPortfolio(source, { path, startingCash: 1000, feeBps: 0, slippageBps: 0 });
+    await paper.open('0xabc', 'base', { usd: 100, symbol: 'ABC' });
+
+    const reloaded = new PaperPortfolio(source, { path });
+    expect(reloaded.getPositions()[0]).toMatchObject({ symbol: 'ABC', quantity: 25 });
+    expect(reloaded.getReport()).toMatchObject({ startingCash: 1000, cash: 900 });
+
+    reloaded.reset(500);
+    expect(new PaperPortfolio(source, { path }).getReport()).toMatchObject({ cash: 500, openPositions: 0 });
+  });
+});
+
+describe('NansenTrader.paper', () => {
+  function createTrader(config: Partial<TraderConfig> = {}) {
+    const ohlcv = [
+      { t: '2026-01-01T01:00:00Z', o: 1, h: 1, l: 1, c: 1.25 },
+      { t: '2026-01-01T00:00:00Z', o: 1, h: 1, l: 1, c: 1 },
+    ];
+    const fetchFn = vi.fn((url: string) => {
+      if (!url.includes('mcp.nansen.ai')) {
+        return Promise.resolve(jsonResponse({ data: [
+          { token_address: '0xabc', token_symbol: 'ABC', chain: 'base', net_flow_24h_usd: 300000, net_flow_7d_usd: 900000, trader_count: 20 },
+        ] }));
+      }
+      return Promise.resolve(jsonResponse({
+        jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: JSON.stringify(ohlcv) }] },
+      }));
+    });
+    return new NansenTrader({
+      apiKey: 'key',
+      transport: { fetch: fetchFn as typeof fetch },
+      enableRateLimit: false,
+      enableSignalLog: false,
+      enableCreditLog: false,
+      enablePaperLog: false,
+      mcp: SESSIONLESS,
+      riskConfig: { minScore: 2, maxSignalsPerScan: 10, dedupeWindowMs: 0 },
+      paper: { startingCash: 1000, slippageBps: 0, feeBps: 0 },
+      ...config,
+    });
+  }
+
+  it('should paper-trade suggested actions at the latest OHLCV close', async () => {
+    const trader = createTrader();
+    const signals = await trader.scan({ chains: ['base'] });
+    const fills = await trader.paperTrade(signals);
+
+    // Sized by the sizing engine, not the portfolio's share of equity
+    expect(signals[0].suggestedAction.sizeUsd).toBe(200);
+    expect(fills).toHaveLength(1);
+    expect(fills[0]).toMatchObject({ side: 'buy', price: 1.25, notional: 200, signalId: signals[0].id });
+    expect(trader.getSignal(signals[0].id)).toMatchObject({
+      acted: true,
+      state: 'entered',
+      outcome: { action: 'buy', notes: 'paper', notionalUsd: 200 },
+    });
+  });
+
+  it('should write paper entries and closes back to the signal log', async () => {
+    const trader = createTrader();
+    const [signal] = await trader.scan({ chains: ['base'] });
+    const [fill] = await trader.paperTrade([signal]);
+
+    expect(trader.getSignal(signal.id)!.outcome).toMatchObject({ side: 'long', entryPrice: 1.25, executedAt: fill.timestamp });
+    expect(trader.getOpenPositions().map(p => p.id)).toEqual([signal.id]);
+
+    await trader.paper.close(fill.positionId, { fraction: 0.5 });
+    expect(trader.getOpenPositions()).toHaveLength(1);
+
+    await trader.paper.close(fill.positionId);
+    expect(trader.getSignal(signal.id)).toMatchObject({ state: 'exited', outcome: { exitPrice: 1.25, pnlPercent: 0 } });
+    expect(trader.getOpenPositions()).toEqual([]);
+  });
+
+  it('should not fill signals that can no longer be entered', async () => {
+    const trader = createTrader({ signalTtlMs: { accumulation: 0 } });
+
+    const signals = await trader.scan({ chains: ['base'] });
+    expect(await trader.paperTrade(signals)).toEqual([]);
+    expect(trader.paper.getPositions()).toEqual([]);
+    expect(trader.getSignal(signals[0].id)).toMatchObject({ acted: false, state: 'expired' });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { trace, recordCall, recordFallback } from '../src/provenance.js';
+import { Cache } from '../src/cache.js';
+import { NansenData } from '../src/data.js';
+import { jsonResponse } from './helpers.js';
+
+describe('trace', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report the first source and total credits', async () => {
+    const result = await trace(async () => {
+      recordCall('mcp', 'token_current_top_holders', 5);
+      recordCall('api', '/tgm/flows', 1);
+      return 'data';
+    });
+
+    expect(result).toMatchObject({ data: 'data', source: 'mcp', ageMs: 0, creditsSpent: 6 });
+    expect(result.fallbackReason).toBeUndefined();
+  });
+
+  it('should report the fallback source and reason', async () => {
+    const result = await trace(async () => {
+      recordFallback(new Error('MCP timeout'));
+      recordCall('api', '/tgm/holders', 1);
+      return [];
+    });
+
+    expect(result).toMatchObject({ source: 'api', creditsSpent: 1, fallbackReason: 'MCP timeout' });
+  });
+
+  it('should not record outside a trace or leak between traces', async () => {
+    recordCall('api', '/tgm/holders', 1);
+    const [a, b] = await Promise.all([
+      trace(async () => { recordCall('api', '/tgm/holders', 1); }),
+      trace(async () => { recordCall('mcp', 'token_ohlcv', 1); recordCall('mcp', 'token_ohlcv', 1); }),
+    ]);
+
+    expect(a).toMatchObject({ source: 'api', creditsSpent: 1 });
+    expect(b).toMatchObject({ source: 'mcp', creditsSpent: 2 });
+  });
+
+  it('should report cache hits with their age and origin', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const cache = new Cache(60 * 60 * 1000);
+    const fetcher = async () => {
+      recordFallback(new Error('MCP down'));
+      recordCall('api', '/tgm/holders', 1);
+      return 'holders';
+    };
+
+    const miss = await trace(() => cache.getOrFetch('holders', fetcher));
+    expect(miss).toMatchObject({ source: 'api', creditsSpent: 1 });
+
+    vi.setSystemTime(new Date('2026-01-01T00:09:00Z'));
+    const hit = await trace(() => cache.getOrFetch('holders', fetcher));
+
+    expect(hit).toEqual({
+      data: 'holders',
+      source: 'cache',
+      fetchedAt: '2026-01-01T00:00:00.000Z',
+      ageMs: 9 * 60 * 1000,
+      creditsSpent: 0,
+      fallbackReason: 'MCP down',
+      origin: 'api',
+    });
+  });
+});
+
+describe('NansenData.withProvenance', () => {
+  it('should explain an MCP failure that fell back to the API', async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        headers: new Headers({ 'content-type': 'text/plain' }),
+        text: () => Promise.resolve('bad request'),
+      })
+      .mockResolvedValueOnce(jsonResponse({ data: [{ address: '0xholder', ownership_percentage: 0.1, value_usd: 10 }] }));
+    const data = new NansenData({ apiKey: 'key', transport: { fetch: fetchFn }, mcp: { session: false, discoverTools: false } });
+
+    const result = await data.withProvenance(d => d.getTokenHolders('0xtoken', 'base'));
+
+    expect(result.source).toBe('api');
+    expect(result.creditsSpent).toBe(1);
+    expect(result.fallbackReason).toBeDefined();
+    expect(result.data[0].address).toBe('0xholder');
+  });
+});
+
+describe('NansenData analysis routes', () => {
+  it('should fall back to the API when every MCP analysis call fails', async () => {
+    const fetchFn = vi.fn(async (url: string) => url.includes('mcp.nansen.ai')
+      ? {
+        ok: false,
+        status: 400,
+        headers: new Headers({ 'content-type': 'text/plain' }),
+        text: () => Promise.resolve('bad request'),
+      } as unknown as Response
+      : jsonResponse({ data: [{ address: '0xholder', ownership_percentage: 0.1, value_usd: 10 }] }));
+    const data = new NansenData({
+      apiKey: 'key',
+      transport: { fetch: fetchFn },
+      mcp: { session: false, discoverTools: false },
+      routing: { getTokenInfo: { breaker: {} } },
+    });
+
+    const result = await data.withProvenance(d => d.getTokenInfo('0xtoken', 'base'));
+
+    expect(result.source).toBe('api');
+    expect(result.fallbackReason).toContain('getTokenInfo: every MCP call failed');
+    expect(result.data.holders[0]).toMatchObject({ address: '0xholder' });
+    expect(data.getBreakerStats().routes.find(r => r.key === 'getTokenInfo:mcp')).toMatchObject({ calls: 1, failures: 1 });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  withRetry,
+  getRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  DEFAULT_RETRY_POLICY,
+} from '../src/retry.js';
+
+function httpError(status: number, retryAfterMs?: number) {
+  return Object.assign(new Error(`HTTP ${status}`), { code: `HTTP_${status}`, status, retryAfterMs });
+}
+
+describe('retry', () => {
+  describe('isRetryableError', () => {
+    it('should retry configured statuses only', () => {
+      expect(isRetryableError(httpError(429), DEFAULT_RETRY_POLICY)).toBe(true);
+      expect(isRetryableError(httpError(502), DEFAULT_RETRY_POLICY)).toBe(true);
+      expect(isRetryableError(httpError(401), DEFAULT_RETRY_POLICY)).toBe(false);
+      expect(isRetryableError(httpError(422), DEFAULT_RETRY_POLICY)).toBe(false);
+    });
+
+    it('should retry network errors unless disabled', () => {
+      const error = Object.assign(new Error('timeout'), { code: 'TIMEOUT' });
+      expect(isRetryableError(error, DEFAULT_RETRY_POLICY)).toBe(true);
+      expect(isRetryableError(error, resolveRetryPolicy({ retryOnNetworkError: false }))).toBe(false);
+    });
+
+    it('should not retry unknown errors', () => {
+      expect(isRetryableError(new Error('boom'), DEFAULT_RETRY_POLICY)).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially without jitter', () => {
+      const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: 0 });
+      expect(getRetryDelay(policy, 1)).toBe(100);
+      expect(getRetryDelay(policy, 2)).toBe(200);
+      expect(getRetryDelay(policy, 3)).toBe(400);
+    });
+
+    it('should cap at maxDelayMs', () => {
+      const policy = resolveRetryPolicy({ baseDelayMs: 1000, maxDelayMs: 1500, jitter: 0 });
+      expect(getRetryDelay(policy, 5)).toBe(1500);
+      expect(getRetryDelay(policy, 1, 60000)).toBe(1500);
+    });
+
+    it('should keep jittered delay within bounds', () => {
+      const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: 0.5 });
+      for (let i = 0; i < 20; i++) {
+        const delay = getRetryDelay(policy, 1);
+        expect(delay).toBeGreaterThanOrEqual(50);
+        expect(delay).toBeLessThanOrEqual(100);
+      }
+    });
+
+    it('should prefer Retry-After', () => {
+      expect(getRetryDelay(DEFAULT_RETRY_POLICY, 1, 2000)).toBe(2000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const date = new Date(Date.now() + 5000).toUTCString();
+      const ms = parseRetryAfter(date)!;
+      expect(ms).toBeGreaterThan(3000);
+      expect(ms).toBeLessThanOrEqual(5000);
+    });
+
+    it('should ignore missing or invalid headers', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('withRetry', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 1, jitter: 0 });
+
+    it('should return on first success', async () => {
+      const op = vi.fn().mockResolvedValue('ok');
+      await expect(withRetry(op, { policy, source: 'api', target: '/x' })).resolves.toBe('ok');
+      expect(op).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry until success and call the hook', async () => {
+      const op = vi.fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce('ok');
+      const onRetry = vi.fn();
+
+      await expect(withRetry(op, { policy, source: 'api', target: '/x', onRetry })).resolves.toBe('ok');
+      expect(op).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[1][0]).toMatchObject({ attempt: 2, status: 503, target: '/x' });
+    });
+
+    it('should rethrow the last error after maxAttempts', async () => {
+      const op = vi.fn().mockRejectedValue(httpError(502));
+      await expect(withRetry(op, { policy, source: 'mcp', target: 'tool' })).rejects.toThrow('HTTP 502');
+      expect(op).toHaveBeenCalledTimes(policy.maxAttempts);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const op = vi.fn().mockRejectedValue(httpError(403));
+      await expect(withRetry(op, { policy, source: 'mcp', target: 'tool' })).rejects.toThrow('HTTP 403');
+      expect(op).toHaveBeenCalledTimes(1);
+    });
+  });
+});
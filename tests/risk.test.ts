@@ -0,0 +1,228 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { evaluateRisk, applyTokenData, needsTokenData, evaluatePortfolio, portfolioState } from '../src/risk.js';
+import { SignalLog } from '../src/signal-log.js';
+import { NansenTrader, type RiskConfig, type TradingSignal } from '../src/trader.js';
+import type { OpportunitySignal } from '../src/types.js';
+import { jsonResponse, mcpResponse } from './helpers.js';
+
+const SESSIONLESS = { session: false, discoverTools: false };
+
+const RISK: RiskConfig = {
+  minScore: 2,
+  maxSignalsPerScan: 10,
+  dedupeWindowMs: 0,
+  minLiquidity: 10000,
+  minHolders: 100,
+  minMcap: 1_000_000,
+  maxMcap: 500_000_000,
+  minSmartMoneyBuyers: 3,
+};
+
+function signal(metrics: Record<string, number>, overrides: Partial<OpportunitySignal> = {}): OpportunitySignal {
+  return {
+    type: 'accumulation',
+    token: '0xabc',
+    symbol: 'ABC',
+    chain: 'base',
+    score: 5,
+    reason: '',
+    metrics,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('evaluateRisk', () => {
+  it('should report every failed filter', () => {
+    const rejections = evaluateRisk(signal({ liquidity: 5000, holders: 40, marketCap: 600_000_000, buyers: 1 }), RISK);
+
+    expect(rejections.map(r => r.filter)).toEqual(['minSmartMoneyBuyers', 'minLiquidity', 'minHolders', 'maxMcap']);
+    expect(rejections[1].reason).toBe('Liquidity $5.00K below $10.00K');
+  });
+
+  it('should skip filters whose metric is unknown', () => {
+    expect(evaluateRisk(signal({ marketCap: 0 }), RISK)).toEqual([]);
+    expect(needsTokenData(signal({ marketCap: 0 }), RISK)).toBe(true);
+    expect(needsTokenData(signal({ marketCap: 2e6, holders: 500, liquidity: 1e5 }), RISK)).toBe(false);
+  });
+
+  it('should not apply buyer counts to distribution signals', () => {
+    expect(evaluateRisk(signal({ buyers: 0, sellers: 8 }, { type: 'distribution' }), RISK)).toEqual([]);
+  });
+
+  it('should keep existing metrics when applying token data', () => {
+    const enriched = applyTokenData(
+      signal({ marketCap: 2e6 }),
+      { address: '0xabc', symbol: 'ABC', chain: 'base', marketCap: 9e9, holders: 300, liquidity: 50000 }
+    );
+
+    expect(enriched.metrics).toEqual({ marketCap: 2e6, holders: 300, liquidity: 50000 });
+  });
+});
+
+describe('NansenTrader risk filters', () => {
+  it('should enrich from the screener and search, then record rejections', async () => {
+    const fetchFn = vi.fn((url: string, init: RequestInit) => {
+      if (!url.includes('mcp.nansen.ai')) {
+        return Promise.resolve(jsonResponse({ data: [
+          { token_address: '0xgood', token_symbol: 'GOOD', chain: 'base', net_flow_24h_usd: 200000, trader_count: 12 },
+          { token_address: '0xthin', token_symbol: 'THIN', chain: 'base', net_flow_24h_usd: 150000, trader_count: 10 },
+          { token_address: '0xfew', token_symbol: 'FEW', chain: 'base', net_flow_24h_usd: 150000, trader_count: 1 },
+        ] }));
+      }
+
+      const { params } = JSON.parse(String(init.body));
+      if (params.name === 'token_discovery_screener') {
+        return Promise.resolve(mcpResponse([
+          '| Token | Address | Market Cap | Liquidity | Holders |',
+          '|---|---|---|---|---|',
+          '| GOOD | 0xgood | $25M | $1.2M | 4,200 |',
+        ].join('\n')));
+      }
+      // general_search for the token the screener didn't list
+      return Promise.resolve(mcpResponse(JSON.stringify([
+        { token_address: '0xthin', token_symbol: 'THIN', chain: 'base', market_cap: 3_000_000, liquidity_usd: 2500, holders: 900 },
+      ])));
+    });
+
+    const trader = new NansenTrader({
+      apiKey: 'key',
+      transport: { fetch: fetchFn as typeof fetch },
+      enableRateLimit: false,
+      enableSignalLog: false,
+      enableCreditLog: false,
+      mcp: SESSIONLESS,
+      riskConfig: { minMcap: 1_000_000 },
+    });
+
+    const signals = await trader.scan({ chains: ['base'] });
+
+    expect(signals.map(s => s.symbol)).toEqual(['GOOD']);
+    expect(signals[0].metrics).toMatchObject({ marketCap: 25_000_000, liquidity: 1_200_000, holders: 4200, buyers: 12 });
+
+    const rejected = trader.getRejectedSignals();
+    expect(rejected.map(r => [r.signal.symbol, r.rejections.map(x => x.filter)])).toEqual([
+      ['FEW', ['minSmartMoneyBuyers']],
+      ['THIN', ['minLiquidity']],
+    ]);
+    expect(trader.getStats().rejections).toEqual({ total: 2, byFilter: { minSmartMoneyBuyers: 1, minLiquidity: 1 } });
+
+    // FEW was rejected before enrichment, so only THIN needed a search
+    const searches = fetchFn.mock.calls.filter(([, init]) => String(init?.body).includes('general_search'));
+    expect(searches).toHaveLength(1);
+  });
+});
+
+function entry(token: string, overrides: Partial<TradingSignal> = {}): TradingSignal {
+  return {
+    ...signal({}, { token, symbol: token.toUpperCase() }),
+    id: token,
+    loggedAt: '2026-01-01T00:00:00.000Z',
+    acted: false,
+    riskScore: 3,
+    riskFactors: [],
+    recommendation: 'strong_buy',
+    confidence: 0.8,
+    strategy: 'default',
+    scoreBreakdown: [],
+    riskBreakdown: [],
+    sectors: ['AI'],
+    positionSize: { usd: 200, fraction: 0.02, method: 'fixed', hint: 'medium', rationale: [] },
+    ...overrides,
+  };
+}
+
+describe('portfolio limits', () => {
+  it('should count acted-on buys without an exit and the latest loss streak', () => {
+    const log = new SignalLog(join(mkdtempSync(join(tmpdir(), 'nansen-risk-')), 'signals.json'), false);
+    const open = log.log(entry('0xopen', { timestamp: '2026-01-01T01:00:00.000Z' }));
+    const win = log.log(entry('0xwin', { timestamp: '2026-01-01T02:00:00.000Z' }));
+    const loss = log.log(entry('0xloss', { timestamp: '2026-01-01T03:00:00.000Z' }));
+    log.log(entry('0xwatched', { timestamp: '2026-01-01T04:00:00.000Z' }));
+
+    log.markActed(open.id, 'buy');
+    log.recordOutcome(open.id, { entryPrice: 1, notionalUsd: 350 });
+    log.markActed(win.id, 'buy');
+    log.recordOutcome(win.id, { entryPrice: 1, exitPrice: 2, exitedAt: '2026-01-02T00:00:00.000Z' });
+    log.markActed(loss.id, 'buy');
+    log.recordOutcome(loss.id, { entryPrice: 1, exitPrice: 0.5, exitedAt: '2026-01-03T00:00:00.000Z' });
+
+    const state = portfolioState(log.find({ acted: true }));
+
+    expect(state.open).toEqual([{ signalId: open.id, chain: 'base', token: '0xopen', sectors: ['AI'], notionalUsd: 350 }]);
+    expect(state.consecutiveLosses).toBe(1);
+    expect(state.lastExitAt).toBe(Date.parse('2026-01-03T00:00:00.000Z'));
+  });
+
+  it('should name every limit a new entry breaks', () => {
+    const position = { signalId: 'a', chain: 'base' as const, token: '0xa', sectors: ['AI', 'Meme'], notionalUsd: 900 };
+    const state = { open: [position], consecutiveLosses: 2, lastExitAt: Date.parse('2026-01-01T00:00:00.000Z') };
+    const limits: RiskConfig = {
+      ...RISK,
+      maxOpenPositions: 1,
+      maxOpenPerChain: 1,
+      maxOpenPerSector: 1,
+      maxExposureUsd: 1000,
+      lossCooldownMs: 6 * 3600_000,
+      lossCooldownAfter: 2,
+    };
+
+    const rejections = evaluatePortfolio(entry('0xnew'), state, limits, Date.parse('2026-01-01T01:00:00.000Z'));
+
+    expect(rejections.map(r => r.filter)).toEqual([
+      'lossCooldown', 'maxOpenPositions', 'maxOpenPerChain', 'maxOpenPerSector', 'maxExposureUsd',
+    ]);
+    expect(rejections[0].reason).toBe('2 losing exit(s) in a row, cooling down until 2026-01-01T06:00:00.000Z');
+    expect(rejections[3].reason).toBe('1 open positions in AI, max 1');
+    expect(rejections[4].reason).toBe('Exposure $900.00 + $200.00 exceeds $1.00K');
+
+    // Cooldown over, other chain and sector, smaller size
+    const later = Date.parse('2026-01-01T07:00:00.000Z');
+    const other = entry('0xother', { chain: 'ethereum', sectors: ['DeFi'], positionSize: undefined, suggestedAction: undefined });
+    expect(evaluatePortfolio(other, state, { ...limits, maxOpenPositions: 2 }, later)).toEqual([]);
+  });
+
+  it('should reject scan entries past the sector limit, counting held positions', async () => {
+    const fetchFn = vi.fn((url: string) => {
+      if (!url.includes('mcp.nansen.ai')) {
+        return Promise.resolve(jsonResponse({ data: ['0xa', '0xb', '0xc', '0xd'].map((token, i) => ({
+          token_address: token,
+          token_symbol: token.toUpperCase(),
+          chain: 'base',
+          net_flow_24h_usd: 400000 - i * 10000,
+          net_flow_7d_usd: 900000,
+          trader_count: 20,
+          token_sectors: token === '0xd' ? ['DeFi'] : ['AI'],
+        })) }));
+      }
+      return Promise.resolve(mcpResponse('[]'));
+    });
+    const trader = new NansenTrader({
+      apiKey: 'key',
+      transport: { fetch: fetchFn as typeof fetch },
+      enableRateLimit: false,
+      enableSignalLog: false,
+      enableCreditLog: false,
+      enablePaperLog: false,
+      mcp: SESSIONLESS,
+      riskConfig: { minScore: 2, maxSignalsPerScan: 10, dedupeWindowMs: 0, maxOpenPerSector: 2 },
+    });
+
+    // Within one scan, entries picked earlier count against the limit
+    const first = await trader.scan({ chains: ['base'] });
+    expect(first.map(s => s.symbol)).toEqual(['0XA', '0XB', '0XD']);
+    expect(trader.getRejectedSignals().map(r => [r.signal.symbol, r.rejections[0].reason])).toEqual([
+      ['0XC', '2 open positions in AI, max 2'],
+    ]);
+
+    // Held positions count on later scans
+    trader.markActed(first[0].id, 'buy');
+    trader.markActed(first[1].id, 'buy');
+    const second = await trader.scan({ chains: ['base'] });
+    expect(second.map(s => s.symbol)).toEqual(['0XD']);
+    expect(trader.getStats().rejections.byFilter).toEqual({ maxOpenPerSector: 4 });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { writeFileSync, unlinkSync, existsSync } from 'fs';
+import { join } from 'path';
+import { resolveRouting, loadRoutingConfig, NansenRoutingError, DEFAULT_ROUTING } from '../src/routing.js';
+import { NansenData } from '../src/data.js';
+import { jsonResponse, mcpResponse } from './helpers.js';
+
+const TEST_ROUTING_PATH = join(process.cwd(), '.test-routing.json');
+const SESSIONLESS = { session: false, discoverTools: false };
+
+describe('resolveRouting', () => {
+  afterEach(() => {
+    if (existsSync(TEST_ROUTING_PATH)) {
+      unlinkSync(TEST_ROUTING_PATH);
+    }
+  });
+
+  it('should default to the original MCP-first and API-first routes', () => {
+    const table = resolveRouting();
+    expect(table.getTokenInfo.sources).toEqual(['mcp', 'api']);
+    expect(table.getSmartMoneyNetflow.sources).toEqual(['api', 'mcp']);
+    expect(table.screenTokens.sources).toEqual(['mcp']);
+    expect(table.getWalletBalances.sources).toEqual(['api']);
+    expect(table).toEqual(DEFAULT_ROUTING);
+  });
+
+  it('should apply the legacy flags before explicit entries', () => {
+    const table = resolveRouting(
+      { getTokenHolders: { sources: ['mcp'], timeoutMs: 5000 } },
+      { preferMcp: false, fallbackToApi: false }
+    );
+
+    expect(table.getTokenInfo.sources).toEqual(['api']);
+    expect(table.getSmartMoneyNetflow.sources).toEqual(['api']);
+    expect(table.screenTokens.sources).toEqual(['mcp']);
+    expect(table.getTokenHolders).toEqual({ sources: ['mcp'], timeoutMs: 5000 });
+  });
+
+  it('should reject unknown methods and unsupported sources', () => {
+    expect(() => resolveRouting({ getEverything: {} } as never)).toThrow(NansenRoutingError);
+    expect(() => resolveRouting({ screenTokens: { sources: ['api'] } })).toThrow('screenTokens cannot use api');
+    expect(() => resolveRouting({ getTokenInfo: { sources: [] } })).toThrow('at least one source');
+    expect(() => resolveRouting({ getTokenInfo: { timeoutMs: 'fast' } } as never)).toThrow('routing.getTokenInfo.timeoutMs');
+  });
+
+  it('should load routing from a JSON file', () => {
+    writeFileSync(TEST_ROUTING_PATH, JSON.stringify({ getWalletBalances: { sources: ['mcp'] } }));
+
+    expect(loadRoutingConfig(TEST_ROUTING_PATH)).toEqual({ getWalletBalances: { sources: ['mcp'] } });
+
+    const data = new NansenData({ apiKey: 'key', routing: TEST_ROUTING_PATH });
+    expect(data.routing.getWalletBalances.sources).toEqual(['mcp']);
+  });
+});
+
+describe('NansenData routing', () => {
+  it('should route wallet balances to MCP only', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(mcpResponse({
+      holdings: [
+        { chain: 'base', token_address: '0xa', token_symbol: 'A', token_amount: 2, value_usd: 20 },
+        { chain: 'ethereum', token_address: '0xb', token_symbol: 'B', value_usd: 5 },
+      ],
+    }));
+    const data = new NansenData({
+      apiKey: 'key',
+      transport: { fetch: fetchFn },
+      mcp: SESSIONLESS,
+      routing: { getWalletBalances: { sources: ['mcp'] } },
+    });
+
+    const balances = await data.getWalletBalances('0xwallet', 'base');
+
+    expect(balances).toEqual([{ chain: 'base', token: '0xa', symbol: 'A', name: 'A', amount: 2, priceUsd: 0, valueUsd: 20 }]);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(fetchFn.mock.calls[0][0]).toContain('mcp.nansen.ai');
+  });
+
+  it('should skip sources over the credit cap', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({ data: [] }));
+    const data = new NansenData({
+      apiKey: 'key',
+      transport: { fetch: fetchFn },
+      mcp: SESSIONLESS,
+      routing: { getTokenInfo: { maxCredits: 5 } },
+    });
+
+    // MCP analyzeToken (13 credits) is skipped; the API analysis runs instead
+    await data.getTokenInfo('0xtoken', 'base');
+
+    expect(fetchFn.mock.calls.every(([url]) => !String(url).includes('mcp.nansen.ai'))).toBe(true);
+    expect(data.planTokenInfo().calls.map(c => c.label)).toEqual(['api.getTokenAnalysis']);
+  });
+
+  it('should fall back when a source exceeds its timeout', async () => {
+    const fetchFn = vi.fn((url: string) => String(url).includes('mcp.nansen.ai')
+      ? new Promise(() => {})
+      : Promise.resolve(jsonResponse({ data: [{ address: '0xholder', ownership_percentage: 0.5, value_usd: 100 }] })));
+    const data = new NansenData({
+      apiKey: 'key',
+      transport: { fetch: fetchFn as typeof fetch, timeoutMs: 60000 },
+      mcp: SESSIONLESS,
+      routing: { getTokenHolders: { timeoutMs: 20 } },
+    });
+
+    const { data: holders, source, fallbackReason } = await data.withProvenance(d => d.getTokenHolders('0xtoken', 'base'));
+
+    expect(source).toBe('api');
+    expect(fallbackReason).toContain('timed out after 20ms');
+    expect(holders[0].ownershipPercent).toBe(50);
+  });
+
+  it('should explain when no source can serve a call', async () => {
+    const data = new NansenData({ apiKey: 'key', routing: { getRelatedWallets: { sources: ['api'] } } });
+
+    await expect(data.getRelatedWallets('0xwallet')).rejects.toThrow('Chain required');
+  });
+});
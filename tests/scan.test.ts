@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  netflowAcceleration,
+  isAccelerating,
+  priceVolumeExpansion,
+  isExpansion,
+  countFreshWallets,
+  type Candle,
+} from '../src/scan.js';
+import { normalizeCandles } from '../src/normalize.js';
+import { NansenClient } from '../src/api.js';
+import { NansenData } from '../src/data.js';
+import type { SmartMoneyNetflow } from '../src/types.js';
+import { jsonResponse, mcpResponse } from './helpers.js';
+
+const SESSIONLESS = { session: false, discoverTools: false };
+
+function flow(overrides: Partial<SmartMoneyNetflow>): SmartMoneyNetflow {
+  return {
+    token: '0x1', symbol: 'T', name: 'T', chain: 'base', netflow: 240000, netflowUsd: 240000,
+    inflow: 240000, inflowUsd: 240000, outflow: 0, outflowUsd: 0, buyersCount: 5, sellersCount: 0,
+    traderCount: 5, sectors: [], timestamp: '', netflow1h: 30000, netflow7d: 840000, ...overrides,
+  };
+}
+
+function candles(closes: number[], volumes: number[]): Candle[] {
+  return closes.map((close, i) => ({ open: close, high: close, low: close, close, volume: volumes[i] }));
+}
+
+// 1h 30K vs 10K/h over 24h (3x), 24h 10K/h vs 5K/h over 7d (2x)
+const ACCELERATING_ROW = {
+  token_address: '0xfast', token_symbol: 'FAST', chain: 'base',
+  net_flow_1h_usd: 30000, net_flow_24h_usd: 240000, net_flow_7d_usd: 840000, trader_count: 8,
+};
+const STEADY_ROW = {
+  token_address: '0xslow', token_symbol: 'SLOW', chain: 'base',
+  net_flow_1h_usd: 10000, net_flow_24h_usd: 240000, net_flow_7d_usd: 840000, trader_count: 8,
+};
+
+describe('breakout detectors', () => {
+  it('should measure netflow acceleration across 1h, 24h and 7d', () => {
+    const acceleration = netflowAcceleration(flow({}))!;
+
+    expect(acceleration.acceleration1h).toBeCloseTo(3);
+    expect(acceleration.acceleration24h).toBeCloseTo(2);
+    expect(isAccelerating(acceleration)).toBe(true);
+
+    expect(isAccelerating(netflowAcceleration(flow({ netflow1h: 10000 }))!)).toBe(false);
+    expect(isAccelerating(netflowAcceleration(flow({ netflow7d: -50000 }))!)).toBe(true);
+    expect(netflowAcceleration(flow({ netflow1h: undefined }))).toBeUndefined();
+    expect(netflowAcceleration(flow({ netflow1h: -100 }))).toBeUndefined();
+  });
+
+  it('should detect a close above the prior range on expanding volume', () => {
+    const breakout = priceVolumeExpansion(candles([10, 11, 10, 11, 12, 13], [100, 100, 100, 100, 200, 400]))!;
+
+    expect(breakout.rangeBreakPct).toBeCloseTo(((13 - 11) / 11) * 100);
+    expect(breakout.volumeRatio).toBeCloseTo(2.33, 1);
+    expect(isExpansion(breakout)).toBe(true);
+
+    const quiet = priceVolumeExpansion(candles([10, 11, 10, 11, 12, 13], [100, 100, 100, 100, 100, 100]))!;
+    expect(isExpansion(quiet)).toBe(false);
+    expect(priceVolumeExpansion(candles([1, 2, 3], [1, 1, 1]))).toBeUndefined();
+  });
+
+  it('should normalize OHLCV from JSON and markdown', () => {
+    expect(normalizeCandles({ candles: [{ t: '2026-01-01T00:00:00Z', o: 1, h: 2, l: 0.5, c: 1.5, v: 100 }] })).toEqual([
+      { time: '2026-01-01T00:00:00Z', open: 1, high: 2, low: 0.5, close: 1.5, volume: 100 },
+    ]);
+    expect(normalizeCandles('| Time | Open | High | Low | Close | Volume |\n|---|---|---|---|---|---|\n| 10:00 | $1.0 | $1.2 | $0.9 | $1.1 | $1.5M |')[0])
+      .toMatchObject({ close: 1.1, volume: 1_500_000 });
+  });
+});
+
+describe('fresh wallet detectors', () => {
+  it('should count unique fresh holders and buyers', () => {
+    const activity = countFreshWallets(
+      [
+        { address: '0xA', label: 'Fresh Wallet' },
+        { address: '0xB', label: 'Binance 14' },
+        { address: '0xC', label: '🆕 Fresh Wallet [0xC]' },
+      ],
+      [
+        { entity: '0xa', label: 'Fresh Wallet', buyVolumeUsd: 5000 },
+        { entity: '0xD', label: 'fresh wallet', buyVolumeUsd: 2500 },
+        { entity: '0xE', label: 'Fresh Wallet', buyVolumeUsd: 0 },
+        { entity: '0xF', label: 'Smart Trader', buyVolumeUsd: 9000 },
+      ]
+    );
+
+    expect(activity).toEqual({ freshWallets: 3, freshBuyers: 2, freshHolders: 2, freshBuyVolumeUsd: 7500 });
+  });
+});
+
+describe('scanOpportunities modes', () => {
+  it('should only report accelerating tokens as breakouts on the API', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({ data: [ACCELERATING_ROW, STEADY_ROW] }));
+    const client = new NansenClient('key', undefined, { transport: { fetch: fetchFn } });
+
+    const signals = await client.scanOpportunities({ chain: 'base', mode: 'breakout' });
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0]).toMatchObject({ type: 'breakout', symbol: 'FAST' });
+    expect(signals[0].metrics.acceleration1h).toBeCloseTo(3);
+    expect(signals[0].metrics.netflow1h).toBe(30000);
+  });
+
+  it('should populate metrics.freshWallets from holders and who-bought-sold', async () => {
+    const fetchFn = vi.fn((url: string) => {
+      if (url.endsWith('/smart-money/netflow')) return Promise.resolve(jsonResponse({ data: [ACCELERATING_ROW, STEADY_ROW] }));
+      if (url.endsWith('/tgm/holders')) {
+        return Promise.resolve(jsonResponse({ data: [{ address: '0xh1', address_label: 'Fresh Wallet', ownership_percentage: 0.01, value_usd: 10 }] }));
+      }
+      return Promise.resolve(jsonResponse({ data: [
+        { entity: '0xb1', entity_label: 'Fresh Wallet', buy_volume_usd: 4000, sell_volume_usd: 0, net_volume_usd: 4000 },
+      ] }));
+    });
+    const client = new NansenClient('key', undefined, { transport: { fetch: fetchFn as typeof fetch } });
+
+    const signals = await client.scanOpportunities({ chain: 'base', mode: 'fresh-wallets', limit: 2 });
+
+    expect(signals).toHaveLength(2);
+    expect(signals[0].type).toBe('fresh-wallets');
+    expect(signals[0].metrics).toMatchObject({ freshWallets: 2, freshBuyers: 1, freshHolders: 1, freshBuyVolumeUsd: 4000 });
+    expect(fetchFn).toHaveBeenCalledTimes(5);
+    expect(client.planScanOpportunities({ chain: 'base', mode: 'fresh-wallets', limit: 2 }).credits).toBe(5);
+  });
+
+  it('should confirm breakouts with OHLCV in NansenData', async () => {
+    const expanding = [10, 11, 10, 11, 12, 13].map((c, i) => ({ c, h: c, o: c, l: c, v: i < 4 ? 100 : 400 }));
+    const flat = [10, 11, 10, 11, 10, 10].map(c => ({ c, h: c, o: c, l: c, v: 100 }));
+    const fetchFn = vi.fn((url: string, init: RequestInit) => {
+      if (!url.includes('mcp.nansen.ai')) {
+        return Promise.resolve(jsonResponse({ data: [ACCELERATING_ROW, { ...ACCELERATING_ROW, token_address: '0xflat', token_symbol: 'FLAT' }] }));
+      }
+      const { params } = JSON.parse(String(init.body));
+      return Promise.resolve(mcpResponse(params.arguments.token === '0xfast' ? expanding : flat));
+    });
+    const data = new NansenData({ apiKey: 'key', transport: { fetch: fetchFn as typeof fetch }, mcp: SESSIONLESS });
+
+    const signals = await data.scanOpportunities({ chain: 'base', mode: 'breakout' });
+
+    expect(signals.map(s => s.symbol)).toEqual(['FAST']);
+    expect(signals[0].metrics).toMatchObject({ priceConfirmed: 1, volumeRatio: 3 });
+    expect(signals[0].reason).toContain('above range');
+  });
+});
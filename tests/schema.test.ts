@@ -0,0 +1,195 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateRows,
+  validatePayload,
+  checkRow,
+  checkJsonSchema,
+  NansenSchemaError,
+  type RowSchema,
+} from '../src/schema.js';
+import { NansenClient } from '../src/api.js';
+import { NansenMcp } from '../src/mcp.js';
+
+const schema: RowSchema = {
+  name: 'test',
+  fields: {
+    token_address: 'string',
+    net_flow_24h_usd: 'number',
+    token_sectors: 'string[]?',
+    side: 'string?',
+  },
+  enums: { side: ['buy', 'sell'] },
+};
+
+describe('schema', () => {
+  describe('checkRow', () => {
+    it('should accept valid rows and missing optional fields', () => {
+      expect(checkRow({ token_address: '0x1', net_flow_24h_usd: 5 }, schema, 'data[0]')).toEqual([]);
+      expect(checkRow({ token_address: '0x1', net_flow_24h_usd: 5, token_sectors: null }, schema, 'data[0]')).toEqual([]);
+    });
+
+    it('should report missing required fields with their path', () => {
+      const issues = checkRow({ token_address: '0x1' }, schema, 'data[2]');
+      expect(issues).toEqual([
+        { schema: 'test', path: 'data[2].net_flow_24h_usd', expected: 'number', received: 'undefined' },
+      ]);
+    });
+
+    it('should report wrong types, array items and enums', () => {
+      const issues = checkRow(
+        { token_address: 1, net_flow_24h_usd: '5', token_sectors: ['defi', 3], side: 'hold' },
+        schema,
+        'data[0]'
+      );
+      expect(issues.map(i => i.path)).toEqual([
+        'data[0].token_address',
+        'data[0].net_flow_24h_usd',
+        'data[0].token_sectors',
+        'data[0].side',
+      ]);
+    });
+
+    it('should enforce oneOf groups', () => {
+      const aliased: RowSchema = { name: 'alias', fields: {}, oneOf: [['token_address', 'address']] };
+      expect(checkRow({ address: '0x1' }, aliased, 'r')).toEqual([]);
+      expect(checkRow({ symbol: 'X' }, aliased, 'r')).toHaveLength(1);
+    });
+  });
+
+  describe('validateRows', () => {
+    const rows = [
+      { token_address: '0x1', net_flow_24h_usd: 1 },
+      { token_address: '0x2', net_flow_usd: 2 },
+      { token_address: '0x3', net_flow_24h_usd: 3 },
+    ];
+
+    it('should drop bad rows in lenient mode', () => {
+      const result = validateRows(rows, schema, 'lenient');
+      expect(result.data).toHaveLength(2);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].path).toBe('data[1].net_flow_24h_usd');
+    });
+
+    it('should throw NansenSchemaError naming the field in strict mode', () => {
+      expect(() => validateRows(rows, schema, 'strict')).toThrow(NansenSchemaError);
+      try {
+        validateRows(rows, schema, 'strict');
+      } catch (error) {
+        expect((error as NansenSchemaError).path).toBe('data[1].net_flow_24h_usd');
+        expect((error as NansenSchemaError).schema).toBe('test');
+      }
+    });
+
+    it('should skip checks when off', () => {
+      expect(validateRows(rows, schema, 'off').data).toHaveLength(3);
+    });
+
+    it('should treat missing data as empty and non-arrays as errors', () => {
+      expect(validateRows(undefined, schema).data).toEqual([]);
+      expect(validateRows({ oops: true }, schema).errors[0].expected).toBe('array');
+      expect(() => validateRows('text', schema, 'strict')).toThrow('expected array');
+    });
+  });
+
+  describe('validatePayload', () => {
+    it('should validate rows wrapped in a container object', () => {
+      const { payload, errors } = validatePayload(
+        { candles: [{ token_address: '0x1', net_flow_24h_usd: 1 }, { token_address: '0x2' }], interval: '1h' },
+        schema
+      );
+      expect((payload as any).candles).toHaveLength(1);
+      expect((payload as any).interval).toBe('1h');
+      expect(errors[0].path).toBe('result.candles[1].net_flow_24h_usd');
+    });
+
+    it('should pass text payloads through', () => {
+      expect(validatePayload('| Token | Price |', schema).payload).toBe('| Token | Price |');
+    });
+  });
+
+  describe('checkJsonSchema', () => {
+    const input = {
+      type: 'object',
+      properties: {
+        token: { type: 'string' },
+        limit: { type: 'integer' },
+        chains: { type: 'array', items: { type: 'string', enum: ['base', 'ethereum'] } },
+      },
+      required: ['token'],
+      additionalProperties: false,
+    };
+
+    it('should accept valid arguments', () => {
+      expect(checkJsonSchema({ token: '0x1', limit: 5, chains: ['base'] }, input, 'tool')).toEqual([]);
+    });
+
+    it('should report missing, mistyped, unknown and out-of-enum arguments', () => {
+      const issues = checkJsonSchema({ limit: 1.5, chains: ['solana'], extra: true }, input, 'tool');
+      expect(issues.map(i => i.path)).toEqual([
+        'arguments.token',
+        'arguments.limit',
+        'arguments.chains[0]',
+        'arguments.extra',
+      ]);
+    });
+
+    it('should accept any matching anyOf branch', () => {
+      const schema = { anyOf: [{ type: 'string' }, { type: 'null' }] };
+      expect(checkJsonSchema(null, schema, 'tool')).toEqual([]);
+      expect(checkJsonSchema(1, schema, 'tool')).toHaveLength(1);
+    });
+  });
+
+  describe('client integration', () => {
+    const rawNetflow = {
+      data: [
+        { token_address: '0x1', token_symbol: 'A', chain: 'base', net_flow_24h_usd: 100, trader_count: 1 },
+        { token_address: '0x2', token_symbol: 'B', chain: 'base', netflow_24h: 100, trader_count: 1 },
+      ],
+    };
+
+    it('NansenClient should drop and record bad rows in lenient mode', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(rawNetflow) });
+      const onErrors = vi.fn();
+      const client = new NansenClient('key', undefined, {
+        transport: { fetch: fetchFn },
+        validation: { mode: 'lenient', onErrors },
+      });
+
+      const result = await client.getSmartMoneyNetflow({ chain: 'base' });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].token).toBe('0x1');
+      expect(onErrors).toHaveBeenCalledTimes(1);
+      expect(client.getSchemaErrors()[0].path).toBe('data[1].net_flow_24h_usd');
+    });
+
+    it('NansenClient should throw in strict mode', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(rawNetflow) });
+      const client = new NansenClient('key', undefined, {
+        transport: { fetch: fetchFn },
+        validation: { mode: 'strict' },
+      });
+
+      await expect(client.getSmartMoneyNetflow({ chain: 'base' })).rejects.toThrow(NansenSchemaError);
+    });
+
+    it('NansenMcp should validate structured tool results', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({
+          jsonrpc: '2.0',
+          id: 1,
+          result: { content: [{ type: 'text', text: JSON.stringify([{ address: '0xa', value_usd: 1 }, { value_usd: 2 }]) }] },
+        }),
+      });
+      const mcp = new NansenMcp('key', undefined, { transport: { fetch: fetchFn } });
+
+      const holders = await mcp.getTokenHolders('0xtoken', 'base') as unknown[];
+
+      expect(holders).toHaveLength(1);
+      expect(mcp.getSchemaErrors()[0].schema).toBe('token_current_top_holders');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DEFAULT_STRATEGY,
+  createWeightedStrategy,
+  loadScoringConfig,
+  netflowScore,
+  NansenScoringError,
+  type ScoringStrategy,
+} from '../src/scoring.js';
+import { NansenTrader } from '../src/trader.js';
+import type { OpportunitySignal } from '../src/types.js';
+import { jsonResponse } from './helpers.js';
+
+function signal(metrics: Record<string, number>, overrides: Partial<OpportunitySignal> = {}): OpportunitySignal {
+  return {
+    type: 'accumulation',
+    token: '0xabc',
+    symbol: 'ABC',
+    chain: 'base',
+    score: 0,
+    reason: '',
+    metrics,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function createTrader(fetchFn: ReturnType<typeof vi.fn>, scoring?: ConstructorParameters<typeof NansenTrader>[0]['scoring']) {
+  return new NansenTrader({
+    apiKey: 'key',
+    transport: { fetch: fetchFn as typeof fetch },
+    enableRateLimit: false,
+    enableSignalLog: false,
+    enableCreditLog: false,
+    riskConfig: { minScore: 2, maxSignalsPerScan: 10, dedupeWindowMs: 0 },
+    scoring,
+  });
+}
+
+const ROWS = [
+  { token_address: '0xbig', token_symbol: 'BIG', chain: 'base', net_flow_24h_usd: 300000, net_flow_7d_usd: 900000, trader_count: 20 },
+  { token_address: '0xsmall', token_symbol: 'SMALL', chain: 'base', net_flow_24h_usd: 60000, trader_count: 4 },
+];
+
+describe('DEFAULT_STRATEGY', () => {
+  it('should break the netflow score into netflow, traders and trend', () => {
+    const { score, factors } = netflowScore(300000, 20, 900000);
+
+    expect(score).toBe(5 + 3 + 2);
+    expect(factors.map(f => [f.name, f.contribution])).toEqual([['netflow', 5], ['traders', 3], ['trend', 2]]);
+    expect(netflowScore(-100000, 5, 40000).factors[2].contribution).toBe(0);
+  });
+
+  it('should rescore netflow signals and keep detector scores for other modes', () => {
+    expect(DEFAULT_STRATEGY.scoreOpportunity(signal({ netflow24h: 100000, traderCount: 10 })).score).toBe(4);
+    expect(DEFAULT_STRATEGY.scoreOpportunity(signal({ freshWallets: 4 }, { type: 'fresh-wallets', score: 6.5 })).score).toBe(6.5);
+  });
+
+  it('should keep the original riskScore thresholds', () => {
+    const strong = DEFAULT_STRATEGY.assess(signal({ buyers: 9, sellers: 2, netflow24h: 200000 }, { score: 6 }));
+    expect(strong).toMatchObject({ riskScore: 4, recommendation: 'strong_buy', confidence: 0.8 });
+    expect(strong.riskFactors).toEqual(['Strong buyer/seller ratio', 'High netflow']);
+
+    expect(DEFAULT_STRATEGY.assess(signal({}, { score: 4 })).recommendation).toBe('buy');
+    expect(DEFAULT_STRATEGY.assess(signal({ buyers: 1, sellers: 3 }, { score: 1 }))).toMatchObject({ riskScore: -1, recommendation: 'avoid' });
+  });
+});
+
+describe('createWeightedStrategy', () => {
+  const strategy = createWeightedStrategy({
+    name: 'flow-heavy',
+    factors: {
+      flow: { metric: 'netflow24h', scale: 50000, cap: 4, weight: 2 },
+      fresh: { metric: 'freshWallets', weight: 0.5, modes: ['fresh-wallets'] },
+      liquidity: { metric: 'liquidity', scale: 1e6, cap: 1 },
+    },
+    thresholds: { strongBuy: 8, buy: 4 },
+  });
+
+  it('should weight, scale and cap each factor', () => {
+    const { score, factors } = strategy.scoreOpportunity(signal({ netflow24h: -500000, freshWallets: 10 }, { type: 'distribution' }));
+
+    expect(score).toBe(8);
+    expect(factors).toEqual([
+      { name: 'flow', value: -500000, contribution: 8, weight: 2 },
+      { name: 'liquidity', value: 0, contribution: 0, weight: 1, note: 'liquidity unknown' },
+    ]);
+  });
+
+  it('should map the score to a recommendation through the thresholds', () => {
+    expect(strategy.assess(signal({}, { score: 8 }))).toMatchObject({ recommendation: 'strong_buy', riskScore: 3 });
+    expect(strategy.assess(signal({}, { score: 5 })).recommendation).toBe('buy');
+    expect(strategy.assess(signal({}, { score: 2 })).recommendation).toBe('watch');
+    expect(strategy.assess(signal({}, { score: 1 })).recommendation).toBe('avoid');
+  });
+
+  it('should reject invalid configs', () => {
+    expect(() => createWeightedStrategy({ factors: {} })).toThrow('at least one factor');
+    expect(() => createWeightedStrategy({ factors: { x: { metric: 'a', scale: 0 } } })).toThrow(NansenScoringError);
+    expect(() => createWeightedStrategy({ factors: { x: { metric: 'a', wieght: 2 } } } as never))
+      .toThrow('Invalid scoring config at scoring.factors.x.wieght');
+  });
+
+  it('should load from a JSON file', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'nansen-scoring-')), 'scoring.json');
+    writeFileSync(path, JSON.stringify({ factors: { traders: { metric: 'traderCount' } } }));
+
+    expect(loadScoringConfig(path)).toEqual({ factors: { traders: { metric: 'traderCount' } } });
+  });
+});
+
+describe('NansenTrader scoring', () => {
+  it('should score with the default strategy and attach breakdowns', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({ data: ROWS }));
+    const trader = createTrader(fetchFn);
+
+    const signals = await trader.scan({ chains: ['base'] });
+
+    expect(signals.map(s => [s.symbol, s.score])).toEqual([['BIG', 10], ['SMALL', 2]]);
+    expect(signals[0]).toMatchObject({ strategy: 'default', score: 10, recommendation: 'strong_buy' });
+    expect(signals[0].scoreBreakdown.map(f => f.name)).toEqual(['netflow', 'traders', 'trend']);
+    expect(signals[0].riskBreakdown.find(f => f.name === 'highScore')?.contribution).toBe(2);
+  });
+
+  it('should use a weighted config and per-scan registered strategies', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({ data: ROWS }));
+    const trader = createTrader(fetchFn, { factors: { traders: { metric: 'traderCount' } }, thresholds: { buy: 3 } });
+
+    const weighted = await trader.scan({ chains: ['base'] });
+    expect(weighted.map(s => [s.symbol, s.score, s.recommendation])).toEqual([['BIG', 20, 'strong_buy'], ['SMALL', 4, 'buy']]);
+    expect(trader.getScoringStrategy().name).toBe('weighted');
+
+    const flat: ScoringStrategy = {
+      name: 'flat',
+      scoreOpportunity: () => ({ score: 3, factors: [] }),
+      assess: () => ({ riskScore: 0, recommendation: 'watch', confidence: 0.5, riskFactors: [], factors: [] }),
+    };
+    trader.registerScoringStrategy(flat);
+
+    const signals = await trader.scan({ chains: ['base'], strategy: 'flat' });
+    expect(signals.every(s => s.strategy === 'flat' && s.recommendation === 'watch')).toBe(true);
+    expect(trader.listScoringStrategies()).toEqual(['default', 'weighted', 'flat']);
+    expect(() => trader.useScoringStrategy('missing')).toThrow('Unknown scoring strategy: missing');
+  });
+
+  it('should rescore from the scan score on every pass and break down that same score', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({ data: ROWS }));
+    const trader = createTrader(fetchFn, { factors: { scan: { metric: 'score', weight: 2 } } });
+
+    const [big] = await trader.scan({ chains: ['base'] });
+
+    expect(big).toMatchObject({ symbol: 'BIG', baseScore: 10, score: 20 });
+    expect(big.scoreBreakdown.reduce((sum, f) => sum + f.contribution, 0)).toBe(big.score);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { SignalLog, type LoggedSignal } from '../src/signal-log.js';
-import { unlinkSync, existsSync } from 'fs';
+import { SignalLog, NansenSignalStateError, type LoggedSignal } from '../src/signal-log.js';
+import { unlinkSync, existsSync, writeFileSync, readFileSync } from 'fs';
 import { join } from 'path';
 import type { OpportunitySignal } from '../src/types.js';
 
@@ -207,6 +207,21 @@ describe('SignalLog', () => {
       expect(stats.byChain['base']).toBe(1);
     });
 
+    it('should average wins and losses separately', () => {
+      const win = log.log(createTestSignal({ token: '0xaaa' }));
+      const loss = log.log(createTestSignal({ token: '0xbbb' }));
+      const bigLoss = log.log(createTestSignal({ token: '0xccc' }));
+
+      log.recordOutcome(win.id, { entryPrice: 100, exitPrice: 130 });
+      log.recordOutcome(loss.id, { entryPrice: 100, exitPrice: 90 });
+      log.recordOutcome(bigLoss.id, { entryPrice: 100, exitPrice: 70 });
+
+      const stats = log.getStats();
+
+      expect(stats.avgWinPercent).toBeCloseTo(30);
+      expect(stats.avgLossPercent).toBeCloseTo(20);
+    });
+
     it('should handle empty log', () => {
       const stats = log.getStats();
 
@@ -267,6 +282,80 @@ describe('SignalLog', () => {
     });
   });
 
+  describe('lifecycle', () => {
+    it('should walk new -> watching -> entered -> exited with a timestamp per transition', () => {
+      const logged = log.log(createTestSignal());
+      expect(logged.state).toBe('new');
+
+      log.transition(logged.id, 'watching', 'on radar');
+      log.markActed(logged.id, 'buy');
+      log.recordOutcome(logged.id, { entryPrice: 1, exitPrice: 2 });
+
+      const signal = log.get(logged.id)!;
+      expect(signal.state).toBe('exited');
+      expect(signal.transitions.map(t => t.state)).toEqual(['new', 'watching', 'entered', 'exited']);
+      expect(signal.transitions[1].reason).toBe('on radar');
+      expect(signal.transitions.every(t => !Number.isNaN(Date.parse(t.at)))).toBe(true);
+    });
+
+    it('should reject transitions the lifecycle does not allow', () => {
+      const logged = log.log(createTestSignal());
+
+      expect(() => log.transition(logged.id, 'exited')).toThrow(NansenSignalStateError);
+      log.markActed(logged.id, 'skip');
+      expect(log.get(logged.id)!.state).toBe('rejected');
+
+      const error = (() => { try { log.markActed(logged.id, 'buy'); } catch (e) { return e; } })();
+      expect(error).toMatchObject({ signalId: logged.id, from: 'rejected', to: 'entered' });
+      expect(log.transition('unknown', 'watching')).toBeUndefined();
+    });
+
+    it('should expire new signals after their mode TTL and filter by state', () => {
+      const ttlLog = new SignalLog(TEST_LOG_PATH, false, { breakout: 1000 });
+      const breakout = ttlLog.log(createTestSignal({ type: 'breakout' }));
+      const accumulation = ttlLog.log(createTestSignal({ token: '0xaaa' }));
+      const later = Date.parse(breakout.loggedAt) + 2000;
+
+      expect(ttlLog.expire(later).map(s => s.id)).toEqual([breakout.id]);
+      expect(breakout.transitions[1]).toMatchObject({ state: 'expired', at: breakout.expiresAt });
+      expect(ttlLog.find({ states: ['new'] }).map(s => s.id)).toEqual([accumulation.id]);
+      expect(ttlLog.find({ states: ['expired'] })).toHaveLength(1);
+      expect(ttlLog.getStats().byState).toEqual({ new: 1, expired: 1 });
+      expect(() => ttlLog.markActed(breakout.id, 'buy')).toThrow(/expired and cannot move to entered/);
+    });
+
+    it('should expire on reads in memory and persist only on writes', () => {
+      const ttlLog = new SignalLog(TEST_LOG_PATH, true, { accumulation: 0 });
+      const signal = ttlLog.log(createTestSignal());
+      const saved = readFileSync(TEST_LOG_PATH, 'utf-8');
+
+      expect(ttlLog.find({ states: ['expired'] }).map(s => s.id)).toEqual([signal.id]);
+      expect(readFileSync(TEST_LOG_PATH, 'utf-8')).toBe(saved);
+
+      ttlLog.log(createTestSignal({ token: '0xaaa' }));
+      expect(new SignalLog(TEST_LOG_PATH, false).get(signal.id)!.state).toBe('expired');
+    });
+
+    it('should derive states for signals logged before lifecycles existed', () => {
+      const legacy = (id: string, extra: Partial<LoggedSignal>) => ({
+        ...createTestSignal(), id, loggedAt: new Date().toISOString(), acted: false, ...extra,
+      });
+      writeFileSync(TEST_LOG_PATH, JSON.stringify([
+        legacy('a', {}),
+        legacy('b', { acted: true, outcome: { action: 'buy', entryPrice: 1 } }),
+        legacy('c', { acted: true, outcome: { action: 'buy', entryPrice: 1, exitPrice: 2 } }),
+        legacy('d', { acted: true, outcome: { action: 'skip' } }),
+        legacy('e', { loggedAt: '2020-01-01T00:00:00.000Z' }),
+      ]));
+
+      const loaded = new SignalLog(TEST_LOG_PATH, false);
+      const states = Object.fromEntries(loaded.find().map(s => [s.id, s.state]));
+
+      expect(states).toEqual({ a: 'new', b: 'entered', c: 'exited', d: 'rejected', e: 'expired' });
+      expect(loaded.get('b')!.transitions.map(t => t.state)).toEqual(['new', 'entered']);
+    });
+  });
+
   describe('clear', () => {
     it('should remove all signals', () => {
       log.log(createTestSignal({ token: '0x111' }));
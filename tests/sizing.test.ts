@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { sizePosition, kellyFraction, type SizableSignal } from '../src/sizing.js';
+import { NansenTrader, type TraderConfig } from '../src/trader.js';
+import { jsonResponse } from './helpers.js';
+
+const SESSIONLESS = { session: false, discoverTools: false };
+
+const STRONG: SizableSignal = { recommendation: 'strong_buy', chain: 'base', token: '0xAbC' };
+const STATS = { winRate: 0.6, withOutcome: 30, avgWinPercent: 20, avgLossPercent: 10 };
+
+function createTrader(config: TraderConfig, closes: number[]) {
+  const ohlcv = closes.map((c, i) => ({ t: new Date(Date.UTC(2026, 0, 1, i)).toISOString(), o: c, h: c, l: c, c }));
+  const fetchFn = vi.fn((url: string) => {
+    if (!url.includes('mcp.nansen.ai')) {
+      return Promise.resolve(jsonResponse({ data: [
+        { token_address: '0xabc', token_symbol: 'ABC', chain: 'base', net_flow_24h_usd: 300000, net_flow_7d_usd: 900000, trader_count: 20 },
+      ] }));
+    }
+    return Promise.resolve(jsonResponse({
+      jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: JSON.stringify(ohlcv) }] },
+    }));
+  });
+  return new NansenTrader({
+    apiKey: 'key',
+    transport: { fetch: fetchFn as typeof fetch },
+    enableRateLimit: false,
+    enableSignalLog: false,
+    enableCreditLog: false,
+    enablePaperLog: false,
+    mcp: SESSIONLESS,
+    riskConfig: { minScore: 2, maxSignalsPerScan: 10, dedupeWindowMs: 0 },
+    ...config,
+  });
+}
+
+describe('sizePosition', () => {
+  it('should size fixed-fractional by conviction', () => {
+    expect(sizePosition(STRONG)).toMatchObject({ usd: 200, fraction: 0.02, method: 'fixed', hint: 'medium' });
+
+    const buy = sizePosition({ ...STRONG, recommendation: 'buy' }, {}, { bankrollUsd: 5000 });
+    expect(buy).toMatchObject({ usd: 50, hint: 'small' });
+    expect(buy.rationale).toEqual(['fixed 2.00% of $5000', 'buy conviction x0.5']);
+    expect(sizePosition({ ...STRONG, recommendation: 'watch' }).usd).toBe(0);
+  });
+
+  it('should target volatility and fall back to fixed without a reading', () => {
+    expect(sizePosition(STRONG, { volatilityPct: 5 }, { method: 'volatility' })).toMatchObject({
+      usd: 500, method: 'volatility', hint: 'large',
+    });
+    // Calm tokens hit the bankroll cap
+    expect(sizePosition(STRONG, { volatilityPct: 1 }, { method: 'volatility' })).toMatchObject({ usd: 1000, fraction: 0.1 });
+    expect(sizePosition(STRONG, {}, { method: 'volatility' })).toMatchObject({ usd: 200, method: 'fixed' });
+  });
+
+  it('should bet a fraction of Kelly once enough outcomes exist', () => {
+    expect(kellyFraction(0.6, 20, 10)).toBeCloseTo(0.4);
+    expect(kellyFraction(0.6, 20, 0)).toBeUndefined();
+
+    expect(sizePosition(STRONG, { stats: STATS }, { method: 'kelly' })).toMatchObject({ usd: 1000, method: 'kelly' });
+    expect(sizePosition(STRONG, { stats: STATS }, { method: 'kelly', kellyFraction: 0.1 }).usd).toBeCloseTo(400);
+    expect(sizePosition(STRONG, { stats: { ...STATS, winRate: 0.2 } }, { method: 'kelly' }).usd).toBe(0);
+    expect(sizePosition(STRONG, { stats: { ...STATS, withOutcome: 5 } }, { method: 'kelly' })).toMatchObject({ usd: 200, method: 'fixed' });
+  });
+
+  it('should apply chain and token caps and the minimum size', () => {
+    expect(sizePosition(STRONG, {}, { chainCapsUsd: { base: 150 } }).usd).toBe(150);
+
+    const capped = sizePosition(STRONG, {}, { chainCapsUsd: { base: 150 }, tokenCapsUsd: { 'base:0xabc': 75 } });
+    expect(capped.usd).toBe(75);
+    expect(capped.rationale.slice(-2)).toEqual(['base cap $150', 'token cap $75']);
+
+    expect(sizePosition(STRONG, {}, { tokenCapsUsd: { '0xABC': 5 } })).toMatchObject({ usd: 0, fraction: 0 });
+  });
+});
+
+describe('NansenTrader sizing', () => {
+  it('should size buy actions from OHLCV volatility', async () => {
+    const closes = [100, 102, 100, 102, 100];
+    const trader = createTrader({ sizing: { method: 'volatility', targetVolatilityPct: 0.1 } }, closes);
+
+    const [signal] = await trader.scan({ chains: ['base'] });
+    const volatility = trader.agent.data.calculateVolatility(closes.map(close => ({ close })))!;
+
+    expect(signal.positionSize).toMatchObject({ method: 'volatility' });
+    expect(signal.positionSize!.usd).toBeCloseTo(10_000 * 0.1 / volatility, 1);
+    expect(signal.suggestedAction).toMatchObject({ action: 'buy', sizeUsd: signal.positionSize!.usd });
+  });
+
+  it('should turn actions that size to zero into waits', async () => {
+    const trader = createTrader({ sizing: { tokenCapsUsd: { '0xabc': 5 } } }, [1, 1]);
+
+    const [signal] = await trader.scan({ chains: ['base'] });
+
+    expect(signal.positionSize?.usd).toBe(0);
+    expect(signal.suggestedAction).toMatchObject({ action: 'wait', sizeUsd: 0 });
+    expect(signal.suggestedAction!.reasoning).toContain('below the $10 minimum');
+  });
+});
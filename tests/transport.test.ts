@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HttpTransport, DEFAULT_USER_AGENT } from '../src/transport.js';
+import { NansenClient } from '../src/api.js';
+import { NansenMcp } from '../src/mcp.js';
+import { NansenData } from '../src/data.js';
+import { jsonResponse } from './helpers.js';
+
+describe('HttpTransport', () => {
+  it('should use the injected fetch with default headers and user agent', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({}));
+    const transport = new HttpTransport({
+      fetch: fetchFn,
+      headers: { 'X-Trace': 'abc' },
+    });
+
+    await transport.request('https://example.test', { headers: { 'Content-Type': 'application/json' } });
+
+    const [, init] = fetchFn.mock.calls[0];
+    expect(init.headers).toEqual({
+      'User-Agent': DEFAULT_USER_AGENT,
+      'X-Trace': 'abc',
+      'Content-Type': 'application/json',
+    });
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should let request headers override defaults', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({}));
+    const transport = new HttpTransport({ fetch: fetchFn, userAgent: 'my-agent/2', headers: { apiKey: 'default' } });
+
+    await transport.request('https://example.test', { headers: { apiKey: 'real' } });
+
+    const [, init] = fetchFn.mock.calls[0];
+    expect(init.headers['User-Agent']).toBe('my-agent/2');
+    expect(init.headers.apiKey).toBe('real');
+  });
+
+  it('should abort after timeoutMs', async () => {
+    const fetchFn = vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      });
+    }));
+    const transport = new HttpTransport({ fetch: fetchFn, timeoutMs: 10 });
+
+    await expect(transport.request('https://example.test')).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should keep the timeout running while send() reads the body', async () => {
+    const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => ({
+      ok: true,
+      json: () => new Promise((_, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+        });
+      }),
+    }) as unknown as Response);
+    const transport = new HttpTransport({ fetch: fetchFn, timeoutMs: 10 });
+
+    await expect(transport.send('https://example.test', {}, r => r.json())).rejects.toMatchObject({ name: 'AbortError' });
+
+    const client = new NansenClient('key', undefined, { transport: { fetch: fetchFn, timeoutMs: 10 }, retry: { maxAttempts: 1 } });
+    await expect(client.getSmartMoneyNetflow({ chain: 'base' })).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+});
+
+describe('transport injection', () => {
+  it('NansenClient should send requests through the transport', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({ data: [] }));
+    const client = new NansenClient('key', undefined, { transport: { fetch: fetchFn } });
+
+    await client.getSmartMoneyNetflow({ chain: 'base' });
+
+    expect(fetchFn).toHaveBeenCalledWith(
+      'https://api.nansen.ai/api/v1/smart-money/netflow',
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('NansenClient should map transport timeouts to TIMEOUT', async () => {
+    const fetchFn = vi.fn().mockRejectedValue(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+    const client = new NansenClient('key', undefined, {
+      transport: { fetch: fetchFn },
+      retry: { maxAttempts: 1 },
+    });
+
+    await expect(client.getSmartMoneyNetflow({ chain: 'base' })).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+
+  it('NansenMcp should send tool calls through the transport', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { content: [{ type: 'text', text: '{"ok":true}' }] },
+    }));
+    const mcp = new NansenMcp('key', undefined, { transport: { fetch: fetchFn, userAgent: 'agent/1' } });
+
+    await expect(mcp.search('AERO')).resolves.toEqual({ ok: true });
+    expect(fetchFn.mock.calls[0][1].headers['User-Agent']).toBe('agent/1');
+  });
+
+  it('NansenData should pass the transport to both clients', async () => {
+    const fetchFn = vi.fn().mockImplementation((url: string) => Promise.resolve(
+      url.includes('mcp.nansen.ai')
+        ? jsonResponse({ jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: '[]' }] } })
+        : jsonResponse({ data: [] })
+    ));
+    const data = new NansenData({ apiKey: 'key', transport: { fetch: fetchFn } });
+
+    await data.search('AERO');
+    await data.getSmartMoneyDexTrades({ chain: 'base' });
+
+    const urls = fetchFn.mock.calls.map(c => c[0] as string);
+    expect(urls.some(u => u.includes('mcp.nansen.ai'))).toBe(true);
+    expect(urls.some(u => u.includes('api.nansen.ai'))).toBe(true);
+  });
+});